@@ -5,6 +5,7 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 /**
  * @title GugoVoteManager - "Taste Machine" NFT Aesthetic Voting
@@ -44,12 +45,22 @@ contract GugoVoteManager is Ownable, ReentrancyGuard {
         uint256 xpValue;               // XP value of this vote (1 or 10)
     }
     
+    struct VoteBatch {
+        bytes32 merkleRoot;            // Root over every off-chain vote in the period
+        uint256 periodStart;           // Unix seconds, inclusive
+        uint256 periodEnd;             // Unix seconds, exclusive
+        uint256 voteCount;             // Leaves in the tree
+        uint256 anchoredAt;            // When the root was anchored
+    }
+    
     // ============ STORAGE ============
     
     mapping(address => User) public users;
     mapping(uint256 => NFT) public nfts;              // tokenId => NFT data
     mapping(bytes32 => Vote) public votes;            // voteId => Vote data
     mapping(address => mapping(bytes32 => bool)) public hasVotedInMatchup;
+    mapping(uint256 => VoteBatch) public voteBatches; // batchId => anchored batch (ids start at 1)
+    uint256 public voteBatchCount;
     
     uint256 public totalVotes;
     uint256 public constant INITIAL_ELO = 1200;
@@ -131,6 +142,14 @@ contract GugoVoteManager is Ownable, ReentrancyGuard {
         uint256 initialElo
     );
     
+    event VoteBatchAnchored(
+        uint256 indexed batchId,
+        bytes32 indexed merkleRoot,
+        uint256 periodStart,
+        uint256 periodEnd,
+        uint256 voteCount
+    );
+    
     // ============ CONSTRUCTOR ============
     
     constructor() Ownable(msg.sender) {
@@ -831,6 +850,50 @@ contract GugoVoteManager is Ownable, ReentrancyGuard {
         return avgReward * 100; // 100 estimated prize breaks per day
     }
     
+    // ============ VOTE BATCH COMMITMENTS ============
+    
+    // Off-chain votes are hashed into one Merkle tree per period and only the root lands here.
+    // Leaves and proofs are built by gugo-game-app/lib/vote-merkle.ts (sorted-pair keccak256,
+    // compatible with MerkleProof). Periods must not overlap and are anchored in order.
+    function anchorVoteBatch(
+        bytes32 merkleRoot,
+        uint256 periodStart,
+        uint256 periodEnd,
+        uint256 voteCount
+    ) external onlyOwner returns (uint256 batchId) {
+        require(merkleRoot != bytes32(0), "Empty Merkle root");
+        require(voteCount > 0, "Empty vote batch");
+        require(periodEnd > periodStart, "Invalid batch period");
+        require(
+            voteBatchCount == 0 || periodStart >= voteBatches[voteBatchCount].periodEnd,
+            "Batch overlaps previous period"
+        );
+        
+        batchId = ++voteBatchCount;
+        voteBatches[batchId] = VoteBatch({
+            merkleRoot: merkleRoot,
+            periodStart: periodStart,
+            periodEnd: periodEnd,
+            voteCount: voteCount,
+            anchoredAt: block.timestamp
+        });
+        
+        emit VoteBatchAnchored(batchId, merkleRoot, periodStart, periodEnd, voteCount);
+    }
+    
+    function getVoteBatch(uint256 batchId) external view returns (VoteBatch memory) {
+        return voteBatches[batchId];
+    }
+    
+    function verifyVoteInclusion(
+        uint256 batchId,
+        bytes32 leaf,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        bytes32 root = voteBatches[batchId].merkleRoot;
+        return root != bytes32(0) && MerkleProof.verifyCalldata(proof, root, leaf);
+    }
+    
     // ============ ADMIN FUNCTIONS ============
     
     function toggleNFTActive(uint256 tokenId) external onlyOwner {
@@ -0,0 +1,63 @@
+import { ethers } from "hardhat";
+
+// Local vote purchase sandbox: MockERC20 as GUGO + the purchase-enabled GugoVoteManager
+// on a Hardhat node, so the app's PurchaseAlert flow can be tested end to end.
+//
+//   npx hardhat node
+//   npm run deploy:purchase:local
+//
+// then paste the printed env lines into gugo-game-app/.env.local and import one of the
+// node's funded accounts into MetaMask.
+
+const FUNDED_ACCOUNTS = 5;
+const GUGO_PER_ACCOUNT = ethers.parseEther("10000");
+const ETH_PRICE_USD = ethers.parseUnits("3200", 8); // $3200
+const GUGO_PRICE_USD = ethers.parseUnits("0.01", 8); // $0.01
+
+async function main() {
+  console.log("🧪 Deploying local vote purchase contracts...");
+
+  const signers = await ethers.getSigners();
+  const [deployer] = signers;
+
+  const network = await deployer.provider.getNetwork();
+  if (Number(network.chainId) !== 31337) {
+    throw new Error(`deploy-local is for a Hardhat node (31337), got chain ${network.chainId}`);
+  }
+
+  // Deploy mock GUGO token
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const gugoToken = await MockERC20.deploy("GUGO Token", "GUGO", ethers.parseEther("1000000"));
+  await gugoToken.waitForDeployment();
+  const gugoAddress = await gugoToken.getAddress();
+  console.log("✅ MockERC20 (GUGO) deployed to:", gugoAddress);
+
+  // The original GugoVoteManager carries purchaseVotesWithETH / purchaseVotesWithGUGO
+  const GugoVoteManager = await ethers.getContractFactory("contracts/GugoVoteManager.sol:GugoVoteManager");
+  const voteManager = await GugoVoteManager.deploy(gugoAddress, deployer.address, ETH_PRICE_USD, GUGO_PRICE_USD);
+  await voteManager.waitForDeployment();
+  const voteManagerAddress = await voteManager.getAddress();
+  console.log("✅ GugoVoteManager deployed to:", voteManagerAddress);
+
+  // Hand test GUGO to the node's first accounts (they already hold 10000 ETH each)
+  for (const signer of signers.slice(0, FUNDED_ACCOUNTS)) {
+    await (await gugoToken.mint(signer.address, GUGO_PER_ACCOUNT)).wait();
+    console.log(`🪙 Minted ${ethers.formatEther(GUGO_PER_ACCOUNT)} GUGO to ${signer.address}`);
+  }
+
+  console.log("\n💰 Quote for 10 votes:");
+  console.log(`  ETH:  ${ethers.formatEther(await voteManager.getVoteCostETH(10))}`);
+  console.log(`  GUGO: ${ethers.formatEther(await voteManager.getVoteCostGUGO(10))}`);
+
+  console.log("\n📋 gugo-game-app/.env.local:");
+  console.log("NEXT_PUBLIC_LOCAL_CHAIN=true");
+  console.log("LOCAL_RPC_URL=http://127.0.0.1:8545");
+  console.log(`NEXT_PUBLIC_VOTE_MANAGER_CONTRACT=${voteManagerAddress}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Local deployment failed:", error);
+    process.exit(1);
+  });
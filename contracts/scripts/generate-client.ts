@@ -0,0 +1,202 @@
+import { artifacts } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { MAINNET_CONFIG, TESTNET_CONFIG, type NetworkConfig } from "../config/networks";
+
+// Typed contract client for the app: ABIs from the compiled artifacts, addresses per network from
+// config/networks.ts + deployments/*.json, and wagmi read/write/simulate/watch hooks.
+// Writes gugo-game-app/src/contracts/ - never edit those files by hand.
+//
+//   npm run generate:client          # compile + regenerate
+//   npm run generate:client:check    # exit 1 if the committed client is out of date
+
+interface ClientContract {
+  name: string; // export prefix: gugoVoteManagerAbi, useReadGugoVoteManager, ...
+  artifact: string; // fully qualified - both vote manager versions are called GugoVoteManager
+  deploymentKeys: string[]; // keys under "contracts" in deployments/*.json
+  description: string;
+}
+
+const CONTRACTS: ClientContract[] = [
+  {
+    name: "gugoVoteManager",
+    artifact: "contracts/GugoVoteManager.sol:GugoVoteManager",
+    deploymentKeys: ["GugoVoteManager"],
+    description: "Original vote manager: matches, vote purchases with ETH/GUGO (VotesPurchased)",
+  },
+  {
+    name: "gugoVoteManagerUpdated",
+    artifact: "contracts/GugoVoteManager_updated.sol:GugoVoteManager",
+    deploymentKeys: ["GugoVoteManager_updated"],
+    description: "Deployed vote manager: votes, prize breaks, multi-treasury revenue split",
+  },
+  {
+    name: "mockErc20",
+    artifact: "contracts/MockERC20.sol:MockERC20",
+    deploymentKeys: ["MockERC20"],
+    description: "Mintable ERC-20 standing in for GUGO on local chains",
+  },
+];
+
+const NETWORKS: NetworkConfig[] = [TESTNET_CONFIG, MAINNET_CONFIG];
+const OUT_DIR = path.join(__dirname, "../../gugo-game-app/src/contracts");
+const DEPLOYMENTS_DIR = path.join(__dirname, "../deployments");
+
+const HEADER = [
+  "// Generated by contracts/scripts/generate-client.ts from the Hardhat artifacts - do not edit.",
+  "// Regenerate with: cd contracts && npm run generate:client",
+  "",
+].join("\n");
+
+const isAddress = (value: unknown): value is string => typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+const pascal = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+interface DeploymentFile {
+  network: { name: string; chainId: string };
+  contracts: Record<string, string>;
+  timestamp: string;
+}
+
+// Latest deployment file per chain id wins
+function readDeployments(): Map<number, DeploymentFile> {
+  const latest = new Map<number, DeploymentFile>();
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) return latest;
+
+  for (const file of fs.readdirSync(DEPLOYMENTS_DIR).filter(name => name.endsWith(".json")).sort()) {
+    const deployment = JSON.parse(fs.readFileSync(path.join(DEPLOYMENTS_DIR, file), "utf8")) as DeploymentFile;
+    const chainId = Number(deployment.network?.chainId);
+    const current = latest.get(chainId);
+    if (!current || deployment.timestamp > current.timestamp) {
+      latest.set(chainId, deployment);
+    }
+  }
+  return latest;
+}
+
+function addressMap(entries: [number, string][]): string {
+  if (entries.length === 0) return "{} as const";
+  const lines = entries
+    .sort(([a], [b]) => a - b)
+    .map(([chainId, address]) => `  ${chainId}: '${address}',`);
+  return `{\n${lines.join("\n")}\n} as const`;
+}
+
+async function generate(): Promise<Record<string, string>> {
+  const deployments = readDeployments();
+  const abis: string[] = [HEADER];
+  const addresses: string[] = [HEADER];
+  const hooks: string[] = [
+    HEADER,
+    "import {",
+    "  createUseReadContract,",
+    "  createUseSimulateContract,",
+    "  createUseWatchContractEvent,",
+    "  createUseWriteContract",
+    "} from 'wagmi/codegen';",
+  ];
+  const deployed = new Set<string>();
+
+  for (const contract of CONTRACTS) {
+    const artifact = await artifacts.readArtifact(contract.artifact);
+    abis.push(
+      `// ${contract.description}`,
+      `// ${artifact.sourceName}`,
+      `export const ${contract.name}Abi = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+      ""
+    );
+
+    const entries: [number, string][] = [];
+    for (const [chainId, deployment] of deployments) {
+      const key = contract.deploymentKeys.find(candidate => isAddress(deployment.contracts[candidate]));
+      if (key) entries.push([chainId, deployment.contracts[key]]);
+    }
+    if (entries.length > 0) {
+      deployed.add(contract.name);
+      addresses.push(`export const ${contract.name}Address = ${addressMap(entries)};`, "");
+    }
+  }
+
+  // GUGO token: networks.ts is the source of truth, deployments fill in anything it leaves unset
+  const tokenEntries = new Map<number, string>();
+  for (const [chainId, deployment] of deployments) {
+    if (isAddress(deployment.contracts.GugoToken)) tokenEntries.set(chainId, deployment.contracts.GugoToken);
+  }
+  for (const network of NETWORKS) {
+    if (isAddress(network.gugoTokenAddress)) tokenEntries.set(network.chainId, network.gugoTokenAddress);
+  }
+  addresses.push(`export const gugoTokenAddress = ${addressMap([...tokenEntries])};`, "");
+
+  const networkLines = NETWORKS.map(network =>
+    `  ${network.chainId}: { name: '${network.name}', rpcUrl: '${network.rpcUrl}', explorerUrl: '${network.explorerUrl}' },`
+  );
+  addresses.push(`export const contractNetworks = {\n${networkLines.join("\n")}\n} as const;`, "");
+
+  const abiImports = CONTRACTS.map(contract => `${contract.name}Abi`);
+  const addressImports = CONTRACTS.filter(contract => deployed.has(contract.name)).map(contract => `${contract.name}Address`);
+  hooks.push(`import { ${abiImports.join(", ")} } from './abis';`);
+  if (addressImports.length > 0) hooks.push(`import { ${addressImports.join(", ")} } from './addresses';`);
+  hooks.push("");
+
+  for (const contract of CONTRACTS) {
+    const hookName = pascal(contract.name);
+    // Deployed contracts resolve their address from the connected chain; others need `address` per call
+    const target = deployed.has(contract.name)
+      ? `{ abi: ${contract.name}Abi, address: ${contract.name}Address }`
+      : `{ abi: ${contract.name}Abi }`;
+    hooks.push(
+      `export const useRead${hookName} = createUseReadContract(${target});`,
+      `export const useWrite${hookName} = createUseWriteContract(${target});`,
+      `export const useSimulate${hookName} = createUseSimulateContract(${target});`,
+      `export const useWatch${hookName}Event = createUseWatchContractEvent(${target});`,
+      ""
+    );
+  }
+
+  const index = [
+    HEADER,
+    "export * from './abis';",
+    "export * from './addresses';",
+    "export * from './hooks';",
+    "",
+  ];
+
+  return {
+    "abis.ts": abis.join("\n"),
+    "addresses.ts": addresses.join("\n"),
+    "hooks.ts": hooks.join("\n"),
+    "index.ts": index.join("\n"),
+  };
+}
+
+async function main() {
+  // `hardhat run` does not forward script arguments, hence the env flag
+  const check = process.env.CLIENT_CHECK === "true";
+  const files = await generate();
+
+  if (check) {
+    const stale = Object.entries(files).filter(([file, contents]) => {
+      const target = path.join(OUT_DIR, file);
+      return !fs.existsSync(target) || fs.readFileSync(target, "utf8") !== contents;
+    });
+    if (stale.length > 0) {
+      console.error(`❌ Contract client is out of date: ${stale.map(([file]) => file).join(", ")}`);
+      console.error("   Run: cd contracts && npm run generate:client");
+      process.exit(1);
+    }
+    console.log("✅ Contract client matches the artifacts");
+    return;
+  }
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  for (const [file, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(OUT_DIR, file), contents);
+    console.log(`📝 Wrote ${path.relative(process.cwd(), path.join(OUT_DIR, file))}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Client generation failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import type { MockERC20 } from "../typechain-types";
+import type { GugoVoteManager } from "../typechain-types/contracts/GugoVoteManager_updated.sol/GugoVoteManager";
+import type { GugoVoteManager as GugoPurchaseManager } from "../typechain-types/contracts/GugoVoteManager";
+import { GugoVoteManager__factory } from "../typechain-types/factories/contracts/GugoVoteManager_updated.sol/GugoVoteManager__factory";
+import { GugoVoteManager__factory as GugoPurchaseManager__factory } from "../typechain-types/factories/contracts/GugoVoteManager__factory";
+import {
+  createIndexerClient,
+  createMemoryIndexerStore,
+  syncChainEvents,
+  type IndexedChainEvent
+} from "../../gugo-game-app/lib/chain-indexer";
+
+// Runs the app's event indexer (gugo-game-app/lib/chain-indexer.ts) against this in-process
+// Hardhat chain, with the in-memory store standing in for Supabase.
+describe("Chain event indexer", function () {
+  let owner: SignerWithAddress;
+  let player: SignerWithAddress;
+  let mockGugoToken: MockERC20;
+  let voteManager: GugoVoteManager; // GugoVoteManager_updated.sol: votes, prize breaks, treasury
+  let purchaseManager: GugoPurchaseManager; // GugoVoteManager.sol: VotesPurchased
+  let contracts: `0x${string}`[];
+
+  const CONFIRMATIONS = 3;
+  // Hardhat's provider implements EIP-1193 request() but its types don't line up with viem's
+  const client = createIndexerClient(network.provider as unknown as Parameters<typeof createIndexerClient>[0]);
+
+  const mine = (blocks: number) => network.provider.send("hardhat_mine", [`0x${blocks.toString(16)}`]);
+
+  const byName = (events: Iterable<IndexedChainEvent>, name: string) =>
+    [...events].filter(event => event.eventName === name);
+
+  const sync = (store: ReturnType<typeof createMemoryIndexerStore>, batchSize = 100) =>
+    syncChainEvents(client, store, { cursor: "test", contracts, startBlock: 0, confirmations: CONFIRMATIONS, batchSize });
+
+  beforeEach(async function () {
+    [owner, player] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    mockGugoToken = await MockERC20.deploy("GUGO Token", "GUGO", ethers.parseEther("1000000"));
+
+    voteManager = await new GugoVoteManager__factory(owner).deploy();
+    await voteManager.setGugoToken(await mockGugoToken.getAddress());
+
+    purchaseManager = await new GugoPurchaseManager__factory(owner).deploy(
+      await mockGugoToken.getAddress(),
+      owner.address,
+      ethers.parseUnits("3200", 8),
+      ethers.parseUnits("0.01", 8)
+    );
+
+    contracts = [await voteManager.getAddress(), await purchaseManager.getAddress()] as `0x${string}`[];
+
+    // Treasury: a direct deposit, then a revenue split
+    await mockGugoToken.approve(await voteManager.getAddress(), ethers.parseEther("20000"));
+    await voteManager.depositToPrizeBreakTreasury(ethers.parseEther("10000"));
+    await voteManager.distributeRevenue(ethers.parseEther("3000"));
+
+    // Ten votes earn one prize break
+    await voteManager.batchRegisterNFTs([1, 2]);
+    for (let i = 0; i < 10; i++) {
+      await voteManager.connect(player).vote(ethers.id(`matchup-${i}`), i % 2 === 0 ? 1 : 2, i % 2 === 0 ? 2 : 1);
+    }
+    await voteManager.connect(player).claimPrizeBreak();
+
+    await purchaseManager.connect(player).purchaseVotesWithETH(10, { value: await purchaseManager.getVoteCostETH(10) });
+  });
+
+  it("Should index every event type once it is confirmed", async function () {
+    const store = createMemoryIndexerStore();
+
+    // The purchase is the newest block, still inside the confirmation depth
+    await sync(store);
+    expect(byName(store.events.values(), "VotesPurchased")).to.have.length(0);
+
+    await mine(CONFIRMATIONS);
+    await sync(store);
+
+    const events = [...store.events.values()];
+    expect(byName(events, "VoteCast")).to.have.length(10);
+    expect(byName(events, "EloUpdated")).to.have.length(20);
+    expect(byName(events, "PrizeBreakClaimed")).to.have.length(1);
+    expect(byName(events, "RevenueDistributed")).to.have.length(1);
+    expect(byName(events, "TreasuryDeposit")).to.have.length(1);
+
+    const [purchase] = byName(events, "VotesPurchased");
+    expect(purchase.args.user).to.equal(player.address.toLowerCase());
+    expect(purchase.args.amount).to.equal("10");
+    expect(purchase.args.currency).to.equal("ETH");
+
+    const [deposit] = byName(events, "TreasuryDeposit");
+    expect(deposit.args.treasuryType).to.equal("prizeBreak");
+    expect(deposit.args.amount).to.equal(ethers.parseEther("10000").toString());
+
+    const [claim] = byName(events, "PrizeBreakClaimed");
+    expect(claim.args.user).to.equal(player.address.toLowerCase());
+    expect(claim.blockTime).to.be.a("string");
+  });
+
+  it("Should record treasury state matching getTreasuryInfo", async function () {
+    await mine(CONFIRMATIONS);
+    const store = createMemoryIndexerStore();
+    await sync(store);
+
+    const snapshots = [...store.snapshots.values()].sort((a, b) => b.blockNumber - a.blockNumber);
+    const info = await voteManager.getTreasuryInfo({ blockTag: snapshots[0].blockNumber });
+    expect(snapshots[0].contract).to.equal(contracts[0].toLowerCase());
+    expect(snapshots[0].prizeBreakBalance).to.equal(info.prizeBreakBalance.toString());
+    expect(snapshots[0].weeklyRaffleBalance).to.equal(info.weeklyRaffleBalance.toString());
+  });
+
+  it("Should resume from its cursor and stay idempotent on replays", async function () {
+    await mine(CONFIRMATIONS);
+    const head = await ethers.provider.getBlockNumber();
+
+    // Small batches with a per-call limit: several passes to catch up, like a restarted service
+    const store = createMemoryIndexerStore();
+    let passes = 0;
+    while ((await store.getCursor("test", 31337)) !== head - CONFIRMATIONS) {
+      await syncChainEvents(client, store, {
+        cursor: "test", contracts, startBlock: 0, confirmations: CONFIRMATIONS, batchSize: 3, maxBatches: 2
+      });
+      passes++;
+    }
+    expect(passes).to.be.greaterThan(1);
+
+    const reference = createMemoryIndexerStore();
+    await sync(reference);
+    expect(store.events.size).to.equal(reference.events.size);
+
+    // Rewinding the cursor replays ranges without duplicating events
+    store.cursors.clear();
+    await sync(store);
+    expect(store.events.size).to.equal(reference.events.size);
+
+    // New activity after the cursor is picked up on the next pass
+    await purchaseManager.connect(player).purchaseVotesWithETH(10, { value: await purchaseManager.getVoteCostETH(10) });
+    await mine(CONFIRMATIONS);
+    const result = await sync(store);
+    expect(result.events).to.equal(1);
+    expect(byName(store.events.values(), "VotesPurchased")).to.have.length(2);
+  });
+});
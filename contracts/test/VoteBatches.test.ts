@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import type { GugoVoteManager } from "../typechain-types/contracts/GugoVoteManager_updated.sol/GugoVoteManager";
+import { GugoVoteManager__factory } from "../typechain-types/factories/contracts/GugoVoteManager_updated.sol/GugoVoteManager__factory";
+import {
+  anchorVoteBatch,
+  buildVoteBatch,
+  checkVoteProof,
+  createVoteBatchClient,
+  createVoteBatchSigner,
+  hashVoteLeaf,
+  type CommittedVote,
+  type VoteInclusionProof
+} from "../../gugo-game-app/lib/vote-merkle";
+
+// Vote batch commitments: trees and proofs from the app (gugo-game-app/lib/vote-merkle.ts),
+// roots anchored and proofs checked by GugoVoteManager_updated.sol.
+describe("Vote batch commitments", function () {
+  let owner: SignerWithAddress;
+  let player: SignerWithAddress;
+  let voteManager: GugoVoteManager;
+  let contract: `0x${string}`;
+
+  // Hardhat's first default account, the deployer - what the anchoring script signs with
+  const OWNER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+  const DAY = 24 * 60 * 60;
+  const PERIOD_START = Date.parse("2025-08-01T00:00:00.000Z") / 1000;
+
+  // Hardhat's provider implements EIP-1193 request() but its types don't line up with viem's
+  const provider = network.provider as unknown as Parameters<typeof createVoteBatchClient>[0];
+  const publicClient = createVoteBatchClient(provider);
+  const walletClient = createVoteBatchSigner(provider, OWNER_KEY);
+
+  const votesFor = (day: number, count: number): CommittedVote[] =>
+    Array.from({ length: count }, (_, n) => ({
+      id: `00000000-0000-4000-8000-${(day * 1000 + n).toString().padStart(12, "0")}`,
+      voter: (n % 2 === 0 ? owner.address : player.address).toLowerCase() as `0x${string}`,
+      voteType: n % 4 === 3 ? "slider" : "same_coll",
+      nftAId: `nft-${n}`,
+      nftBId: n % 4 === 3 ? null : `nft-${n + 1}`,
+      winnerId: n % 4 === 3 ? null : `nft-${n}`,
+      sliderValue: n % 4 === 3 ? 7.5 : null,
+      superVote: n % 5 === 0,
+      createdAt: new Date((PERIOD_START + day * DAY + n * 60) * 1000).toISOString()
+    }));
+
+  const periodOf = (day: number) => ({
+    periodStart: new Date((PERIOD_START + day * DAY) * 1000).toISOString(),
+    periodEnd: new Date((PERIOD_START + (day + 1) * DAY) * 1000).toISOString()
+  });
+
+  const anchor = (root: string, day: number, count: number, signer: SignerWithAddress = owner) =>
+    voteManager.connect(signer).anchorVoteBatch(root, PERIOD_START + day * DAY, PERIOD_START + (day + 1) * DAY, count);
+
+  beforeEach(async function () {
+    [owner, player] = await ethers.getSigners();
+
+    voteManager = await new GugoVoteManager__factory(owner).deploy();
+    contract = (await voteManager.getAddress()) as `0x${string}`;
+  });
+
+  describe("Anchoring", function () {
+    it("Should store the root and emit VoteBatchAnchored", async function () {
+      const { merkleRoot } = buildVoteBatch(votesFor(0, 5));
+
+      await expect(anchor(merkleRoot, 0, 5))
+        .to.emit(voteManager, "VoteBatchAnchored")
+        .withArgs(1, merkleRoot, PERIOD_START, PERIOD_START + DAY, 5);
+
+      const batch = await voteManager.getVoteBatch(1);
+      expect(batch.merkleRoot).to.equal(merkleRoot);
+      expect(batch.voteCount).to.equal(5);
+      expect(await voteManager.voteBatchCount()).to.equal(1);
+    });
+
+    it("Should only let the owner anchor", async function () {
+      const { merkleRoot } = buildVoteBatch(votesFor(0, 2));
+      await expect(anchor(merkleRoot, 0, 2, player))
+        .to.be.revertedWithCustomError(voteManager, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should reject empty, malformed and overlapping batches", async function () {
+      const { merkleRoot } = buildVoteBatch(votesFor(0, 3));
+
+      await expect(anchor(ethers.ZeroHash, 0, 3)).to.be.revertedWith("Empty Merkle root");
+      await expect(anchor(merkleRoot, 0, 0)).to.be.revertedWith("Empty vote batch");
+      await expect(voteManager.anchorVoteBatch(merkleRoot, PERIOD_START, PERIOD_START, 3))
+        .to.be.revertedWith("Invalid batch period");
+
+      await anchor(merkleRoot, 1, 3);
+      await expect(anchor(merkleRoot, 0, 3)).to.be.revertedWith("Batch overlaps previous period");
+
+      // Gaps are fine: periods without votes are never batched
+      await anchor(buildVoteBatch(votesFor(4, 1)).merkleRoot, 4, 1);
+      expect(await voteManager.voteBatchCount()).to.equal(2);
+    });
+  });
+
+  describe("Inclusion proofs", function () {
+    it("Should accept every vote's proof, for odd and even tree sizes", async function () {
+      for (const [day, count] of [[0, 1], [1, 2], [2, 7], [3, 16]]) {
+        const { merkleRoot, leaves } = buildVoteBatch(votesFor(day, count));
+        await anchor(merkleRoot, day, count);
+
+        for (const leaf of leaves) {
+          expect(await voteManager.verifyVoteInclusion(day + 1, leaf.leaf, leaf.proof)).to.equal(true);
+        }
+      }
+    });
+
+    it("Should reject altered votes, foreign proofs and unknown batches", async function () {
+      const { merkleRoot, leaves } = buildVoteBatch(votesFor(0, 6));
+      await anchor(merkleRoot, 0, 6);
+      const [first, second] = leaves;
+
+      const altered = hashVoteLeaf({ ...first.vote, winnerId: first.vote.nftBId });
+      expect(await voteManager.verifyVoteInclusion(1, altered, first.proof)).to.equal(false);
+      expect(await voteManager.verifyVoteInclusion(1, first.leaf, second.proof)).to.equal(false);
+      expect(await voteManager.verifyVoteInclusion(2, first.leaf, first.proof)).to.equal(false);
+
+      // A vote from another period is not in this batch
+      const other = buildVoteBatch(votesFor(1, 6)).leaves[0];
+      expect(await voteManager.verifyVoteInclusion(1, other.leaf, other.proof)).to.equal(false);
+    });
+  });
+
+  describe("App anchoring and verification", function () {
+    it("Should anchor with the app helper, recover after a crash and verify proofs on-chain", async function () {
+      const built = buildVoteBatch(votesFor(0, 9));
+      const batch = { merkleRoot: built.merkleRoot, ...periodOf(0), voteCount: built.leaves.length };
+
+      const anchored = await anchorVoteBatch(publicClient, walletClient, contract, batch);
+      expect(anchored.onchainBatchId).to.equal(1);
+      expect(anchored.txHash).to.match(/^0x[0-9a-f]{64}$/);
+
+      // Re-running after the transaction was mined but never recorded reuses the on-chain batch
+      const recovered = await anchorVoteBatch(publicClient, walletClient, contract, batch);
+      expect(recovered).to.deep.equal({ onchainBatchId: 1, txHash: null });
+      expect(await voteManager.voteBatchCount()).to.equal(1);
+
+      const record: VoteInclusionProof = {
+        ...built.leaves[4],
+        batch: {
+          id: 1,
+          ...batch,
+          status: "anchored",
+          chainId: network.config.chainId ?? 31337,
+          contract,
+          onchainBatchId: anchored.onchainBatchId,
+          txHash: anchored.txHash
+        }
+      };
+      const checks = await checkVoteProof(record, publicClient);
+      expect(checks.map(check => [check.name, check.ok])).to.deep.equal([
+        ["Leaf matches vote", true],
+        ["Proof reaches batch root", true],
+        ["Vote falls inside batch period", true],
+        ["Root anchored on-chain", true],
+        ["Contract accepts proof", true]
+      ]);
+
+      // A proof pointing at a root the contract never saw fails on-chain
+      const forged = { ...record, batch: { ...record.batch, merkleRoot: buildVoteBatch(votesFor(1, 3)).merkleRoot } };
+      const forgedChecks = await checkVoteProof(forged, publicClient);
+      expect(forgedChecks.find(check => check.name === "Root anchored on-chain")?.ok).to.equal(false);
+    });
+
+    it("Should refuse to anchor from a non-owner key", async function () {
+      // Hardhat's second default account
+      const stranger = createVoteBatchSigner(provider, "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+      const built = buildVoteBatch(votesFor(0, 2));
+
+      let reverted = false;
+      try {
+        await anchorVoteBatch(publicClient, stranger, contract, { merkleRoot: built.merkleRoot, ...periodOf(0), voteCount: 2 });
+      } catch {
+        reverted = true;
+      }
+      expect(reverted).to.equal(true);
+      expect(await voteManager.voteBatchCount()).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse, LogDescription } from "ethers";
+import type { MockERC20 } from "../typechain-types";
+import type { GugoVoteManager } from "../typechain-types/contracts/GugoVoteManager";
+import { GugoVoteManager__factory } from "../typechain-types/factories/contracts/GugoVoteManager__factory";
+
+// Mirrors the app's purchase flow (gugo-game-app/src/hooks/useVotePurchase.ts):
+// quote from the contract → approve exactly the GUGO quote → purchase → read VotesPurchased
+// from the receipt, which is what /api/user/purchase credits to the off-chain vote ledger.
+describe("Vote purchase flow", function () {
+  let voteManager: GugoVoteManager;
+  let mockGugoToken: MockERC20;
+  let owner: SignerWithAddress;
+  let buyer: SignerWithAddress;
+
+  const INITIAL_ETH_PRICE = ethers.parseUnits("3200", 8); // $3200
+  const INITIAL_GUGO_PRICE = ethers.parseUnits("0.01", 8); // $0.01
+
+  // VotesPurchased events in a receipt, decoded the way the app's server does it
+  const votesPurchased = async (tx: ContractTransactionResponse) => {
+    const receipt = await tx.wait();
+    const managerAddress = (await voteManager.getAddress()).toLowerCase();
+    return (receipt?.logs ?? [])
+      .filter(log => log.address.toLowerCase() === managerAddress)
+      .map(log => voteManager.interface.parseLog(log))
+      .filter((parsed): parsed is LogDescription => parsed?.name === "VotesPurchased");
+  };
+
+  beforeEach(async function () {
+    [owner, buyer] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    mockGugoToken = await MockERC20.deploy("GUGO Token", "GUGO", ethers.parseEther("1000000"));
+
+    // Two contracts are named GugoVoteManager; the purchase functions live in the original one
+    voteManager = await new GugoVoteManager__factory(owner).deploy(
+      await mockGugoToken.getAddress(),
+      owner.address, // Price oracle
+      INITIAL_ETH_PRICE,
+      INITIAL_GUGO_PRICE
+    );
+
+    await mockGugoToken.mint(buyer.address, ethers.parseEther("1000"));
+  });
+
+  describe("GUGO", function () {
+    it("Should expose the token the app approves", async function () {
+      expect(await voteManager.gugoToken()).to.equal(await mockGugoToken.getAddress());
+    });
+
+    it("Should revert without an approval", async function () {
+      await expect(voteManager.connect(buyer).purchaseVotesWithGUGO(10)).to.be.reverted;
+    });
+
+    it("Should purchase with an approval of exactly the quote and emit VotesPurchased", async function () {
+      const voteCount = 25;
+      const managerAddress = await voteManager.getAddress();
+      const cost = await voteManager.getVoteCostGUGO(voteCount);
+      const balanceBefore = await mockGugoToken.balanceOf(buyer.address);
+
+      await mockGugoToken.connect(buyer).approve(managerAddress, cost);
+      const tx = await voteManager.connect(buyer).purchaseVotesWithGUGO(voteCount);
+
+      await expect(tx).to.emit(voteManager, "VotesPurchased").withArgs(buyer.address, voteCount, cost, "GUGO");
+      expect(await mockGugoToken.balanceOf(buyer.address)).to.equal(balanceBefore - cost);
+      expect(await mockGugoToken.balanceOf(managerAddress)).to.equal(cost);
+
+      const events = await votesPurchased(tx);
+      expect(events).to.have.length(1);
+      expect(events[0].args.user).to.equal(buyer.address);
+      expect(events[0].args.amount).to.equal(voteCount);
+    });
+
+    it("Should consume the allowance so a repeat purchase needs a fresh approval", async function () {
+      const cost = await voteManager.getVoteCostGUGO(10);
+      await mockGugoToken.connect(buyer).approve(await voteManager.getAddress(), cost);
+      await voteManager.connect(buyer).purchaseVotesWithGUGO(10);
+
+      expect(await mockGugoToken.allowance(buyer.address, await voteManager.getAddress())).to.equal(0);
+      await expect(voteManager.connect(buyer).purchaseVotesWithGUGO(10)).to.be.reverted;
+    });
+  });
+
+  describe("ETH", function () {
+    it("Should purchase with exactly the quoted value and emit VotesPurchased", async function () {
+      const voteCount = 10;
+      const cost = await voteManager.getVoteCostETH(voteCount);
+
+      const tx = await voteManager.connect(buyer).purchaseVotesWithETH(voteCount, { value: cost });
+
+      await expect(tx).to.emit(voteManager, "VotesPurchased").withArgs(buyer.address, voteCount, cost, "ETH");
+      await expect(tx).to.changeEtherBalance(voteManager, cost);
+      expect((await votesPurchased(tx))[0].args.currency).to.equal("ETH");
+    });
+
+    it("Should revert below the quoted value", async function () {
+      const cost = await voteManager.getVoteCostETH(10);
+
+      await expect(
+        voteManager.connect(buyer).purchaseVotesWithETH(10, { value: cost - BigInt(1) })
+      ).to.be.revertedWith("Insufficient ETH");
+    });
+  });
+
+  it("Should follow oracle price updates in the quote", async function () {
+    const before = await voteManager.getVoteCostGUGO(10);
+    await voteManager.updatePrices(INITIAL_ETH_PRICE, INITIAL_GUGO_PRICE * BigInt(2));
+
+    expect(await voteManager.getVoteCostGUGO(10)).to.equal(before / BigInt(2));
+  });
+});
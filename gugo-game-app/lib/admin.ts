@@ -0,0 +1,32 @@
+// Operator access for /admin pages and /api/admin routes (server-only)
+// ADMIN_WALLETS is a comma-separated allowlist; operators sign in with the same SIWE wallet
+// session as players, so there's no separate admin password to leak.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, type WalletSession } from './session';
+
+const adminWallets = (): Set<string> =>
+  new Set(
+    (process.env.ADMIN_WALLETS || '')
+      .split(',')
+      .map(address => address.trim().toLowerCase())
+      .filter(Boolean)
+  );
+
+export function isAdminWallet(address: string | null | undefined): boolean {
+  return !!address && adminWallets().has(address.toLowerCase());
+}
+
+// { session } for an admin, otherwise { response } with the 401/403 to return as-is
+export async function requireAdmin(
+  req: NextRequest
+): Promise<{ session: WalletSession; response?: never } | { session?: never; response: NextResponse }> {
+  const session = await getSession(req);
+  if (!session) {
+    return { response: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+  if (!isAdminWallet(session.address)) {
+    return { response: NextResponse.json({ error: 'Admin wallet required' }, { status: 403 }) };
+  }
+  return { session };
+}
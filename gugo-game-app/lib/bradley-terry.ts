@@ -0,0 +1,175 @@
+// Bradley-Terry batch ranking - order-independent strength estimate over the full vote history
+// Fits a MAP model P(i beats j) = 1 / (1 + e^(θj - θi)) with a Gaussian prior per NFT whose
+// mean comes from its slider_average, so NFTs with few matchups lean on their slider ratings.
+// NFTs below minComparisons are left out of the ranking: a slider prior alone is not a matchup record.
+
+export interface BradleyTerryComparison {
+  winner_id: string;
+  loser_id: string;
+}
+
+export interface BradleyTerryPrior {
+  slider_average?: number | null; // 0-10
+  slider_count?: number | null;
+}
+
+export interface BradleyTerryOptions {
+  basePriorPrecision?: number; // 1/σ² for NFTs without slider data (keeps the fit identifiable)
+  sliderPriorScale?: number; // Prior mean in logits for a perfect 10 (0 at slider 5)
+  sliderPrecisionPerVote?: number; // Extra prior precision per slider vote
+  maxSliderVotes?: number; // Cap so sliders never outweigh matchups
+  minComparisons?: number; // Matchups needed before an NFT is ranked at all
+  maxIterations?: number;
+  tolerance?: number;
+  confidenceZ?: number; // 1.96 = 95% interval
+}
+
+export interface BradleyTerryScore {
+  nft_id: string;
+  strength: number; // θ in logits
+  standard_error: number; // logits
+  bt_score: number; // Elo-like scale (1500 = average)
+  bt_ci_lower: number;
+  bt_ci_upper: number;
+  comparisons: number;
+}
+
+export interface BradleyTerryFit {
+  scores: BradleyTerryScore[]; // Sorted best first, ranked NFTs only
+  unranked: string[]; // NFTs with fewer than minComparisons matchups
+  iterations: number;
+  converged: boolean;
+}
+
+export const BT_BASE_SCORE = 1500;
+const LOGIT_TO_ELO = 400 / Math.LN10;
+const SLIDER_MIDPOINT = 5;
+
+const DEFAULT_OPTIONS: Required<BradleyTerryOptions> = {
+  basePriorPrecision: 1,
+  sliderPriorScale: 1,
+  sliderPrecisionPerVote: 0.1,
+  maxSliderVotes: 20,
+  minComparisons: 1,
+  maxIterations: 200,
+  tolerance: 1e-6,
+  confidenceZ: 1.96
+};
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+export const fitBradleyTerry = (
+  comparisons: BradleyTerryComparison[],
+  priors: Map<string, BradleyTerryPrior> = new Map(),
+  options: BradleyTerryOptions = {}
+): BradleyTerryFit => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  // Aggregate into per-pair win counts: wins.get(i).get(j) = times i beat j
+  const wins = new Map<string, Map<string, number>>();
+  const opponents = new Map<string, Set<string>>();
+  const ids = new Set<string>(priors.keys());
+
+  for (const { winner_id, loser_id } of comparisons) {
+    if (winner_id === loser_id) continue;
+    ids.add(winner_id);
+    ids.add(loser_id);
+
+    const row = wins.get(winner_id) ?? new Map<string, number>();
+    row.set(loser_id, (row.get(loser_id) ?? 0) + 1);
+    wins.set(winner_id, row);
+
+    for (const [a, b] of [[winner_id, loser_id], [loser_id, winner_id]]) {
+      const set = opponents.get(a) ?? new Set<string>();
+      set.add(b);
+      opponents.set(a, set);
+    }
+  }
+
+  const winsOf = (i: string, j: string) => wins.get(i)?.get(j) ?? 0;
+
+  const priorMean = new Map<string, number>();
+  const priorPrecision = new Map<string, number>();
+  for (const id of ids) {
+    const prior = priors.get(id);
+    const hasSlider = prior?.slider_average != null && (prior.slider_count ?? 0) > 0;
+    const sliderVotes = hasSlider ? Math.min(prior!.slider_count!, opts.maxSliderVotes) : 0;
+
+    priorMean.set(id, hasSlider ? opts.sliderPriorScale * (prior!.slider_average! - SLIDER_MIDPOINT) / SLIDER_MIDPOINT : 0);
+    priorPrecision.set(id, opts.basePriorPrecision + opts.sliderPrecisionPerVote * sliderVotes);
+  }
+
+  const theta = new Map<string, number>([...ids].map(id => [id, priorMean.get(id)!]));
+
+  // Cyclic Newton steps on the log-posterior; concave, so this converges to the MAP estimate
+  const gradientAndCurvature = (i: string) => {
+    const thetaI = theta.get(i)!;
+    let gradient = -priorPrecision.get(i)! * (thetaI - priorMean.get(i)!);
+    let curvature = priorPrecision.get(i)!;
+
+    for (const j of opponents.get(i) ?? []) {
+      const wonIJ = winsOf(i, j);
+      const games = wonIJ + winsOf(j, i);
+      const p = sigmoid(thetaI - theta.get(j)!);
+      gradient += wonIJ - games * p;
+      curvature += games * p * (1 - p);
+    }
+
+    return { gradient, curvature };
+  };
+
+  let iterations = 0;
+  let converged = false;
+  while (iterations < opts.maxIterations) {
+    iterations++;
+    let maxStep = 0;
+
+    for (const i of ids) {
+      const { gradient, curvature } = gradientAndCurvature(i);
+      const step = gradient / curvature;
+      theta.set(i, theta.get(i)! + step);
+      maxStep = Math.max(maxStep, Math.abs(step));
+    }
+
+    if (maxStep < opts.tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  const fitted = [...ids].map((id): BradleyTerryScore => {
+    const strength = theta.get(id)!;
+    // Diagonal of the observed information gives an (optimistic) standard error
+    const standardError = 1 / Math.sqrt(gradientAndCurvature(id).curvature);
+    const btScore = BT_BASE_SCORE + strength * LOGIT_TO_ELO;
+    const halfWidth = opts.confidenceZ * standardError * LOGIT_TO_ELO;
+    const comparisonCount = [...(opponents.get(id) ?? [])].reduce((sum, j) => sum + winsOf(id, j) + winsOf(j, id), 0);
+
+    return {
+      nft_id: id,
+      strength,
+      standard_error: standardError,
+      bt_score: btScore,
+      bt_ci_lower: btScore - halfWidth,
+      bt_ci_upper: btScore + halfWidth,
+      comparisons: comparisonCount
+    };
+  });
+
+  const scores = fitted.filter(score => score.comparisons >= opts.minComparisons);
+  const unranked = fitted.filter(score => score.comparisons < opts.minComparisons).map(score => score.nft_id);
+
+  scores.sort((a, b) => b.bt_score - a.bt_score);
+  return { scores, unranked, iterations, converged };
+};
+
+// Votes as stored (nft_a_id / nft_b_id / winner_id); rows whose winner is neither side are dropped
+export const votesToComparisons = (
+  votes: { nft_a_id: string; nft_b_id: string; winner_id: string }[]
+): BradleyTerryComparison[] =>
+  votes
+    .filter(vote => vote.winner_id === vote.nft_a_id || vote.winner_id === vote.nft_b_id)
+    .map(vote => ({
+      winner_id: vote.winner_id,
+      loser_id: vote.winner_id === vote.nft_a_id ? vote.nft_b_id : vote.nft_a_id
+    }));
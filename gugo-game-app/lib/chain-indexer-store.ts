@@ -0,0 +1,36 @@
+// Supabase store for the chain event indexer (server-only)
+// Each batch is one record_chain_events() call (migrations/23-chain-event-index.sql), so events,
+// projections, treasury snapshots and the cursor commit in a single transaction.
+
+import { supabaseAdmin } from './supabase-server';
+import type { ChainIndexerStore } from './chain-indexer';
+
+export const supabaseIndexerStore: ChainIndexerStore = {
+  async getCursor(cursor, chainId) {
+    const { data, error } = await supabaseAdmin
+      .from('chain_sync_cursors')
+      .select('last_block')
+      .eq('chain_id', chainId)
+      .eq('name', cursor)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read chain cursor: ${error.message}`);
+    }
+    return data ? Number(data.last_block) : null;
+  },
+
+  async saveBatch(batch) {
+    const { error } = await supabaseAdmin.rpc('record_chain_events', {
+      p_cursor: batch.cursor,
+      p_chain_id: batch.chainId,
+      p_to_block: batch.toBlock,
+      p_events: batch.events,
+      p_snapshots: batch.snapshots
+    });
+
+    if (error) {
+      throw new Error(`Failed to record chain events for blocks ${batch.fromBlock}-${batch.toBlock}: ${error.message}`);
+    }
+  }
+};
@@ -0,0 +1,273 @@
+// GugoVoteManager event indexer core (server-only)
+// Walks the chain in block ranges behind a confirmation depth, decodes the game's events and
+// hands each range to a store together with the new cursor. Stores must write both atomically,
+// so a crash mid-run resumes from the last saved range and replays are no-ops (events are keyed
+// by chain id + tx hash + log index). Only viem and relative imports here (ABIs come from the
+// generated client): contracts/test drives this module against an in-process Hardhat chain with
+// createMemoryIndexerStore().
+
+import {
+  createPublicClient,
+  custom,
+  http,
+  keccak256,
+  stringToBytes,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type EIP1193Provider,
+  type Hash,
+  type PublicClient
+} from 'viem';
+import { gugoVoteManagerAbi, gugoVoteManagerUpdatedAbi } from '../src/contracts/abis';
+
+export const DEFAULT_CONFIRMATIONS = 10;
+export const DEFAULT_BATCH_SIZE = 2000;
+
+export type ChainEventName =
+  | 'VotesPurchased'
+  | 'VoteCast'
+  | 'EloUpdated'
+  | 'PrizeBreakClaimed'
+  | 'RevenueDistributed'
+  | 'TreasuryDeposit'
+  | 'TreasuryUpdated';
+
+const abiEvents = (abi: Abi, names: ChainEventName[]) =>
+  abi.filter((item): item is AbiEvent => item.type === 'event' && names.includes(item.name as ChainEventName));
+
+// VotesPurchased comes from the purchase contract (GugoVoteManager.sol), the rest from GugoVoteManager_updated.sol
+export const CHAIN_EVENT_ABI = [
+  ...abiEvents(gugoVoteManagerAbi, ['VotesPurchased']),
+  ...abiEvents(gugoVoteManagerUpdatedAbi, [
+    'VoteCast', 'EloUpdated', 'PrizeBreakClaimed', 'RevenueDistributed', 'TreasuryDeposit', 'TreasuryUpdated'
+  ])
+];
+
+// GugoVoteManager_updated.sol RewardType, in enum order
+export const PRIZE_REWARD_TYPES = [
+  'BASE_XP', 'BIG_XP', 'XP_VOTES_10', 'XP_VOTES_5', 'VOTE_BONUS',
+  'GUGO_TIER_1', 'GUGO_TIER_2', 'GUGO_TIER_3', 'GUGO_TIER_4', 'GUGO_TIER_5',
+  'GUGO_TIER_6', 'GUGO_TIER_7', 'GUGO_TIER_8', 'GUGO_TIER_9'
+] as const;
+
+const TREASURY_EVENTS = new Set<ChainEventName>(['PrizeBreakClaimed', 'RevenueDistributed', 'TreasuryDeposit', 'TreasuryUpdated']);
+
+// TreasuryDeposit indexes its string, so logs only carry keccak256(treasuryType)
+const TREASURY_TYPE_BY_TOPIC = new Map(
+  ['prizeBreak', 'weeklyRaffle', 'legacy'].map(type => [keccak256(stringToBytes(type)), type])
+);
+
+export interface IndexedChainEvent {
+  chainId: number;
+  txHash: Hash;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: Hash;
+  blockTime: string | null;
+  contract: Address; // lowercase
+  eventName: ChainEventName;
+  args: Record<string, string | number | boolean>; // uint256 as decimal strings, addresses lowercase
+}
+
+// getTreasuryInfo() read at the end of a range that touched the treasury
+export interface TreasurySnapshot {
+  chainId: number;
+  contract: Address;
+  blockNumber: number;
+  prizeBreakBalance: string;
+  weeklyRaffleBalance: string;
+  legacyBalance: string;
+  unlockedTiers: number;
+  availablePrizeFunds: string;
+}
+
+export interface IndexedBatch {
+  cursor: string;
+  chainId: number;
+  fromBlock: number;
+  toBlock: number;
+  events: IndexedChainEvent[];
+  snapshots: TreasurySnapshot[];
+}
+
+export interface ChainIndexerStore {
+  // Last fully indexed block for the cursor, or null before the first run
+  getCursor(cursor: string, chainId: number): Promise<number | null>;
+  // Events, snapshots and the cursor move together or not at all
+  saveBatch(batch: IndexedBatch): Promise<void>;
+}
+
+export interface ChainIndexerOptions {
+  cursor: string;
+  contracts: Address[];
+  startBlock?: number; // first block for a new cursor (the deployment block)
+  confirmations?: number;
+  batchSize?: number;
+  maxBatches?: number; // per call; the service loop calls again
+}
+
+export interface ChainSyncResult {
+  chainId: number;
+  head: number;
+  safeHead: number;
+  fromBlock: number;
+  toBlock: number | null; // null when nothing was confirmed past the cursor
+  batches: number;
+  events: number;
+}
+
+export type IndexerClient = Pick<PublicClient, 'getChainId' | 'getBlockNumber' | 'getLogs' | 'getBlock' | 'readContract'>;
+
+// RPC URL, or an EIP-1193 provider such as Hardhat's network.provider
+export const createIndexerClient = (rpc: string | Pick<EIP1193Provider, 'request'>): IndexerClient =>
+  createPublicClient({ transport: typeof rpc === 'string' ? http(rpc) : custom(rpc) });
+
+interface DecodedLog {
+  address: Address;
+  blockNumber: bigint | null;
+  blockHash: Hash | null;
+  transactionHash: Hash | null;
+  logIndex: number | null;
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+const normalizeArg = (key: string, value: unknown): string | number | boolean => {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  const text = String(value);
+  if (key === 'treasuryType') return TREASURY_TYPE_BY_TOPIC.get(text as Hash) ?? text;
+  return /^0x[0-9a-fA-F]{40}$/.test(text) ? text.toLowerCase() : text;
+};
+
+export const toIndexedEvent = (chainId: number, log: DecodedLog, blockTime: string | null): IndexedChainEvent => ({
+  chainId,
+  txHash: log.transactionHash!.toLowerCase() as Hash,
+  logIndex: log.logIndex!,
+  blockNumber: Number(log.blockNumber),
+  blockHash: log.blockHash!.toLowerCase() as Hash,
+  blockTime,
+  contract: log.address.toLowerCase() as Address,
+  eventName: log.eventName as ChainEventName,
+  args: Object.fromEntries(Object.entries(log.args).map(([key, value]) => [key, normalizeArg(key, value)]))
+});
+
+const blockTimes = async (client: IndexerClient, blockNumbers: bigint[]): Promise<Map<bigint, string>> => {
+  const unique = [...new Set(blockNumbers)];
+  const blocks = await Promise.all(unique.map(blockNumber => client.getBlock({ blockNumber })));
+  return new Map(blocks.map(block => [block.number!, new Date(Number(block.timestamp) * 1000).toISOString()]));
+};
+
+const treasurySnapshots = async (
+  client: IndexerClient,
+  chainId: number,
+  events: IndexedChainEvent[],
+  blockNumber: number
+): Promise<TreasurySnapshot[]> => {
+  const contracts = [...new Set(events.filter(event => TREASURY_EVENTS.has(event.eventName)).map(event => event.contract))];
+  const snapshots: TreasurySnapshot[] = [];
+
+  for (const contract of contracts) {
+    try {
+      const [prizeBreak, weeklyRaffle, legacy, tiers, available] = await client.readContract({
+        address: contract,
+        abi: gugoVoteManagerUpdatedAbi,
+        functionName: 'getTreasuryInfo',
+        blockNumber: BigInt(blockNumber)
+      });
+      snapshots.push({
+        chainId,
+        contract,
+        blockNumber,
+        prizeBreakBalance: prizeBreak.toString(),
+        weeklyRaffleBalance: weeklyRaffle.toString(),
+        legacyBalance: legacy.toString(),
+        unlockedTiers: Number(tiers),
+        availablePrizeFunds: available.toString()
+      });
+    } catch (error) {
+      // Older deployments have no getTreasuryInfo(); their events are still indexed
+      console.log(`⚠️ No treasury snapshot for ${contract} at block ${blockNumber}:`, (error as Error).message);
+    }
+  }
+  return snapshots;
+};
+
+// Index confirmed blocks past the cursor; returns once caught up (or after maxBatches ranges)
+export async function syncChainEvents(
+  client: IndexerClient,
+  store: ChainIndexerStore,
+  options: ChainIndexerOptions
+): Promise<ChainSyncResult> {
+  const confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const maxBatches = options.maxBatches ?? Infinity;
+
+  const chainId = await client.getChainId();
+  const head = Number(await client.getBlockNumber({ cacheTime: 0 })); // viem caches the head for ~4s by default
+  const safeHead = head - confirmations;
+
+  const cursor = await store.getCursor(options.cursor, chainId);
+  const fromBlock = cursor === null ? options.startBlock ?? 0 : cursor + 1;
+
+  let next = fromBlock;
+  let batches = 0;
+  let indexed = 0;
+
+  while (next <= safeHead && batches < maxBatches) {
+    const toBlock = Math.min(next + batchSize - 1, safeHead);
+
+    const logs = await client.getLogs({
+      address: options.contracts,
+      events: CHAIN_EVENT_ABI,
+      fromBlock: BigInt(next),
+      toBlock: BigInt(toBlock)
+    }) as unknown as DecodedLog[];
+
+    const mined = logs.filter(log => log.blockNumber !== null && log.transactionHash && log.logIndex !== null);
+    const times = await blockTimes(client, mined.map(log => log.blockNumber!));
+    const events = mined.map(log => toIndexedEvent(chainId, log, times.get(log.blockNumber!) ?? null));
+    const snapshots = await treasurySnapshots(client, chainId, events, toBlock);
+
+    await store.saveBatch({ cursor: options.cursor, chainId, fromBlock: next, toBlock, events, snapshots });
+
+    batches++;
+    indexed += events.length;
+    next = toBlock + 1;
+  }
+
+  return { chainId, head, safeHead, fromBlock, toBlock: batches > 0 ? next - 1 : null, batches, events: indexed };
+}
+
+// In-memory store for tests and --dry-run; same idempotency rules as the Supabase store
+export const createMemoryIndexerStore = () => {
+  const cursors = new Map<string, number>();
+  const events = new Map<string, IndexedChainEvent>();
+  const snapshots = new Map<string, TreasurySnapshot>();
+
+  const store: ChainIndexerStore & {
+    cursors: typeof cursors;
+    events: typeof events;
+    snapshots: typeof snapshots;
+  } = {
+    cursors,
+    events,
+    snapshots,
+    async getCursor(cursor, chainId) {
+      return cursors.get(`${chainId}:${cursor}`) ?? null;
+    },
+    async saveBatch(batch) {
+      for (const event of batch.events) {
+        const key = `${event.chainId}:${event.txHash}:${event.logIndex}`;
+        if (!events.has(key)) events.set(key, event);
+      }
+      for (const snapshot of batch.snapshots) {
+        snapshots.set(`${snapshot.chainId}:${snapshot.contract}:${snapshot.blockNumber}`, snapshot);
+      }
+      const key = `${batch.chainId}:${batch.cursor}`;
+      cursors.set(key, Math.max(cursors.get(key) ?? -1, batch.toBlock));
+    }
+  };
+  return store;
+};
@@ -0,0 +1,93 @@
+// 🗂️ Collection registry rules
+// Which NFTs may appear in matchups and slider votes is decided per collection (public.collections).
+// The database evaluates the rules into nfts.eligible on write, so selection queries only need
+// .eq('eligible', true). The same evaluation lives here for import dry runs and summaries.
+
+import type { CollectionRules, ImportedToken, NftMediaType } from '@/types/collections';
+import type { NftTrait } from '@/types/nft-detail';
+
+// Same as the ineligible_rules column default (migrations/18-animated-media.sql; video used to be blocked)
+export const DEFAULT_COLLECTION_RULES: CollectionRules = {
+  unrevealed_traits: [
+    { trait_type: 'Reveal', values: ['Unrevealed'] },
+    { trait_type: 'Status', values: ['Unrevealed', 'Hidden'] },
+    { trait_type: 'Stage', values: ['Pre-reveal'] }
+  ],
+  blocked_media_types: [],
+  exclude_burned: true
+};
+
+const VIDEO_EXTENSION_PATTERN = /\.(mp4|mov|avi|webm|mkv)(\?|#|$)/i;
+
+// Same as nft_media_type() in SQL
+export const mediaTypeFromUrl = (url: string | null | undefined): NftMediaType =>
+  url && VIDEO_EXTENSION_PATTERN.test(url) ? 'video' : 'image';
+
+// Traits arrive either as [{ trait_type, value }] or as a { type: value } object
+export const normalizeTraits = (traits: unknown): NftTrait[] => {
+  if (Array.isArray(traits)) {
+    return traits
+      .filter(trait => trait && typeof trait.trait_type === 'string' && trait.value != null)
+      .map(trait => ({ trait_type: trait.trait_type, value: trait.value }));
+  }
+  if (traits && typeof traits === 'object') {
+    return Object.entries(traits as Record<string, unknown>)
+      .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+      .map(([trait_type, value]) => ({ trait_type, value: value as string | number }));
+  }
+  return [];
+};
+
+// Mirrors nft_ineligible_reason() in SQL: null when eligible, otherwise the first rule that matched
+export const ineligibleReason = (
+  token: Pick<ImportedToken, 'image' | 'traits' | 'burned'>,
+  rules: CollectionRules,
+  active = true
+): string | null => {
+  if (!active) return 'collection_inactive';
+  if (rules.exclude_burned && token.burned) return 'burned';
+
+  const mediaType = mediaTypeFromUrl(token.image);
+  if (rules.blocked_media_types?.includes(mediaType)) return `media:${mediaType}`;
+
+  for (const rule of rules.unrevealed_traits ?? []) {
+    const values = rule.values.map(value => value.toLowerCase());
+    const match = token.traits.find(trait =>
+      trait.trait_type.toLowerCase() === rule.trait_type.toLowerCase() &&
+      values.includes(String(trait.value).toLowerCase())
+    );
+    if (match) return `unrevealed:${match.trait_type}=${match.value}`;
+  }
+
+  return null;
+};
+
+// Rules from a JSON file / CLI, validated so a typo can't silently make a whole collection eligible
+export const parseCollectionRules = (input: unknown): CollectionRules => {
+  if (!input || typeof input !== 'object') throw new Error('Collection rules must be a JSON object');
+  const { unrevealed_traits, blocked_media_types, exclude_burned, ...unknownKeys } = input as Record<string, unknown>;
+
+  const extra = Object.keys(unknownKeys);
+  if (extra.length > 0) throw new Error(`Unknown collection rule(s): ${extra.join(', ')}`);
+
+  const rules: CollectionRules = {};
+  if (unrevealed_traits !== undefined) {
+    if (!Array.isArray(unrevealed_traits) || unrevealed_traits.some(rule =>
+      typeof rule?.trait_type !== 'string' || !Array.isArray(rule.values) || rule.values.some((v: unknown) => typeof v !== 'string')
+    )) {
+      throw new Error('unrevealed_traits must be [{ "trait_type": string, "values": string[] }]');
+    }
+    rules.unrevealed_traits = unrevealed_traits;
+  }
+  if (blocked_media_types !== undefined) {
+    if (!Array.isArray(blocked_media_types) || blocked_media_types.some(type => type !== 'image' && type !== 'video')) {
+      throw new Error('blocked_media_types must only contain "image" or "video"');
+    }
+    rules.blocked_media_types = blocked_media_types;
+  }
+  if (exclude_burned !== undefined) {
+    if (typeof exclude_burned !== 'boolean') throw new Error('exclude_burned must be true or false');
+    rules.exclude_burned = exclude_burned;
+  }
+  return rules;
+};
@@ -1,5 +1,15 @@
 // 🌐 Robust IPFS Gateway Manager with Health Tracking
 // Automatically adapts to gateway outages and performance issues
+// Starts from the shared health aggregate (/api/gateways/health) and reports its own outcomes back,
+// so a new tab doesn't have to relearn which gateways are down
+
+import {
+  IPFS_GATEWAYS,
+  createGatewayReporter,
+  type GatewayReport,
+  type RankedGateway
+} from '@/lib/gateway-health';
+import { hedgedRace, isHedgeCancelled, type HedgeOptions, type HedgeWinner } from '@/lib/hedged-fetch';
 
 interface GatewayHealth {
   url: string;
@@ -9,18 +19,36 @@ interface GatewayHealth {
   lastFailure: number;
   avgResponseTime: number;
   isHealthy: boolean;
+  sharedSuccessRate: number | null; // from the aggregate; local outcomes are weighed on top of it
+  circuitOpenUntil: number; // shared circuit breaker; 0 when closed
 }
 
+const HEALTH_ENDPOINT = '/api/gateways/health';
+
+// sendBeacon survives the tab closing; fall back to a keepalive fetch where it's missing or refused
+const sendGatewayReports = (reports: GatewayReport[]) => {
+  const body = JSON.stringify({ reports });
+  if (typeof navigator !== 'undefined' && navigator.sendBeacon?.(HEALTH_ENDPOINT, body)) return;
+  return fetch(HEALTH_ENDPOINT, { method: 'POST', body, keepalive: true }).then(() => undefined);
+};
+
 class IPFSGatewayManager {
   private static instance: IPFSGatewayManager;
   private gateways: GatewayHealth[] = [];
   private readonly HEALTH_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
   private readonly SUCCESS_THRESHOLD = 0.7; // 70% success rate
   private readonly RECENT_WINDOW = 10 * 60 * 1000; // 10 minutes
+  private readonly SHARED_RATE_WEIGHT = 10; // the shared rate counts as this many local outcomes
+  private reporter = createGatewayReporter(sendGatewayReports);
 
   constructor() {
     this.initializeGateways();
     this.startHealthMonitoring();
+
+    if (typeof window !== 'undefined') {
+      this.syncSharedHealth();
+      window.addEventListener('pagehide', () => this.reporter.flush());
+    }
   }
 
   static getInstance(): IPFSGatewayManager {
@@ -31,28 +59,47 @@ class IPFSGatewayManager {
   }
 
   private initializeGateways() {
-    const gatewayUrls = [
-      'https://ipfs.io/ipfs/',
-      'https://cloudflare-ipfs.com/ipfs/',
-      'https://gateway.pinata.cloud/ipfs/',
-      'https://dweb.link/ipfs/',
-      'https://ipfs.filebase.io/ipfs/',
-      'https://w3s.link/ipfs/',
-      'https://gateway.ipfs.io/ipfs/',
-      'https://hardbin.com/ipfs/'
-    ];
-
-    this.gateways = gatewayUrls.map(url => ({
+    this.gateways = IPFS_GATEWAYS.map(url => ({
       url,
       successCount: 0,
       failureCount: 0,
       lastSuccess: 0,
       lastFailure: 0,
       avgResponseTime: 0,
-      isHealthy: true
+      isHealthy: true,
+      sharedSuccessRate: null,
+      circuitOpenUntil: 0
     }));
   }
 
+  // 🔗 Pull the shared ranking; keeps local state if the endpoint is unreachable
+  async syncSharedHealth() {
+    try {
+      const response = await fetch(HEALTH_ENDPOINT);
+      if (!response.ok) throw new Error(`status ${response.status}`);
+      const { gateways } = await response.json() as { gateways: RankedGateway[] };
+      this.applySharedHealth(gateways);
+    } catch (error) {
+      console.log('⚠️ Could not load shared gateway health:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private applySharedHealth(ranked: RankedGateway[]) {
+    // Shared order becomes the tie-break order for gateways this tab hasn't used yet
+    const order = new Map(ranked.map((gateway, index) => [gateway.url, index]));
+    this.gateways.sort((a, b) => (order.get(a.url) ?? Infinity) - (order.get(b.url) ?? Infinity));
+
+    for (const shared of ranked) {
+      const gateway = this.gateways.find(g => g.url === shared.url);
+      if (!gateway) continue;
+
+      gateway.sharedSuccessRate = shared.successRate;
+      gateway.circuitOpenUntil = shared.circuitOpenUntil ? Date.parse(shared.circuitOpenUntil) : 0;
+      if (gateway.avgResponseTime === 0 && shared.avgLatencyMs) gateway.avgResponseTime = shared.avgLatencyMs;
+      this.updateGatewayHealth(gateway);
+    }
+  }
+
   // 🎯 Get the best available gateway
   getBestGateway(): string {
     const healthyGateways = this.getHealthyGateways();
@@ -94,6 +141,40 @@ class IPFSGatewayManager {
     return [...healthy, ...unhealthy].map(g => g.url);
   }
 
+  // 🏁 Race gateways for an IPFS asset: best gateway first, a hedge after a short delay, first success wins
+  // `load` does the actual request (an Image, a fetch...) and must reject on failure and honour the signal
+  async hedgedLoad<T>(
+    imageUrl: string,
+    load: (url: string, signal: AbortSignal) => Promise<T>,
+    options?: HedgeOptions
+  ): Promise<HedgeWinner<T>> {
+    const fixedUrl = fixImageUrl(imageUrl);
+    const ipfsPath = fixedUrl.match(/\/ipfs\/(.+)$/)?.[1];
+    const candidates = ipfsPath
+      ? [
+          // Keep a gateway we don't manage (e.g. the collection's own) as the first try
+          ...(this.gateways.some(g => fixedUrl.startsWith(g.url)) ? [] : [fixedUrl]),
+          ...this.getOrderedGateways().map(gateway => `${gateway}${ipfsPath}`)
+        ]
+      : [fixedUrl];
+
+    return hedgedRace(candidates, async (url, signal) => {
+      const started = Date.now();
+      const gateway = url.split('/ipfs/')[0] + '/ipfs/';
+      try {
+        const value = await load(url, signal);
+        this.recordSuccess(gateway, Date.now() - started);
+        return value;
+      } catch (error) {
+        // Losing the race isn't the gateway's fault
+        if (!isHedgeCancelled(signal)) {
+          this.recordFailure(gateway, error instanceof Error ? error.message : 'Hedged load failed');
+        }
+        throw error;
+      }
+    }, options);
+  }
+
   // ✅ Record successful gateway usage
   recordSuccess(gatewayUrl: string, responseTime: number = 0) {
     const gateway = this.gateways.find(g => g.url === gatewayUrl);
@@ -110,6 +191,7 @@ class IPFSGatewayManager {
     }
 
     this.updateGatewayHealth(gateway);
+    this.reporter.record(gatewayUrl, true, responseTime > 0 ? responseTime : undefined);
     console.log(`✅ Gateway success: ${gatewayUrl} (${this.getSuccessRate(gateway).toFixed(1)}% success rate)`);
   }
 
@@ -122,6 +204,7 @@ class IPFSGatewayManager {
     gateway.lastFailure = Date.now();
     
     this.updateGatewayHealth(gateway);
+    this.reporter.record(gatewayUrl, false);
     console.log(`❌ Gateway failure: ${gatewayUrl} (${this.getSuccessRate(gateway).toFixed(1)}% success rate) - ${error || 'Unknown error'}`);
   }
 
@@ -129,14 +212,18 @@ class IPFSGatewayManager {
   private updateGatewayHealth(gateway: GatewayHealth) {
     const successRate = this.getSuccessRate(gateway);
     const recentFailure = Date.now() - gateway.lastFailure < this.RECENT_WINDOW;
+    const circuitOpen = gateway.circuitOpenUntil > Date.now();
     
-    gateway.isHealthy = successRate >= this.SUCCESS_THRESHOLD && !recentFailure;
+    gateway.isHealthy = successRate >= this.SUCCESS_THRESHOLD && !recentFailure && !circuitOpen;
   }
 
   // 📈 Calculate success rate for a gateway
   private getSuccessRate(gateway: GatewayHealth): number {
     const total = gateway.successCount + gateway.failureCount;
-    return total === 0 ? 1.0 : gateway.successCount / total;
+    if (gateway.sharedSuccessRate === null) {
+      return total === 0 ? 1.0 : gateway.successCount / total;
+    }
+    return (gateway.successCount + gateway.sharedSuccessRate * this.SHARED_RATE_WEIGHT) / (total + this.SHARED_RATE_WEIGHT);
   }
 
   // 🟢 Get only healthy gateways
@@ -170,6 +257,11 @@ class IPFSGatewayManager {
       }
     });
 
+    // Expired circuits close here; fresh shared state re-opens any that are still failing
+    if (typeof window !== 'undefined') {
+      await this.syncSharedHealth();
+    }
+
     // Log current status
     const healthyCount = this.getHealthyGateways().length;
     console.log(`🏥 Health check complete: ${healthyCount}/${this.gateways.length} gateways healthy`);
@@ -0,0 +1,112 @@
+// Leaderboard queries (shared by /api/leaderboard and its pages)
+// Sorting, filtering and windowing happen in get_leaderboard(); this module validates the query.
+
+import { supabase } from './supabase';
+import type {
+  LeaderboardCollection,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LeaderboardQuery,
+  LeaderboardSort,
+  LeaderboardWindow
+} from '@/types/leaderboard';
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ['elo', 'win_rate', 'slider', 'movers'];
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, number | null> = {
+  all: null,
+  '1d': 1,
+  '7d': 7,
+  '30d': 30
+};
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 25;
+export const MAX_LEADERBOARD_PAGE_SIZE = 100;
+
+const toInt = (value: string | null, fallback: number) => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const parseLeaderboardQuery = (params: URLSearchParams, collection: string | null = null): LeaderboardQuery => {
+  const sortParam = params.get('sort') as LeaderboardSort | null;
+  const windowParam = params.get('window') as LeaderboardWindow | null;
+  const sort = sortParam && LEADERBOARD_SORTS.includes(sortParam) ? sortParam : 'elo';
+  const timeWindow = windowParam && windowParam in LEADERBOARD_WINDOWS ? windowParam : sort === 'movers' ? '7d' : 'all';
+
+  return {
+    collection: collection ?? (params.get('collection') || null),
+    sort,
+    // Movers need a window; 'all' has no starting point to compare against
+    window: sort === 'movers' && timeWindow === 'all' ? '7d' : timeWindow,
+    minVotes: Math.max(0, toInt(params.get('minVotes'), 0)),
+    page: Math.max(0, toInt(params.get('page'), 0)),
+    pageSize: Math.min(MAX_LEADERBOARD_PAGE_SIZE, Math.max(1, toInt(params.get('pageSize'), DEFAULT_LEADERBOARD_PAGE_SIZE)))
+  };
+};
+
+export const toLeaderboardSearchParams = (query: Partial<LeaderboardQuery>): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.collection) params.set('collection', query.collection);
+  if (query.sort && query.sort !== 'elo') params.set('sort', query.sort);
+  if (query.window && query.window !== 'all') params.set('window', query.window);
+  if (query.minVotes) params.set('minVotes', String(query.minVotes));
+  if (query.page) params.set('page', String(query.page));
+  if (query.pageSize && query.pageSize !== DEFAULT_LEADERBOARD_PAGE_SIZE) params.set('pageSize', String(query.pageSize));
+  return params;
+};
+
+export const getLeaderboard = async (query: LeaderboardQuery): Promise<LeaderboardPage> => {
+  const offset = query.page * query.pageSize;
+  const { data, error } = await supabase.rpc('get_leaderboard', {
+    p_collection: query.collection,
+    p_sort: query.sort,
+    p_min_votes: query.minVotes,
+    p_window_days: LEADERBOARD_WINDOWS[query.window],
+    p_limit: query.pageSize,
+    p_offset: offset
+  });
+
+  if (error) throw error;
+
+  const rows = (data ?? []) as (Omit<LeaderboardEntry, 'rank'> & { total_count: number })[];
+  const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+  const entries: LeaderboardEntry[] = rows.map((row, i) => ({
+    rank: offset + i + 1,
+    nft_id: row.nft_id,
+    name: row.name,
+    image: row.image,
+    token_id: row.token_id,
+    contract_address: row.contract_address,
+    collection_name: row.collection_name,
+    current_elo: row.current_elo,
+    wins: row.wins,
+    losses: row.losses,
+    total_votes: row.total_votes,
+    win_rate: row.win_rate,
+    slider_average: row.slider_average,
+    slider_count: row.slider_count,
+    elo_change: row.elo_change
+  }));
+
+  return {
+    entries,
+    query,
+    total,
+    hasMore: offset + entries.length < total
+  };
+};
+
+export const getLeaderboardCollections = async (): Promise<LeaderboardCollection[]> => {
+  const { data, error } = await supabase.rpc('get_leaderboard_collections');
+  if (error) throw error;
+  return (data ?? []).map((row: { collection_name: string; nft_count: number }) => ({
+    collection_name: row.collection_name,
+    nft_count: Number(row.nft_count)
+  }));
+};
+
+// NFT thumbnail through the /api/img media proxy
+export const leaderboardImageUrl = (entry: Pick<LeaderboardEntry, 'contract_address' | 'token_id' | 'image'>, width = 384) => {
+  const params = new URLSearchParams({ c: entry.contract_address, t: entry.token_id, w: String(width) });
+  if (entry.image) params.set('url', entry.image);
+  return `/api/img?${params.toString()}`;
+};
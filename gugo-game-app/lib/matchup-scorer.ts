@@ -0,0 +1,105 @@
+// 🎯 Information-gain matchup scoring
+// A vote teaches us the most when the outcome is uncertain (close ratings) and when the NFTs
+// involved have few votes. Pairs that have already been voted on are skipped.
+// Mirrors matchup_priority_score() in migrations/11-information-gain-matchups.sql.
+
+import { supabase } from './supabase';
+
+export interface MatchupCandidate {
+  id: string;
+  collection_name: string;
+  current_elo: number;
+  total_votes?: number | null;
+}
+
+export interface ScoredMatchup<T extends MatchupCandidate = MatchupCandidate> {
+  nftA: T;
+  nftB: T;
+  eloDiff: number;
+  priorityScore: number; // 0-100, stored in matchup_queue.priority_score
+}
+
+export interface SelectMatchupsOptions {
+  sameCollection: boolean;
+  excludePairs?: Set<string>;
+}
+
+// Votes at which an NFT's uncertainty has dropped to ~70% of a brand-new NFT's
+const VOTE_PRIOR = 10;
+const MAX_PRIORITY = 100;
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+// Elo win probability for A
+const winProbability = (eloA: number, eloB: number) => 1 / (1 + Math.pow(10, (eloB - eloA) / 400));
+
+// 1 for a brand-new NFT, shrinking as votes accumulate
+const uncertainty = (totalVotes: number) => Math.sqrt(VOTE_PRIOR / (VOTE_PRIOR + Math.max(0, totalVotes)));
+
+export const scoreMatchup = (a: MatchupCandidate, b: MatchupCandidate): number => {
+  const p = winProbability(a.current_elo, b.current_elo);
+  const closeness = 4 * p * (1 - p); // Outcome variance, 1 at a coin flip
+  const meanUncertainty = (uncertainty(a.total_votes ?? 0) + uncertainty(b.total_votes ?? 0)) / 2;
+
+  return Math.max(1, Math.round(MAX_PRIORITY * closeness * meanUncertainty));
+};
+
+// Greedy selection of the highest-scoring pairs, each NFT used at most once
+export const selectMatchups = <T extends MatchupCandidate>(
+  candidates: T[],
+  count: number,
+  { sameCollection, excludePairs = new Set() }: SelectMatchupsOptions
+): ScoredMatchup<T>[] => {
+  const scored: ScoredMatchup<T>[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const nftA = candidates[i];
+      const nftB = candidates[j];
+      if (nftA.id === nftB.id) continue;
+      if ((nftA.collection_name === nftB.collection_name) !== sameCollection) continue;
+      if (excludePairs.has(pairKey(nftA.id, nftB.id))) continue;
+
+      scored.push({
+        nftA,
+        nftB,
+        eloDiff: Math.abs(nftA.current_elo - nftB.current_elo),
+        priorityScore: scoreMatchup(nftA, nftB)
+      });
+    }
+  }
+
+  scored.sort((x, y) => y.priorityScore - x.priorityScore);
+
+  const used = new Set<string>();
+  const selected: ScoredMatchup<T>[] = [];
+  for (const matchup of scored) {
+    if (selected.length >= count) break;
+    if (used.has(matchup.nftA.id) || used.has(matchup.nftB.id)) continue;
+    used.add(matchup.nftA.id);
+    used.add(matchup.nftB.id);
+    selected.push(matchup);
+  }
+
+  return selected;
+};
+
+// Pairs among these NFTs that already have a vote or are waiting in the queue
+// (RPC so large candidate pools are sent in the request body rather than the URL)
+export async function getExcludedPairs(nftIds: string[]): Promise<Set<string>> {
+  const excluded = new Set<string>();
+  if (nftIds.length < 2) return excluded;
+
+  const { data, error } = await supabase.rpc('get_existing_matchup_pairs', { p_nft_ids: nftIds });
+
+  if (error) {
+    console.warn('⚠️ Could not load existing matchup pairs:', error);
+    return excluded;
+  }
+
+  (data ?? []).forEach((row: { nft_a_id: string; nft_b_id: string }) => {
+    excluded.add(pairKey(row.nft_a_id, row.nft_b_id));
+  });
+
+  return excluded;
+}
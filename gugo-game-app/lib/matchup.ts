@@ -1,12 +1,20 @@
 import { supabase } from './supabase';
 import type { VotingSession, VoteType, NFT, MatchupPair, SliderVote } from '@/types/voting';
+import { seenMatchups } from './seen-matchups';
+import { mediaTypeFromUrl } from './collections';
+
+// Queue items already judged by this user are skipped this many times before falling back
+const MAX_SEEN_QUEUE_SKIPS = 3;
 
 // 🧠 Sophisticated Voting Session Logic (INSTANT DELIVERY)
 export async function fetchVotingSession(userWallet?: string): Promise<VotingSession> {
   console.log('🔍 Fetching voting session...');
   
+  // Make sure we know what this user has already judged
+  await seenMatchups.load(userWallet);
+  
   // Try to get instant matchup from pre-generated queue
-  const instantMatchup = await getInstantMatchupFromQueue(userWallet);
+  const instantMatchup = await getInstantMatchupFromQueue();
   if (instantMatchup) {
     console.log(`⚡ Instant delivery: ${instantMatchup.vote_type}`);
     return instantMatchup;
@@ -25,10 +33,8 @@ export async function fetchVotingSession(userWallet?: string): Promise<VotingSes
 }
 
 // ⚡ Get instant matchup from pre-generated queue
-async function getInstantMatchupFromQueue(userWallet?: string): Promise<VotingSession | null> {
+async function getInstantMatchupFromQueue(): Promise<VotingSession | null> {
   try {
-    const userSession = userWallet || `anon_${Date.now()}`;
-    
     // Check if queue table exists first (in case migration hasn't run)
     const { data: tableCheck } = await supabase
       .from('matchup_queue')
@@ -40,24 +46,35 @@ async function getInstantMatchupFromQueue(userWallet?: string): Promise<VotingSe
       return null;
     }
     
-    const { data: queueData, error } = await supabase
-      .rpc('get_instant_matchup', { 
-        preferred_vote_type: null, // Let algorithm decide
-        user_session: userSession 
-      });
+    // Signed-in wallets are filtered server-side (GET /api/matchup); the local check covers anonymous users
+    let matchup = null;
+    for (let attempt = 0; attempt < MAX_SEEN_QUEUE_SKIPS && !matchup; attempt++) {
+      const response = await fetch('/api/matchup', { cache: 'no-store' });
+      const candidate = response.ok ? (await response.json()).matchup : null;
+        
+      if (!candidate) {
+        console.log('📭 Queue empty or error, falling back to dynamic generation');
+        return null;
+      }
       
-    if (error || !queueData || queueData.length === 0) {
-      console.log('📭 Queue empty or error, falling back to dynamic generation');
-      return null;
+      const alreadySeen = candidate.vote_type === 'slider'
+        ? seenMatchups.hasSeenSlider(candidate.slider_nft_id)
+        : seenMatchups.hasSeenPair(candidate.nft_a_id, candidate.nft_b_id);
+      
+      if (alreadySeen) {
+        console.log('👀 Skipping queued matchup this user already judged');
+      } else {
+        matchup = candidate;
+      }
     }
     
-    const matchup = queueData[0];
+    if (!matchup) return null;
     
     // Convert queue result to voting session
     if (matchup.vote_type === 'slider') {
       const { data: nft, error: nftError } = await supabase
         .from('nfts')
-        .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+        .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
         .eq('id', matchup.slider_nft_id)
     .single();
         
@@ -76,12 +93,12 @@ async function getInstantMatchupFromQueue(userWallet?: string): Promise<VotingSe
       const [nft1Result, nft2Result] = await Promise.all([
         supabase
           .from('nfts')
-          .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+          .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
           .eq('id', matchup.nft_a_id)
           .single(),
         supabase
           .from('nfts')
-          .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+          .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
           .eq('id', matchup.nft_b_id)
           .single()
       ]);
@@ -145,46 +162,29 @@ async function fetchSliderVote(): Promise<SliderVote> {
   console.log('🎚️ Fetching slider vote...');
   
   // Use the cold start function to find NFTs needing slider votes
-  const { data: nftData, error } = await supabase
-    .rpc('find_cold_start_nfts', { limit_count: 1 });
+  const { data: coldStartData, error } = await supabase
+    .rpc('find_cold_start_nfts', { limit_count: 10 });
+  const nftData = (coldStartData || []).filter((nft: { nft_id: string }) => !seenMatchups.hasSeenSlider(nft.nft_id));
     
-  if (error || !nftData || nftData.length === 0) {
+  if (error || nftData.length === 0) {
     console.warn('⚠️ No cold start NFTs found, falling back to random NFT');
     
-    // Fallback to random NFT with lowest slider count, excluding videos and unrevealed
-    const { data: fallbackNFT, error: fallbackError } = await supabase
+    // Fallback to random eligible NFT with lowest slider count
+    const { data: fallbackNFTs, error: fallbackError } = await supabase
       .from('nfts')
-      .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
-      .not('image', 'ilike', '%.mp4%')
-      .not('image', 'ilike', '%.mov%')
-      .not('image', 'ilike', '%.avi%')
-      .not('image', 'ilike', '%.webm%')
-      .not('image', 'ilike', '%.mkv%')
-      .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-      .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-      .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-      .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-      .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-      .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-      .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-      .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-      .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-      .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-      .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-      .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-      .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-      .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-      .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-      .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+      .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+      .eq('eligible', true)
       .order('slider_count', { ascending: true })
       .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+      .limit(20);
       
-    if (fallbackError || !fallbackNFT) {
+    if (fallbackError || !fallbackNFTs || fallbackNFTs.length === 0) {
       throw new Error('Failed to find any NFT for slider voting');
     }
     
+    // Prefer an NFT this user hasn't rated yet
+    const fallbackNFT = fallbackNFTs.find(nft => !seenMatchups.hasSeenSlider(nft.id)) || fallbackNFTs[0];
+    
     return {
       nft: mapNFTData(fallbackNFT),
       vote_type: 'slider'
@@ -194,7 +194,7 @@ async function fetchSliderVote(): Promise<SliderVote> {
   // Fetch the full NFT data
   const { data: fullNFT, error: nftError } = await supabase
     .from('nfts')
-    .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+    .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
     .eq('id', nftData[0].nft_id)
     .single();
     
@@ -221,23 +221,25 @@ async function fetchMatchupVote(voteType: 'same_coll' | 'cross_coll'): Promise<M
   const { data: matchupData, error } = await supabase
     .rpc(functionName);
     
-  if (error || !matchupData || matchupData.length === 0) {
-    console.warn(`⚠️ No ${voteType} matchup found, falling back to random selection`);
+  const matchup = (matchupData || []).find(
+    (candidate: { nft_a_id: string; nft_b_id: string }) => !seenMatchups.hasSeenPair(candidate.nft_a_id, candidate.nft_b_id)
+  );
+    
+  if (error || !matchup) {
+    console.warn(`⚠️ No unseen ${voteType} matchup found, falling back to random selection`);
     return await fallbackRandomMatchup(voteType);
   }
   
-  const matchup = matchupData[0];
-  
   // Fetch both NFTs
   const [nft1Result, nft2Result] = await Promise.all([
     supabase
       .from('nfts')
-      .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+      .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
       .eq('id', matchup.nft_a_id)
       .single(),
     supabase
       .from('nfts')
-      .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+      .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
       .eq('id', matchup.nft_b_id)
       .single()
   ]);
@@ -266,34 +268,26 @@ async function fallbackRandomMatchup(voteType: 'same_coll' | 'cross_coll'): Prom
     
   const { data: nfts, error } = await supabase
     .from('nfts')
-    .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
-    .not('image', 'ilike', '%.mp4%')
-    .not('image', 'ilike', '%.mov%')
-    .not('image', 'ilike', '%.avi%')
-    .not('image', 'ilike', '%.webm%')
-    .not('image', 'ilike', '%.mkv%')
-    .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-    .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-    .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-    .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-    .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-    .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-    .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-    .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-    .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-    .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-    .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-    .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-    .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-    .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-    .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-    .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+    .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+    .eq('eligible', true)
     .limit(10);
     
   if (error || !nfts || nfts.length < 2) {
     throw new Error('Not enough NFTs available for matchup');
   }
   
+  // Prefer a random pair this user hasn't judged yet
+  const unseenPairs = nfts.flatMap((a, i) => nfts.slice(i + 1).map(b => [a, b] as const))
+    .filter(([a, b]) => !seenMatchups.hasSeenPair(a.id, b.id));
+  if (unseenPairs.length > 0) {
+    const [unseenA, unseenB] = unseenPairs[Math.floor(Math.random() * unseenPairs.length)];
+    return {
+      nft1: mapNFTData(unseenA),
+      nft2: mapNFTData(unseenB),
+      vote_type: voteType
+    };
+  }
+  
   // Simple random selection for fallback
   const nft1 = nfts[Math.floor(Math.random() * nfts.length)];
   const nft2 = nfts[Math.floor(Math.random() * nfts.length)];
@@ -321,6 +315,8 @@ function mapNFTData(dbNFT: Record<string, any>): NFT {
     id: dbNFT.id,
     name: dbNFT.name,
     image: dbNFT.image,
+    media_type: dbNFT.media_type ?? mediaTypeFromUrl(dbNFT.image),
+    thumbhash: dbNFT.thumbhash ?? null,
     collection_address: dbNFT.contract_address,
     token_address: dbNFT.contract_address,
     token_id: dbNFT.token_id,
@@ -0,0 +1,162 @@
+// 📥 Metadata sources for collection imports (scripts/import-collection.ts)
+// A source lists a collection's tokens with their metadata; 'rpc' reads the ERC-721 contract on
+// Abstract and resolves tokenURI, 'fixture' reads a local JSON file so imports can run offline.
+
+import { readFileSync } from 'fs';
+import { createPublicClient, http, parseAbi, zeroAddress, type Address } from 'viem';
+import { abstract } from 'viem/chains';
+import { normalizeTraits } from './collections';
+import type { ImportedToken } from '@/types/collections';
+
+export type MetadataSourceName = 'rpc' | 'fixture';
+
+export interface CollectionInfo {
+  contractAddress: string;
+  name: string;
+  totalSupply: number | null;
+}
+
+export interface TokenRange {
+  start: number;
+  end?: number; // inclusive; defaults to the end of the collection
+}
+
+export interface MetadataSource {
+  name: MetadataSourceName;
+  getCollection(contractAddress: string): Promise<CollectionInfo>;
+  getTokens(contractAddress: string, range: TokenRange): AsyncGenerator<ImportedToken>;
+}
+
+export interface MetadataSourceOptions {
+  rpcUrl?: string;
+  fixturePath?: string;
+  concurrency?: number;
+}
+
+// 0x...dEaD is the conventional burn address alongside the zero address
+const BURN_ADDRESSES = new Set([zeroAddress, '0x000000000000000000000000000000000000dead']);
+const METADATA_TIMEOUT_MS = 15000;
+// Not ipfs-gateway-manager: its health-check timer would keep CLI imports from exiting
+const IPFS_GATEWAY = process.env.IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
+
+const ERC721_ABI = parseAbi([
+  'function name() view returns (string)',
+  'function totalSupply() view returns (uint256)',
+  'function tokenURI(uint256 tokenId) view returns (string)',
+  'function ownerOf(uint256 tokenId) view returns (address)'
+]);
+
+interface RawTokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  image_url?: string;
+  attributes?: unknown;
+  traits?: unknown;
+}
+
+const toImportedToken = (tokenId: string, metadata: RawTokenMetadata | null, burned: boolean): ImportedToken => ({
+  tokenId,
+  name: metadata?.name ?? null,
+  description: metadata?.description ?? null,
+  image: metadata?.image ?? metadata?.image_url ?? null,
+  traits: normalizeTraits(metadata?.attributes ?? metadata?.traits),
+  burned
+});
+
+// tokenURI may be ipfs://, https:// or an inline data: URI
+const fetchTokenMetadata = async (tokenUri: string): Promise<RawTokenMetadata | null> => {
+  if (tokenUri.startsWith('data:application/json')) {
+    const [, payload] = tokenUri.split(',', 2);
+    const json = tokenUri.includes(';base64,') ? Buffer.from(payload, 'base64').toString('utf8') : decodeURIComponent(payload);
+    return JSON.parse(json);
+  }
+
+  const url = tokenUri.startsWith('ipfs://') ? `${IPFS_GATEWAY}${tokenUri.slice('ipfs://'.length)}` : tokenUri;
+  const response = await fetch(url, { signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Metadata request failed: ${response.status}`);
+  return response.json();
+};
+
+export const createRpcMetadataSource = ({ rpcUrl, concurrency = 8 }: MetadataSourceOptions = {}): MetadataSource => {
+  const client = createPublicClient({ chain: abstract, transport: http(rpcUrl) });
+
+  const readToken = async (contract: Address, tokenId: bigint): Promise<ImportedToken> => {
+    // Burned tokens revert ownerOf on most ERC-721s; some transfer to a burn address instead
+    const owner = await client.readContract({ address: contract, abi: ERC721_ABI, functionName: 'ownerOf', args: [tokenId] })
+      .catch(() => null);
+    const burned = owner === null || BURN_ADDRESSES.has(owner.toLowerCase() as Address);
+
+    try {
+      const tokenUri = await client.readContract({ address: contract, abi: ERC721_ABI, functionName: 'tokenURI', args: [tokenId] });
+      return toImportedToken(tokenId.toString(), await fetchTokenMetadata(tokenUri), burned);
+    } catch (error) {
+      if (!burned) console.warn(`⚠️ No metadata for token ${tokenId}:`, error instanceof Error ? error.message : error);
+      return toImportedToken(tokenId.toString(), null, burned);
+    }
+  };
+
+  return {
+    name: 'rpc',
+
+    async getCollection(contractAddress) {
+      const address = contractAddress as Address;
+      const [name, totalSupply] = await Promise.all([
+        client.readContract({ address, abi: ERC721_ABI, functionName: 'name' }).catch(() => contractAddress),
+        client.readContract({ address, abi: ERC721_ABI, functionName: 'totalSupply' }).catch(() => null)
+      ]);
+      return { contractAddress, name, totalSupply: totalSupply === null ? null : Number(totalSupply) };
+    },
+
+    async *getTokens(contractAddress, range) {
+      const end = range.end ?? (await this.getCollection(contractAddress)).totalSupply;
+      if (end == null) throw new Error('Contract has no totalSupply(); pass an explicit end token id');
+
+      for (let batchStart = range.start; batchStart <= end; batchStart += concurrency) {
+        const ids = Array.from({ length: Math.min(concurrency, end - batchStart + 1) }, (_, i) => BigInt(batchStart + i));
+        yield* await Promise.all(ids.map(id => readToken(contractAddress as Address, id)));
+      }
+    }
+  };
+};
+
+interface MetadataFixture {
+  collection: { contract_address: string; name: string };
+  tokens: (RawTokenMetadata & { token_id: string; burned?: boolean })[];
+}
+
+export const createFixtureMetadataSource = ({ fixturePath }: MetadataSourceOptions = {}): MetadataSource => {
+  if (!fixturePath) throw new Error('The fixture metadata source needs a fixture path');
+  const fixture: MetadataFixture = JSON.parse(readFileSync(fixturePath, 'utf8'));
+
+  return {
+    name: 'fixture',
+
+    async getCollection(contractAddress) {
+      return {
+        contractAddress: contractAddress || fixture.collection.contract_address,
+        name: fixture.collection.name,
+        totalSupply: fixture.tokens.length
+      };
+    },
+
+    async *getTokens(_contractAddress, range) {
+      for (const token of fixture.tokens) {
+        const id = Number(token.token_id);
+        if (id < range.start || (range.end !== undefined && id > range.end)) continue;
+        yield toImportedToken(token.token_id, token, !!token.burned);
+      }
+    }
+  };
+};
+
+export const createMetadataSource = (name: MetadataSourceName, options: MetadataSourceOptions = {}): MetadataSource => {
+  switch (name) {
+    case 'rpc':
+      return createRpcMetadataSource(options);
+    case 'fixture':
+      return createFixtureMetadataSource(options);
+    default:
+      throw new Error(`Unknown metadata source "${name}" (expected rpc or fixture)`);
+  }
+};
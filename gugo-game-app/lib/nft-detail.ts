@@ -0,0 +1,147 @@
+// NFT detail queries (server only - used by the /nft/[id] page)
+// Rating history comes from the per-vote ratings stamped in migrations/14-vote-rating-history.sql;
+// best wins, worst losses and head-to-head records are aggregated here from the same votes.
+
+import { supabaseAdmin } from './supabase-server';
+import { normalizeTraits } from './collections';
+import type {
+  EloHistoryPoint,
+  HeadToHeadRecord,
+  NftDetail,
+  NftDetailPage,
+  NftSummary,
+  NotableResult
+} from '@/types/nft-detail';
+
+export const MAX_DETAIL_VOTES = 2000;
+export const NOTABLE_RESULTS_LIMIT = 5;
+export const HEAD_TO_HEAD_LIMIT = 50;
+
+const PAGE_SIZE = 1000;
+const OPPONENT_CHUNK_SIZE = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SUMMARY_COLUMNS = 'id, name, image, token_id, contract_address, collection_name, current_elo';
+
+interface DetailVoteRow {
+  nft_a_id: string;
+  nft_b_id: string;
+  winner_id: string;
+  nft_a_elo_after: number | null;
+  nft_b_elo_after: number | null;
+  engagement_data: { super_vote?: boolean } | null;
+  created_at: string;
+}
+
+// Most recent matchup votes involving this NFT, returned oldest first
+const loadVotes = async (nftId: string): Promise<DetailVoteRow[]> => {
+  const votes: DetailVoteRow[] = [];
+
+  for (let from = 0; from < MAX_DETAIL_VOTES; from += PAGE_SIZE) {
+    const to = Math.min(from + PAGE_SIZE, MAX_DETAIL_VOTES) - 1;
+    const { data, error } = await supabaseAdmin
+      .from('votes')
+      .select('nft_a_id, nft_b_id, winner_id, nft_a_elo_after, nft_b_elo_after, engagement_data, created_at')
+      .or(`nft_a_id.eq.${nftId},nft_b_id.eq.${nftId}`)
+      .in('vote_type_v2', ['same_coll', 'cross_coll'])
+      .not('winner_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) throw error;
+    votes.push(...((data ?? []) as DetailVoteRow[]));
+    if (!data || data.length < to - from + 1) break;
+  }
+
+  return votes.reverse();
+};
+
+const loadOpponents = async (ids: string[]): Promise<Map<string, NftSummary>> => {
+  const opponents = new Map<string, NftSummary>();
+
+  for (let i = 0; i < ids.length; i += OPPONENT_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('nfts')
+      .select(SUMMARY_COLUMNS)
+      .in('id', ids.slice(i, i + OPPONENT_CHUNK_SIZE));
+
+    if (error) throw error;
+    (data ?? []).forEach((row: NftSummary) => opponents.set(row.id, row));
+  }
+
+  return opponents;
+};
+
+// Opponent strength at vote time, falling back to today's rating for unstamped votes
+const strength = (result: NotableResult) => result.opponentElo ?? result.opponent.current_elo;
+
+export const getNftDetail = async (nftId: string): Promise<NftDetailPage | null> => {
+  if (!UUID_PATTERN.test(nftId)) return null;
+
+  const { data: nft, error } = await supabaseAdmin
+    .from('nfts')
+    .select(`${SUMMARY_COLUMNS}, traits, wins, losses, total_votes, slider_average, slider_count`)
+    .eq('id', nftId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!nft) return null;
+
+  const votes = await loadVotes(nftId);
+  const opponentIds = [...new Set(votes.map(vote => (vote.nft_a_id === nftId ? vote.nft_b_id : vote.nft_a_id)))];
+  const opponents = await loadOpponents(opponentIds);
+
+  const history: EloHistoryPoint[] = [];
+  const wins: NotableResult[] = [];
+  const losses: NotableResult[] = [];
+  const records = new Map<string, HeadToHeadRecord>();
+
+  for (const vote of votes) {
+    const isA = vote.nft_a_id === nftId;
+    const won = vote.winner_id === nftId;
+    const opponent = opponents.get(isA ? vote.nft_b_id : vote.nft_a_id);
+
+    history.push({ votedAt: vote.created_at, elo: isA ? vote.nft_a_elo_after : vote.nft_b_elo_after, won });
+    if (!opponent) continue; // opponent deleted since the vote
+
+    const result: NotableResult = {
+      opponent,
+      opponentElo: isA ? vote.nft_b_elo_after : vote.nft_a_elo_after,
+      votedAt: vote.created_at,
+      superVote: !!vote.engagement_data?.super_vote
+    };
+    (won ? wins : losses).push(result);
+
+    const record = records.get(opponent.id) ?? { opponent, wins: 0, losses: 0, lastVotedAt: vote.created_at };
+    if (won) record.wins++;
+    else record.losses++;
+    record.lastVotedAt = vote.created_at;
+    records.set(opponent.id, record);
+  }
+
+  const detail: NftDetail = {
+    id: nft.id,
+    name: nft.name,
+    image: nft.image,
+    token_id: nft.token_id,
+    contract_address: nft.contract_address,
+    collection_name: nft.collection_name,
+    current_elo: nft.current_elo,
+    traits: normalizeTraits(nft.traits),
+    wins: nft.wins ?? 0,
+    losses: nft.losses ?? 0,
+    total_votes: nft.total_votes ?? 0,
+    slider_average: nft.slider_average,
+    slider_count: nft.slider_count ?? 0
+  };
+
+  return {
+    nft: detail,
+    history,
+    bestWins: wins.sort((x, y) => strength(y) - strength(x)).slice(0, NOTABLE_RESULTS_LIMIT),
+    worstLosses: losses.sort((x, y) => strength(x) - strength(y)).slice(0, NOTABLE_RESULTS_LIMIT),
+    headToHead: [...records.values()]
+      .sort((x, y) => y.wins + y.losses - (x.wins + x.losses) || y.lastVotedAt.localeCompare(x.lastVotedAt))
+      .slice(0, HEAD_TO_HEAD_LIMIT),
+    votesConsidered: votes.length
+  };
+};
@@ -2,8 +2,16 @@
 // Preloads voting sessions with images for instant transitions
 
 import { supabase } from './supabase';
-import { VotingSession } from '@/types/voting';
-import { fixImageUrl, getNextIPFSGateway, ipfsGatewayManager } from './ipfs-gateway-manager';
+import type { NFT, VotingSession } from '@/types/voting';
+import { fixImageUrl, ipfsGatewayManager } from './ipfs-gateway-manager';
+import { getExcludedPairs, selectMatchups, type MatchupCandidate } from './matchup-scorer';
+import { seenMatchups } from './seen-matchups';
+import { reportMediaFailure } from '@/lib/media-failure-reports';
+
+// Columns the matchup queries select; sessions carry these rows as-is (contract_address, no collection_address)
+type MatchupNftRow = Pick<NFT, 'id' | 'name' | 'image' | 'media_type' | 'thumbhash' | 'token_id' | 'contract_address' | 'collection_name' | 'current_elo'> & {
+  total_votes?: number | null;
+};
 
 class VotingPreloader {
   private static instance: VotingPreloader;
@@ -15,6 +23,7 @@ class VotingPreloader {
   private imagePreloadCache = new Map<string, boolean>();
   private seenNFTIds = new Set<string>(); // Track NFTs shown in current session
   private readonly MAX_SEEN_NFTS = 50; // Clear tracking after this many NFTs
+  private readonly TOP_MATCHUP_CHOICES = 3; // Pick randomly among this many best-scoring pairs
 
   static getInstance(): VotingPreloader {
     if (!VotingPreloader.instance) {
@@ -23,6 +32,18 @@ class VotingPreloader {
     return VotingPreloader.instance;
   }
 
+  // 🎞️ Image() can't decode video; VideoNftMedia loads its own poster and clip, so only images are preloaded
+  // A failure here means every gateway failed, so it's reported for moderation (src/lib/media-failure-reports.ts)
+  private async preloadMedia(nft: { id?: string; image: string; media_type?: string | null }): Promise<boolean> {
+    if (nft.media_type === 'video') return true;
+
+    const loaded = await this.preloadImage(nft.image);
+    if (!loaded && nft.id && nft.image) {
+      reportMediaFailure({ nftId: nft.id, reason: 'load_failed', mediaUrl: fixImageUrl(nft.image) });
+    }
+    return loaded;
+  }
+
   // 🖼️ Preload images in background with robust fallback
   private async preloadImage(imageUrl: string): Promise<boolean> {
     if (!imageUrl) return false;
@@ -32,69 +53,29 @@ class VotingPreloader {
       return this.imagePreloadCache.get(imageUrl)!;
     }
 
-    return new Promise((resolve) => {
-      let attemptCount = 0;
-      const maxAttempts = 5; // Try 5 different gateways
-      let currentUrl = fixImageUrl(imageUrl);
-
-      const tryLoadImage = () => {
+    try {
+      // Gateways race with hedging instead of 5s timeouts one after another
+      await ipfsGatewayManager.hedgedLoad(imageUrl, (url, signal) => new Promise<void>((resolve, reject) => {
         const img = new Image();
-        
-        const timeout = setTimeout(() => {
-          console.log(`⏰ Timeout for attempt ${attemptCount + 1}: ${currentUrl.substring(0, 60)}...`);
-          tryNextGateway();
-        }, 5000); // Increased timeout to 5 seconds
-
-        img.onload = () => {
-          clearTimeout(timeout);
-          
-          // Track gateway success
-          const currentGateway = currentUrl.split('/ipfs/')[0] + '/ipfs/';
-          ipfsGatewayManager.recordSuccess(currentGateway);
-          
-          this.imagePreloadCache.set(imageUrl, true);
-          console.log(`✅ Preloaded: ${imageUrl.substring(0, 50)}...`);
-          resolve(true);
-        };
-        
-        img.onerror = () => {
-          clearTimeout(timeout);
-          
-          // Track gateway failure
-          const currentGateway = currentUrl.split('/ipfs/')[0] + '/ipfs/';
-          ipfsGatewayManager.recordFailure(currentGateway, 'Preloader image load failed');
-          
-          console.log(`❌ Failed attempt ${attemptCount + 1}: ${currentUrl.substring(0, 60)}...`);
-          tryNextGateway();
-        };
-        
-        img.src = currentUrl;
-      };
-
-      const tryNextGateway = () => {
-        attemptCount++;
-        if (attemptCount >= maxAttempts) {
-          console.log(`🚫 All attempts failed for: ${imageUrl.substring(0, 50)}...`);
-          this.imagePreloadCache.set(imageUrl, false);
-          resolve(false);
-          return;
-        }
-        
-        const nextUrl = getNextIPFSGateway(currentUrl, imageUrl);
-        if (!nextUrl) {
-          console.log(`🚫 No more gateways to try for: ${imageUrl.substring(0, 50)}...`);
-          this.imagePreloadCache.set(imageUrl, false);
-          resolve(false);
-          return;
-        }
-        
-        currentUrl = nextUrl;
-        console.log(`🔄 Trying gateway ${attemptCount + 1}: ${currentUrl.substring(0, 60)}...`);
-        tryLoadImage();
-      };
-
-      tryLoadImage();
-    });
+        img.onload = () => resolve();
+        img.onerror = () => reject(new Error('Preloader image load failed'));
+        signal.addEventListener('abort', () => {
+          // Clearing src cancels the download in every major browser
+          img.onload = img.onerror = null;
+          img.src = '';
+          reject(signal.reason);
+        }, { once: true });
+        img.src = url;
+      }));
+
+      this.imagePreloadCache.set(imageUrl, true);
+      console.log(`✅ Preloaded: ${imageUrl.substring(0, 50)}...`);
+      return true;
+    } catch (error) {
+      console.log(`🚫 All attempts failed for: ${imageUrl.substring(0, 50)}...`, error instanceof Error ? error.message : error);
+      this.imagePreloadCache.set(imageUrl, false);
+      return false;
+    }
   }
 
 
@@ -121,67 +102,23 @@ class VotingPreloader {
   // 🎚️ Generate slider session (with duplicate prevention)
   private async generateSliderSession(): Promise<VotingSession | null> {
     try {
-      // Try to get NFTs with low slider count first, excluding already seen, video files, and unrevealed NFTs
+      // Try to get NFTs with low slider count first, excluding already seen and ineligible NFTs
       let { data: nfts, error } = await supabase
         .from('nfts')
-        .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count, traits')
+        .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
         .lt('slider_count', 5)
-        .not('image', 'ilike', '%.mp4%')
-        .not('image', 'ilike', '%.mov%')
-        .not('image', 'ilike', '%.avi%')
-        .not('image', 'ilike', '%.webm%')
-        .not('image', 'ilike', '%.mkv%')
-        .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-        .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-        .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-        .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-        .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+        .eq('eligible', true)
         .order('slider_count', { ascending: true })
         .order('total_votes', { ascending: true })
         .limit(20); // Get more to filter out seen ones
 
       // Debug logging for filter effectiveness
-      console.log(`🔍 Found ${nfts?.length || 0} slider NFTs after unrevealed filters`);
-
-      // Debug: Log NFTs that passed slider filter
-      if (nfts?.length) {
-        const kabuNfts = nfts.filter(nft => nft.collection_name === 'Kabu');
-        const beeishNfts = nfts.filter(nft => nft.collection_name === 'Beeish');
-        
-        if (kabuNfts.length > 0) {
-          console.log(`🚨 SLIDER: ${kabuNfts.length} Kabu NFTs passed filters:`);
-          if (kabuNfts[0]) {
-            console.log(`  Slider-Kabu: ${kabuNfts[0].name}`);
-            console.log(`    Traits:`, kabuNfts[0].traits);
-            console.log(`    Traits JSON:`, JSON.stringify(kabuNfts[0].traits, null, 2));
-          }
-        }
-        
-        if (beeishNfts.length > 0) {
-          console.log(`🚨 SLIDER: ${beeishNfts.length} Beeish NFTs passed filters:`);
-          if (beeishNfts[0]) {
-            console.log(`  Slider-Beeish: ${beeishNfts[0].name}`);
-            console.log(`    Traits:`, beeishNfts[0].traits);
-            console.log(`    Traits JSON:`, JSON.stringify(beeishNfts[0].traits, null, 2));
-          }
-        }
-      }
+      console.log(`🔍 Found ${nfts?.length || 0} eligible slider NFTs`);
 
       // Filter out already seen NFTs
       if (nfts?.length) {
         const beforeFilter = nfts.length;
-        nfts = nfts.filter(nft => !this.seenNFTIds.has(nft.id));
+        nfts = nfts.filter(nft => !this.seenNFTIds.has(nft.id) && !seenMatchups.hasSeenSlider(nft.id));
         console.log(`🔍 Filtered seen NFTs: ${beforeFilter} → ${nfts.length}`);
       }
 
@@ -191,28 +128,8 @@ class VotingPreloader {
         if (error) console.log('❌ Slider query error:', error);
         const result = await supabase
           .from('nfts')
-          .select('id, name, image, token_id, contract_address, collection_name, current_elo, slider_average, slider_count, traits')
-          .not('image', 'ilike', '%.mp4%')
-          .not('image', 'ilike', '%.mov%')
-          .not('image', 'ilike', '%.avi%')
-          .not('image', 'ilike', '%.webm%')
-          .not('image', 'ilike', '%.mkv%')
-                  .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-        .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-        .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-        .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-        .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-        .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+          .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, slider_average, slider_count')
+          .eq('eligible', true)
         .limit(100); // Get more for better filtering
         
         if (result.error || !result.data?.length) {
@@ -220,19 +137,8 @@ class VotingPreloader {
           return null;
         }
         
-        // Debug: Check fallback slider NFTs  
-        const fallbackKabu = result.data.filter(nft => nft.collection_name === 'Kabu');
-        const fallbackBeeish = result.data.filter(nft => nft.collection_name === 'Beeish');
-        
-        if (fallbackKabu.length > 0) {
-          console.log(`🚨 FALLBACK SLIDER: ${fallbackKabu.length} Kabu NFTs passed filters`);
-        }
-        if (fallbackBeeish.length > 0) {
-          console.log(`🚨 FALLBACK SLIDER: ${fallbackBeeish.length} Beeish NFTs passed filters`);
-        }
-        
         // Filter out seen NFTs and pick random from remaining
-        const unseenNFTs = result.data.filter(nft => !this.seenNFTIds.has(nft.id));
+        const unseenNFTs = result.data.filter(nft => !this.seenNFTIds.has(nft.id) && !seenMatchups.hasSeenSlider(nft.id));
         
         if (unseenNFTs.length === 0) {
           console.log('🔄 All NFTs seen, clearing history and retrying...');
@@ -245,18 +151,11 @@ class VotingPreloader {
 
       const nft = nfts[0];
       
-      // Debug: Alert if selected NFT is unrevealed
-      if (nft.collection_name === 'Kabu' || nft.collection_name === 'Beeish') {
-        console.log(`🚨 SELECTED UNREVEALED: ${nft.collection_name} - ${nft.name}`);
-        console.log(`    Traits:`, nft.traits);
-        console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-      }
-      
       // Mark as seen
       this.markNFTAsSeen(nft.id);
       
       // Preload image and validate it loads successfully
-      const imageLoaded = await this.preloadImage(nft.image);
+      const imageLoaded = await this.preloadMedia(nft);
       
       if (!imageLoaded) {
         console.log(`🚫 Skipping NFT ${nft.id} - image failed to load: ${nft.image.substring(0, 50)}...`);
@@ -277,167 +176,60 @@ class VotingPreloader {
   // 🥊 Generate matchup session
   private async generateMatchupSession(voteType: 'same_coll' | 'cross_coll'): Promise<VotingSession | null> {
     try {
-      let nfts;
+      let nfts: [MatchupNftRow, MatchupNftRow] | null;
       
       if (voteType === 'same_coll') {
-        // Simplified same collection logic - get NFTs from a random collection, excluding videos and unrevealed
+        // Simplified same collection logic - get NFTs from a random collection, excluding ineligible ones
         const { data: allNfts } = await supabase
           .from('nfts')
-          .select('id, name, image, token_id, contract_address, collection_name, current_elo, traits')
+          .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, total_votes')
           .not('collection_name', 'is', null)
-          .not('image', 'ilike', '%.mp4%')
-          .not('image', 'ilike', '%.mov%')
-          .not('image', 'ilike', '%.avi%')
-          .not('image', 'ilike', '%.webm%')
-          .not('image', 'ilike', '%.mkv%')
-          .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-          .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-          .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-          .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-          .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+          .eq('eligible', true)
           .limit(200);
 
-        console.log(`🔍 Found ${allNfts?.length || 0} same-collection NFTs after unrevealed filters`);
+        console.log(`🔍 Found ${allNfts?.length || 0} same-collection eligible NFTs`);
         if (!allNfts?.length) return null;
 
         // Filter out already seen NFTs
-        const unseenNfts = allNfts.filter(nft => !this.seenNFTIds.has(nft.id));
-        const nftsToUse = unseenNfts.length >= 2 ? unseenNfts : allNfts; // Fallback if not enough unseen
+        const rows = allNfts as MatchupNftRow[];
+        const unseenNfts = rows.filter(nft => !this.seenNFTIds.has(nft.id));
+        const nftsToUse = unseenNfts.length >= 2 ? unseenNfts : rows; // Fallback if not enough unseen
         console.log(`🔍 Same-collection: ${allNfts.length} total → ${unseenNfts.length} unseen → using ${nftsToUse.length}`);
 
-        // Debug: Log NFTs that passed the filter
-        const kabuNfts = nftsToUse.filter(nft => nft.collection_name === 'Kabu');
-        const beeishNfts = nftsToUse.filter(nft => nft.collection_name === 'Beeish');
-        
-        if (kabuNfts.length > 0) {
-          console.log(`🚨 ${kabuNfts.length} Kabu NFTs passed filters:`);
-          kabuNfts.slice(0, 2).forEach((nft, i) => {
-            console.log(`  Kabu ${i + 1}: ${nft.name}`);
-            console.log(`    Traits:`, nft.traits);
-            console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-          });
-        }
-        
-        if (beeishNfts.length > 0) {
-          console.log(`🚨 ${beeishNfts.length} Beeish NFTs passed filters:`);
-          beeishNfts.slice(0, 2).forEach((nft, i) => {
-            console.log(`  Beeish ${i + 1}: ${nft.name}`);
-            console.log(`    Traits:`, nft.traits);
-            console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-          });
-        }
-
-        // Group by collection and find collections with 2+ NFTs
-        const collectionGroups = nftsToUse.reduce((groups, nft) => {
-          const collection = nft.collection_name;
-          if (!groups[collection]) groups[collection] = [];
-          groups[collection].push(nft);
-          return groups;
-        }, {} as Record<string, any[]>);
-
-        const validCollections = Object.entries(collectionGroups)
-          .filter(([_, nfts]) => nfts.length >= 2);
-
-        if (!validCollections.length) return null;
-
-        // Pick random collection with 2+ NFTs
-        const [_, collectionNfts] = validCollections[Math.floor(Math.random() * validCollections.length)];
-        
-        // Pick two random NFTs from that collection
-        const shuffled = collectionNfts.sort(() => 0.5 - Math.random());
-        nfts = shuffled.slice(0, 2);
+        // Most informative same-collection pair (close Elo, few votes, not voted yet)
+        nfts = await this.pickInformativePair(nftsToUse, true);
+        if (!nfts) return null;
       } else {
-        // Cross collection - random NFTs, excluding videos and unrevealed
+        // Cross collection - random eligible NFTs
         const { data: randomNfts, error } = await supabase
           .from('nfts')
-          .select('id, name, image, token_id, contract_address, collection_name, current_elo, traits')
-          .not('image', 'ilike', '%.mp4%')
-          .not('image', 'ilike', '%.mov%')
-          .not('image', 'ilike', '%.avi%')
-          .not('image', 'ilike', '%.webm%')
-          .not('image', 'ilike', '%.mkv%')
-          .not('traits', 'cs', '[{"trait_type": "Reveal", "value": "Unrevealed"}]')  // Exclude unrevealed NFTs
-          .not('traits', 'cs', '[{"trait_type": "reveal", "value": "unrevealed"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Status", "value": "Unrevealed"}]')  // Alternative trait names
-          .not('traits', 'cs', '[{"trait_type": "status", "value": "unrevealed"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Status", "value": "Hidden"}]')     // Kabu collection unrevealed
-          .not('traits', 'cs', '[{"trait_type": "status", "value": "hidden"}]')     // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Stage", "value": "Pre-reveal"}]')  // Bearish collection unrevealed
-          .not('traits', 'cs', '[{"trait_type": "stage", "value": "pre-reveal"}]')  // Case variations
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Regular"}]')      // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Robot"}]')        // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Zombee"}]')       // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "Hive", "value": "Present"}]')      // Beeish collection unrevealed (specific to Beeish)
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "regular"}]')      // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "robot"}]')        // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "zombee"}]')       // Case variations
-          .not('traits', 'cs', '[{"trait_type": "hive", "value": "present"}]')      // Case variations
+          .select('id, name, image, media_type, thumbhash, token_id, contract_address, collection_name, current_elo, total_votes')
+          .eq('eligible', true)
           .limit(100);
 
-        console.log(`🔍 Found ${randomNfts?.length || 0} cross-collection NFTs after unrevealed filters`);
+        console.log(`🔍 Found ${randomNfts?.length || 0} cross-collection eligible NFTs`);
         if (error || !randomNfts || randomNfts.length < 2) {
           console.error('❌ Failed to fetch NFTs for cross-collection matchup:', error);
           return null;
         }
         
         // Filter out already seen NFTs
-        const unseenNfts = randomNfts.filter(nft => !this.seenNFTIds.has(nft.id));
-        const nftsToUse = unseenNfts.length >= 2 ? unseenNfts : randomNfts; // Fallback if not enough unseen
+        const rows = randomNfts as MatchupNftRow[];
+        const unseenNfts = rows.filter(nft => !this.seenNFTIds.has(nft.id));
+        const nftsToUse = unseenNfts.length >= 2 ? unseenNfts : rows; // Fallback if not enough unseen
         
-        // Debug: Log NFTs that passed cross-collection filter
-        const kabuNfts = nftsToUse.filter(nft => nft.collection_name === 'Kabu');
-        const beeishNfts = nftsToUse.filter(nft => nft.collection_name === 'Beeish');
-        
-        if (kabuNfts.length > 0) {
-          console.log(`🚨 CROSS-COLL: ${kabuNfts.length} Kabu NFTs passed filters:`);
-          kabuNfts.slice(0, 1).forEach((nft, i) => {
-            console.log(`  Cross-Kabu: ${nft.name}`);
-            console.log(`    Traits:`, nft.traits);
-            console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-          });
-        }
-        
-        if (beeishNfts.length > 0) {
-          console.log(`🚨 CROSS-COLL: ${beeishNfts.length} Beeish NFTs passed filters:`);
-          beeishNfts.slice(0, 1).forEach((nft, i) => {
-            console.log(`  Cross-Beeish: ${nft.name}`);
-            console.log(`    Traits:`, nft.traits);
-            console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-          });
-        }
-        
-        const shuffled = nftsToUse.sort(() => 0.5 - Math.random());
-        nfts = shuffled.slice(0, 2);
+        nfts = await this.pickInformativePair(nftsToUse, false);
+        if (!nfts) return null;
       }
 
-      // Debug: Alert if any selected NFTs are unrevealed
-      nfts.forEach((nft, i) => {
-        if (nft.collection_name === 'Kabu' || nft.collection_name === 'Beeish') {
-          console.log(`🚨 MATCHUP NFT ${i + 1}: ${nft.collection_name} - ${nft.name}`);
-          console.log(`    Traits:`, nft.traits);
-          console.log(`    Traits JSON:`, JSON.stringify(nft.traits, null, 2));
-        }
-      });
-      
       // Mark both NFTs as seen
       this.markNFTAsSeen(nfts[0].id);
       this.markNFTAsSeen(nfts[1].id);
 
       // Preload both images in parallel and validate they load successfully
       const [image1Loaded, image2Loaded] = await Promise.all([
-        this.preloadImage(nfts[0].image),
-        this.preloadImage(nfts[1].image)
+        this.preloadMedia(nfts[0]),
+        this.preloadMedia(nfts[1])
       ]);
 
       if (!image1Loaded || !image2Loaded) {
@@ -447,8 +239,8 @@ class VotingPreloader {
       }
 
       return {
-        nft1: nfts[0],
-        nft2: nfts[1],
+        nft1: nfts[0] as NFT,
+        nft2: nfts[1] as NFT,
         vote_type: voteType
       };
     } catch (error) {
@@ -457,6 +249,17 @@ class VotingPreloader {
     }
   }
 
+  // 🎯 Pick one of the top-scoring pairs (random among the best few so sessions still vary)
+  private async pickInformativePair<T extends MatchupCandidate>(candidates: T[], sameCollection: boolean): Promise<[T, T] | null> {
+    const excludePairs = await getExcludedPairs(candidates.map(nft => nft.id));
+    seenMatchups.getSeenPairKeys().forEach(key => excludePairs.add(key));
+    const best = selectMatchups(candidates, this.TOP_MATCHUP_CHOICES, { sameCollection, excludePairs });
+    if (!best.length) return null;
+
+    const { nftA, nftB } = best[Math.floor(Math.random() * best.length)];
+    return Math.random() < 0.5 ? [nftA, nftB] : [nftB, nftA];
+  }
+
   // 🔄 Generate single voting session
   private async generateVotingSession(): Promise<VotingSession | null> {
     const voteType = this.decideVoteType();
@@ -529,6 +332,9 @@ class VotingPreloader {
 
   // ⚡ Get next session instantly
   getNextSession(): VotingSession | null {
+    // Drop sessions the user judged after they were preloaded (e.g. history loaded on sign-in)
+    this.preloadedSessions = this.preloadedSessions.filter(session => !this.isSessionSeen(session));
+    
     // Emergency check - never let queue go empty
     if (this.preloadedSessions.length === 0) {
       console.warn('⚠️ Queue empty! This should not happen.');
@@ -553,6 +359,13 @@ class VotingPreloader {
     return session || null;
   }
 
+  // 👀 Already judged by this user (persisted across sessions, see lib/seen-matchups)
+  private isSessionSeen(session: VotingSession): boolean {
+    return session.vote_type === 'slider'
+      ? seenMatchups.hasSeenSlider(session.nft.id)
+      : seenMatchups.hasSeenPair(session.nft1.id, session.nft2.id);
+  }
+
   // 📊 Get preload status
   getStatus() {
     return {
@@ -614,7 +427,7 @@ class VotingPreloader {
     
     // Restart preloading with updated filters and wait for completion
     if (!this.isPreloading) {
-      console.log('🔄 Regenerating sessions with unrevealed NFT filters...');
+      console.log('🔄 Regenerating sessions with current collection rules...');
       await this.preloadSessions(this.TARGET_PRELOAD_COUNT);
       console.log('✅ Fresh sessions generated with filters applied');
     }
@@ -669,12 +482,12 @@ class VotingPreloader {
   private async validateSessionImages(session: VotingSession): Promise<boolean> {
     try {
       if (session.vote_type === 'slider') {
-        return await this.validateImage(session.nft.image);
+        return await this.validateMedia(session.nft);
       } else {
         // For matchups, both images must be valid
         const [img1Valid, img2Valid] = await Promise.all([
-          this.validateImage(session.nft1.image),
-          this.validateImage(session.nft2.image)
+          this.validateMedia(session.nft1),
+          this.validateMedia(session.nft2)
         ]);
         return img1Valid && img2Valid;
       }
@@ -684,6 +497,11 @@ class VotingPreloader {
     }
   }
 
+  // Videos are validated by VideoNftMedia itself, same as in preloadMedia
+  private async validateMedia(nft: { image: string; media_type?: string | null }): Promise<boolean> {
+    return nft.media_type === 'video' ? true : this.validateImage(nft.image);
+  }
+
   // 🖼️ Quick image validation (faster than preload)
   private async validateImage(imageUrl: string): Promise<boolean> {
     if (!imageUrl) return false;
@@ -0,0 +1,51 @@
+// Prize break claim history (server-only)
+// Reads the PrizeBreakClaimed events the chain indexer projected into chain_prize_claims
+// (migrations/23-chain-event-index.sql). Claims show up once they are past the indexer's
+// confirmation depth; the prize break screen merges fresher ones from its own receipts.
+
+import type { Hash } from 'viem';
+import type { PrizeClaim } from '@/lib/prize-break';
+import { supabaseAdmin } from './supabase-server';
+
+export const MAX_PRIZE_CLAIMS_PER_PAGE = 50;
+
+interface PrizeClaimRow {
+  tx_hash: string;
+  log_index: number;
+  block_number: number | string;
+  block_time: string | null;
+  reward_type: number;
+  xp_awarded: string;
+  votes_awarded: string;
+  gugo_awarded: string;
+  new_total_xp: string;
+}
+
+// uint256 columns come back as text: JSON numbers would round GUGO amounts
+const CLAIM_COLUMNS = 'tx_hash, log_index, block_number, block_time, reward_type, '
+  + 'xp_awarded::text, votes_awarded::text, gugo_awarded::text, new_total_xp::text';
+
+// A wallet's claims, newest first
+export async function getPrizeClaims(walletAddress: string, limit = MAX_PRIZE_CLAIMS_PER_PAGE): Promise<PrizeClaim[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chain_prize_claims')
+    .select(CLAIM_COLUMNS)
+    .eq('user_address', walletAddress.toLowerCase())
+    .order('block_number', { ascending: false })
+    .order('log_index', { ascending: false })
+    .limit(Math.min(Math.max(limit, 1), MAX_PRIZE_CLAIMS_PER_PAGE));
+
+  if (error) throw new Error(`Failed to load prize claims: ${error.message}`);
+
+  return ((data || []) as unknown as PrizeClaimRow[]).map(row => ({
+    txHash: row.tx_hash as Hash,
+    logIndex: row.log_index,
+    blockNumber: Number(row.block_number),
+    claimedAt: row.block_time ? new Date(row.block_time).toISOString() : null,
+    rewardType: row.reward_type,
+    xpAwarded: row.xp_awarded,
+    votesAwarded: row.votes_awarded,
+    gugoAwarded: row.gugo_awarded,
+    newTotalXP: row.new_total_xp
+  }));
+}
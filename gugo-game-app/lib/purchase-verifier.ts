@@ -0,0 +1,89 @@
+// On-chain vote purchase verification (server-only)
+// The browser only reports a tx hash; votes are credited from the receipt's VotesPurchased events,
+// read through our own RPC client, and only for events the signed-in wallet emitted.
+
+import { createPublicClient, http, isAddress, isHash, type Address, type Chain, type Hash } from 'viem';
+import { abstractTestnet, hardhat } from 'viem/chains';
+import { decodeVotesPurchased, purchaseReference, VOTE_MANAGER_ADDRESS } from '@/lib/vote-purchase';
+import { appendLedgerEntry, getUserIdByWallet, getVoteBalance } from './vote-ledger';
+
+const RECEIPT_TIMEOUT_MS = 20000;
+
+export interface PurchaseCreditResult {
+  votesAdded: number;
+  balance: number;
+  alreadyApplied: boolean;
+}
+
+export class PurchaseVerificationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Hardhat (31337) is only accepted when the local chain is switched on (NEXT_PUBLIC_LOCAL_CHAIN=true)
+const purchaseChain = (chainId: number): { chain: Chain; rpcUrl?: string } | null => {
+  if (chainId === abstractTestnet.id) return { chain: abstractTestnet };
+  if (chainId === hardhat.id && process.env.NEXT_PUBLIC_LOCAL_CHAIN === 'true') {
+    return { chain: hardhat, rpcUrl: process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545' };
+  }
+  return null;
+};
+
+export const creditVotePurchase = async (walletAddress: string, chainId: number, txHash: string): Promise<PurchaseCreditResult> => {
+  if (!VOTE_MANAGER_ADDRESS || !isAddress(VOTE_MANAGER_ADDRESS)) {
+    throw new PurchaseVerificationError('Vote purchases are not configured', 503);
+  }
+  if (!isHash(txHash)) {
+    throw new PurchaseVerificationError('Invalid transaction hash', 400);
+  }
+
+  const target = purchaseChain(chainId);
+  if (!target) {
+    throw new PurchaseVerificationError(`Unsupported chain ${chainId}`, 400);
+  }
+
+  const userId = await getUserIdByWallet(walletAddress);
+  if (!userId) {
+    throw new PurchaseVerificationError('User not found', 404);
+  }
+
+  const client = createPublicClient({ chain: target.chain, transport: http(target.rpcUrl) });
+  let receipt;
+  try {
+    receipt = await client.waitForTransactionReceipt({ hash: txHash as Hash, timeout: RECEIPT_TIMEOUT_MS });
+  } catch (error) {
+    console.error('❌ Purchase receipt not available:', error);
+    throw new PurchaseVerificationError('Transaction not confirmed yet', 409);
+  }
+
+  if (receipt.status !== 'success') {
+    throw new PurchaseVerificationError('Transaction reverted', 422);
+  }
+
+  const purchases = decodeVotesPurchased(receipt.logs, VOTE_MANAGER_ADDRESS as Address)
+    .filter(event => event.user.toLowerCase() === walletAddress.toLowerCase());
+  if (purchases.length === 0) {
+    throw new PurchaseVerificationError('No vote purchase by this wallet in the transaction', 422);
+  }
+
+  let votesAdded = 0;
+  let alreadyApplied = true;
+  for (const purchase of purchases) {
+    const result = await appendLedgerEntry(userId, 'purchase', Number(purchase.amount), {
+      reference: purchaseReference(chainId, txHash, purchase.logIndex),
+      metadata: {
+        chain_id: chainId,
+        tx_hash: txHash.toLowerCase(),
+        currency: purchase.currency,
+        cost: purchase.cost.toString(),
+        block_number: receipt.blockNumber.toString()
+      }
+    });
+    if (!result.alreadyApplied) votesAdded += Number(purchase.amount);
+    alreadyApplied = alreadyApplied && result.alreadyApplied;
+  }
+
+  // A replayed credit's balance_after is stale, so report the live balance
+  return { votesAdded, balance: await getVoteBalance(userId), alreadyApplied };
+};
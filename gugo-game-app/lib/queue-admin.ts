@@ -0,0 +1,87 @@
+// 🧰 Matchup queue admin (server-only - backs /api/admin/queue)
+// Health and analytics come from queue-manager; run history (read and write) and the per-collection
+// purge use service-role RPCs from migrations/22-queue-admin.sql.
+
+import { supabaseAdmin } from './supabase-server';
+import { checkQueueHealth, getQueueAnalytics } from './queue-manager';
+import type { RefillResult, RefillRun, RefillSource } from './queue-refill';
+import type { QueueCollectionCount, QueueDashboard } from '@/types/admin';
+
+const REFILL_HISTORY_LIMIT = 50;
+
+interface RefillRunRow {
+  id: number;
+  source: RefillSource;
+  success: boolean;
+  added: RefillResult['added'];
+  queue_status: RefillResult['queueStatus'];
+  refill_time_ms: number;
+  created_at: string;
+}
+
+export async function getRefillRuns(limit = REFILL_HISTORY_LIMIT): Promise<RefillRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from('queue_refill_runs')
+    .select('id, source, success, added, queue_status, refill_time_ms, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return ((data ?? []) as RefillRunRow[]).map(row => ({
+    id: row.id,
+    source: row.source,
+    createdAt: row.created_at,
+    result: {
+      success: row.success,
+      added: row.added,
+      queueStatus: row.queue_status,
+      refillTime: row.refill_time_ms
+    }
+  }));
+}
+
+// 📜 Log a run for the history; best-effort, the refill itself already happened
+export async function recordRefillRun(source: RefillSource, result: RefillResult): Promise<RefillResult> {
+  const { error } = await supabaseAdmin.rpc('record_queue_refill_run', {
+    p_source: source,
+    p_success: result.success,
+    p_added: result.added,
+    p_queue_status: result.queueStatus,
+    p_refill_time_ms: result.refillTime
+  });
+  if (error) console.warn('⚠️ Failed to log queue refill run:', error.message);
+  return result;
+}
+
+export async function getQueueCollectionCounts(): Promise<QueueCollectionCount[]> {
+  const { data, error } = await supabaseAdmin.rpc('get_queue_collection_counts');
+  if (error) throw error;
+  return ((data ?? []) as QueueCollectionCount[]).map(row => ({ ...row, entries: Number(row.entries) }));
+}
+
+// Removes every queued entry (reserved or not) with an NFT from the collection
+export async function purgeCollectionQueue(collectionName: string): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('purge_collection_queue', { p_collection_name: collectionName });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function getQueueDashboard(): Promise<QueueDashboard> {
+  const [health, analyticsResult, collections, runs] = await Promise.all([
+    checkQueueHealth(),
+    getQueueAnalytics(),
+    getQueueCollectionCounts(),
+    getRefillRuns()
+  ]);
+
+  const analytics = analyticsResult.success && analyticsResult.analytics
+    ? {
+        ...analyticsResult.analytics,
+        oldestItem: analyticsResult.analytics.oldestItem?.toISOString() ?? null,
+        newestItem: analyticsResult.analytics.newestItem?.toISOString() ?? null
+      }
+    : null;
+  if (!analyticsResult.success) console.warn('⚠️ Queue analytics failed:', analyticsResult.error);
+
+  return { health, analytics, collections, runs, generatedAt: new Date().toISOString() };
+}
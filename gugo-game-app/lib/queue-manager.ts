@@ -95,6 +95,21 @@ export async function cleanupQueue(): Promise<{ success: boolean; cleaned?: numb
   }
 }
 
+// 🎯 Refresh priority scores and drop pairs voted on since they were queued
+export async function rescoreQueue(): Promise<{ success: boolean; rescored?: number; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('rescore_matchup_queue');
+    
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    
+    return { success: true, rescored: data };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
 // 📈 Get queue analytics
 export async function getQueueAnalytics() {
   try {
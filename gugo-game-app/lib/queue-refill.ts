@@ -1,7 +1,13 @@
 // 🔄 Adaptive Queue Refill System
-// Refills the queue during prize breaks and user downtime
+// Refills the queue during prize breaks and user downtime. Runs on the server (POST /api/queue/refill,
+// /api/admin/queue), which logs each run with recordRefillRun() from lib/queue-admin.ts.
 
 import { supabase } from './supabase';
+import { getExcludedPairs, selectMatchups } from './matchup-scorer';
+import { rescoreQueue } from './queue-manager';
+
+// Where a refill ran: a visitor's prize break, maintenance, or the /admin/queue button
+export type RefillSource = 'prize_break' | 'background' | 'admin';
 
 export interface QueueRefillOptions {
   breakDurationMs: number;
@@ -26,6 +32,14 @@ export interface RefillResult {
   refillTime: number;
 }
 
+// A logged run (queue_refill_runs in migrations/22-queue-admin.sql)
+export interface RefillRun {
+  id: number;
+  source: RefillSource;
+  createdAt: string;
+  result: RefillResult;
+}
+
 // 🎯 Smart refill based on break duration and context
 export async function refillQueueDuringBreak(options: QueueRefillOptions): Promise<RefillResult> {
   const startTime = Date.now();
@@ -135,6 +149,7 @@ async function addSliderVotesToQueue(count: number): Promise<number> {
       .from('nfts')
       .select('id, slider_count, total_votes')
       .lt('slider_count', 10)
+      .eq('eligible', true)
       .not('id', 'in', `(SELECT slider_nft_id FROM matchup_queue WHERE vote_type = 'slider' AND slider_nft_id IS NOT NULL)`)
       .order('slider_count', { ascending: true })
       .order('total_votes', { ascending: true })
@@ -163,109 +178,43 @@ async function addSliderVotesToQueue(count: number): Promise<number> {
 
 // 🥊 Add same collection matchups to queue
 async function addSameCollMatchupsToQueue(count: number): Promise<number> {
-  if (count <= 0) return 0;
-  
-  try {
-    const { data: nfts, error } = await supabase
-      .from('nfts')
-      .select('id, collection_name, current_elo, total_votes')
-      .order('total_votes', { ascending: true })
-      .limit(count * 4); // Get more than needed for matching
-    
-    if (error || !nfts || nfts.length < 2) return 0;
-    
-    const matchups = [];
-    const used = new Set();
-    
-    // Create same collection matchups
-    for (let i = 0; i < nfts.length && matchups.length < count; i++) {
-      if (used.has(nfts[i].id)) continue;
-      
-      for (let j = i + 1; j < nfts.length && matchups.length < count; j++) {
-        if (used.has(nfts[j].id)) continue;
-        
-        const nft1 = nfts[i];
-        const nft2 = nfts[j];
-        
-        if (nft1.collection_name === nft2.collection_name) {
-          const eloDiff = Math.abs(nft1.current_elo - nft2.current_elo);
-          
-          matchups.push({
-            vote_type: 'same_coll',
-            nft_a_id: nft1.id,
-            nft_b_id: nft2.id,
-            elo_diff: eloDiff,
-            priority_score: Math.max(50, 100 - eloDiff)
-          });
-          
-          used.add(nft1.id);
-          used.add(nft2.id);
-          break;
-        }
-      }
-    }
-    
-    if (matchups.length === 0) return 0;
-    
-    const { error: insertError } = await supabase
-      .from('matchup_queue')
-      .insert(matchups);
-    
-    if (insertError) throw insertError;
-    
-    return matchups.length;
-  } catch (error) {
-    console.error('❌ Error adding same collection matchups:', error);
-    return 0;
-  }
+  return await addScoredMatchupsToQueue('same_coll', count, count * 4);
 }
 
 // 🌍 Add cross collection matchups to queue
 async function addCrossCollMatchupsToQueue(count: number): Promise<number> {
+  return await addScoredMatchupsToQueue('cross_coll', count, count * 6); // Need more for cross-collection matching
+}
+
+// 🎯 Pick the most informative unseen pairs from the least-voted NFTs
+async function addScoredMatchupsToQueue(
+  voteType: 'same_coll' | 'cross_coll',
+  count: number,
+  poolSize: number
+): Promise<number> {
   if (count <= 0) return 0;
   
   try {
     const { data: nfts, error } = await supabase
       .from('nfts')
       .select('id, collection_name, current_elo, total_votes')
+      .eq('eligible', true)
       .order('total_votes', { ascending: true })
-      .limit(count * 6); // Need more for cross-collection matching
+      .limit(poolSize);
     
     if (error || !nfts || nfts.length < 2) return 0;
     
-    const matchups = [];
-    const used = new Set();
-    
-    // Create cross collection matchups
-    for (let i = 0; i < nfts.length && matchups.length < count; i++) {
-      if (used.has(nfts[i].id)) continue;
-      
-      for (let j = i + 1; j < nfts.length && matchups.length < count; j++) {
-        if (used.has(nfts[j].id)) continue;
-        
-        const nft1 = nfts[i];
-        const nft2 = nfts[j];
-        
-        if (nft1.collection_name !== nft2.collection_name) {
-          const eloDiff = Math.abs(nft1.current_elo - nft2.current_elo);
-          
-          // Prefer moderate Elo differences for cross-collection
-          if (eloDiff >= 25 && eloDiff <= 300) {
-            matchups.push({
-              vote_type: 'cross_coll',
-              nft_a_id: nft1.id,
-              nft_b_id: nft2.id,
-              elo_diff: eloDiff,
-              priority_score: eloDiff >= 50 && eloDiff <= 150 ? 75 : 50
-            });
-            
-            used.add(nft1.id);
-            used.add(nft2.id);
-            break;
-          }
-        }
-      }
-    }
+    const excludePairs = await getExcludedPairs(nfts.map(nft => nft.id));
+    const matchups = selectMatchups(nfts, count, {
+      sameCollection: voteType === 'same_coll',
+      excludePairs
+    }).map(matchup => ({
+      vote_type: voteType,
+      nft_a_id: matchup.nftA.id,
+      nft_b_id: matchup.nftB.id,
+      elo_diff: matchup.eloDiff,
+      priority_score: matchup.priorityScore
+    }));
     
     if (matchups.length === 0) return 0;
     
@@ -277,7 +226,7 @@ async function addCrossCollMatchupsToQueue(count: number): Promise<number> {
     
     return matchups.length;
   } catch (error) {
-    console.error('❌ Error adding cross collection matchups:', error);
+    console.error(`❌ Error adding ${voteType === 'same_coll' ? 'same' : 'cross'} collection matchups:`, error);
     return 0;
   }
 }
@@ -334,6 +283,9 @@ export async function refillDuringPrizeBreak(
 
 // 🔧 Background refill (for maintenance)
 export async function backgroundRefill(): Promise<RefillResult> {
+  const rescore = await rescoreQueue();
+  if (!rescore.success) console.warn('⚠️ Queue rescore failed:', rescore.error);
+  
   return await refillQueueDuringBreak({
     breakDurationMs: 10000, // Assume 10 second maintenance window
     userVoteCount: 50, // Average user
@@ -0,0 +1,220 @@
+// Pluggable rating engines for NFT matchups
+// Elo (configurable K-factor) and Glicko-2 (per-NFT rating deviation + volatility).
+// The active engine is chosen per deployment via RATING_ENGINE (elo | glicko2).
+
+export type RatingEngineName = 'elo' | 'glicko2';
+
+export interface RatingState {
+  rating: number;
+  deviation: number; // Glicko-2 RD (Elo leaves it untouched)
+  volatility: number; // Glicko-2 sigma (Elo leaves it untouched)
+}
+
+export interface RatingUpdate {
+  a: RatingState;
+  b: RatingState;
+}
+
+export interface RatingEngine {
+  name: RatingEngineName;
+  initialState(): RatingState;
+  // Probability that A beats B given current states
+  expectedScore(a: RatingState, b: RatingState): number;
+  // weight scales the rating change (super votes use SUPER_VOTE_RATING_MULTIPLIER)
+  update(a: RatingState, b: RatingState, winner: 'a' | 'b', weight?: number): RatingUpdate;
+}
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+export const INITIAL_VOLATILITY = 0.06;
+export const SUPER_VOTE_RATING_MULTIPLIER = 2;
+
+export interface EloOptions {
+  kFactor?: number;
+}
+
+export interface Glicko2Options {
+  tau?: number; // Constrains volatility change, 0.3-1.2 (Glickman)
+  initialDeviation?: number;
+  initialVolatility?: number;
+  minDeviation?: number; // Floor so established NFTs can still move
+}
+
+const initialState = (deviation = INITIAL_DEVIATION, volatility = INITIAL_VOLATILITY): RatingState => ({
+  rating: INITIAL_RATING,
+  deviation,
+  volatility
+});
+
+// ================================
+// Elo
+// ================================
+
+export const createEloEngine = ({ kFactor = 32 }: EloOptions = {}): RatingEngine => {
+  const expectedScore = (a: RatingState, b: RatingState) => 1 / (1 + Math.pow(10, (b.rating - a.rating) / 400));
+
+  return {
+    name: 'elo',
+    initialState: () => initialState(),
+    expectedScore,
+    update(a, b, winner, weight = 1) {
+      const expectedA = expectedScore(a, b);
+      const scoreA = winner === 'a' ? 1 : 0;
+      const delta = kFactor * (scoreA - expectedA) * weight;
+
+      return {
+        a: { ...a, rating: a.rating + delta },
+        b: { ...b, rating: b.rating - delta }
+      };
+    }
+  };
+};
+
+// ================================
+// Glicko-2 (one game per rating period)
+// http://www.glicko.net/glicko/glicko2.pdf
+// ================================
+
+const GLICKO_SCALE = 173.7178;
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+const E = (mu: number, muJ: number, phiJ: number) => 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+
+// New volatility via the Illinois algorithm (step 5 of the paper)
+const updateVolatility = (phi: number, sigma: number, delta: number, v: number, tau: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const num = ex * (delta * delta - phi * phi - v - ex);
+    const den = 2 * Math.pow(phi * phi + v + ex, 2);
+    return num / den - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+};
+
+export interface Glicko2Result {
+  opponent: RatingState; // pre-period state
+  score: number; // 1 win, 0 loss
+}
+
+// One Glicko-2 rating period (steps 2-8 of the paper); matchups rate a single game per period
+export const rateGlicko2Period = (
+  player: RatingState,
+  results: Glicko2Result[],
+  { tau = 0.5, minDeviation = 30 }: Pick<Glicko2Options, 'tau' | 'minDeviation'> = {},
+  weight = 1
+): RatingState => {
+  const mu = (player.rating - INITIAL_RATING) / GLICKO_SCALE;
+  const phi = player.deviation / GLICKO_SCALE;
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - INITIAL_RATING) / GLICKO_SCALE;
+    const gJ = g(opponent.deviation / GLICKO_SCALE);
+    const expected = E(mu, muJ, opponent.deviation / GLICKO_SCALE);
+    vInverse += gJ * gJ * expected * (1 - expected);
+    improvement += gJ * (score - expected);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  const sigma = updateVolatility(phi, player.volatility, delta, v, tau);
+  const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement * weight;
+
+  return {
+    rating: INITIAL_RATING + GLICKO_SCALE * newMu,
+    deviation: Math.max(minDeviation, GLICKO_SCALE * newPhi),
+    volatility: sigma
+  };
+};
+
+export const createGlicko2Engine = ({
+  tau = 0.5,
+  initialDeviation = INITIAL_DEVIATION,
+  initialVolatility = INITIAL_VOLATILITY,
+  minDeviation = 30
+}: Glicko2Options = {}): RatingEngine => {
+  const rate = (player: RatingState, opponent: RatingState, score: number, weight: number): RatingState =>
+    rateGlicko2Period(player, [{ opponent, score }], { tau, minDeviation }, weight);
+
+  return {
+    name: 'glicko2',
+    initialState: () => initialState(initialDeviation, initialVolatility),
+    expectedScore(a, b) {
+      const phiB = b.deviation / GLICKO_SCALE;
+      return E((a.rating - INITIAL_RATING) / GLICKO_SCALE, (b.rating - INITIAL_RATING) / GLICKO_SCALE, phiB);
+    },
+    update(a, b, winner, weight = 1) {
+      const scoreA = winner === 'a' ? 1 : 0;
+      // Both sides are rated against the opponent's pre-game state
+      return {
+        a: rate(a, b, scoreA, weight),
+        b: rate(b, a, 1 - scoreA, weight)
+      };
+    }
+  };
+};
+
+// ================================
+// Deployment selection
+// ================================
+
+export const createRatingEngine = (name: RatingEngineName, options: EloOptions & Glicko2Options = {}): RatingEngine =>
+  name === 'glicko2' ? createGlicko2Engine(options) : createEloEngine(options);
+
+const numberFromEnv = (value: string | undefined): number | undefined => {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Engine configured for this deployment (RATING_ENGINE, ELO_K_FACTOR, GLICKO2_TAU)
+export const getRatingEngine = (): RatingEngine => {
+  const name: RatingEngineName = process.env.RATING_ENGINE === 'glicko2' ? 'glicko2' : 'elo';
+  return createRatingEngine(name, {
+    kFactor: numberFromEnv(process.env.ELO_K_FACTOR),
+    tau: numberFromEnv(process.env.GLICKO2_TAU)
+  });
+};
+
+// Fill in rating columns that may be NULL on older rows
+export const toRatingState = (
+  row: { current_elo?: number | null; rating_deviation?: number | null; rating_volatility?: number | null },
+  engine: RatingEngine
+): RatingState => {
+  const initial = engine.initialState();
+  return {
+    rating: row.current_elo ?? initial.rating,
+    deviation: row.rating_deviation ?? initial.deviation,
+    volatility: row.rating_volatility ?? initial.volatility
+  };
+};
@@ -0,0 +1,87 @@
+// Rating replay - recompute every NFT's rating from vote history with a given engine
+// Used by scripts/replay-ratings.ts to compare engines on real data before switching.
+
+import {
+  SUPER_VOTE_RATING_MULTIPLIER,
+  type RatingEngine,
+  type RatingEngineName,
+  type RatingState,
+  type RatingUpdate
+} from './rating-engine';
+
+export interface ReplayVote {
+  id?: string;
+  nft_a_id: string;
+  nft_b_id: string;
+  winner_id: string;
+  super_vote?: boolean;
+}
+
+export interface ReplayResult {
+  engine: RatingEngineName;
+  ratings: Map<string, RatingState>;
+  votes: number;
+  accuracy: number; // share of votes where the pre-vote favourite won (coin flips count half)
+  logLoss: number; // mean negative log-likelihood of the actual winner
+}
+
+const EPSILON = 1e-12;
+
+// Votes must be in chronological order; onVote sees both NFTs' ratings after each vote
+export const replayRatings = (
+  engine: RatingEngine,
+  votes: ReplayVote[],
+  onVote?: (vote: ReplayVote, updated: RatingUpdate) => void
+): ReplayResult => {
+  const ratings = new Map<string, RatingState>();
+  const stateOf = (id: string) => ratings.get(id) ?? engine.initialState();
+
+  let counted = 0;
+  let correct = 0;
+  let logLossSum = 0;
+
+  for (const vote of votes) {
+    if (vote.winner_id !== vote.nft_a_id && vote.winner_id !== vote.nft_b_id) continue;
+
+    const a = stateOf(vote.nft_a_id);
+    const b = stateOf(vote.nft_b_id);
+    const winner = vote.winner_id === vote.nft_a_id ? 'a' : 'b';
+
+    // Score the prediction before applying the result
+    const expectedA = engine.expectedScore(a, b);
+    const pWinner = winner === 'a' ? expectedA : 1 - expectedA;
+    correct += pWinner > 0.5 ? 1 : pWinner === 0.5 ? 0.5 : 0;
+    logLossSum += -Math.log(Math.max(EPSILON, pWinner));
+    counted++;
+
+    const updated = engine.update(a, b, winner, vote.super_vote ? SUPER_VOTE_RATING_MULTIPLIER : 1);
+    ratings.set(vote.nft_a_id, updated.a);
+    ratings.set(vote.nft_b_id, updated.b);
+    onVote?.(vote, updated);
+  }
+
+  return {
+    engine: engine.name,
+    ratings,
+    votes: counted,
+    accuracy: counted ? correct / counted : 0,
+    logLoss: counted ? logLossSum / counted : 0
+  };
+};
+
+// Spearman rank correlation between two rating maps over their shared NFTs
+export const rankCorrelation = (x: Map<string, number>, y: Map<string, number>): number => {
+  const ids = [...x.keys()].filter(id => y.has(id));
+  const n = ids.length;
+  if (n < 2) return 0;
+
+  const ranks = (values: Map<string, number>) => {
+    const sorted = [...ids].sort((p, q) => values.get(q)! - values.get(p)!);
+    return new Map(sorted.map((id, i) => [id, i]));
+  };
+  const rx = ranks(x);
+  const ry = ranks(y);
+
+  const dSquared = ids.reduce((sum, id) => sum + Math.pow(rx.get(id)! - ry.get(id)!, 2), 0);
+  return 1 - (6 * dSquared) / (n * (n * n - 1));
+};
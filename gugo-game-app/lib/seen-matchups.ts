@@ -0,0 +1,133 @@
+// 👀 Seen matchups - NFT pairs and slider NFTs this user has already judged
+// Signed-in wallets load their history from /api/user/seen-matchups (backed by user_seen_matchups);
+// anonymous visitors keep a capped copy in localStorage. Nothing is repeated within SEEN_WINDOW_DAYS.
+
+import { pairKey } from './matchup-scorer';
+
+export const SEEN_WINDOW_DAYS = Number(process.env.NEXT_PUBLIC_SEEN_WINDOW_DAYS) || 30;
+export const MAX_ANONYMOUS_SEEN = 500;
+
+const ANONYMOUS_STORAGE_KEY = 'tm_seen_matchups';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeenMatchupItem {
+  key: string;
+  seenAt: string;
+}
+
+// Same key format as seen_item_key() in migrations/12-user-seen-matchups.sql
+export const seenPairKey = (nftAId: string, nftBId: string) => pairKey(nftAId.toLowerCase(), nftBId.toLowerCase());
+export const seenSliderKey = (nftId: string) => `slider:${nftId.toLowerCase()}`;
+
+class SeenMatchups {
+  private static instance: SeenMatchups;
+  private items = new Map<string, number>(); // key -> seen timestamp (ms)
+  private wallet: string | null = null;
+  private loaded: Promise<void> | null = null;
+
+  static getInstance(): SeenMatchups {
+    if (!SeenMatchups.instance) {
+      SeenMatchups.instance = new SeenMatchups();
+    }
+    return SeenMatchups.instance;
+  }
+
+  // 🔄 Switch to this wallet's history (or the anonymous local one); loads once per wallet
+  load(walletAddress?: string | null): Promise<void> {
+    const wallet = walletAddress?.toLowerCase() ?? null;
+    if (this.loaded && wallet === this.wallet) return this.loaded;
+
+    this.wallet = wallet;
+    this.items.clear();
+    this.loaded = wallet ? this.loadFromServer() : Promise.resolve(this.loadFromStorage());
+    return this.loaded;
+  }
+
+  hasSeenPair(nftAId: string, nftBId: string): boolean {
+    return this.isFresh(seenPairKey(nftAId, nftBId));
+  }
+
+  hasSeenSlider(nftId: string): boolean {
+    return this.isFresh(seenSliderKey(nftId));
+  }
+
+  // Pair keys for matchup-scorer's excludePairs
+  getSeenPairKeys(): Set<string> {
+    return new Set([...this.items.keys()].filter(key => !key.startsWith('slider:') && this.isFresh(key)));
+  }
+
+  // ✍️ Record a judged matchup (the server records wallet votes itself; this keeps the local view current)
+  markPairSeen(nftAId: string, nftBId: string): void {
+    this.mark(seenPairKey(nftAId, nftBId));
+  }
+
+  markSliderSeen(nftId: string): void {
+    this.mark(seenSliderKey(nftId));
+  }
+
+  private mark(key: string): void {
+    this.items.set(key, Date.now());
+    if (!this.wallet) this.saveToStorage();
+  }
+
+  private isFresh(key: string): boolean {
+    const seenAt = this.items.get(key);
+    return seenAt !== undefined && Date.now() - seenAt < SEEN_WINDOW_DAYS * DAY_MS;
+  }
+
+  private setItems(items: SeenMatchupItem[]): void {
+    items.forEach(item => {
+      const seenAt = new Date(item.seenAt).getTime();
+      if (Number.isFinite(seenAt)) this.items.set(item.key, seenAt);
+    });
+  }
+
+  private async loadFromServer(): Promise<void> {
+    try {
+      const response = await fetch('/api/user/seen-matchups', { cache: 'no-store' });
+      if (!response.ok) {
+        // Not signed in yet - use this browser's history and retry on the next load()
+        if (response.status === 401) {
+          this.loadFromStorage();
+          this.loaded = null;
+        }
+        return;
+      }
+      const { items } = await response.json();
+      this.setItems(items ?? []);
+      console.log(`👀 Loaded ${this.items.size} seen matchups for wallet`);
+    } catch (error) {
+      console.warn('⚠️ Failed to load seen matchups:', error);
+    }
+  }
+
+  private loadFromStorage(): void {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = window.localStorage.getItem(ANONYMOUS_STORAGE_KEY);
+      if (stored) this.setItems(JSON.parse(stored));
+    } catch (error) {
+      console.warn('⚠️ Failed to read seen matchups from storage:', error);
+    }
+  }
+
+  // Keeps only the most recent MAX_ANONYMOUS_SEEN entries inside the window
+  private saveToStorage(): void {
+    if (typeof window === 'undefined') return;
+    const cutoff = Date.now() - SEEN_WINDOW_DAYS * DAY_MS;
+    const recent = [...this.items.entries()]
+      .filter(([, seenAt]) => seenAt > cutoff)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_ANONYMOUS_SEEN);
+
+    this.items = new Map(recent);
+    try {
+      const items: SeenMatchupItem[] = recent.map(([key, seenAt]) => ({ key, seenAt: new Date(seenAt).toISOString() }));
+      window.localStorage.setItem(ANONYMOUS_STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.warn('⚠️ Failed to save seen matchups:', error);
+    }
+  }
+}
+
+export const seenMatchups = SeenMatchups.getInstance();
@@ -0,0 +1,148 @@
+// Wallet sessions for API routes (server-only)
+// A SIWE-verified wallet gets an HMAC-signed httpOnly cookie; routes trust the
+// address in that cookie instead of anything the client puts in the request body.
+// Nonces are also recorded server-side (migrations/25-siwe-nonces.sql) so each one signs in once.
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from './supabase-server';
+import type { WalletType } from './wallet';
+
+export const SESSION_COOKIE = 'tm_session';
+export const NONCE_COOKIE = 'tm_siwe_nonce';
+
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const NONCE_TTL_SECONDS = 10 * 60; // 10 minutes to sign
+
+export interface WalletSession {
+  address: `0x${string}`;
+  walletType: WalletType;
+  chainId: number;
+  issuedAt: number; // unix seconds
+  expiresAt: number; // unix seconds
+}
+
+const encoder = new TextEncoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.AUTH_SESSION_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4);
+  return atob(padded);
+}
+
+async function sign(payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+// Constant-time string compare so signature checks don't leak timing
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge
+});
+
+export function createWalletSession(address: `0x${string}`, walletType: WalletType, chainId: number): WalletSession {
+  const now = Math.floor(Date.now() / 1000);
+  return { address, walletType, chainId, issuedAt: now, expiresAt: now + SESSION_TTL_SECONDS };
+}
+
+export async function encodeSession(session: WalletSession): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  return `${payload}.${await sign(payload)}`;
+}
+
+export async function decodeSession(token: string | undefined): Promise<WalletSession | null> {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    if (!safeEqual(signature, await sign(payload))) return null;
+    const session = JSON.parse(fromBase64Url(payload)) as WalletSession;
+    if (!session.address || session.expiresAt <= Math.floor(Date.now() / 1000)) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Read the session for the current request (null when signed out / expired / tampered)
+export async function getSession(req: NextRequest): Promise<WalletSession | null> {
+  return decodeSession(req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+export async function setSessionCookie(res: NextResponse, session: WalletSession): Promise<void> {
+  res.cookies.set(SESSION_COOKIE, await encodeSession(session), cookieOptions(SESSION_TTL_SECONDS));
+}
+
+export function clearSessionCookie(res: NextResponse): void {
+  res.cookies.set(SESSION_COOKIE, '', cookieOptions(0));
+}
+
+// Nonce cookie is signed so only server-issued nonces can complete a sign-in
+export async function setNonceCookie(res: NextResponse, nonce: string): Promise<void> {
+  res.cookies.set(NONCE_COOKIE, `${nonce}.${await sign(`nonce:${nonce}`)}`, cookieOptions(NONCE_TTL_SECONDS));
+}
+
+export async function getNonce(req: NextRequest): Promise<string | null> {
+  const [nonce, signature] = (req.cookies.get(NONCE_COOKIE)?.value || '').split('.');
+  if (!nonce || !signature) return null;
+  return safeEqual(signature, await sign(`nonce:${nonce}`)) ? nonce : null;
+}
+
+export function clearNonceCookie(res: NextResponse): void {
+  res.cookies.set(NONCE_COOKIE, '', cookieOptions(0));
+}
+
+// Records an issued nonce (and sweeps expired ones) so verify can consume it exactly once
+export async function recordNonce(nonce: string): Promise<void> {
+  const now = Date.now();
+  await supabaseAdmin.from('auth_nonces').delete().lt('expires_at', new Date(now).toISOString());
+
+  const { error } = await supabaseAdmin
+    .from('auth_nonces')
+    .insert({ nonce, expires_at: new Date(now + NONCE_TTL_SECONDS * 1000).toISOString() });
+  if (error) throw new Error(`Failed to record sign-in nonce: ${error.message}`);
+}
+
+// Deletes the nonce; false when it was never issued, already used or expired. The delete is
+// the check, so two concurrent verifies of one signature cannot both succeed.
+export async function consumeNonce(nonce: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('auth_nonces')
+    .delete()
+    .eq('nonce', nonce)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce');
+  if (error) throw new Error(`Failed to consume sign-in nonce: ${error.message}`);
+  return (data || []).length > 0;
+}
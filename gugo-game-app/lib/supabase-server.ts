@@ -0,0 +1,11 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Server-only client (API routes). Uses the service role key so it can call
+// functions that are not exposed to anon/authenticated, e.g. submit_vote.
+// Never import this from client components.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { persistSession: false }
+})
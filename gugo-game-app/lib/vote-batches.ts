@@ -0,0 +1,226 @@
+// Vote batch store (server-only)
+// Picks the next closed period of off-chain votes, snapshots them as CommittedVotes and records
+// the built tree through record_vote_batch() (migrations/24-vote-batch-commitments.sql). Serves
+// the stored proofs back per user.
+
+import type { Address, Hash } from 'viem';
+import { supabaseAdmin } from './supabase-server';
+import type { BuiltVoteBatch, CommittedVote, VoteInclusionProof } from './vote-merkle';
+
+export const DEFAULT_BATCH_PERIOD_HOURS = 24;
+export const BATCH_CLOSE_DELAY_MS = 5 * 60 * 1000; // votes commit a moment after their created_at
+export const MAX_PROOFS_PER_PAGE = 50;
+
+const VOTE_PAGE_SIZE = 1000;
+
+export interface BatchPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface PeriodVotes {
+  votes: CommittedVote[];
+  userIds: Map<string, string>; // vote id => user id
+}
+
+export interface VoteBatchAnchor {
+  chainId: number;
+  contract: Address;
+  onchainBatchId: number;
+  txHash: Hash | null; // null when a crashed run's anchor is recovered from contract state
+}
+
+interface VoteBatchRow {
+  id: number;
+  period_start: string;
+  period_end: string;
+  merkle_root: string;
+  vote_count: number;
+  status: 'pending' | 'anchored';
+  chain_id: number | null;
+  contract: string | null;
+  onchain_batch_id: number | null;
+  tx_hash: string | null;
+}
+
+const BATCH_COLUMNS = 'id, period_start, period_end, merkle_root, vote_count, status, chain_id, contract, onchain_batch_id, tx_hash';
+
+const toBatch = (row: VoteBatchRow): VoteInclusionProof['batch'] => ({
+  id: Number(row.id),
+  merkleRoot: row.merkle_root as Hash,
+  periodStart: new Date(row.period_start).toISOString(),
+  periodEnd: new Date(row.period_end).toISOString(),
+  voteCount: row.vote_count,
+  status: row.status,
+  chainId: row.chain_id,
+  contract: row.contract as Address | null,
+  onchainBatchId: row.onchain_batch_id === null ? null : Number(row.onchain_batch_id),
+  txHash: row.tx_hash as Hash | null
+});
+
+// The period after the last batch, skipping ahead over stretches with no votes. Null while the
+// next period is still open (or there is nothing to batch).
+export async function getNextBatchPeriod(periodHours = DEFAULT_BATCH_PERIOD_HOURS, now = new Date()): Promise<BatchPeriod | null> {
+  const periodMs = periodHours * 60 * 60 * 1000;
+
+  const { data: last, error: lastError } = await supabaseAdmin
+    .from('vote_batches')
+    .select('period_end')
+    .order('period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) throw new Error(`Failed to read vote batches: ${lastError.message}`);
+
+  let firstVoteQuery = supabaseAdmin.from('votes').select('created_at').order('created_at', { ascending: true }).limit(1);
+  if (last) firstVoteQuery = firstVoteQuery.gte('created_at', last.period_end);
+  const { data: firstVote, error: voteError } = await firstVoteQuery.maybeSingle();
+  if (voteError) throw new Error(`Failed to read votes: ${voteError.message}`);
+  if (!firstVote) return null;
+
+  const firstVoteAt = Date.parse(firstVote.created_at);
+  const start = Math.max(last ? Date.parse(last.period_end) : 0, Math.floor(firstVoteAt / periodMs) * periodMs);
+  const end = Math.floor(start / periodMs) * periodMs + periodMs;
+
+  if (end > now.getTime() - BATCH_CLOSE_DELAY_MS) return null;
+  return { start: new Date(start), end: new Date(end) };
+}
+
+export async function loadPeriodVotes(period: BatchPeriod): Promise<PeriodVotes> {
+  const rows: Array<{
+    id: string;
+    user_id: string;
+    vote_type_v2: string | null;
+    nft_a_id: string | null;
+    nft_b_id: string | null;
+    winner_id: string | null;
+    slider_value: number | null;
+    engagement_data: { super_vote?: boolean } | null;
+    created_at: string;
+  }> = [];
+
+  for (let from = 0; ; from += VOTE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('votes')
+      .select('id, user_id, vote_type_v2, nft_a_id, nft_b_id, winner_id, slider_value, engagement_data, created_at')
+      .gte('created_at', period.start.toISOString())
+      .lt('created_at', period.end.toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + VOTE_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load votes: ${error.message}`);
+
+    rows.push(...(data || []));
+    if (!data || data.length < VOTE_PAGE_SIZE) break;
+  }
+
+  const wallets = new Map<string, string>();
+  const userIds = [...new Set(rows.map(row => row.user_id))];
+  for (let i = 0; i < userIds.length; i += VOTE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .select('id, wallet_address')
+      .in('id', userIds.slice(i, i + VOTE_PAGE_SIZE));
+    if (error) throw new Error(`Failed to load voter wallets: ${error.message}`);
+    for (const user of data || []) wallets.set(user.id, user.wallet_address);
+  }
+
+  const votes: CommittedVote[] = [];
+  const voteUsers = new Map<string, string>();
+  for (const row of rows) {
+    const wallet = wallets.get(row.user_id);
+    if (!wallet) {
+      throw new Error(`Vote ${row.id} has no voter wallet (user ${row.user_id})`);
+    }
+    votes.push({
+      id: row.id,
+      voter: wallet.toLowerCase() as Address,
+      voteType: row.vote_type_v2 ?? '',
+      nftAId: row.nft_a_id,
+      nftBId: row.nft_b_id,
+      winnerId: row.winner_id,
+      sliderValue: row.slider_value,
+      superVote: !!row.engagement_data?.super_vote,
+      createdAt: new Date(row.created_at).toISOString()
+    });
+    voteUsers.set(row.id, row.user_id);
+  }
+
+  return { votes, userIds: voteUsers };
+}
+
+export async function recordVoteBatch(period: BatchPeriod, built: BuiltVoteBatch, userIds: Map<string, string>): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('record_vote_batch', {
+    p_period_start: period.start.toISOString(),
+    p_period_end: period.end.toISOString(),
+    p_merkle_root: built.merkleRoot,
+    p_leaves: built.leaves.map(leaf => ({ ...leaf, userId: userIds.get(leaf.vote.id) }))
+  });
+
+  if (error || data === null) {
+    throw new Error(`Failed to record vote batch ${period.start.toISOString()} - ${period.end.toISOString()}: ${error?.message || 'no id'}`);
+  }
+  return Number(data);
+}
+
+// Oldest first: the contract only accepts periods in order
+export async function getPendingVoteBatches(): Promise<VoteInclusionProof['batch'][]> {
+  const { data, error } = await supabaseAdmin
+    .from('vote_batches')
+    .select(BATCH_COLUMNS)
+    .eq('status', 'pending')
+    .order('period_start', { ascending: true });
+  if (error) throw new Error(`Failed to read pending vote batches: ${error.message}`);
+  return (data || []).map(toBatch);
+}
+
+export async function markVoteBatchAnchored(batchId: number, anchor: VoteBatchAnchor): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('vote_batches')
+    .update({
+      status: 'anchored',
+      chain_id: anchor.chainId,
+      contract: anchor.contract.toLowerCase(),
+      onchain_batch_id: anchor.onchainBatchId,
+      tx_hash: anchor.txHash?.toLowerCase() ?? null,
+      anchored_at: new Date().toISOString()
+    })
+    .eq('id', batchId);
+  if (error) throw new Error(`Failed to mark vote batch ${batchId} anchored: ${error.message}`);
+}
+
+// Proofs for one user's votes, newest batches first; voteId narrows it to a single vote
+export async function getUserVoteProofs(userId: string, options: { voteId?: string; limit?: number } = {}): Promise<VoteInclusionProof[]> {
+  let query = supabaseAdmin
+    .from('vote_batch_leaves')
+    .select(`leaf_index, leaf, proof, vote, vote_batches (${BATCH_COLUMNS})`)
+    .eq('user_id', userId)
+    .order('batch_id', { ascending: false })
+    .order('leaf_index', { ascending: false })
+    .limit(Math.min(options.limit ?? MAX_PROOFS_PER_PAGE, MAX_PROOFS_PER_PAGE));
+  if (options.voteId) query = query.eq('vote_id', options.voteId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load vote proofs: ${error.message}`);
+
+  return (data || []).map(row => ({
+    vote: row.vote as CommittedVote,
+    leaf: row.leaf as Hash,
+    leafIndex: row.leaf_index,
+    proof: row.proof as Hash[],
+    batch: toBatch(row.vote_batches as unknown as VoteBatchRow)
+  }));
+}
+
+// Operator lookup for scripts/verify-vote-proof.ts --vote
+export async function getVoteProof(voteId: string): Promise<VoteInclusionProof | null> {
+  const { data, error } = await supabaseAdmin
+    .from('vote_batch_leaves')
+    .select('user_id')
+    .eq('vote_id', voteId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load vote proof: ${error.message}`);
+  if (!data) return null;
+
+  const [proof] = await getUserVoteProofs(data.user_id, { voteId });
+  return proof ?? null;
+}
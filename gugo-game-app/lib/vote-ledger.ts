@@ -0,0 +1,116 @@
+// Vote ledger (server-only)
+// Balance = SUM(vote_ledger.amount); all writes go through the append_vote_ledger() SQL function
+// so the non-negative balance rule is enforced inside the database.
+
+import { supabaseAdmin } from './supabase-server';
+import type { LedgerEntryType, VoteLedgerEntry, VoteLedgerPage } from '@/types/ledger';
+
+export const VOTE_COSTS = {
+  regular: 1,
+  super: 5
+} as const;
+
+export const DAILY_FREE_VOTES = 10; // One prize break's worth of votes
+export const MAX_LEDGER_PAGE_SIZE = 50;
+
+export interface LedgerAppendResult {
+  entryId: string;
+  balance: number;
+  alreadyApplied: boolean;
+}
+
+export interface DailyClaimResult {
+  claimed: boolean;
+  balance: number;
+  nextClaimAt: string;
+}
+
+export const getUserIdByWallet = async (walletAddress: string): Promise<string | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .eq('wallet_address', walletAddress)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Failed to look up user:', error);
+    return null;
+  }
+  return data?.id ?? null;
+};
+
+export const getVoteBalance = async (userId: string): Promise<number> => {
+  const { data, error } = await supabaseAdmin.rpc('get_vote_balance', { p_user_id: userId });
+  if (error) {
+    throw new Error(`Failed to read vote balance: ${error.message}`);
+  }
+  return Number(data) || 0;
+};
+
+// Append a ledger entry. Pass a `reference` (tx hash, claim key, ...) to make it idempotent.
+export const appendLedgerEntry = async (
+  userId: string,
+  entryType: LedgerEntryType,
+  amount: number,
+  options: { voteId?: string; reference?: string; metadata?: Record<string, unknown> } = {}
+): Promise<LedgerAppendResult> => {
+  const { data, error } = await supabaseAdmin.rpc('append_vote_ledger', {
+    p_user_id: userId,
+    p_entry_type: entryType,
+    p_amount: amount,
+    p_vote_id: options.voteId ?? null,
+    p_reference: options.reference ?? null,
+    p_metadata: options.metadata ?? {}
+  });
+
+  if (error || !data || data.length === 0) {
+    throw new Error(`Failed to append ledger entry: ${error?.message || 'no result'}`);
+  }
+
+  const row = data[0] as { entry_id: string; balance_after: number; already_applied: boolean };
+  return { entryId: row.entry_id, balance: row.balance_after, alreadyApplied: row.already_applied };
+};
+
+export const claimDailyFreeVotes = async (walletAddress: string): Promise<DailyClaimResult> => {
+  const { data, error } = await supabaseAdmin.rpc('claim_daily_free_votes', {
+    p_wallet_address: walletAddress,
+    p_amount: DAILY_FREE_VOTES
+  });
+
+  if (error || !data || data.length === 0) {
+    throw new Error(`Failed to claim daily votes: ${error?.message || 'no result'}`);
+  }
+
+  const row = data[0] as { claimed: boolean; balance: number; next_claim_at: string };
+  return { claimed: row.claimed, balance: row.balance, nextClaimAt: row.next_claim_at };
+};
+
+// Newest-first page of a user's ledger (page is 0-based)
+export const getLedgerPage = async (userId: string, page: number, pageSize: number): Promise<VoteLedgerPage> => {
+  const size = Math.max(1, Math.min(MAX_LEDGER_PAGE_SIZE, pageSize));
+  const from = Math.max(0, page) * size;
+
+  const [{ data, error, count }, balance] = await Promise.all([
+    supabaseAdmin
+      .from('vote_ledger')
+      .select('id, entry_type, amount, balance_after, vote_id, reference, metadata, created_at', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(from, from + size - 1),
+    getVoteBalance(userId)
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load vote history: ${error.message}`);
+  }
+
+  const total = count ?? 0;
+  return {
+    entries: (data || []) as VoteLedgerEntry[],
+    balance,
+    page: Math.max(0, page),
+    pageSize: size,
+    total,
+    hasMore: from + size < total
+  };
+};
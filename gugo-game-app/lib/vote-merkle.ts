@@ -0,0 +1,245 @@
+// Merkle commitments for off-chain votes (browser + server safe)
+// Every vote in a period becomes a leaf; the root is anchored with anchorVoteBatch() on
+// GugoVoteManager_updated.sol and any single vote can then be proven against it without a
+// per-vote transaction. Pairs are hashed sorted (OpenZeppelin MerkleProof) and leaves are
+// double-hashed like OpenZeppelin's StandardMerkleTree. Only viem and relative imports here:
+// contracts/test checks these proofs against the contract on an in-process Hardhat chain.
+
+import {
+  concat,
+  createPublicClient,
+  createWalletClient,
+  custom,
+  encodeAbiParameters,
+  http,
+  keccak256,
+  parseAbiParameters,
+  parseEventLogs,
+  type Account,
+  type Address,
+  type EIP1193Provider,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { gugoVoteManagerUpdatedAbi } from '../src/contracts/abis';
+
+// What a leaf commits to - a snapshot of the votes row, stored next to its proof
+export interface CommittedVote {
+  id: string;
+  voter: Address; // lowercase
+  voteType: string; // votes.vote_type_v2
+  nftAId: string | null;
+  nftBId: string | null;
+  winnerId: string | null;
+  sliderValue: number | null;
+  superVote: boolean;
+  createdAt: string; // ISO, millisecond precision
+}
+
+export interface VoteBatchLeaf {
+  vote: CommittedVote;
+  leaf: Hash;
+  leafIndex: number;
+  proof: Hash[];
+}
+
+export interface BuiltVoteBatch {
+  merkleRoot: Hash;
+  leaves: VoteBatchLeaf[];
+}
+
+// A proof as served by GET /api/user/vote-proofs and read by scripts/verify-vote-proof.ts
+export interface VoteInclusionProof extends VoteBatchLeaf {
+  batch: {
+    id: number;
+    merkleRoot: Hash;
+    periodStart: string;
+    periodEnd: string;
+    voteCount: number;
+    status: 'pending' | 'anchored';
+    chainId: number | null;
+    contract: Address | null;
+    onchainBatchId: number | null;
+    txHash: Hash | null;
+  };
+}
+
+const VOTE_LEAF_PARAMETERS = parseAbiParameters(
+  'string voteId, address voter, string voteType, string nftAId, string nftBId, string winnerId, string sliderValue, bool superVote, uint256 createdAt'
+);
+
+export const hashVoteLeaf = (vote: CommittedVote): Hash =>
+  keccak256(keccak256(encodeAbiParameters(VOTE_LEAF_PARAMETERS, [
+    vote.id,
+    vote.voter,
+    vote.voteType,
+    vote.nftAId ?? '',
+    vote.nftBId ?? '',
+    vote.winnerId ?? '',
+    vote.sliderValue === null ? '' : String(vote.sliderValue),
+    vote.superVote,
+    BigInt(Date.parse(vote.createdAt))
+  ])));
+
+const hashPair = (a: Hash, b: Hash): Hash => keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]));
+
+// layers[0] = leaves, last layer = [root]; an odd node out moves up unchanged
+const buildLayers = (leaves: Hash[]): Hash[][] => {
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: Hash[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+};
+
+const proofFor = (layers: Hash[][], index: number): Hash[] => {
+  const proof: Hash[] = [];
+  for (let level = 0; level < layers.length - 1; level++) {
+    const sibling = index ^ 1;
+    if (sibling < layers[level].length) proof.push(layers[level][sibling]);
+    index = Math.floor(index / 2);
+  }
+  return proof;
+};
+
+export const processMerkleProof = (leaf: Hash, proof: Hash[]): Hash =>
+  proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf);
+
+export const verifyMerkleProof = (leaf: Hash, proof: Hash[], root: Hash) =>
+  processMerkleProof(leaf, proof).toLowerCase() === root.toLowerCase();
+
+// Leaves in (createdAt, id) order so the same votes always give the same root
+export function buildVoteBatch(votes: CommittedVote[]): BuiltVoteBatch {
+  if (votes.length === 0) {
+    throw new Error('Cannot build a vote batch without votes');
+  }
+
+  const ordered = [...votes].sort((a, b) =>
+    Date.parse(a.createdAt) - Date.parse(b.createdAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+  const hashes = ordered.map(hashVoteLeaf);
+  const layers = buildLayers(hashes);
+
+  return {
+    merkleRoot: layers[layers.length - 1][0],
+    leaves: ordered.map((vote, leafIndex) => ({ vote, leaf: hashes[leafIndex], leafIndex, proof: proofFor(layers, leafIndex) }))
+  };
+}
+
+// ============ ANCHORING ============
+
+// RPC URL, or an EIP-1193 provider such as Hardhat's network.provider
+type VoteBatchRpc = string | Pick<EIP1193Provider, 'request'>;
+const transportFor = (rpc: VoteBatchRpc) => (typeof rpc === 'string' ? http(rpc) : custom(rpc));
+
+export const createVoteBatchClient = (rpc: VoteBatchRpc): PublicClient => createPublicClient({ transport: transportFor(rpc) });
+
+// Signs as the vote manager owner; no chain is configured, so it follows whatever the RPC serves
+export const createVoteBatchSigner = (rpc: VoteBatchRpc, privateKey: Hex): WalletClient =>
+  createWalletClient({ account: privateKeyToAccount(privateKey), transport: transportFor(rpc) });
+
+export interface AnchoredVoteBatch {
+  onchainBatchId: number;
+  txHash: Hash | null; // null when the root was already on-chain
+}
+
+type AnchorBatch = Pick<VoteInclusionProof['batch'], 'merkleRoot' | 'periodStart' | 'periodEnd' | 'voteCount'>;
+
+const toUnixSeconds = (iso: string) => BigInt(Math.floor(Date.parse(iso) / 1000));
+
+// Anchors one batch with anchorVoteBatch(). A run that crashed after mining but before recording
+// the result finds its root as the contract's latest batch and reuses it instead of reverting.
+export async function anchorVoteBatch(
+  publicClient: Pick<PublicClient, 'readContract' | 'simulateContract' | 'waitForTransactionReceipt'>,
+  walletClient: WalletClient,
+  contract: Address,
+  batch: AnchorBatch
+): Promise<AnchoredVoteBatch> {
+  const target = { address: contract, abi: gugoVoteManagerUpdatedAbi } as const;
+
+  const latestId = await publicClient.readContract({ ...target, functionName: 'voteBatchCount' });
+  if (latestId > BigInt(0)) {
+    const latest = await publicClient.readContract({ ...target, functionName: 'getVoteBatch', args: [latestId] });
+    if (latest.merkleRoot.toLowerCase() === batch.merkleRoot.toLowerCase() && latest.periodStart === toUnixSeconds(batch.periodStart)) {
+      return { onchainBatchId: Number(latestId), txHash: null };
+    }
+  }
+
+  const { request } = await publicClient.simulateContract({
+    ...target,
+    account: walletClient.account as Account,
+    functionName: 'anchorVoteBatch',
+    args: [batch.merkleRoot, toUnixSeconds(batch.periodStart), toUnixSeconds(batch.periodEnd), BigInt(batch.voteCount)]
+  });
+  const txHash = await walletClient.writeContract({ ...request, chain: walletClient.chain ?? null });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== 'success') {
+    throw new Error(`anchorVoteBatch reverted in ${txHash}`);
+  }
+
+  const [anchored] = parseEventLogs({ abi: gugoVoteManagerUpdatedAbi, eventName: 'VoteBatchAnchored', logs: receipt.logs });
+  if (!anchored) {
+    throw new Error(`No VoteBatchAnchored event in ${txHash}`);
+  }
+  return { onchainBatchId: Number(anchored.args.batchId), txHash };
+}
+
+// ============ VERIFICATION ============
+
+export interface ProofCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+// Everything a third party can check: the leaf matches the vote, the proof reaches the root, and
+// (given a client) the contract holds that root for the batch and accepts the proof itself
+export async function checkVoteProof(
+  record: VoteInclusionProof,
+  client?: Pick<PublicClient, 'readContract'>
+): Promise<ProofCheck[]> {
+  const { vote, batch } = record;
+  const createdAt = Date.parse(vote.createdAt);
+  const checks: ProofCheck[] = [
+    { name: 'Leaf matches vote', ok: hashVoteLeaf(vote) === record.leaf.toLowerCase() },
+    { name: 'Proof reaches batch root', ok: verifyMerkleProof(record.leaf, record.proof, batch.merkleRoot) },
+    {
+      name: 'Vote falls inside batch period',
+      ok: createdAt >= Date.parse(batch.periodStart) && createdAt < Date.parse(batch.periodEnd)
+    }
+  ];
+
+  if (!client) return checks;
+
+  if (batch.status !== 'anchored' || !batch.contract || batch.onchainBatchId === null) {
+    checks.push({ name: 'Root anchored on-chain', ok: false, detail: 'batch is not anchored yet' });
+    return checks;
+  }
+
+  const contract = { address: batch.contract, abi: gugoVoteManagerUpdatedAbi } as const;
+  const onchainId = BigInt(batch.onchainBatchId);
+  const anchored = await client.readContract({ ...contract, functionName: 'getVoteBatch', args: [onchainId] });
+  const included = await client.readContract({
+    ...contract,
+    functionName: 'verifyVoteInclusion',
+    args: [onchainId, record.leaf, record.proof]
+  });
+
+  checks.push(
+    {
+      name: 'Root anchored on-chain',
+      ok: anchored.merkleRoot.toLowerCase() === batch.merkleRoot.toLowerCase(),
+      detail: `batch #${batch.onchainBatchId} on ${batch.contract}`
+    },
+    { name: 'Contract accepts proof', ok: included }
+  );
+  return checks;
+}
@@ -1,5 +1,6 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { abstractTestnet } from 'viem/chains';
+import type { Chain } from 'viem';
+import { abstractTestnet, hardhat } from 'viem/chains';
 import { abstractWallet } from '@abstract-foundation/agw-react/connectors';
 import { metaMaskWallet } from '@rainbow-me/rainbowkit/wallets';
 
@@ -7,9 +8,11 @@ const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo-proj
 
 // Get the appropriate chain based on environment
 // Note: Abstract mainnet may not be available in viem/chains yet
-const chains = [
-  abstractTestnet, // Using testnet for now until mainnet is available
-] as const;
+// NEXT_PUBLIC_LOCAL_CHAIN=true adds a local Hardhat node (npx hardhat node, chain 31337) for
+// testing vote purchases against contracts deployed by contracts/scripts/deploy-local.ts
+const chains: readonly [Chain, ...Chain[]] = process.env.NEXT_PUBLIC_LOCAL_CHAIN === 'true'
+  ? [abstractTestnet, hardhat]
+  : [abstractTestnet]; // Using testnet for now until mainnet is available
 
 export const config = getDefaultConfig({
   appName: 'Taste Machine',
@@ -126,6 +126,13 @@ export const connectMetamask = async (): Promise<WalletInfo | null> => {
   }
 };
 
+// Map a wagmi connector to our wallet type (AGW connectors report as "Abstract" / xyz.abs.*)
+export const getWalletTypeFromConnector = (connector?: { id: string; name: string }): WalletType => {
+  if (!connector) return 'agw';
+  const isAbstract = connector.id.toLowerCase().includes('abs') || connector.name.toLowerCase().includes('abstract');
+  return isAbstract ? 'agw' : 'metamask';
+};
+
 // Main wallet connection function (follows architecture pattern)
 export const connectWallet = async (): Promise<WalletInfo | null> => {
   // Prefer AGW if available, fallback to Metamask
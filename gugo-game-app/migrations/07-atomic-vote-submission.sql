@@ -0,0 +1,186 @@
+-- 🗳️ STAGE 7: Atomic Vote Submission
+-- Moves vote processing (Elo / slider update, queue cleanup, user stats) into a
+-- single transactional function called by POST /api/vote.
+-- Run this after Stage 6 migration is complete
+
+-- ================================
+-- ⚛️ SUBMIT VOTE (ONE TRANSACTION)
+-- ================================
+
+CREATE OR REPLACE FUNCTION submit_vote(
+    p_wallet_address TEXT,
+    p_vote_type TEXT,
+    p_nft_a_id UUID DEFAULT NULL,
+    p_nft_b_id UUID DEFAULT NULL,
+    p_winner_id UUID DEFAULT NULL,
+    p_slider_value FLOAT DEFAULT NULL,
+    p_super_vote BOOLEAN DEFAULT FALSE,
+    p_queue_id UUID DEFAULT NULL,
+    p_engagement_data JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(
+    vote_id UUID,
+    user_total_votes INTEGER,
+    available_votes INTEGER,
+    insufficient_votes BOOLEAN
+) AS $$
+DECLARE
+    user_record RECORD;
+    nft_a RECORD;
+    nft_b RECORD;
+    elo_result RECORD;
+    slider_result RECORD;
+    winner_side TEXT;
+    new_rating_a FLOAT;
+    new_rating_b FLOAT;
+    vote_cost INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    vote_weight INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    new_vote_id UUID;
+    new_total_votes INTEGER;
+    new_available_votes INTEGER;
+BEGIN
+    IF p_vote_type NOT IN ('same_coll', 'cross_coll', 'slider') THEN
+        RAISE EXCEPTION 'Invalid vote type: %', p_vote_type;
+    END IF;
+
+    -- Get or create the voter, locking the row so concurrent votes from the
+    -- same wallet serialize on balance and stats
+    INSERT INTO public.users (wallet_address)
+    VALUES (p_wallet_address)
+    ON CONFLICT (wallet_address) DO NOTHING;
+
+    SELECT u.id, u.total_votes, u.vote_streak, u.available_votes
+    INTO user_record
+    FROM public.users u
+    WHERE u.wallet_address = p_wallet_address
+    FOR UPDATE;
+
+    -- Super votes cost 5 votes - report instead of raising so the UI can offer a purchase
+    IF p_super_vote AND COALESCE(user_record.available_votes, 0) < vote_cost THEN
+        RETURN QUERY SELECT NULL::UUID, COALESCE(user_record.total_votes, 0), COALESCE(user_record.available_votes, 0), TRUE;
+        RETURN;
+    END IF;
+
+    IF p_vote_type = 'slider' THEN
+        IF p_nft_a_id IS NULL OR p_slider_value IS NULL THEN
+            RAISE EXCEPTION 'Invalid slider vote data';
+        END IF;
+
+        SELECT n.id, n.slider_average, n.slider_count
+        INTO nft_a
+        FROM public.nfts n
+        WHERE n.id = p_nft_a_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'NFT not found: %', p_nft_a_id;
+        END IF;
+
+        SELECT * INTO slider_result
+        FROM update_slider_average(nft_a.slider_average, nft_a.slider_count, p_slider_value);
+
+        UPDATE public.nfts
+        SET slider_average = slider_result.new_average,
+            slider_count = slider_result.new_count,
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+    ELSE
+        IF p_nft_a_id IS NULL OR p_nft_b_id IS NULL OR p_winner_id IS NULL THEN
+            RAISE EXCEPTION 'Invalid matchup vote data';
+        END IF;
+
+        IF p_winner_id NOT IN (p_nft_a_id, p_nft_b_id) THEN
+            RAISE EXCEPTION 'Winner % is not part of this matchup', p_winner_id;
+        END IF;
+
+        -- Lock both NFTs in a stable order to avoid deadlocks between opposite matchups
+        PERFORM 1 FROM public.nfts n
+        WHERE n.id IN (p_nft_a_id, p_nft_b_id)
+        ORDER BY n.id
+        FOR UPDATE;
+
+        SELECT n.id, n.current_elo, n.wins, n.losses, n.total_votes INTO nft_a
+        FROM public.nfts n WHERE n.id = p_nft_a_id;
+        SELECT n.id, n.current_elo, n.wins, n.losses, n.total_votes INTO nft_b
+        FROM public.nfts n WHERE n.id = p_nft_b_id;
+
+        IF nft_a.id IS NULL OR nft_b.id IS NULL THEN
+            RAISE EXCEPTION 'NFTs not found for matchup';
+        END IF;
+
+        winner_side := CASE WHEN p_winner_id = nft_a.id THEN 'a' ELSE 'b' END;
+
+        SELECT * INTO elo_result
+        FROM calculate_elo_update(nft_a.current_elo, nft_b.current_elo, winner_side);
+
+        new_rating_a := elo_result.new_rating_a;
+        new_rating_b := elo_result.new_rating_b;
+
+        -- Super vote applies 2x Elo change
+        IF p_super_vote THEN
+            new_rating_a := nft_a.current_elo + (new_rating_a - nft_a.current_elo) * 2;
+            new_rating_b := nft_b.current_elo + (new_rating_b - nft_b.current_elo) * 2;
+        END IF;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_a,
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'a' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'a' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_b,
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'b' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'b' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_b.id;
+    END IF;
+
+    INSERT INTO public.votes (
+        user_id, vote_type_v2, nft_a_id, nft_b_id, winner_id, slider_value, engagement_data
+    )
+    VALUES (
+        user_record.id, p_vote_type, p_nft_a_id, p_nft_b_id, p_winner_id, p_slider_value,
+        COALESCE(p_engagement_data, '{}'::JSONB) || jsonb_build_object(
+            'wallet_address', p_wallet_address,
+            'super_vote', p_super_vote,
+            'vote_cost', vote_cost
+        )
+    )
+    RETURNING id INTO new_vote_id;
+
+    IF p_queue_id IS NOT NULL THEN
+        DELETE FROM public.matchup_queue WHERE id = p_queue_id;
+    END IF;
+
+    UPDATE public.users
+    SET total_votes = COALESCE(total_votes, 0) + 1,
+        vote_streak = COALESCE(vote_streak, 0) + 1,
+        available_votes = CASE WHEN p_super_vote
+            THEN COALESCE(users.available_votes, 0) - vote_cost
+            ELSE users.available_votes END,
+        last_vote_at = NOW(),
+        updated_at = NOW()
+    WHERE id = user_record.id
+    RETURNING users.total_votes, users.available_votes
+    INTO new_total_votes, new_available_votes;
+
+    RETURN QUERY SELECT new_vote_id, new_total_votes, COALESCE(new_available_votes, 0), FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may submit votes
+REVOKE ALL ON FUNCTION submit_vote(TEXT, TEXT, UUID, UUID, UUID, FLOAT, BOOLEAN, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_vote(TEXT, TEXT, UUID, UUID, UUID, FLOAT, BOOLEAN, UUID, JSONB) TO service_role;
+
+-- Browsers no longer write Elo / slider data directly
+REVOKE INSERT, UPDATE, DELETE ON public.nfts FROM anon, authenticated;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (7, 'Atomic vote submission - submit_vote() called from POST /api/vote', 'Client-side Elo writes removed');
@@ -0,0 +1,396 @@
+-- 📒 STAGE 8: Vote Ledger
+-- Every change to a user's vote balance becomes an append-only ledger entry.
+-- The balance is SUM(amount) over the ledger; users.available_votes is kept as a
+-- cached copy for existing readers and is no longer written directly.
+-- Run this after Stage 7 migration is complete
+
+-- ================================
+-- 📒 LEDGER TABLE
+-- ================================
+
+CREATE TABLE IF NOT EXISTS public.vote_ledger (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN (
+        'opening_balance',   -- one-off carry-over of pre-ledger balances
+        'daily_free_claim',
+        'purchase',
+        'regular_spend',
+        'super_spend',
+        'prize_break_grant',
+        'media_failure_grant', -- compensation, one per recorded media failure report
+        'refund'
+    )),
+    amount INTEGER NOT NULL,          -- credits positive, spends negative
+    balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+    vote_id UUID REFERENCES public.votes(id) ON DELETE SET NULL,
+    reference TEXT,                   -- external id (tx hash, claim day, ...) for idempotency
+    metadata JSONB DEFAULT '{}'::JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (
+        (entry_type IN ('regular_spend', 'super_spend') AND amount < 0)
+        OR
+        (entry_type NOT IN ('regular_spend', 'super_spend') AND amount > 0)
+    )
+);
+
+-- Ledgers created before media_failure_grant existed pick it up when this stage is re-run
+ALTER TABLE public.vote_ledger DROP CONSTRAINT IF EXISTS vote_ledger_entry_type_check;
+ALTER TABLE public.vote_ledger ADD CONSTRAINT vote_ledger_entry_type_check CHECK (entry_type IN (
+    'opening_balance', 'daily_free_claim', 'purchase', 'regular_spend', 'super_spend',
+    'prize_break_grant', 'media_failure_grant', 'refund'
+));
+
+CREATE INDEX IF NOT EXISTS idx_vote_ledger_user_created ON public.vote_ledger(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vote_ledger_reference ON public.vote_ledger(entry_type, reference)
+    WHERE reference IS NOT NULL;
+
+-- Server-only table: read and written through the service role
+ALTER TABLE public.vote_ledger ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.vote_ledger FROM anon, authenticated;
+
+-- ================================
+-- 🧮 BALANCE + APPEND
+-- ================================
+
+CREATE OR REPLACE FUNCTION get_vote_balance(p_user_id UUID)
+RETURNS INTEGER AS $$
+    SELECT COALESCE(SUM(amount), 0)::INTEGER
+    FROM public.vote_ledger
+    WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Append an entry, rejecting anything that would take the balance below zero.
+-- Entries with a reference are idempotent: replaying one returns the original row.
+CREATE OR REPLACE FUNCTION append_vote_ledger(
+    p_user_id UUID,
+    p_entry_type TEXT,
+    p_amount INTEGER,
+    p_vote_id UUID DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(
+    entry_id UUID,
+    balance_after INTEGER,
+    already_applied BOOLEAN
+) AS $$
+DECLARE
+    existing RECORD;
+    new_balance INTEGER;
+    new_entry_id UUID;
+BEGIN
+    -- Serialize balance changes per user
+    PERFORM 1 FROM public.users WHERE id = p_user_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found: %', p_user_id;
+    END IF;
+
+    IF p_reference IS NOT NULL THEN
+        SELECT l.id, l.balance_after INTO existing
+        FROM public.vote_ledger l
+        WHERE l.entry_type = p_entry_type AND l.reference = p_reference;
+
+        IF FOUND THEN
+            RETURN QUERY SELECT existing.id, existing.balance_after, TRUE;
+            RETURN;
+        END IF;
+    END IF;
+
+    new_balance := get_vote_balance(p_user_id) + p_amount;
+    IF new_balance < 0 THEN
+        RAISE EXCEPTION 'Insufficient vote balance';
+    END IF;
+
+    INSERT INTO public.vote_ledger (user_id, entry_type, amount, balance_after, vote_id, reference, metadata)
+    VALUES (p_user_id, p_entry_type, p_amount, new_balance, p_vote_id, p_reference, COALESCE(p_metadata, '{}'::JSONB))
+    RETURNING id INTO new_entry_id;
+
+    -- Keep the cached balance in sync for existing readers
+    UPDATE public.users
+    SET available_votes = new_balance,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+
+    RETURN QUERY SELECT new_entry_id, new_balance, FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ================================
+-- 🎁 DAILY FREE CLAIM
+-- ================================
+
+CREATE OR REPLACE FUNCTION claim_daily_free_votes(
+    p_wallet_address TEXT,
+    p_amount INTEGER
+)
+RETURNS TABLE(
+    claimed BOOLEAN,
+    balance INTEGER,
+    next_claim_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+    user_record RECORD;
+    ledger_result RECORD;
+BEGIN
+    SELECT u.id, u.last_free_vote_claim INTO user_record
+    FROM public.users u
+    WHERE u.wallet_address = p_wallet_address
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found with wallet address: %', p_wallet_address;
+    END IF;
+
+    IF user_record.last_free_vote_claim IS NOT NULL
+       AND user_record.last_free_vote_claim > NOW() - INTERVAL '24 hours' THEN
+        RETURN QUERY SELECT FALSE, get_vote_balance(user_record.id), user_record.last_free_vote_claim + INTERVAL '24 hours';
+        RETURN;
+    END IF;
+
+    UPDATE public.users
+    SET last_free_vote_claim = NOW()
+    WHERE id = user_record.id;
+
+    SELECT * INTO ledger_result
+    FROM append_vote_ledger(user_record.id, 'daily_free_claim', p_amount);
+
+    RETURN QUERY SELECT TRUE, ledger_result.balance_after, NOW() + INTERVAL '24 hours';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Purchases from Stage 3's helper now go through the ledger
+CREATE OR REPLACE FUNCTION add_user_votes(
+  user_wallet_address TEXT,
+  votes_to_add INTEGER
+) RETURNS VOID AS $$
+DECLARE
+  user_uuid UUID;
+BEGIN
+  SELECT id INTO user_uuid
+  FROM users
+  WHERE wallet_address = user_wallet_address;
+
+  IF user_uuid IS NULL THEN
+    RAISE EXCEPTION 'User not found with wallet address: %', user_wallet_address;
+  END IF;
+
+  PERFORM append_vote_ledger(user_uuid, 'purchase', votes_to_add);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Balance is derived from the ledger
+CREATE OR REPLACE FUNCTION get_user_vote_balance(
+  user_wallet_address TEXT
+) RETURNS INTEGER AS $$
+  SELECT COALESCE((
+    SELECT get_vote_balance(id) FROM users WHERE wallet_address = user_wallet_address
+  ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- ================================
+-- ⚛️ SUBMIT VOTE (LEDGER-BACKED)
+-- ================================
+
+CREATE OR REPLACE FUNCTION submit_vote(
+    p_wallet_address TEXT,
+    p_vote_type TEXT,
+    p_nft_a_id UUID DEFAULT NULL,
+    p_nft_b_id UUID DEFAULT NULL,
+    p_winner_id UUID DEFAULT NULL,
+    p_slider_value FLOAT DEFAULT NULL,
+    p_super_vote BOOLEAN DEFAULT FALSE,
+    p_queue_id UUID DEFAULT NULL,
+    p_engagement_data JSONB DEFAULT '{}'::JSONB
+)
+RETURNS TABLE(
+    vote_id UUID,
+    user_total_votes INTEGER,
+    available_votes INTEGER,
+    insufficient_votes BOOLEAN
+) AS $$
+DECLARE
+    user_record RECORD;
+    nft_a RECORD;
+    nft_b RECORD;
+    elo_result RECORD;
+    slider_result RECORD;
+    winner_side TEXT;
+    new_rating_a FLOAT;
+    new_rating_b FLOAT;
+    vote_cost INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    vote_weight INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    new_vote_id UUID;
+    new_total_votes INTEGER;
+    new_available_votes INTEGER;
+    current_balance INTEGER;
+BEGIN
+    IF p_vote_type NOT IN ('same_coll', 'cross_coll', 'slider') THEN
+        RAISE EXCEPTION 'Invalid vote type: %', p_vote_type;
+    END IF;
+
+    -- Get or create the voter, locking the row so concurrent votes from the
+    -- same wallet serialize on balance and stats
+    INSERT INTO public.users (wallet_address)
+    VALUES (p_wallet_address)
+    ON CONFLICT (wallet_address) DO NOTHING;
+
+    SELECT u.id, u.total_votes, u.vote_streak
+    INTO user_record
+    FROM public.users u
+    WHERE u.wallet_address = p_wallet_address
+    FOR UPDATE;
+
+    -- Every vote is paid from the ledger (1 regular, 5 super) - report a shortfall
+    -- instead of raising so the UI can offer a purchase
+    current_balance := get_vote_balance(user_record.id);
+    IF current_balance < vote_cost THEN
+        RETURN QUERY SELECT NULL::UUID, COALESCE(user_record.total_votes, 0), current_balance, TRUE;
+        RETURN;
+    END IF;
+
+    IF p_vote_type = 'slider' THEN
+        IF p_nft_a_id IS NULL OR p_slider_value IS NULL THEN
+            RAISE EXCEPTION 'Invalid slider vote data';
+        END IF;
+
+        SELECT n.id, n.slider_average, n.slider_count
+        INTO nft_a
+        FROM public.nfts n
+        WHERE n.id = p_nft_a_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'NFT not found: %', p_nft_a_id;
+        END IF;
+
+        SELECT * INTO slider_result
+        FROM update_slider_average(nft_a.slider_average, nft_a.slider_count, p_slider_value);
+
+        UPDATE public.nfts
+        SET slider_average = slider_result.new_average,
+            slider_count = slider_result.new_count,
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+    ELSE
+        IF p_nft_a_id IS NULL OR p_nft_b_id IS NULL OR p_winner_id IS NULL THEN
+            RAISE EXCEPTION 'Invalid matchup vote data';
+        END IF;
+
+        IF p_winner_id NOT IN (p_nft_a_id, p_nft_b_id) THEN
+            RAISE EXCEPTION 'Winner % is not part of this matchup', p_winner_id;
+        END IF;
+
+        -- Lock both NFTs in a stable order to avoid deadlocks between opposite matchups
+        PERFORM 1 FROM public.nfts n
+        WHERE n.id IN (p_nft_a_id, p_nft_b_id)
+        ORDER BY n.id
+        FOR UPDATE;
+
+        SELECT n.id, n.current_elo, n.wins, n.losses, n.total_votes INTO nft_a
+        FROM public.nfts n WHERE n.id = p_nft_a_id;
+        SELECT n.id, n.current_elo, n.wins, n.losses, n.total_votes INTO nft_b
+        FROM public.nfts n WHERE n.id = p_nft_b_id;
+
+        IF nft_a.id IS NULL OR nft_b.id IS NULL THEN
+            RAISE EXCEPTION 'NFTs not found for matchup';
+        END IF;
+
+        winner_side := CASE WHEN p_winner_id = nft_a.id THEN 'a' ELSE 'b' END;
+
+        SELECT * INTO elo_result
+        FROM calculate_elo_update(nft_a.current_elo, nft_b.current_elo, winner_side);
+
+        new_rating_a := elo_result.new_rating_a;
+        new_rating_b := elo_result.new_rating_b;
+
+        -- Super vote applies 2x Elo change
+        IF p_super_vote THEN
+            new_rating_a := nft_a.current_elo + (new_rating_a - nft_a.current_elo) * 2;
+            new_rating_b := nft_b.current_elo + (new_rating_b - nft_b.current_elo) * 2;
+        END IF;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_a,
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'a' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'a' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_b,
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'b' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'b' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_b.id;
+    END IF;
+
+    INSERT INTO public.votes (
+        user_id, vote_type_v2, nft_a_id, nft_b_id, winner_id, slider_value, engagement_data
+    )
+    VALUES (
+        user_record.id, p_vote_type, p_nft_a_id, p_nft_b_id, p_winner_id, p_slider_value,
+        COALESCE(p_engagement_data, '{}'::JSONB) || jsonb_build_object(
+            'wallet_address', p_wallet_address,
+            'super_vote', p_super_vote,
+            'vote_cost', vote_cost
+        )
+    )
+    RETURNING id INTO new_vote_id;
+
+    SELECT l.balance_after INTO new_available_votes
+    FROM append_vote_ledger(
+        user_record.id,
+        CASE WHEN p_super_vote THEN 'super_spend' ELSE 'regular_spend' END,
+        -vote_cost,
+        new_vote_id
+    ) l;
+
+    IF p_queue_id IS NOT NULL THEN
+        DELETE FROM public.matchup_queue WHERE id = p_queue_id;
+    END IF;
+
+    UPDATE public.users
+    SET total_votes = COALESCE(total_votes, 0) + 1,
+        vote_streak = COALESCE(vote_streak, 0) + 1,
+        last_vote_at = NOW(),
+        updated_at = NOW()
+    WHERE id = user_record.id
+    RETURNING users.total_votes INTO new_total_votes;
+
+    RETURN QUERY SELECT new_vote_id, new_total_votes, COALESCE(new_available_votes, 0), FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ================================
+-- 🔒 PERMISSIONS
+-- ================================
+
+REVOKE ALL ON FUNCTION append_vote_ledger(UUID, TEXT, INTEGER, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION append_vote_ledger(UUID, TEXT, INTEGER, UUID, TEXT, JSONB) TO service_role;
+REVOKE ALL ON FUNCTION claim_daily_free_votes(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_daily_free_votes(TEXT, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION add_user_votes(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_user_votes(TEXT, INTEGER) TO service_role;
+
+-- ================================
+-- 📦 CARRY OVER EXISTING BALANCES
+-- ================================
+
+INSERT INTO public.vote_ledger (user_id, entry_type, amount, balance_after, reference, metadata)
+SELECT id, 'opening_balance', available_votes, available_votes, id::TEXT, '{"source": "users.available_votes"}'::JSONB
+FROM public.users
+WHERE COALESCE(available_votes, 0) > 0
+ON CONFLICT DO NOTHING;
+
+-- New users start from an empty ledger
+ALTER TABLE public.users ALTER COLUMN available_votes SET DEFAULT 0;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (8, 'Vote ledger - balances derived from vote_ledger', 'Regular votes cost 1, super votes 5; daily claim grants votes');
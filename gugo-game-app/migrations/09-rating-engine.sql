@@ -0,0 +1,239 @@
+-- 📈 STAGE 9: Configurable Rating Engine
+-- Stores Glicko-2 state per NFT and lets submit_vote() accept ratings computed by the
+-- app's RatingEngine (lib/rating-engine.ts), guarded by an optimistic rating_version check.
+-- Run this after Stage 8 migration is complete
+
+-- ================================
+-- 🧮 RATING STATE COLUMNS
+-- ================================
+
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS rating_deviation FLOAT DEFAULT 350,
+    ADD COLUMN IF NOT EXISTS rating_volatility FLOAT DEFAULT 0.06,
+    ADD COLUMN IF NOT EXISTS rating_version INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS rating_engine TEXT DEFAULT 'elo'; -- engine that last wrote current_elo
+
+UPDATE public.nfts SET rating_deviation = 350 WHERE rating_deviation IS NULL;
+UPDATE public.nfts SET rating_volatility = 0.06 WHERE rating_volatility IS NULL;
+
+-- ================================
+-- ⚛️ SUBMIT VOTE (ENGINE-COMPUTED RATINGS)
+-- ================================
+
+-- Signature changes (new p_rating_update argument), so replace rather than overload
+DROP FUNCTION IF EXISTS submit_vote(TEXT, TEXT, UUID, UUID, UUID, FLOAT, BOOLEAN, UUID, JSONB);
+
+CREATE FUNCTION submit_vote(
+    p_wallet_address TEXT,
+    p_vote_type TEXT,
+    p_nft_a_id UUID DEFAULT NULL,
+    p_nft_b_id UUID DEFAULT NULL,
+    p_winner_id UUID DEFAULT NULL,
+    p_slider_value FLOAT DEFAULT NULL,
+    p_super_vote BOOLEAN DEFAULT FALSE,
+    p_queue_id UUID DEFAULT NULL,
+    p_engagement_data JSONB DEFAULT '{}'::JSONB,
+    p_rating_update JSONB DEFAULT NULL
+)
+RETURNS TABLE(
+    vote_id UUID,
+    user_total_votes INTEGER,
+    available_votes INTEGER,
+    insufficient_votes BOOLEAN
+) AS $$
+DECLARE
+    user_record RECORD;
+    nft_a RECORD;
+    nft_b RECORD;
+    elo_result RECORD;
+    slider_result RECORD;
+    winner_side TEXT;
+    new_rating_a FLOAT;
+    new_rating_b FLOAT;
+    new_deviation_a FLOAT;
+    new_deviation_b FLOAT;
+    new_volatility_a FLOAT;
+    new_volatility_b FLOAT;
+    vote_cost INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    vote_weight INTEGER := CASE WHEN p_super_vote THEN 5 ELSE 1 END;
+    new_vote_id UUID;
+    new_total_votes INTEGER;
+    new_available_votes INTEGER;
+    current_balance INTEGER;
+BEGIN
+    IF p_vote_type NOT IN ('same_coll', 'cross_coll', 'slider') THEN
+        RAISE EXCEPTION 'Invalid vote type: %', p_vote_type;
+    END IF;
+
+    -- Get or create the voter, locking the row so concurrent votes from the
+    -- same wallet serialize on balance and stats
+    INSERT INTO public.users (wallet_address)
+    VALUES (p_wallet_address)
+    ON CONFLICT (wallet_address) DO NOTHING;
+
+    SELECT u.id, u.total_votes, u.vote_streak
+    INTO user_record
+    FROM public.users u
+    WHERE u.wallet_address = p_wallet_address
+    FOR UPDATE;
+
+    -- Every vote is paid from the ledger (1 regular, 5 super) - report a shortfall
+    -- instead of raising so the UI can offer a purchase
+    current_balance := get_vote_balance(user_record.id);
+    IF current_balance < vote_cost THEN
+        RETURN QUERY SELECT NULL::UUID, COALESCE(user_record.total_votes, 0), current_balance, TRUE;
+        RETURN;
+    END IF;
+
+    IF p_vote_type = 'slider' THEN
+        IF p_nft_a_id IS NULL OR p_slider_value IS NULL THEN
+            RAISE EXCEPTION 'Invalid slider vote data';
+        END IF;
+
+        SELECT n.id, n.slider_average, n.slider_count
+        INTO nft_a
+        FROM public.nfts n
+        WHERE n.id = p_nft_a_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'NFT not found: %', p_nft_a_id;
+        END IF;
+
+        SELECT * INTO slider_result
+        FROM update_slider_average(nft_a.slider_average, nft_a.slider_count, p_slider_value);
+
+        UPDATE public.nfts
+        SET slider_average = slider_result.new_average,
+            slider_count = slider_result.new_count,
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+    ELSE
+        IF p_nft_a_id IS NULL OR p_nft_b_id IS NULL OR p_winner_id IS NULL THEN
+            RAISE EXCEPTION 'Invalid matchup vote data';
+        END IF;
+
+        IF p_winner_id NOT IN (p_nft_a_id, p_nft_b_id) THEN
+            RAISE EXCEPTION 'Winner % is not part of this matchup', p_winner_id;
+        END IF;
+
+        -- Lock both NFTs in a stable order to avoid deadlocks between opposite matchups
+        PERFORM 1 FROM public.nfts n
+        WHERE n.id IN (p_nft_a_id, p_nft_b_id)
+        ORDER BY n.id
+        FOR UPDATE;
+
+        SELECT n.id, n.current_elo, n.rating_deviation, n.rating_volatility, n.rating_version INTO nft_a
+        FROM public.nfts n WHERE n.id = p_nft_a_id;
+        SELECT n.id, n.current_elo, n.rating_deviation, n.rating_volatility, n.rating_version INTO nft_b
+        FROM public.nfts n WHERE n.id = p_nft_b_id;
+
+        IF nft_a.id IS NULL OR nft_b.id IS NULL THEN
+            RAISE EXCEPTION 'NFTs not found for matchup';
+        END IF;
+
+        winner_side := CASE WHEN p_winner_id = nft_a.id THEN 'a' ELSE 'b' END;
+
+        IF p_rating_update IS NOT NULL THEN
+            -- Ratings computed by the app's RatingEngine from the state it read.
+            -- Reject if another vote changed either NFT since then; the caller retries.
+            IF (p_rating_update->'a'->>'expected_version')::INTEGER IS DISTINCT FROM nft_a.rating_version
+               OR (p_rating_update->'b'->>'expected_version')::INTEGER IS DISTINCT FROM nft_b.rating_version THEN
+                RAISE EXCEPTION 'rating_conflict' USING ERRCODE = '40001';
+            END IF;
+
+            new_rating_a := (p_rating_update->'a'->>'rating')::FLOAT;
+            new_rating_b := (p_rating_update->'b'->>'rating')::FLOAT;
+            new_deviation_a := COALESCE((p_rating_update->'a'->>'deviation')::FLOAT, nft_a.rating_deviation);
+            new_deviation_b := COALESCE((p_rating_update->'b'->>'deviation')::FLOAT, nft_b.rating_deviation);
+            new_volatility_a := COALESCE((p_rating_update->'a'->>'volatility')::FLOAT, nft_a.rating_volatility);
+            new_volatility_b := COALESCE((p_rating_update->'b'->>'volatility')::FLOAT, nft_b.rating_volatility);
+        ELSE
+            -- Legacy path: fixed Elo RPC with 2x change for super votes
+            SELECT * INTO elo_result
+            FROM calculate_elo_update(nft_a.current_elo, nft_b.current_elo, winner_side);
+
+            new_rating_a := elo_result.new_rating_a;
+            new_rating_b := elo_result.new_rating_b;
+
+            IF p_super_vote THEN
+                new_rating_a := nft_a.current_elo + (new_rating_a - nft_a.current_elo) * 2;
+                new_rating_b := nft_b.current_elo + (new_rating_b - nft_b.current_elo) * 2;
+            END IF;
+
+            new_deviation_a := nft_a.rating_deviation;
+            new_deviation_b := nft_b.rating_deviation;
+            new_volatility_a := nft_a.rating_volatility;
+            new_volatility_b := nft_b.rating_volatility;
+        END IF;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_a,
+            rating_deviation = new_deviation_a,
+            rating_volatility = new_volatility_a,
+            rating_version = COALESCE(rating_version, 0) + 1,
+            rating_engine = COALESCE(p_rating_update->>'engine', 'elo'),
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'a' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'a' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_a.id;
+
+        UPDATE public.nfts
+        SET current_elo = new_rating_b,
+            rating_deviation = new_deviation_b,
+            rating_volatility = new_volatility_b,
+            rating_version = COALESCE(rating_version, 0) + 1,
+            rating_engine = COALESCE(p_rating_update->>'engine', 'elo'),
+            wins = COALESCE(wins, 0) + CASE WHEN winner_side = 'b' THEN vote_weight ELSE 0 END,
+            losses = COALESCE(losses, 0) + CASE WHEN winner_side = 'b' THEN 0 ELSE vote_weight END,
+            total_votes = COALESCE(total_votes, 0) + vote_weight,
+            elo_last_updated = NOW(),
+            updated_at = NOW()
+        WHERE id = nft_b.id;
+    END IF;
+
+    INSERT INTO public.votes (
+        user_id, vote_type_v2, nft_a_id, nft_b_id, winner_id, slider_value, engagement_data
+    )
+    VALUES (
+        user_record.id, p_vote_type, p_nft_a_id, p_nft_b_id, p_winner_id, p_slider_value,
+        COALESCE(p_engagement_data, '{}'::JSONB) || jsonb_build_object(
+            'wallet_address', p_wallet_address,
+            'super_vote', p_super_vote,
+            'vote_cost', vote_cost
+        )
+    )
+    RETURNING id INTO new_vote_id;
+
+    SELECT l.balance_after INTO new_available_votes
+    FROM append_vote_ledger(
+        user_record.id,
+        CASE WHEN p_super_vote THEN 'super_spend' ELSE 'regular_spend' END,
+        -vote_cost,
+        new_vote_id
+    ) l;
+
+    IF p_queue_id IS NOT NULL THEN
+        DELETE FROM public.matchup_queue WHERE id = p_queue_id;
+    END IF;
+
+    UPDATE public.users
+    SET total_votes = COALESCE(total_votes, 0) + 1,
+        vote_streak = COALESCE(vote_streak, 0) + 1,
+        last_vote_at = NOW(),
+        updated_at = NOW()
+    WHERE id = user_record.id
+    RETURNING users.total_votes INTO new_total_votes;
+
+    RETURN QUERY SELECT new_vote_id, new_total_votes, COALESCE(new_available_votes, 0), FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION submit_vote(TEXT, TEXT, UUID, UUID, UUID, FLOAT, BOOLEAN, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_vote(TEXT, TEXT, UUID, UUID, UUID, FLOAT, BOOLEAN, UUID, JSONB, JSONB) TO service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (9, 'Configurable rating engine - Glicko-2 state on nfts', 'submit_vote() accepts RatingEngine output with optimistic locking');
@@ -0,0 +1,55 @@
+-- 📐 STAGE 10: Bradley-Terry Scores
+-- Stores the offline Bradley-Terry fit (scripts/fit-bradley-terry.ts) next to current_elo.
+-- Unlike the online rating, bt_score does not depend on vote order and carries a confidence interval.
+-- Run this after Stage 9 migration is complete
+
+-- ================================
+-- 📊 SCORE COLUMNS
+-- ================================
+
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS bt_score FLOAT,
+    ADD COLUMN IF NOT EXISTS bt_ci_lower FLOAT,
+    ADD COLUMN IF NOT EXISTS bt_ci_upper FLOAT,
+    ADD COLUMN IF NOT EXISTS bt_comparisons INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS bt_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_nfts_bt_score ON public.nfts (bt_score DESC NULLS LAST);
+
+-- ================================
+-- 💾 BULK APPLY
+-- ================================
+
+-- Writes one batch of fitted scores in a single statement
+-- p_scores: [{ "nft_id": uuid, "bt_score": n, "bt_ci_lower": n, "bt_ci_upper": n, "comparisons": n }]
+CREATE OR REPLACE FUNCTION apply_bt_scores(p_scores JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    UPDATE public.nfts n
+    SET bt_score = s.bt_score,
+        bt_ci_lower = s.bt_ci_lower,
+        bt_ci_upper = s.bt_ci_upper,
+        bt_comparisons = s.comparisons,
+        bt_updated_at = NOW()
+    FROM jsonb_to_recordset(p_scores) AS s(
+        nft_id UUID,
+        bt_score FLOAT,
+        bt_ci_lower FLOAT,
+        bt_ci_upper FLOAT,
+        comparisons INTEGER
+    )
+    WHERE n.id = s.nft_id;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION apply_bt_scores(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_bt_scores(JSONB) TO service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (10, 'Bradley-Terry scores - bt_score with confidence interval on nfts', 'Populated by scripts/fit-bradley-terry.ts');
@@ -0,0 +1,172 @@
+-- 🎯 STAGE 11: Information-Gain Matchup Selection
+-- Gives matchup_queue a real priority_score: close Elo (uncertain outcome) and few votes
+-- (uncertain rating) score highest, and pairs that were already voted on are never queued.
+-- Mirrors scoreMatchup() in lib/matchup-scorer.ts.
+-- Run this after Stage 10 migration is complete
+
+-- ================================
+-- 🧮 PRIORITY SCORE
+-- ================================
+
+-- 0-100: 100 * 4p(1-p) * mean(sqrt(10 / (10 + votes)))
+CREATE OR REPLACE FUNCTION matchup_priority_score(
+    elo_a FLOAT,
+    elo_b FLOAT,
+    votes_a INTEGER,
+    votes_b INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    p FLOAT;
+    closeness FLOAT;
+    mean_uncertainty FLOAT;
+BEGIN
+    p := 1.0 / (1.0 + POWER(10.0, (COALESCE(elo_b, 1500) - COALESCE(elo_a, 1500)) / 400.0));
+    closeness := 4.0 * p * (1.0 - p);
+    mean_uncertainty := (
+        SQRT(10.0 / (10.0 + GREATEST(COALESCE(votes_a, 0), 0))) +
+        SQRT(10.0 / (10.0 + GREATEST(COALESCE(votes_b, 0), 0)))
+    ) / 2.0;
+
+    RETURN GREATEST(1, ROUND(100.0 * closeness * mean_uncertainty)::INTEGER);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ================================
+-- 🚫 ALREADY-VOTED PAIRS
+-- ================================
+
+-- Unordered pair lookups for the NOT EXISTS checks below
+CREATE INDEX IF NOT EXISTS idx_votes_unordered_pair
+    ON public.votes (LEAST(nft_a_id, nft_b_id), GREATEST(nft_a_id, nft_b_id))
+    WHERE nft_a_id IS NOT NULL AND nft_b_id IS NOT NULL;
+
+-- Pairs among p_nft_ids that already have a vote or are waiting in the queue
+-- (used by lib/matchup-scorer.ts; returns ids only, so safe for the anon key)
+CREATE OR REPLACE FUNCTION get_existing_matchup_pairs(p_nft_ids UUID[])
+RETURNS TABLE(nft_a_id UUID, nft_b_id UUID) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT DISTINCT LEAST(v.nft_a_id, v.nft_b_id), GREATEST(v.nft_a_id, v.nft_b_id)
+    FROM public.votes v
+    WHERE v.nft_a_id = ANY(p_nft_ids)
+    AND v.nft_b_id = ANY(p_nft_ids)
+    UNION
+    SELECT LEAST(q.nft_a_id, q.nft_b_id), GREATEST(q.nft_a_id, q.nft_b_id)
+    FROM public.matchup_queue q
+    WHERE q.nft_a_id = ANY(p_nft_ids)
+    AND q.nft_b_id = ANY(p_nft_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_existing_matchup_pairs(UUID[]) TO anon, authenticated, service_role;
+
+-- ================================
+-- 🥊 BATCH GENERATORS (SCORED)
+-- ================================
+
+CREATE OR REPLACE FUNCTION add_same_coll_batch(batch_size INTEGER DEFAULT 10)
+RETURNS INTEGER AS $$
+DECLARE
+    added_count INTEGER := 0;
+BEGIN
+    INSERT INTO public.matchup_queue (vote_type, nft_a_id, nft_b_id, elo_diff, priority_score)
+    SELECT
+        'same_coll',
+        a.id,
+        b.id,
+        ABS(a.current_elo - b.current_elo) as elo_diff,
+        matchup_priority_score(a.current_elo, b.current_elo, a.total_votes, b.total_votes) as priority
+    FROM public.nfts a
+    JOIN public.nfts b ON a.collection_name = b.collection_name AND a.id < b.id
+    WHERE ABS(a.current_elo - b.current_elo) < 400
+    AND NOT EXISTS (
+        SELECT 1 FROM public.matchup_queue q
+        WHERE (q.nft_a_id = a.id AND q.nft_b_id = b.id) OR (q.nft_a_id = b.id AND q.nft_b_id = a.id)
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE LEAST(v.nft_a_id, v.nft_b_id) = a.id AND GREATEST(v.nft_a_id, v.nft_b_id) = b.id
+        AND v.nft_a_id IS NOT NULL AND v.nft_b_id IS NOT NULL
+    )
+    ORDER BY priority DESC, RANDOM()
+    LIMIT batch_size;
+
+    GET DIAGNOSTICS added_count = ROW_COUNT;
+    RETURN added_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_cross_coll_batch(batch_size INTEGER DEFAULT 10)
+RETURNS INTEGER AS $$
+DECLARE
+    added_count INTEGER := 0;
+BEGIN
+    INSERT INTO public.matchup_queue (vote_type, nft_a_id, nft_b_id, elo_diff, priority_score)
+    SELECT
+        'cross_coll',
+        a.id,
+        b.id,
+        ABS(a.current_elo - b.current_elo) as elo_diff,
+        matchup_priority_score(a.current_elo, b.current_elo, a.total_votes, b.total_votes) as priority
+    FROM public.nfts a
+    JOIN public.nfts b ON a.collection_name != b.collection_name AND a.id < b.id
+    WHERE ABS(a.current_elo - b.current_elo) < 400
+    AND NOT EXISTS (
+        SELECT 1 FROM public.matchup_queue q
+        WHERE (q.nft_a_id = a.id AND q.nft_b_id = b.id) OR (q.nft_a_id = b.id AND q.nft_b_id = a.id)
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE LEAST(v.nft_a_id, v.nft_b_id) = a.id AND GREATEST(v.nft_a_id, v.nft_b_id) = b.id
+        AND v.nft_a_id IS NOT NULL AND v.nft_b_id IS NOT NULL
+    )
+    ORDER BY priority DESC, RANDOM()
+    LIMIT batch_size;
+
+    GET DIAGNOSTICS added_count = ROW_COUNT;
+    RETURN added_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 🔄 RESCORE QUEUE
+-- ================================
+
+-- Ratings and vote counts drift after a matchup is queued; refresh unreserved rows
+-- and drop pairs that have been voted on since they were queued
+CREATE OR REPLACE FUNCTION rescore_matchup_queue()
+RETURNS INTEGER AS $$
+DECLARE
+    rescored_count INTEGER;
+BEGIN
+    DELETE FROM public.matchup_queue q
+    WHERE q.vote_type IN ('same_coll', 'cross_coll')
+    AND (q.reserved_until IS NULL OR q.reserved_until < NOW())
+    AND EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE LEAST(v.nft_a_id, v.nft_b_id) = LEAST(q.nft_a_id, q.nft_b_id)
+        AND GREATEST(v.nft_a_id, v.nft_b_id) = GREATEST(q.nft_a_id, q.nft_b_id)
+        AND v.nft_a_id IS NOT NULL AND v.nft_b_id IS NOT NULL
+    );
+
+    UPDATE public.matchup_queue q
+    SET priority_score = matchup_priority_score(a.current_elo, b.current_elo, a.total_votes, b.total_votes),
+        elo_diff = ABS(a.current_elo - b.current_elo)
+    FROM public.nfts a, public.nfts b
+    WHERE a.id = q.nft_a_id
+    AND b.id = q.nft_b_id
+    AND q.vote_type IN ('same_coll', 'cross_coll')
+    AND (q.reserved_until IS NULL OR q.reserved_until < NOW());
+
+    GET DIAGNOSTICS rescored_count = ROW_COUNT;
+    RETURN rescored_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the old elo_diff buckets on existing queue rows
+SELECT rescore_matchup_queue();
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (11, 'Information-gain matchup selection - scored matchup_queue priority', 'get_instant_matchup serves close, low-vote, never-voted pairs first');
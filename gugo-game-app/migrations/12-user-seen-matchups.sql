@@ -0,0 +1,156 @@
+-- 👀 STAGE 12: Per-User Seen Matchups
+-- Remembers which NFT pairs and slider NFTs each wallet has already judged, across sessions,
+-- so get_instant_matchup() and the app (lib/seen-matchups.ts) never repeat them within a window.
+-- Run this after Stage 11 migration is complete
+
+-- ================================
+-- 📋 SEEN MATCHUPS TABLE
+-- ================================
+
+-- item_key: '<lower uuid>:<higher uuid>' for pairs, 'slider:<uuid>' for slider NFTs
+CREATE TABLE IF NOT EXISTS public.user_seen_matchups (
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    item_key TEXT NOT NULL,
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_seen_matchups_recent
+    ON public.user_seen_matchups (user_id, last_seen_at DESC);
+
+-- Server-only (read through /api/user/seen-matchups with the service role)
+ALTER TABLE public.user_seen_matchups ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.user_seen_matchups FROM anon, authenticated;
+
+-- Same key format as seenItemKey() in lib/seen-matchups.ts
+CREATE OR REPLACE FUNCTION seen_item_key(p_vote_type TEXT, p_nft_a_id UUID, p_nft_b_id UUID, p_slider_nft_id UUID)
+RETURNS TEXT AS $$
+BEGIN
+    IF p_vote_type = 'slider' THEN
+        RETURN 'slider:' || COALESCE(p_slider_nft_id, p_nft_a_id)::TEXT;
+    END IF;
+    IF p_nft_a_id IS NULL OR p_nft_b_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+    RETURN LEAST(p_nft_a_id, p_nft_b_id)::TEXT || ':' || GREATEST(p_nft_a_id, p_nft_b_id)::TEXT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ================================
+-- ✍️ RECORD ON EVERY VOTE
+-- ================================
+
+CREATE OR REPLACE FUNCTION record_seen_matchup()
+RETURNS TRIGGER AS $$
+DECLARE
+    seen_key TEXT;
+BEGIN
+    seen_key := seen_item_key(NEW.vote_type_v2, NEW.nft_a_id, NEW.nft_b_id, NULL);
+    IF NEW.user_id IS NULL OR seen_key IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.user_seen_matchups (user_id, item_key, last_seen_at)
+    VALUES (NEW.user_id, seen_key, COALESCE(NEW.created_at, NOW()))
+    ON CONFLICT (user_id, item_key) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_record_seen_matchup ON public.votes;
+CREATE TRIGGER trg_record_seen_matchup
+    AFTER INSERT ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION record_seen_matchup();
+
+-- Backfill from existing votes
+INSERT INTO public.user_seen_matchups (user_id, item_key, last_seen_at)
+SELECT v.user_id, seen_item_key(v.vote_type_v2, v.nft_a_id, v.nft_b_id, NULL), MAX(v.created_at)
+FROM public.votes v
+WHERE v.user_id IS NOT NULL
+AND v.vote_type_v2 IN ('slider', 'same_coll', 'cross_coll')
+AND seen_item_key(v.vote_type_v2, v.nft_a_id, v.nft_b_id, NULL) IS NOT NULL
+GROUP BY v.user_id, seen_item_key(v.vote_type_v2, v.nft_a_id, v.nft_b_id, NULL)
+ON CONFLICT (user_id, item_key) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+
+-- ================================
+-- ⚡ INSTANT MATCHUP (SKIPS SEEN)
+-- ================================
+
+-- Called by GET /api/matchup with the service role: the user comes from the signed session cookie,
+-- never from a browser-supplied wallet. Signature changed, so replace rather than overload.
+DROP FUNCTION IF EXISTS get_instant_matchup(TEXT, TEXT);
+DROP FUNCTION IF EXISTS get_instant_matchup(TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_instant_matchup(
+    preferred_vote_type TEXT DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_reserved_by TEXT DEFAULT 'anonymous',
+    p_seen_window_days INTEGER DEFAULT 30
+)
+RETURNS TABLE(
+    queue_id UUID,
+    vote_type TEXT,
+    nft_a_id UUID,
+    nft_b_id UUID,
+    slider_nft_id UUID,
+    elo_diff FLOAT,
+    priority_score INTEGER
+) AS $$
+DECLARE
+    target_vote_type TEXT;
+    matchup_record RECORD;
+BEGIN
+    -- Decide vote type if not specified
+    IF preferred_vote_type IS NULL THEN
+        target_vote_type := decide_vote_type();
+    ELSE
+        target_vote_type := preferred_vote_type;
+    END IF;
+
+    -- Signed-in users get their history skipped; anonymous sessions are deduplicated client-side
+    SELECT * INTO matchup_record
+    FROM public.matchup_queue q
+    WHERE q.vote_type = target_vote_type
+    AND (q.reserved_until IS NULL OR q.reserved_until < NOW())
+    AND (
+        p_user_id IS NULL
+        OR NOT EXISTS (
+            SELECT 1 FROM public.user_seen_matchups s
+            WHERE s.user_id = p_user_id
+            AND s.item_key = seen_item_key(q.vote_type, q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+            AND s.last_seen_at > NOW() - make_interval(days => p_seen_window_days)
+        )
+    )
+    ORDER BY q.priority_score DESC, q.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF FOUND THEN
+        -- Reserve this matchup
+        UPDATE public.matchup_queue
+        SET reserved_until = NOW() + INTERVAL '5 minutes', reserved_by = p_reserved_by
+        WHERE id = matchup_record.id;
+
+        RETURN QUERY
+        SELECT
+            matchup_record.id,
+            matchup_record.vote_type,
+            matchup_record.nft_a_id,
+            matchup_record.nft_b_id,
+            matchup_record.slider_nft_id,
+            matchup_record.elo_diff,
+            matchup_record.priority_score;
+    ELSE
+        -- Fallback: return NULL (app will use dynamic generation)
+        RETURN;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_instant_matchup(TEXT, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_instant_matchup(TEXT, UUID, TEXT, INTEGER) TO service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (12, 'Per-user seen matchups - persistent pair/slider deduplication', 'get_instant_matchup() skips items the wallet judged within p_seen_window_days');
@@ -0,0 +1,164 @@
+-- 🏆 STAGE 13: Public Leaderboard
+-- Daily Elo history (for "top movers") and a single get_leaderboard() RPC behind /api/leaderboard:
+-- global or per collection, sorted by Elo, win rate, slider average or Elo change, with a
+-- minimum-votes filter, pagination and optional time window.
+-- Run this after Stage 12 migration is complete
+
+-- ================================
+-- 📈 DAILY ELO HISTORY
+-- ================================
+
+-- opening_elo = rating before the first change that day, closing_elo = rating after the last
+CREATE TABLE IF NOT EXISTS public.nft_elo_daily (
+    nft_id UUID NOT NULL REFERENCES public.nfts(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    opening_elo FLOAT NOT NULL,
+    closing_elo FLOAT NOT NULL,
+    PRIMARY KEY (nft_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_elo_daily_day ON public.nft_elo_daily (day);
+
+CREATE OR REPLACE FUNCTION record_nft_elo_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.current_elo IS DISTINCT FROM OLD.current_elo THEN
+        INSERT INTO public.nft_elo_daily (nft_id, day, opening_elo, closing_elo)
+        VALUES (NEW.id, CURRENT_DATE, COALESCE(OLD.current_elo, 1500), NEW.current_elo)
+        ON CONFLICT (nft_id, day) DO UPDATE SET closing_elo = EXCLUDED.closing_elo;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_record_nft_elo_change ON public.nfts;
+CREATE TRIGGER trg_record_nft_elo_change
+    AFTER UPDATE OF current_elo ON public.nfts
+    FOR EACH ROW EXECUTE FUNCTION record_nft_elo_change();
+
+CREATE INDEX IF NOT EXISTS idx_votes_created_at ON public.votes (created_at DESC);
+
+-- ================================
+-- 🏆 LEADERBOARD QUERY
+-- ================================
+
+-- p_sort: 'elo' | 'win_rate' | 'slider' | 'movers'
+-- p_min_votes: minimum all-time matchups (wins + losses), whatever the window
+-- p_window_days: NULL = all time; otherwise wins/losses/votes count only that window and
+--                elo_change is the rating movement over it ('movers' defaults to 7 days)
+CREATE OR REPLACE FUNCTION get_leaderboard(
+    p_collection TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'elo',
+    p_min_votes INTEGER DEFAULT 0,
+    p_window_days INTEGER DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    nft_id UUID,
+    name TEXT,
+    image TEXT,
+    token_id TEXT,
+    contract_address TEXT,
+    collection_name TEXT,
+    current_elo FLOAT,
+    wins INTEGER,
+    losses INTEGER,
+    total_votes INTEGER,
+    win_rate FLOAT,
+    slider_average FLOAT,
+    slider_count INTEGER,
+    elo_change FLOAT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    window_days INTEGER := CASE WHEN p_sort = 'movers' THEN COALESCE(p_window_days, 7) ELSE p_window_days END;
+    window_start TIMESTAMPTZ := CASE WHEN window_days IS NULL THEN NULL ELSE NOW() - make_interval(days => window_days) END;
+BEGIN
+    RETURN QUERY
+    WITH window_results AS (
+        -- Matchup results inside the window (both sides of each vote)
+        SELECT side.nft, COUNT(*) FILTER (WHERE side.won) AS w, COUNT(*) FILTER (WHERE NOT side.won) AS l
+        FROM public.votes v
+        CROSS JOIN LATERAL (VALUES (v.nft_a_id, v.winner_id = v.nft_a_id), (v.nft_b_id, v.winner_id = v.nft_b_id)) AS side(nft, won)
+        WHERE window_start IS NOT NULL
+        AND v.created_at >= window_start
+        AND v.vote_type_v2 IN ('same_coll', 'cross_coll')
+        AND v.winner_id IS NOT NULL
+        GROUP BY side.nft
+    ),
+    window_start_elo AS (
+        -- Rating at the start of the window = opening rating of the first change inside it
+        SELECT DISTINCT ON (d.nft_id) d.nft_id, d.opening_elo
+        FROM public.nft_elo_daily d
+        WHERE window_start IS NOT NULL
+        AND d.day >= window_start::DATE
+        ORDER BY d.nft_id, d.day ASC
+    ),
+    ranked AS (
+        SELECT
+            n.id,
+            n.name::TEXT,
+            n.image::TEXT,
+            n.token_id::TEXT,
+            n.contract_address::TEXT,
+            n.collection_name::TEXT,
+            n.current_elo::FLOAT AS elo,
+            CASE WHEN window_start IS NULL THEN COALESCE(n.wins, 0) ELSE COALESCE(wr.w, 0)::INTEGER END AS w,
+            CASE WHEN window_start IS NULL THEN COALESCE(n.losses, 0) ELSE COALESCE(wr.l, 0)::INTEGER END AS l,
+            n.slider_average::FLOAT AS slider_avg,
+            COALESCE(n.slider_count, 0) AS slider_n,
+            CASE WHEN window_start IS NULL THEN NULL ELSE (n.current_elo - COALESCE(wse.opening_elo, n.current_elo))::FLOAT END AS change,
+            COALESCE(n.wins, 0) + COALESCE(n.losses, 0) AS comparisons
+        FROM public.nfts n
+        LEFT JOIN window_results wr ON wr.nft = n.id
+        LEFT JOIN window_start_elo wse ON wse.nft_id = n.id
+        WHERE (p_collection IS NULL OR n.collection_name = p_collection)
+    ),
+    filtered AS (
+        SELECT r.*, (r.w + r.l) AS votes,
+            CASE WHEN r.w + r.l > 0 THEN r.w::FLOAT / (r.w + r.l) ELSE NULL END AS rate
+        FROM ranked r
+        WHERE r.comparisons >= GREATEST(COALESCE(p_min_votes, 0), 0)
+        AND (p_sort <> 'movers' OR r.change <> 0)
+    )
+    SELECT
+        f.id, f.name, f.image, f.token_id, f.contract_address, f.collection_name,
+        f.elo, f.w, f.l, f.votes, f.rate, f.slider_avg, f.slider_n, f.change,
+        COUNT(*) OVER ()
+    FROM filtered f
+    ORDER BY
+        CASE p_sort
+            WHEN 'win_rate' THEN f.rate
+            WHEN 'slider' THEN f.slider_avg
+            WHEN 'movers' THEN f.change
+            ELSE f.elo
+        END DESC NULLS LAST,
+        f.votes DESC,
+        f.elo DESC,
+        f.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard(TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO anon, authenticated, service_role;
+
+-- Collections with their NFT counts, for leaderboard navigation
+CREATE OR REPLACE FUNCTION get_leaderboard_collections()
+RETURNS TABLE(collection_name TEXT, nft_count BIGINT) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT n.collection_name::TEXT, COUNT(*)
+    FROM public.nfts n
+    WHERE n.collection_name IS NOT NULL
+    GROUP BY n.collection_name
+    ORDER BY COUNT(*) DESC, n.collection_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard_collections() TO anon, authenticated, service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (13, 'Public leaderboard - get_leaderboard() and daily Elo history', 'Top movers use nft_elo_daily, filled by a trigger on nfts.current_elo');
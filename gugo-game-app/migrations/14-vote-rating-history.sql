@@ -0,0 +1,74 @@
+-- 📈 STAGE 14: Per-Vote Rating History
+-- Stamps both NFTs' ratings onto every matchup vote, so an NFT's Elo-over-time chart, best wins
+-- and worst losses (the /nft/[id] page, lib/nft-detail.ts) can be rebuilt straight from `votes`.
+-- Run this after Stage 13 migration is complete
+
+-- ================================
+-- 📊 RATING COLUMNS
+-- ================================
+
+-- Ratings of each side right after the vote was applied
+ALTER TABLE public.votes
+    ADD COLUMN IF NOT EXISTS nft_a_elo_after FLOAT,
+    ADD COLUMN IF NOT EXISTS nft_b_elo_after FLOAT;
+
+CREATE INDEX IF NOT EXISTS idx_votes_nft_a_created ON public.votes (nft_a_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_votes_nft_b_created ON public.votes (nft_b_id, created_at);
+
+-- ================================
+-- ✍️ STAMP ON EVERY VOTE
+-- ================================
+
+-- submit_vote() updates nfts before inserting the vote, so current_elo is already the post-vote rating
+CREATE OR REPLACE FUNCTION stamp_vote_ratings()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.vote_type_v2 NOT IN ('same_coll', 'cross_coll') OR NEW.winner_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.nft_a_elo_after IS NULL THEN
+        SELECT n.current_elo INTO NEW.nft_a_elo_after FROM public.nfts n WHERE n.id = NEW.nft_a_id;
+    END IF;
+    IF NEW.nft_b_elo_after IS NULL THEN
+        SELECT n.current_elo INTO NEW.nft_b_elo_after FROM public.nfts n WHERE n.id = NEW.nft_b_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_stamp_vote_ratings ON public.votes;
+CREATE TRIGGER trg_stamp_vote_ratings
+    BEFORE INSERT ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION stamp_vote_ratings();
+
+-- ================================
+-- 💾 BACKFILL
+-- ================================
+
+-- Older votes are stamped by replaying history: npm run ratings:replay -- --engine elo --stamp-votes
+-- p_stamps: [{ "vote_id": uuid, "a": n, "b": n }]
+CREATE OR REPLACE FUNCTION apply_vote_elo_stamps(p_stamps JSONB, p_overwrite BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    UPDATE public.votes v
+    SET nft_a_elo_after = s.a,
+        nft_b_elo_after = s.b
+    FROM jsonb_to_recordset(p_stamps) AS s(vote_id UUID, a FLOAT, b FLOAT)
+    WHERE v.id = s.vote_id
+    AND (p_overwrite OR v.nft_a_elo_after IS NULL);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+    RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION apply_vote_elo_stamps(JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_vote_elo_stamps(JSONB, BOOLEAN) TO service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (14, 'Per-vote rating history - votes.nft_a_elo_after / nft_b_elo_after', 'Backfill older votes with ratings:replay --stamp-votes');
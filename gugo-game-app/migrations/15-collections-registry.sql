@@ -0,0 +1,578 @@
+-- 🗂️ STAGE 15: Collection Registry & Eligibility Rules
+-- Replaces the hardcoded unrevealed/video filters in the app (and in Stage 4's functions) with
+-- per-collection rules. Rules are evaluated into nfts.eligible whenever an NFT or its collection's
+-- rules change, so matchup and slider selection only filter on eligible = TRUE.
+-- Collections are imported with scripts/import-collection.ts (npm run collections:import).
+-- Run this after Stage 14 migration is complete
+
+-- ================================
+-- 📋 COLLECTIONS TABLE
+-- ================================
+
+-- ineligible_rules:
+--   unrevealed_traits:   [{ "trait_type": "Hive", "values": ["Regular", ...] }]  (case-insensitive)
+--   blocked_media_types: ["video"]
+--   exclude_burned:      true
+-- The default mirrors DEFAULT_COLLECTION_RULES in lib/collections.ts
+CREATE TABLE IF NOT EXISTS public.collections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    contract_address TEXT NOT NULL UNIQUE CHECK (contract_address = LOWER(contract_address)),
+    name TEXT NOT NULL,
+    chain TEXT NOT NULL DEFAULT 'abstract',
+    metadata_source TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    ineligible_rules JSONB NOT NULL DEFAULT '{
+        "unrevealed_traits": [
+            {"trait_type": "Reveal", "values": ["Unrevealed"]},
+            {"trait_type": "Status", "values": ["Unrevealed", "Hidden"]},
+            {"trait_type": "Stage", "values": ["Pre-reveal"]}
+        ],
+        "blocked_media_types": ["video"],
+        "exclude_burned": true
+    }'::JSONB,
+    last_imported_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Collections are readable by everyone" ON public.collections;
+CREATE POLICY "Collections are readable by everyone" ON public.collections FOR SELECT USING (TRUE);
+
+-- ================================
+-- 🚫 NFT ELIGIBILITY
+-- ================================
+
+-- eligible is written by apply_nft_eligibility() from the collection's rules (lib/collections.ts mirrors
+-- them; Stage 21 adds moderation), so every matchup and slider query in lib/matchup.ts / lib/preloader.ts
+-- just filters on it
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS burned BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS eligible BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS ineligible_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_nfts_eligible_slider ON public.nfts (slider_count, total_votes) WHERE eligible;
+CREATE INDEX IF NOT EXISTS idx_nfts_eligible_collection ON public.nfts (collection_name) WHERE eligible;
+CREATE INDEX IF NOT EXISTS idx_nfts_contract_lower ON public.nfts (LOWER(contract_address));
+
+-- Same as mediaTypeFromUrl() in lib/collections.ts
+CREATE OR REPLACE FUNCTION nft_media_type(p_image TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    IF p_image ~* '\.(mp4|mov|avi|webm|mkv)([?#]|$)' THEN
+        RETURN 'video';
+    END IF;
+    RETURN 'image';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Traits are stored either as [{ trait_type, value }] or as a { type: value } object
+CREATE OR REPLACE FUNCTION nft_trait_pairs(p_traits JSONB)
+RETURNS TABLE(trait_type TEXT, trait_value TEXT) AS $$
+BEGIN
+    IF jsonb_typeof(p_traits) = 'array' THEN
+        RETURN QUERY
+        SELECT t.elem->>'trait_type', t.elem->>'value'
+        FROM jsonb_array_elements(p_traits) AS t(elem)
+        WHERE jsonb_typeof(t.elem) = 'object';
+    ELSIF jsonb_typeof(p_traits) = 'object' THEN
+        RETURN QUERY
+        SELECT e.key, e.value
+        FROM jsonb_each_text(p_traits) AS e;
+    END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- NULL when eligible, otherwise the first rule that matched (mirrors ineligibleReason() in lib/collections.ts)
+CREATE OR REPLACE FUNCTION nft_ineligible_reason(
+    p_traits JSONB,
+    p_image TEXT,
+    p_burned BOOLEAN,
+    p_rules JSONB,
+    p_active BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+    media_type TEXT := nft_media_type(p_image);
+    matched RECORD;
+BEGIN
+    IF NOT COALESCE(p_active, TRUE) THEN
+        RETURN 'collection_inactive';
+    END IF;
+
+    IF COALESCE((p_rules->>'exclude_burned')::BOOLEAN, FALSE) AND COALESCE(p_burned, FALSE) THEN
+        RETURN 'burned';
+    END IF;
+
+    IF COALESCE(p_rules->'blocked_media_types', '[]'::JSONB) ? media_type THEN
+        RETURN 'media:' || media_type;
+    END IF;
+
+    SELECT tp.trait_type, tp.trait_value INTO matched
+    FROM jsonb_array_elements(COALESCE(p_rules->'unrevealed_traits', '[]'::JSONB)) AS r(rule)
+    JOIN nft_trait_pairs(p_traits) AS tp ON LOWER(tp.trait_type) = LOWER(r.rule->>'trait_type')
+    WHERE EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(r.rule->'values') AS v(val)
+        WHERE LOWER(v.val) = LOWER(tp.trait_value)
+    )
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN 'unrevealed:' || matched.trait_type || '=' || matched.trait_value;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Evaluate on insert / metadata change; unregistered collections are registered with default rules
+CREATE OR REPLACE FUNCTION apply_nft_eligibility()
+RETURNS TRIGGER AS $$
+DECLARE
+    collection_record RECORD;
+BEGIN
+    IF NEW.contract_address IS NULL THEN
+        NEW.ineligible_reason := nft_ineligible_reason(NEW.traits, NEW.image, NEW.burned, '{}'::JSONB);
+    ELSE
+        INSERT INTO public.collections (contract_address, name)
+        VALUES (LOWER(NEW.contract_address), COALESCE(NEW.collection_name, LOWER(NEW.contract_address)))
+        ON CONFLICT (contract_address) DO NOTHING;
+
+        SELECT c.ineligible_rules, c.active INTO collection_record
+        FROM public.collections c
+        WHERE c.contract_address = LOWER(NEW.contract_address);
+
+        NEW.ineligible_reason := nft_ineligible_reason(
+            NEW.traits, NEW.image, NEW.burned, collection_record.ineligible_rules, collection_record.active
+        );
+    END IF;
+
+    NEW.eligible := NEW.ineligible_reason IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_apply_nft_eligibility ON public.nfts;
+CREATE TRIGGER trg_apply_nft_eligibility
+    BEFORE INSERT OR UPDATE OF traits, image, burned, contract_address ON public.nfts
+    FOR EACH ROW EXECUTE FUNCTION apply_nft_eligibility();
+
+-- Re-evaluate a whole collection and drop queued matchups that are no longer allowed
+CREATE OR REPLACE FUNCTION refresh_collection_eligibility(p_contract_address TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    ineligible_count INTEGER;
+BEGIN
+    UPDATE public.nfts n
+    SET ineligible_reason = nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active),
+        eligible = nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active) IS NULL
+    FROM public.collections c
+    WHERE c.contract_address = LOWER(p_contract_address)
+    AND LOWER(n.contract_address) = c.contract_address;
+
+    DELETE FROM public.matchup_queue q
+    WHERE EXISTS (
+        SELECT 1 FROM public.nfts n
+        WHERE NOT n.eligible
+        AND LOWER(n.contract_address) = LOWER(p_contract_address)
+        AND n.id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+    );
+
+    SELECT COUNT(*) INTO ineligible_count
+    FROM public.nfts n
+    WHERE LOWER(n.contract_address) = LOWER(p_contract_address)
+    AND NOT n.eligible;
+
+    RETURN ineligible_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION refresh_collection_eligibility(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_collection_eligibility(TEXT) TO service_role;
+
+DROP TRIGGER IF EXISTS trg_collection_updated_at ON public.collections;
+
+CREATE OR REPLACE FUNCTION touch_collection_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_collection_updated_at
+    BEFORE UPDATE ON public.collections
+    FOR EACH ROW EXECUTE FUNCTION touch_collection_updated_at();
+
+CREATE OR REPLACE FUNCTION refresh_on_collection_rules_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.ineligible_rules IS DISTINCT FROM OLD.ineligible_rules OR NEW.active IS DISTINCT FROM OLD.active THEN
+        PERFORM refresh_collection_eligibility(NEW.contract_address);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_refresh_collection_eligibility ON public.collections;
+CREATE TRIGGER trg_refresh_collection_eligibility
+    AFTER UPDATE OF ineligible_rules, active ON public.collections
+    FOR EACH ROW EXECUTE FUNCTION refresh_on_collection_rules_change();
+
+-- ================================
+-- 🌱 SEED FROM EXISTING NFTS
+-- ================================
+
+INSERT INTO public.collections (contract_address, name, metadata_source)
+SELECT LOWER(n.contract_address), MIN(n.collection_name), 'legacy'
+FROM public.nfts n
+WHERE n.contract_address IS NOT NULL
+GROUP BY LOWER(n.contract_address)
+ON CONFLICT (contract_address) DO NOTHING;
+
+-- Beeish's unrevealed states live in its Hive trait (previously hardcoded in lib/matchup.ts and lib/preloader.ts)
+UPDATE public.collections
+SET ineligible_rules = jsonb_set(
+    ineligible_rules,
+    '{unrevealed_traits}',
+    COALESCE(ineligible_rules->'unrevealed_traits', '[]'::JSONB)
+        || '[{"trait_type": "Hive", "values": ["Regular", "Robot", "Zombee", "Present"]}]'::JSONB
+)
+WHERE name ILIKE 'beeish%'
+AND NOT (ineligible_rules->'unrevealed_traits' @> '[{"trait_type": "Hive"}]');
+
+-- Evaluate every NFT once (the Beeish UPDATE above only refreshed Beeish)
+UPDATE public.nfts n
+SET ineligible_reason = nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active),
+    eligible = nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active) IS NULL
+FROM public.collections c
+WHERE LOWER(n.contract_address) = c.contract_address;
+
+DELETE FROM public.matchup_queue q
+WHERE EXISTS (
+    SELECT 1 FROM public.nfts n
+    WHERE NOT n.eligible AND n.id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+);
+
+-- ================================
+-- 🎯 SELECTION FUNCTIONS READ ELIGIBILITY
+-- ================================
+
+-- Same signatures as Stage 4 / 6B / 11, with the hardcoded filters replaced by n.eligible
+CREATE OR REPLACE FUNCTION find_cold_start_nfts(limit_count INTEGER DEFAULT 10)
+RETURNS TABLE (
+  nft_id UUID,
+  slider_count INTEGER,
+  total_votes INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    n.id as nft_id,
+    COALESCE(n.slider_count, 0) as slider_count,
+    COALESCE(n.total_votes, 0) as total_votes
+  FROM nfts n
+  WHERE COALESCE(n.slider_count, 0) < 3
+    AND n.eligible
+  ORDER BY
+    COALESCE(n.slider_count, 0) ASC,
+    COALESCE(n.total_votes, 0) ASC,
+    RANDOM()
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION find_same_collection_matchup()
+RETURNS TABLE (
+  nft_a_id UUID,
+  nft_b_id UUID,
+  collection_name TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH random_collection AS (
+    SELECT n.collection_name
+    FROM nfts n
+    WHERE n.collection_name IS NOT NULL AND n.eligible
+    GROUP BY n.collection_name
+    HAVING COUNT(*) >= 2
+    ORDER BY RANDOM()
+    LIMIT 1
+  ),
+  collection_nfts AS (
+    SELECT n.id, ROW_NUMBER() OVER (ORDER BY RANDOM()) AS pick
+    FROM nfts n
+    JOIN random_collection rc ON n.collection_name = rc.collection_name
+    WHERE n.eligible
+  )
+  SELECT
+    (SELECT c.id FROM collection_nfts c WHERE c.pick = 1),
+    (SELECT c.id FROM collection_nfts c WHERE c.pick = 2),
+    (SELECT rc.collection_name::TEXT FROM random_collection rc);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION find_cross_collection_matchup()
+RETURNS TABLE (
+  nft_a_id UUID,
+  nft_b_id UUID
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH collection_groups AS (
+    SELECT n.collection_name, ARRAY_AGG(n.id ORDER BY RANDOM()) as nft_ids
+    FROM nfts n
+    WHERE n.collection_name IS NOT NULL AND n.eligible
+    GROUP BY n.collection_name
+  ),
+  two_collections AS (
+    SELECT g.nft_ids
+    FROM collection_groups g
+    ORDER BY RANDOM()
+    LIMIT 2
+  )
+  SELECT
+    (SELECT t.nft_ids[1] FROM two_collections t LIMIT 1),
+    (SELECT t.nft_ids[1] FROM two_collections t OFFSET 1 LIMIT 1);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION decide_vote_type()
+RETURNS TEXT AS $$
+DECLARE
+  cold_start_count INTEGER;
+  random_val FLOAT;
+BEGIN
+  SELECT COUNT(*) INTO cold_start_count
+  FROM nfts n
+  WHERE COALESCE(n.slider_count, 0) < 3
+    AND n.eligible;
+
+  random_val := RANDOM();
+
+  -- Prioritize slider votes if there are cold start NFTs
+  IF cold_start_count > 0 AND random_val < 0.4 THEN
+    RETURN 'slider';
+  ELSIF random_val < 0.7 THEN
+    RETURN 'same_coll';
+  ELSE
+    RETURN 'cross_coll';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_slider_batch(batch_size INTEGER DEFAULT 10)
+RETURNS INTEGER AS $$
+DECLARE
+    added_count INTEGER := 0;
+BEGIN
+    INSERT INTO public.matchup_queue (vote_type, slider_nft_id, priority_score)
+    SELECT
+        'slider',
+        id,
+        CASE
+            WHEN slider_count = 0 THEN 100
+            WHEN slider_count < 3 THEN 75
+            WHEN slider_count < 5 THEN 50
+            ELSE 25
+        END as priority
+    FROM public.nfts
+    WHERE slider_count < 10
+    AND eligible
+    AND id NOT IN (SELECT slider_nft_id FROM public.matchup_queue WHERE vote_type = 'slider' AND slider_nft_id IS NOT NULL)
+    ORDER BY slider_count ASC, total_votes ASC, RANDOM()
+    LIMIT batch_size;
+
+    GET DIAGNOSTICS added_count = ROW_COUNT;
+    RETURN added_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_same_coll_batch(batch_size INTEGER DEFAULT 10)
+RETURNS INTEGER AS $$
+DECLARE
+    added_count INTEGER := 0;
+BEGIN
+    INSERT INTO public.matchup_queue (vote_type, nft_a_id, nft_b_id, elo_diff, priority_score)
+    SELECT
+        'same_coll',
+        a.id,
+        b.id,
+        ABS(a.current_elo - b.current_elo) as elo_diff,
+        matchup_priority_score(a.current_elo, b.current_elo, a.total_votes, b.total_votes) as priority
+    FROM public.nfts a
+    JOIN public.nfts b ON a.collection_name = b.collection_name AND a.id < b.id
+    WHERE ABS(a.current_elo - b.current_elo) < 400
+    AND a.eligible AND b.eligible
+    AND NOT EXISTS (
+        SELECT 1 FROM public.matchup_queue q
+        WHERE (q.nft_a_id = a.id AND q.nft_b_id = b.id) OR (q.nft_a_id = b.id AND q.nft_b_id = a.id)
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE LEAST(v.nft_a_id, v.nft_b_id) = a.id AND GREATEST(v.nft_a_id, v.nft_b_id) = b.id
+        AND v.nft_a_id IS NOT NULL AND v.nft_b_id IS NOT NULL
+    )
+    ORDER BY priority DESC, RANDOM()
+    LIMIT batch_size;
+
+    GET DIAGNOSTICS added_count = ROW_COUNT;
+    RETURN added_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_cross_coll_batch(batch_size INTEGER DEFAULT 10)
+RETURNS INTEGER AS $$
+DECLARE
+    added_count INTEGER := 0;
+BEGIN
+    INSERT INTO public.matchup_queue (vote_type, nft_a_id, nft_b_id, elo_diff, priority_score)
+    SELECT
+        'cross_coll',
+        a.id,
+        b.id,
+        ABS(a.current_elo - b.current_elo) as elo_diff,
+        matchup_priority_score(a.current_elo, b.current_elo, a.total_votes, b.total_votes) as priority
+    FROM public.nfts a
+    JOIN public.nfts b ON a.collection_name != b.collection_name AND a.id < b.id
+    WHERE ABS(a.current_elo - b.current_elo) < 400
+    AND a.eligible AND b.eligible
+    AND NOT EXISTS (
+        SELECT 1 FROM public.matchup_queue q
+        WHERE (q.nft_a_id = a.id AND q.nft_b_id = b.id) OR (q.nft_a_id = b.id AND q.nft_b_id = a.id)
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.votes v
+        WHERE LEAST(v.nft_a_id, v.nft_b_id) = a.id AND GREATEST(v.nft_a_id, v.nft_b_id) = b.id
+        AND v.nft_a_id IS NOT NULL AND v.nft_b_id IS NOT NULL
+    )
+    ORDER BY priority DESC, RANDOM()
+    LIMIT batch_size;
+
+    GET DIAGNOSTICS added_count = ROW_COUNT;
+    RETURN added_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 🏆 LEADERBOARD READS ELIGIBILITY
+-- ================================
+
+-- Same signatures as Stage 13; ineligible NFTs (and, from Stage 21, moderated ones) are not ranked
+CREATE OR REPLACE FUNCTION get_leaderboard(
+    p_collection TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'elo',
+    p_min_votes INTEGER DEFAULT 0,
+    p_window_days INTEGER DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE(
+    nft_id UUID,
+    name TEXT,
+    image TEXT,
+    token_id TEXT,
+    contract_address TEXT,
+    collection_name TEXT,
+    current_elo FLOAT,
+    wins INTEGER,
+    losses INTEGER,
+    total_votes INTEGER,
+    win_rate FLOAT,
+    slider_average FLOAT,
+    slider_count INTEGER,
+    elo_change FLOAT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    window_days INTEGER := CASE WHEN p_sort = 'movers' THEN COALESCE(p_window_days, 7) ELSE p_window_days END;
+    window_start TIMESTAMPTZ := CASE WHEN window_days IS NULL THEN NULL ELSE NOW() - make_interval(days => window_days) END;
+BEGIN
+    RETURN QUERY
+    WITH window_results AS (
+        -- Matchup results inside the window (both sides of each vote)
+        SELECT side.nft, COUNT(*) FILTER (WHERE side.won) AS w, COUNT(*) FILTER (WHERE NOT side.won) AS l
+        FROM public.votes v
+        CROSS JOIN LATERAL (VALUES (v.nft_a_id, v.winner_id = v.nft_a_id), (v.nft_b_id, v.winner_id = v.nft_b_id)) AS side(nft, won)
+        WHERE window_start IS NOT NULL
+        AND v.created_at >= window_start
+        AND v.vote_type_v2 IN ('same_coll', 'cross_coll')
+        AND v.winner_id IS NOT NULL
+        GROUP BY side.nft
+    ),
+    window_start_elo AS (
+        -- Rating at the start of the window = opening rating of the first change inside it
+        SELECT DISTINCT ON (d.nft_id) d.nft_id, d.opening_elo
+        FROM public.nft_elo_daily d
+        WHERE window_start IS NOT NULL
+        AND d.day >= window_start::DATE
+        ORDER BY d.nft_id, d.day ASC
+    ),
+    ranked AS (
+        SELECT
+            n.id,
+            n.name::TEXT,
+            n.image::TEXT,
+            n.token_id::TEXT,
+            n.contract_address::TEXT,
+            n.collection_name::TEXT,
+            n.current_elo::FLOAT AS elo,
+            CASE WHEN window_start IS NULL THEN COALESCE(n.wins, 0) ELSE COALESCE(wr.w, 0)::INTEGER END AS w,
+            CASE WHEN window_start IS NULL THEN COALESCE(n.losses, 0) ELSE COALESCE(wr.l, 0)::INTEGER END AS l,
+            n.slider_average::FLOAT AS slider_avg,
+            COALESCE(n.slider_count, 0) AS slider_n,
+            CASE WHEN window_start IS NULL THEN NULL ELSE (n.current_elo - COALESCE(wse.opening_elo, n.current_elo))::FLOAT END AS change,
+            COALESCE(n.wins, 0) + COALESCE(n.losses, 0) AS comparisons
+        FROM public.nfts n
+        LEFT JOIN window_results wr ON wr.nft = n.id
+        LEFT JOIN window_start_elo wse ON wse.nft_id = n.id
+        WHERE n.eligible
+        AND (p_collection IS NULL OR n.collection_name = p_collection)
+    ),
+    filtered AS (
+        SELECT r.*, (r.w + r.l) AS votes,
+            CASE WHEN r.w + r.l > 0 THEN r.w::FLOAT / (r.w + r.l) ELSE NULL END AS rate
+        FROM ranked r
+        WHERE r.comparisons >= GREATEST(COALESCE(p_min_votes, 0), 0)
+        AND (p_sort <> 'movers' OR r.change <> 0)
+    )
+    SELECT
+        f.id, f.name, f.image, f.token_id, f.contract_address, f.collection_name,
+        f.elo, f.w, f.l, f.votes, f.rate, f.slider_avg, f.slider_n, f.change,
+        COUNT(*) OVER ()
+    FROM filtered f
+    ORDER BY
+        CASE p_sort
+            WHEN 'win_rate' THEN f.rate
+            WHEN 'slider' THEN f.slider_avg
+            WHEN 'movers' THEN f.change
+            ELSE f.elo
+        END DESC NULLS LAST,
+        f.votes DESC,
+        f.elo DESC,
+        f.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard(TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO anon, authenticated, service_role;
+
+-- Counts eligible NFTs only, matching what get_leaderboard() lists
+CREATE OR REPLACE FUNCTION get_leaderboard_collections()
+RETURNS TABLE(collection_name TEXT, nft_count BIGINT) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT n.collection_name::TEXT, COUNT(*)
+    FROM public.nfts n
+    WHERE n.collection_name IS NOT NULL AND n.eligible
+    GROUP BY n.collection_name
+    ORDER BY COUNT(*) DESC, n.collection_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard_collections() TO anon, authenticated, service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (15, 'Collection registry - per-collection eligibility rules', 'nfts.eligible replaces hardcoded unrevealed/video filters; import with npm run collections:import');
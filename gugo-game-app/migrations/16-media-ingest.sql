@@ -0,0 +1,170 @@
+-- 🖼️ STAGE 16: Media Ingest Pipeline
+-- Content-addressed media for /api/img: each source image is hashed (sha256) into an asset_hash,
+-- re-encoded to w256/w512/w1024/w2048 webp variants and written to media storage under
+-- media/<asset_hash>/. nft_media_map points each token at its asset and doubles as the ingest queue
+-- (filled by POST /api/media/ingest, drained by POST /api/media/run-batch or npm run media:ingest).
+-- Run this after Stage 15 migration is complete
+
+-- ================================
+-- 📦 MEDIA ASSETS
+-- ================================
+
+-- variants: { "w256": "media/<hash>/w256.webp", ... } (only sizes the source was large enough for)
+CREATE TABLE IF NOT EXISTS public.media_assets (
+    asset_hash TEXT PRIMARY KEY CHECK (asset_hash ~ '^[0-9a-f]{64}$'),
+    storage_key TEXT NOT NULL,
+    mime TEXT NOT NULL DEFAULT 'image/webp',
+    source_mime TEXT,
+    width INTEGER,
+    height INTEGER,
+    bytes BIGINT,
+    variants JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ================================
+-- 🗺️ TOKEN → ASSET MAP (INGEST QUEUE)
+-- ================================
+
+-- chain: 'eip155:<id>' (normalizeChainKeyForDb in /api/img); contract lowercased for EVM chains
+CREATE TABLE IF NOT EXISTS public.nft_media_map (
+    chain TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    source_uri TEXT, -- nfts.image the stored asset was fetched from (written by the worker)
+    asset_hash TEXT REFERENCES public.media_assets(asset_hash),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'ok', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    retry_after TIMESTAMPTZ,
+    locked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain, contract, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_media_map_queue
+    ON public.nft_media_map (status, retry_after)
+    WHERE status <> 'ok';
+
+CREATE INDEX IF NOT EXISTS idx_nft_media_map_asset
+    ON public.nft_media_map (asset_hash);
+
+DROP TRIGGER IF EXISTS trg_nft_media_map_updated_at ON public.nft_media_map;
+
+CREATE OR REPLACE FUNCTION touch_nft_media_map_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_nft_media_map_updated_at
+    BEFORE UPDATE ON public.nft_media_map
+    FOR EACH ROW EXECUTE FUNCTION touch_nft_media_map_updated_at();
+
+-- /api/img reads both tables with the anon key; only the service role writes
+ALTER TABLE public.media_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nft_media_map ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Media assets are public" ON public.media_assets;
+CREATE POLICY "Media assets are public" ON public.media_assets FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Media map is public" ON public.nft_media_map;
+CREATE POLICY "Media map is public" ON public.nft_media_map FOR SELECT USING (true);
+
+-- ================================
+-- 📥 ENQUEUE
+-- ================================
+
+-- Called by /api/img and POST /api/media/ingest with the service role. It only adds pending rows -
+-- never resets a mapped or failing token - and takes no source URL: the worker fetches nfts.image
+-- and records it in source_uri once the asset is stored. Only tokens with an nfts row are queued
+-- (NULL otherwise), so made-up contract / token ids can't fill the map with doomed rows.
+DROP FUNCTION IF EXISTS enqueue_media_ingest(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION enqueue_media_ingest(
+    p_chain TEXT,
+    p_contract TEXT,
+    p_token_id TEXT
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    IF COALESCE(p_chain, '') = '' OR COALESCE(p_contract, '') = '' OR COALESCE(p_token_id, '') = '' THEN
+        RAISE EXCEPTION 'chain, contract and token_id are required';
+    END IF;
+
+    INSERT INTO public.nft_media_map (chain, contract, token_id)
+    SELECT p_chain, p_contract, p_token_id
+    WHERE EXISTS (
+        SELECT 1 FROM public.nfts n
+        WHERE LOWER(n.contract_address) = LOWER(p_contract)
+        AND n.token_id = p_token_id
+    )
+    ON CONFLICT (chain, contract, token_id) DO NOTHING;
+
+    SELECT m.status INTO v_status
+    FROM public.nft_media_map m
+    WHERE m.chain = p_chain AND m.contract = p_contract AND m.token_id = p_token_id;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION enqueue_media_ingest(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_media_ingest(TEXT, TEXT, TEXT) TO service_role;
+
+-- ================================
+-- 🏃 CLAIM A BATCH
+-- ================================
+
+-- Picks due pending/failed rows (and 'processing' rows whose worker died) and marks them
+-- processing, so concurrent workers never ingest the same token twice.
+-- p_max_attempts must match MAX_INGEST_ATTEMPTS in src/lib/media-ingest-worker.ts
+CREATE OR REPLACE FUNCTION claim_media_ingest_batch(
+    p_limit INTEGER DEFAULT 25,
+    p_contract TEXT DEFAULT NULL,
+    p_ignore_retry_after BOOLEAN DEFAULT FALSE,
+    p_max_attempts INTEGER DEFAULT 6
+)
+RETURNS SETOF public.nft_media_map
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.nft_media_map m
+    SET status = 'processing',
+        locked_at = NOW(),
+        attempts = m.attempts + 1
+    FROM (
+        SELECT q.chain, q.contract, q.token_id
+        FROM public.nft_media_map q
+        WHERE (p_contract IS NULL OR q.contract = p_contract)
+        AND q.attempts < p_max_attempts
+        AND (
+            (q.status IN ('pending', 'failed')
+                AND (p_ignore_retry_after OR q.retry_after IS NULL OR q.retry_after <= NOW()))
+            OR (q.status = 'processing' AND q.locked_at < NOW() - INTERVAL '10 minutes')
+        )
+        ORDER BY q.status = 'failed', q.created_at
+        LIMIT GREATEST(p_limit, 0)
+        FOR UPDATE SKIP LOCKED
+    ) due
+    WHERE m.chain = due.chain AND m.contract = due.contract AND m.token_id = due.token_id
+    RETURNING m.*;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION claim_media_ingest_batch(INTEGER, TEXT, BOOLEAN, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_media_ingest_batch(INTEGER, TEXT, BOOLEAN, INTEGER) TO service_role;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (16, 'Media ingest pipeline - content-addressed assets and ingest queue', 'Drain with POST /api/media/run-batch or npm run media:ingest');
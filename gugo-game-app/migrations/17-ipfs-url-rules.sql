@@ -0,0 +1,128 @@
+-- 🧭 STAGE 17: IPFS URL Rules
+-- Lets /api/img rebuild a token's image URL from its collection's IPFS folder when metadata or the
+-- stored gateway URL fails (generateFallbackIPFSUrl in src/lib/reservoir-image-optimizer.ts).
+-- Rules live on collections so adding a collection needs no deploy, and are inferred from the
+-- image URLs already stored on nfts for every collection we have.
+-- Run this after Stage 16 migration is complete
+
+-- ================================
+-- 📋 RULE COLUMN
+-- ================================
+
+-- { "cid": "Qm...", "path_template": "images/{id}", "extension": ".png", "token_id_offset": 0 }
+-- path_template placeholders: {id} and {id:N} (zero-padded to N digits); see IpfsUrlRule in src/types/collections.ts
+ALTER TABLE public.collections
+    ADD COLUMN IF NOT EXISTS ipfs_url_rule JSONB;
+
+ALTER TABLE public.collections DROP CONSTRAINT IF EXISTS collections_ipfs_url_rule_shape;
+ALTER TABLE public.collections ADD CONSTRAINT collections_ipfs_url_rule_shape CHECK (
+    ipfs_url_rule IS NULL OR (
+        jsonb_typeof(ipfs_url_rule->'cid') = 'string'
+        AND jsonb_typeof(ipfs_url_rule->'path_template') = 'string'
+        AND ipfs_url_rule->>'path_template' ~ '\{id(:[0-9]{1,2})?\}'
+    )
+);
+
+-- ================================
+-- 🔍 INFER A RULE FROM STORED IMAGES
+-- ================================
+
+-- Looks at up to 200 of the collection's image URLs of the form ipfs://<cid>/[dir/]<number>[.ext]
+-- (or any gateway's /ipfs/<cid>/...) and returns the layout that explains at least 80% of them,
+-- or NULL when the files aren't named after token ids.
+CREATE OR REPLACE FUNCTION infer_collection_ipfs_url_rule(p_contract_address TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_best RECORD;
+BEGIN
+    WITH sampled AS (
+        SELECT n.token_id::BIGINT AS token_id,
+               regexp_match(
+                   n.image,
+                   '(?:^ipfs://(?:ipfs/)?|/ipfs/)([A-Za-z0-9]{46,})/(?:(.+)/)?([0-9]{1,15})(\.[A-Za-z0-9]+)?(?:[?#].*)?$'
+               ) AS m
+        FROM public.nfts n
+        WHERE LOWER(n.contract_address) = LOWER(p_contract_address)
+        AND n.image IS NOT NULL
+        AND n.token_id ~ '^[0-9]{1,15}$'
+        LIMIT 200
+    ),
+    layouts AS (
+        SELECT s.m[1] AS cid,
+               s.m[2] AS dir,
+               COALESCE(s.m[4], '') AS ext,
+               s.m[3]::BIGINT - s.token_id AS token_id_offset,
+               BOOL_OR(LENGTH(s.m[3]) > 1 AND LEFT(s.m[3], 1) = '0') AS padded,
+               MIN(LENGTH(s.m[3])) AS min_width,
+               MAX(LENGTH(s.m[3])) AS max_width,
+               COUNT(*) AS hits
+        FROM sampled s
+        WHERE s.m IS NOT NULL
+        GROUP BY 1, 2, 3, 4
+    )
+    SELECT l.*, (SELECT COUNT(*) FROM sampled) AS sampled
+    INTO v_best
+    FROM layouts l
+    ORDER BY l.hits DESC
+    LIMIT 1;
+
+    -- Padded names must all share one width, or the template can't reproduce them
+    IF v_best.cid IS NULL OR v_best.hits < 3 OR v_best.hits * 5 < v_best.sampled * 4
+       OR (v_best.padded AND v_best.min_width <> v_best.max_width) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'cid', v_best.cid,
+        'path_template', COALESCE(v_best.dir || '/', '')
+            || CASE WHEN v_best.padded THEN '{id:' || v_best.max_width || '}' ELSE '{id}' END,
+        'extension', v_best.ext,
+        'token_id_offset', v_best.token_id_offset
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Stores the inferred rule unless the collection already has one (hand-set rules win)
+CREATE OR REPLACE FUNCTION seed_collection_ipfs_url_rule(p_contract_address TEXT, p_overwrite BOOLEAN DEFAULT FALSE)
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rule JSONB;
+BEGIN
+    SELECT c.ipfs_url_rule INTO v_rule
+    FROM public.collections c
+    WHERE c.contract_address = LOWER(p_contract_address);
+
+    IF v_rule IS NOT NULL AND NOT p_overwrite THEN
+        RETURN v_rule;
+    END IF;
+
+    v_rule := infer_collection_ipfs_url_rule(p_contract_address);
+    IF v_rule IS NOT NULL THEN
+        UPDATE public.collections
+        SET ipfs_url_rule = v_rule
+        WHERE contract_address = LOWER(p_contract_address);
+    END IF;
+
+    RETURN v_rule;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION infer_collection_ipfs_url_rule(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION seed_collection_ipfs_url_rule(TEXT, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION infer_collection_ipfs_url_rule(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION seed_collection_ipfs_url_rule(TEXT, BOOLEAN) TO service_role;
+
+-- ================================
+-- 🌱 SEED EXISTING COLLECTIONS
+-- ================================
+
+SELECT c.name, seed_collection_ipfs_url_rule(c.contract_address) AS ipfs_url_rule
+FROM public.collections c
+ORDER BY c.name;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (17, 'IPFS URL rules - per-collection image URL reconstruction', 'Rules inferred from nfts.image; edit collections.ipfs_url_rule to override');
@@ -0,0 +1,71 @@
+-- 🎞️ STAGE 18: Animated & Video NFTs
+-- Video NFTs used to be excluded from matchups by the default blocked_media_types rule. They now
+-- play in the voting UI (poster frame, muted loop on hover/tap), so the default no longer blocks
+-- them and nfts exposes a media_type column for the client to pick the right renderer.
+-- The ingest worker extracts a poster frame from each video (ffmpeg) and stores it as the asset's
+-- master + webp variants, so /api/img serves the poster like any other image.
+-- Run this after Stage 17 migration is complete
+
+-- ================================
+-- 🏷️ MEDIA TYPE ON NFTS
+-- ================================
+
+-- 'image' | 'video', derived from the image URL by nft_media_type() (Stage 15)
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS media_type TEXT GENERATED ALWAYS AS (nft_media_type(image)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_nfts_media_type ON public.nfts (media_type) WHERE media_type <> 'image';
+
+-- 'video' assets hold a poster frame in master/variants; source_mime keeps the original video type
+ALTER TABLE public.media_assets
+    ADD COLUMN IF NOT EXISTS media_kind TEXT NOT NULL DEFAULT 'image' CHECK (media_kind IN ('image', 'video'));
+
+-- ================================
+-- ✅ STOP BLOCKING VIDEO BY DEFAULT
+-- ================================
+
+-- The default mirrors DEFAULT_COLLECTION_RULES in lib/collections.ts
+ALTER TABLE public.collections
+    ALTER COLUMN ineligible_rules SET DEFAULT '{
+        "unrevealed_traits": [
+            {"trait_type": "Reveal", "values": ["Unrevealed"]},
+            {"trait_type": "Status", "values": ["Unrevealed", "Hidden"]},
+            {"trait_type": "Stage", "values": ["Pre-reveal"]}
+        ],
+        "blocked_media_types": [],
+        "exclude_burned": true
+    }'::JSONB;
+
+-- Only collections still on the old default; ones that block other types on purpose keep their rule.
+-- trg_refresh_collection_eligibility re-evaluates each updated collection's NFTs.
+UPDATE public.collections
+SET ineligible_rules = jsonb_set(ineligible_rules, '{blocked_media_types}', '[]'::JSONB)
+WHERE ineligible_rules->'blocked_media_types' = '["video"]'::JSONB;
+
+-- ================================
+-- 📥 QUEUE POSTER EXTRACTION
+-- ================================
+
+INSERT INTO public.nft_media_map (chain, contract, token_id, source_uri)
+SELECT 'eip155:2741', LOWER(n.contract_address), n.token_id, n.image
+FROM public.nfts n
+WHERE n.media_type = 'video'
+AND n.contract_address IS NOT NULL
+AND n.token_id IS NOT NULL
+ON CONFLICT (chain, contract, token_id) DO NOTHING;
+
+-- Videos rejected by the Stage 16 worker were marked permanently failed; give them a fresh start
+UPDATE public.nft_media_map
+SET status = 'pending', attempts = 0, last_error = NULL, retry_after = NULL
+WHERE status = 'failed'
+AND last_error LIKE 'Unsupported media type (video/%';
+
+-- Check results
+SELECT media_type, COUNT(*) AS nfts, COUNT(*) FILTER (WHERE eligible) AS eligible
+FROM public.nfts
+GROUP BY media_type
+ORDER BY media_type;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (18, 'Animated & video NFTs - media_type column, poster ingest, videos eligible by default', 'Set blocked_media_types to ["video"] on a collection to opt it out again');
@@ -0,0 +1,128 @@
+-- 🌐 STAGE 19: Shared IPFS Gateway Health
+-- Browsers (IPFSGatewayManager) and the /api/img proxy used to learn gateway health separately and
+-- forget it on every page load / instance. Both now report batched outcomes here through
+-- POST /api/gateways/health and rank gateways from this aggregate (src/lib/gateway-health.ts).
+-- Run this after Stage 18 migration is complete
+
+-- ================================
+-- 📊 GATEWAY HEALTH
+-- ================================
+
+-- success_rate / avg_latency_ms are exponentially weighted, so recent outcomes dominate.
+-- circuit_open_until: set when consecutive_failures reaches the threshold; the circuit counts as
+-- closed again once it is in the past (no job needed to reset it).
+CREATE TABLE IF NOT EXISTS public.ipfs_gateway_health (
+    gateway TEXT PRIMARY KEY CHECK (gateway ~ '^https://[^/]+/ipfs/$'),
+    success_count BIGINT NOT NULL DEFAULT 0,
+    failure_count BIGINT NOT NULL DEFAULT 0,
+    success_rate DOUBLE PRECISION NOT NULL DEFAULT 1,
+    avg_latency_ms DOUBLE PRECISION,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    circuit_open_until TIMESTAMPTZ,
+    last_success_at TIMESTAMPTZ,
+    last_failure_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only seeded gateways accept reports; keep in sync with IPFS_GATEWAYS in src/lib/gateway-health.ts
+INSERT INTO public.ipfs_gateway_health (gateway)
+VALUES
+    ('https://ipfs.io/ipfs/'),
+    ('https://cloudflare-ipfs.com/ipfs/'),
+    ('https://gateway.pinata.cloud/ipfs/'),
+    ('https://dweb.link/ipfs/'),
+    ('https://ipfs.filebase.io/ipfs/'),
+    ('https://w3s.link/ipfs/'),
+    ('https://gateway.ipfs.io/ipfs/'),
+    ('https://hardbin.com/ipfs/'),
+    ('https://cf-ipfs.com/ipfs/')
+ON CONFLICT (gateway) DO NOTHING;
+
+ALTER TABLE public.ipfs_gateway_health ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Gateway health is public" ON public.ipfs_gateway_health;
+CREATE POLICY "Gateway health is public" ON public.ipfs_gateway_health FOR SELECT USING (true);
+
+-- ================================
+-- 📥 RECORD REPORTS
+-- ================================
+
+-- p_reports: [{ "gateway": "https://ipfs.io/ipfs/", "successes": 3, "failures": 1, "latency_ms": 420 }, ...]
+-- A batch with any success closes the circuit; a failure-only batch adds to consecutive_failures.
+-- 5 consecutive failures open a gateway's circuit for 2 minutes. Thresholds are fixed here rather
+-- than passed in, so no caller can trip circuits early or hold them open.
+DROP FUNCTION IF EXISTS record_gateway_reports(JSONB, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION record_gateway_reports(p_reports JSONB)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    c_circuit_failures CONSTANT INTEGER := 5;
+    c_cooldown CONSTANT INTERVAL := INTERVAL '120 seconds';
+    v_report JSONB;
+    v_successes INTEGER;
+    v_failures INTEGER;
+    v_latency DOUBLE PRECISION;
+    v_weight DOUBLE PRECISION;
+    v_updated INTEGER := 0;
+BEGIN
+    IF jsonb_typeof(p_reports) <> 'array' THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_report IN SELECT * FROM jsonb_array_elements(p_reports) LIMIT 20
+    LOOP
+        v_successes := LEAST(GREATEST(COALESCE((v_report->>'successes')::INTEGER, 0), 0), 100);
+        v_failures := LEAST(GREATEST(COALESCE((v_report->>'failures')::INTEGER, 0), 0), 100);
+        v_latency := LEAST(GREATEST((v_report->>'latency_ms')::DOUBLE PRECISION, 0), 60000);
+        CONTINUE WHEN v_successes + v_failures = 0;
+
+        -- Each outcome moves the average 10% of the way (alpha = 0.1), applied for the whole batch
+        v_weight := 1 - POWER(0.9, v_successes + v_failures);
+
+        UPDATE public.ipfs_gateway_health h
+        SET success_count = h.success_count + v_successes,
+            failure_count = h.failure_count + v_failures,
+            success_rate = h.success_rate * (1 - v_weight)
+                + (v_successes::DOUBLE PRECISION / (v_successes + v_failures)) * v_weight,
+            avg_latency_ms = CASE
+                WHEN v_successes = 0 OR v_latency IS NULL THEN h.avg_latency_ms
+                WHEN h.avg_latency_ms IS NULL THEN v_latency
+                ELSE h.avg_latency_ms * POWER(0.9, v_successes) + v_latency * (1 - POWER(0.9, v_successes))
+            END,
+            consecutive_failures = CASE WHEN v_successes > 0 THEN 0 ELSE h.consecutive_failures + v_failures END,
+            circuit_open_until = CASE
+                WHEN v_successes > 0 THEN NULL
+                WHEN h.consecutive_failures + v_failures >= c_circuit_failures
+                     AND (h.circuit_open_until IS NULL OR h.circuit_open_until < NOW())
+                    THEN NOW() + c_cooldown
+                ELSE h.circuit_open_until
+            END,
+            last_success_at = CASE WHEN v_successes > 0 THEN NOW() ELSE h.last_success_at END,
+            last_failure_at = CASE WHEN v_failures > 0 THEN NOW() ELSE h.last_failure_at END,
+            updated_at = NOW()
+        WHERE h.gateway = v_report->>'gateway';
+
+        IF FOUND THEN
+            v_updated := v_updated + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Server only: browsers report through POST /api/gateways/health, which rate limits per client
+REVOKE ALL ON FUNCTION record_gateway_reports(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_gateway_reports(JSONB) TO service_role;
+
+-- Check results
+SELECT gateway, success_rate, avg_latency_ms, consecutive_failures, circuit_open_until
+FROM public.ipfs_gateway_health
+ORDER BY success_rate DESC;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (19, 'Shared IPFS gateway health - aggregated reports and circuit breaker', 'Reported via POST /api/gateways/health; ranked by GET /api/gateways/health');
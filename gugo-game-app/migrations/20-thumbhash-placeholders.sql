@@ -0,0 +1,79 @@
+-- 🌫️ STAGE 20: ThumbHash Placeholders
+-- The ingest worker computes a ThumbHash (~25 bytes, base64) for every asset - from the poster frame
+-- for videos - so cards can paint a blurred preview of the real art while the image loads.
+-- Stored on media_assets and copied onto nfts so matchup/slider selects need no join.
+-- Run this after Stage 19 migration is complete
+
+-- ================================
+-- 🧮 COLUMNS
+-- ================================
+
+ALTER TABLE public.media_assets
+    ADD COLUMN IF NOT EXISTS thumbhash TEXT CHECK (thumbhash IS NULL OR LENGTH(thumbhash) <= 64);
+
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS thumbhash TEXT;
+
+-- ================================
+-- 🔁 KEEP NFTS IN SYNC
+-- ================================
+
+-- A token's row gets its asset's hash when the map row turns ok (including assets shared with other tokens)
+CREATE OR REPLACE FUNCTION copy_thumbhash_to_nft()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'ok' AND NEW.asset_hash IS NOT NULL THEN
+        UPDATE public.nfts n
+        SET thumbhash = a.thumbhash
+        FROM public.media_assets a
+        WHERE a.asset_hash = NEW.asset_hash
+        AND a.thumbhash IS NOT NULL
+        AND LOWER(n.contract_address) = NEW.contract
+        AND n.token_id = NEW.token_id
+        AND n.thumbhash IS DISTINCT FROM a.thumbhash;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_copy_thumbhash_to_nft ON public.nft_media_map;
+CREATE TRIGGER trg_copy_thumbhash_to_nft
+    AFTER INSERT OR UPDATE OF status, asset_hash ON public.nft_media_map
+    FOR EACH ROW EXECUTE FUNCTION copy_thumbhash_to_nft();
+
+-- Backfilled hashes (npm run media:ingest -- --thumbhash-backfill) reach every token using the asset
+CREATE OR REPLACE FUNCTION propagate_asset_thumbhash()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.nfts n
+    SET thumbhash = NEW.thumbhash
+    FROM public.nft_media_map m
+    WHERE m.asset_hash = NEW.asset_hash
+    AND m.status = 'ok'
+    AND LOWER(n.contract_address) = m.contract
+    AND n.token_id = m.token_id
+    AND n.thumbhash IS DISTINCT FROM NEW.thumbhash;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_propagate_asset_thumbhash ON public.media_assets;
+CREATE TRIGGER trg_propagate_asset_thumbhash
+    AFTER INSERT OR UPDATE OF thumbhash ON public.media_assets
+    FOR EACH ROW
+    WHEN (NEW.thumbhash IS NOT NULL)
+    EXECUTE FUNCTION propagate_asset_thumbhash();
+
+-- Check results (0 until the worker or the backfill has run)
+SELECT COUNT(*) FILTER (WHERE thumbhash IS NOT NULL) AS with_thumbhash, COUNT(*) AS assets
+FROM public.media_assets;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (20, 'ThumbHash placeholders - per-asset hashes copied onto nfts', 'Backfill existing assets with npm run media:ingest -- --thumbhash-backfill');
@@ -0,0 +1,383 @@
+-- 🚩 STAGE 21: Media Moderation Queue
+-- Clients used to skip sessions with broken images silently. Every failure is now recorded per NFT
+-- (reason + gateway) through POST /api/media/report; NFTs that fail for enough different visitors
+-- are auto-excluded from matchups. The ingest worker flags near-duplicate artwork across collections
+-- by perceptual hash. Operators review everything at /admin/moderation (ADMIN_WALLETS).
+-- Run this after Stage 20 migration is complete
+
+-- ================================
+-- 🏷️ MODERATION STATE ON NFTS
+-- ================================
+
+-- none: normal | auto_excluded: failure threshold reached | unrevealed / banned: operator decision
+ALTER TABLE public.nfts
+    ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'none'
+        CHECK (moderation_status IN ('none', 'auto_excluded', 'unrevealed', 'banned')),
+    ADD COLUMN IF NOT EXISTS moderation_note TEXT,
+    ADD COLUMN IF NOT EXISTS moderation_updated_at TIMESTAMPTZ;
+
+-- 64-bit difference hash of the asset (src/lib/perceptual-hash.ts); near-duplicates differ in few bits
+ALTER TABLE public.media_assets
+    ADD COLUMN IF NOT EXISTS phash BIGINT;
+
+-- ================================
+-- 📝 REPORTS
+-- ================================
+
+-- reporter_key: hashed wallet (never the raw address), so one wallet counts once toward the threshold;
+-- NULL for anonymous visitors, whose reports are kept for operators but never counted
+CREATE TABLE IF NOT EXISTS public.nft_media_reports (
+    id BIGSERIAL PRIMARY KEY,
+    nft_id UUID NOT NULL REFERENCES public.nfts(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (reason IN ('load_failed', 'timeout', 'not_image', 'duplicate')),
+    gateway TEXT,
+    media_url TEXT,
+    reporter_key TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    resolution TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_media_reports_open
+    ON public.nft_media_reports (nft_id, created_at)
+    WHERE resolved_at IS NULL;
+
+-- Written and read through service-role RPCs only
+ALTER TABLE public.nft_media_reports ENABLE ROW LEVEL SECURITY;
+
+-- ================================
+-- ✅ ELIGIBILITY INCLUDES MODERATION
+-- ================================
+
+-- Moderation outranks collection rules, so the reason shown is the operator's (or the threshold's)
+CREATE OR REPLACE FUNCTION nft_moderation_reason(p_status TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN CASE WHEN COALESCE(p_status, 'none') = 'none' THEN NULL ELSE 'moderation:' || p_status END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_nft_eligibility()
+RETURNS TRIGGER AS $$
+DECLARE
+    collection_record RECORD;
+BEGIN
+    IF NEW.contract_address IS NULL THEN
+        NEW.ineligible_reason := nft_ineligible_reason(NEW.traits, NEW.image, NEW.burned, '{}'::JSONB);
+    ELSE
+        INSERT INTO public.collections (contract_address, name)
+        VALUES (LOWER(NEW.contract_address), COALESCE(NEW.collection_name, LOWER(NEW.contract_address)))
+        ON CONFLICT (contract_address) DO NOTHING;
+
+        SELECT c.ineligible_rules, c.active INTO collection_record
+        FROM public.collections c
+        WHERE c.contract_address = LOWER(NEW.contract_address);
+
+        NEW.ineligible_reason := nft_ineligible_reason(
+            NEW.traits, NEW.image, NEW.burned, collection_record.ineligible_rules, collection_record.active
+        );
+    END IF;
+
+    NEW.ineligible_reason := COALESCE(nft_moderation_reason(NEW.moderation_status), NEW.ineligible_reason);
+    NEW.eligible := NEW.ineligible_reason IS NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_apply_nft_eligibility ON public.nfts;
+CREATE TRIGGER trg_apply_nft_eligibility
+    BEFORE INSERT OR UPDATE OF traits, image, burned, contract_address, moderation_status ON public.nfts
+    FOR EACH ROW EXECUTE FUNCTION apply_nft_eligibility();
+
+CREATE OR REPLACE FUNCTION refresh_collection_eligibility(p_contract_address TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    ineligible_count INTEGER;
+BEGIN
+    UPDATE public.nfts n
+    SET ineligible_reason = COALESCE(
+            nft_moderation_reason(n.moderation_status),
+            nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active)
+        ),
+        eligible = COALESCE(
+            nft_moderation_reason(n.moderation_status),
+            nft_ineligible_reason(n.traits, n.image, n.burned, c.ineligible_rules, c.active)
+        ) IS NULL
+    FROM public.collections c
+    WHERE c.contract_address = LOWER(p_contract_address)
+    AND LOWER(n.contract_address) = c.contract_address;
+
+    DELETE FROM public.matchup_queue q
+    WHERE EXISTS (
+        SELECT 1 FROM public.nfts n
+        WHERE NOT n.eligible
+        AND LOWER(n.contract_address) = LOWER(p_contract_address)
+        AND n.id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+    );
+
+    SELECT COUNT(*) INTO ineligible_count
+    FROM public.nfts n
+    WHERE LOWER(n.contract_address) = LOWER(p_contract_address)
+    AND NOT n.eligible;
+
+    RETURN ineligible_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Shared by the threshold and operator actions
+CREATE OR REPLACE FUNCTION set_nft_moderation_status(p_nft_id UUID, p_status TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.nfts
+    SET moderation_status = p_status,
+        moderation_note = COALESCE(p_note, moderation_note),
+        moderation_updated_at = NOW()
+    WHERE id = p_nft_id;
+
+    IF p_status <> 'none' THEN
+        DELETE FROM public.matchup_queue q
+        WHERE p_nft_id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 📥 FAILURE REPORTS
+-- ================================
+
+-- Returns the NFT's moderation status after the report. Repeats from the same reporter (or any
+-- anonymous visitor) within an hour are ignored; p_threshold distinct wallets within p_window_days
+-- auto-exclude the NFT. COUNT(DISTINCT) skips the NULL keys of anonymous reports.
+CREATE OR REPLACE FUNCTION report_nft_media_failure(
+    p_nft_id UUID,
+    p_reason TEXT,
+    p_gateway TEXT,
+    p_media_url TEXT,
+    p_reporter_key TEXT,
+    p_threshold INTEGER DEFAULT 3,
+    p_window_days INTEGER DEFAULT 7
+)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_status TEXT;
+    v_reporters INTEGER;
+BEGIN
+    SELECT moderation_status INTO v_status FROM public.nfts WHERE id = p_nft_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.nft_media_reports r
+        WHERE r.nft_id = p_nft_id
+        AND r.reporter_key IS NOT DISTINCT FROM p_reporter_key
+        AND r.reason = p_reason
+        AND r.created_at > NOW() - INTERVAL '1 hour'
+    ) THEN
+        INSERT INTO public.nft_media_reports (nft_id, reason, gateway, media_url, reporter_key)
+        VALUES (p_nft_id, p_reason, LEFT(p_gateway, 200), LEFT(p_media_url, 1000), p_reporter_key);
+    END IF;
+
+    IF v_status = 'none' AND p_reason IN ('load_failed', 'timeout', 'not_image') THEN
+        SELECT COUNT(DISTINCT r.reporter_key) INTO v_reporters
+        FROM public.nft_media_reports r
+        WHERE r.nft_id = p_nft_id
+        AND r.resolved_at IS NULL
+        AND r.reason IN ('load_failed', 'timeout', 'not_image')
+        AND r.created_at > NOW() - make_interval(days => p_window_days);
+
+        IF v_reporters >= p_threshold THEN
+            PERFORM set_nft_moderation_status(p_nft_id, 'auto_excluded', v_reporters || ' wallets could not load the media');
+            v_status := 'auto_excluded';
+        END IF;
+    END IF;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 👯 DUPLICATE ARTWORK
+-- ================================
+
+-- Called by the worker after an asset is stored: tokens using it are flagged when an asset from a
+-- different collection is within p_max_distance bits (identical bytes share an asset, distance 0)
+CREATE OR REPLACE FUNCTION flag_duplicate_media(p_asset_hash TEXT, p_max_distance INTEGER DEFAULT 6)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_phash BIGINT;
+    v_flagged INTEGER := 0;
+BEGIN
+    SELECT phash INTO v_phash FROM public.media_assets WHERE asset_hash = p_asset_hash;
+    IF v_phash IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    WITH mine AS (
+        SELECT n.id, LOWER(n.contract_address) AS contract
+        FROM public.nft_media_map m
+        JOIN public.nfts n ON LOWER(n.contract_address) = m.contract AND n.token_id = m.token_id
+        WHERE m.asset_hash = p_asset_hash AND m.status = 'ok'
+    ),
+    matches AS (
+        SELECT DISTINCT ON (mine.id)
+               mine.id AS nft_id,
+               other.id AS duplicate_of,
+               bit_count((a.phash # v_phash)::BIT(64)) AS distance
+        FROM mine
+        JOIN public.media_assets a ON bit_count((a.phash # v_phash)::BIT(64)) <= p_max_distance
+        JOIN public.nft_media_map om ON om.asset_hash = a.asset_hash AND om.status = 'ok'
+        JOIN public.nfts other ON LOWER(other.contract_address) = om.contract AND other.token_id = om.token_id
+        WHERE om.contract <> mine.contract
+        ORDER BY mine.id, distance
+    )
+    INSERT INTO public.nft_media_reports (nft_id, reason, details)
+    SELECT matches.nft_id, 'duplicate', jsonb_build_object('duplicate_of', matches.duplicate_of, 'distance', matches.distance)
+    FROM matches
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.nft_media_reports r
+        WHERE r.nft_id = matches.nft_id AND r.reason = 'duplicate' AND r.resolved_at IS NULL
+    );
+
+    GET DIAGNOSTICS v_flagged = ROW_COUNT;
+    RETURN v_flagged;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 🛠️ OPERATOR ACTIONS
+-- ================================
+
+-- reingest: clear the status and queue the media again | unrevealed / ban: exclude with that status
+-- clear: dismiss the reports and make the NFT eligible again. Open reports are resolved either way.
+CREATE OR REPLACE FUNCTION moderate_nft(p_nft_id UUID, p_action TEXT, p_admin TEXT, p_note TEXT DEFAULT NULL)
+RETURNS TEXT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_nft RECORD;
+    v_status TEXT;
+BEGIN
+    SELECT id, contract_address, token_id, image INTO v_nft FROM public.nfts WHERE id = p_nft_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'NFT % not found', p_nft_id;
+    END IF;
+
+    v_status := CASE p_action
+        WHEN 'reingest' THEN 'none'
+        WHEN 'clear' THEN 'none'
+        WHEN 'unrevealed' THEN 'unrevealed'
+        WHEN 'ban' THEN 'banned'
+    END;
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'Unknown moderation action %', p_action;
+    END IF;
+
+    PERFORM set_nft_moderation_status(p_nft_id, v_status, COALESCE(p_note, p_action || ' by ' || p_admin));
+
+    IF p_action = 'reingest' AND v_nft.contract_address IS NOT NULL THEN
+        INSERT INTO public.nft_media_map (chain, contract, token_id, source_uri)
+        VALUES ('eip155:2741', LOWER(v_nft.contract_address), v_nft.token_id, v_nft.image)
+        ON CONFLICT (chain, contract, token_id) DO UPDATE
+        SET status = 'pending', attempts = 0, last_error = NULL, retry_after = NULL, locked_at = NULL,
+            source_uri = COALESCE(EXCLUDED.source_uri, public.nft_media_map.source_uri);
+    END IF;
+
+    UPDATE public.nft_media_reports
+    SET resolved_at = NOW(), resolution = p_action || ' by ' || p_admin
+    WHERE nft_id = p_nft_id AND resolved_at IS NULL;
+
+    RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- One row per NFT with open reports or a non-default status, most reported first
+CREATE OR REPLACE FUNCTION get_moderation_queue(p_limit INTEGER DEFAULT 50, p_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+    nft_id UUID,
+    name TEXT,
+    image TEXT,
+    collection_name TEXT,
+    contract_address TEXT,
+    token_id TEXT,
+    moderation_status TEXT,
+    moderation_note TEXT,
+    eligible BOOLEAN,
+    open_reports BIGINT,
+    reasons JSONB,
+    gateways TEXT[],
+    duplicate_of UUID,
+    last_reported_at TIMESTAMPTZ
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH open_reports AS (
+        SELECT nr.nft_id AS report_nft_id,
+               COUNT(*) AS total,
+               ARRAY_REMOVE(ARRAY_AGG(DISTINCT nr.gateway), NULL) AS report_gateways,
+               MAX(nr.created_at) AS last_at
+        FROM public.nft_media_reports nr
+        WHERE nr.resolved_at IS NULL
+        GROUP BY nr.nft_id
+    ),
+    reason_counts AS (
+        SELECT rc.report_nft_id, jsonb_object_agg(rc.reason, rc.reason_count) AS report_reasons
+        FROM (
+            SELECT nr.nft_id AS report_nft_id, nr.reason, COUNT(*) AS reason_count
+            FROM public.nft_media_reports nr
+            WHERE nr.resolved_at IS NULL
+            GROUP BY nr.nft_id, nr.reason
+        ) rc
+        GROUP BY rc.report_nft_id
+    )
+    SELECT n.id, n.name, n.image, n.collection_name, n.contract_address, n.token_id::TEXT,
+           n.moderation_status, n.moderation_note, n.eligible,
+           COALESCE(o.total, 0),
+           COALESCE(rc.report_reasons, '{}'::JSONB),
+           COALESCE(o.report_gateways, ARRAY[]::TEXT[]),
+           (SELECT (d.details->>'duplicate_of')::UUID FROM public.nft_media_reports d
+            WHERE d.nft_id = n.id AND d.reason = 'duplicate' AND d.resolved_at IS NULL
+            ORDER BY d.created_at DESC LIMIT 1),
+           o.last_at
+    FROM public.nfts n
+    LEFT JOIN open_reports o ON o.report_nft_id = n.id
+    LEFT JOIN reason_counts rc ON rc.report_nft_id = n.id
+    WHERE o.report_nft_id IS NOT NULL OR n.moderation_status <> 'none'
+    ORDER BY (n.moderation_status = 'auto_excluded') DESC, COALESCE(o.total, 0) DESC, o.last_at DESC NULLS LAST
+    LIMIT p_limit OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION nft_moderation_reason(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION set_nft_moderation_status(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION report_nft_media_failure(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION flag_duplicate_media(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION moderate_nft(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_moderation_queue(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION nft_moderation_reason(TEXT) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION set_nft_moderation_status(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION report_nft_media_failure(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION flag_duplicate_media(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION moderate_nft(UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_moderation_queue(INTEGER, INTEGER) TO service_role;
+
+-- Check results
+SELECT moderation_status, COUNT(*) FROM public.nfts GROUP BY moderation_status;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (21, 'Media moderation - failure reports, auto-exclusion, duplicate detection', 'Review at /admin/moderation; operators listed in ADMIN_WALLETS');
@@ -0,0 +1,124 @@
+-- 🧰 STAGE 22: Matchup Queue Admin
+-- Queue refills ran in visitors' browsers during prize breaks and left no trace. They now run on
+-- the server (POST /api/queue/refill), every run's RefillResult is logged here, and /admin/queue
+-- (ADMIN_WALLETS) shows queue health, the live run history and buttons to refill, clean up, or
+-- purge one collection's entries.
+-- Run this after Stage 21 migration is complete
+
+-- ================================
+-- 📜 REFILL RUN HISTORY
+-- ================================
+
+-- added / queue_status: { slider, same_coll, cross_coll, total } from RefillResult (lib/queue-refill.ts)
+CREATE TABLE IF NOT EXISTS public.queue_refill_runs (
+    id BIGSERIAL PRIMARY KEY,
+    source TEXT NOT NULL CHECK (source IN ('prize_break', 'background', 'admin')),
+    success BOOLEAN NOT NULL,
+    added JSONB NOT NULL DEFAULT '{}'::JSONB,
+    queue_status JSONB NOT NULL DEFAULT '{}'::JSONB,
+    refill_time_ms INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_refill_runs_created ON public.queue_refill_runs (created_at DESC);
+
+-- Written through record_queue_refill_run(), read by the admin API (service role)
+ALTER TABLE public.queue_refill_runs ENABLE ROW LEVEL SECURITY;
+
+-- Counts are clamped so a bad result can't log absurd values; runs older than 14 days are pruned
+CREATE OR REPLACE FUNCTION record_queue_refill_run(
+    p_source TEXT,
+    p_success BOOLEAN,
+    p_added JSONB,
+    p_queue_status JSONB,
+    p_refill_time_ms INTEGER
+)
+RETURNS BIGINT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id BIGINT;
+BEGIN
+    IF p_source NOT IN ('prize_break', 'background', 'admin') THEN
+        RAISE EXCEPTION 'Unknown refill source %', p_source;
+    END IF;
+
+    INSERT INTO public.queue_refill_runs (source, success, added, queue_status, refill_time_ms)
+    SELECT p_source,
+           COALESCE(p_success, FALSE),
+           jsonb_build_object(
+               'slider', LEAST(GREATEST(COALESCE((p_added->>'slider')::INTEGER, 0), 0), 10000),
+               'same_coll', LEAST(GREATEST(COALESCE((p_added->>'same_coll')::INTEGER, 0), 0), 10000),
+               'cross_coll', LEAST(GREATEST(COALESCE((p_added->>'cross_coll')::INTEGER, 0), 0), 10000),
+               'total', LEAST(GREATEST(COALESCE((p_added->>'total')::INTEGER, 0), 0), 30000)
+           ),
+           jsonb_build_object(
+               'slider', LEAST(GREATEST(COALESCE((p_queue_status->>'slider')::INTEGER, 0), 0), 1000000),
+               'same_coll', LEAST(GREATEST(COALESCE((p_queue_status->>'same_coll')::INTEGER, 0), 0), 1000000),
+               'cross_coll', LEAST(GREATEST(COALESCE((p_queue_status->>'cross_coll')::INTEGER, 0), 0), 1000000),
+               'total', LEAST(GREATEST(COALESCE((p_queue_status->>'total')::INTEGER, 0), 0), 3000000)
+           ),
+           LEAST(GREATEST(COALESCE(p_refill_time_ms, 0), 0), 600000)
+    RETURNING id INTO v_id;
+
+    DELETE FROM public.queue_refill_runs WHERE created_at < NOW() - INTERVAL '14 days';
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================
+-- 🗂️ PER-COLLECTION QUEUE ENTRIES
+-- ================================
+
+-- Queued entries touching each collection (a cross-collection pair counts for both collections)
+CREATE OR REPLACE FUNCTION get_queue_collection_counts()
+RETURNS TABLE (collection_name TEXT, entries BIGINT)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT n.collection_name, COUNT(DISTINCT q.id)
+    FROM public.matchup_queue q
+    JOIN public.nfts n ON n.id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+    WHERE n.collection_name IS NOT NULL
+    GROUP BY n.collection_name
+    ORDER BY COUNT(DISTINCT q.id) DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Drops every queued entry with an NFT from the collection, reserved or not; returns the count
+CREATE OR REPLACE FUNCTION purge_collection_queue(p_collection_name TEXT)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_purged INTEGER;
+BEGIN
+    DELETE FROM public.matchup_queue q
+    USING public.nfts n
+    WHERE n.id IN (q.nft_a_id, q.nft_b_id, q.slider_nft_id)
+    AND n.collection_name = p_collection_name;
+
+    GET DIAGNOSTICS v_purged = ROW_COUNT;
+    RETURN v_purged;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs are logged by the server (POST /api/queue/refill, /api/admin/queue), never by browsers
+REVOKE ALL ON FUNCTION record_queue_refill_run(TEXT, BOOLEAN, JSONB, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_queue_collection_counts() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION purge_collection_queue(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_queue_refill_run(TEXT, BOOLEAN, JSONB, JSONB, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION get_queue_collection_counts() TO service_role;
+GRANT EXECUTE ON FUNCTION purge_collection_queue(TEXT) TO service_role;
+
+-- Check results
+SELECT * FROM get_queue_collection_counts();
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (22, 'Matchup queue admin - refill run history and per-collection purge', 'Dashboard at /admin/queue; operators listed in ADMIN_WALLETS');
@@ -0,0 +1,217 @@
+-- ⛓️ STAGE 23: Chain Event Index
+-- The vote manager contracts emit purchases, votes, Elo updates, prize claims and treasury moves,
+-- but nothing read them. scripts/index-chain-events.ts (lib/chain-indexer.ts) now copies every
+-- confirmed event here, keyed by chain id + tx hash + log index so replays change nothing, and
+-- advances its block cursor in the same transaction.
+-- Run this after Stage 22 migration is complete
+
+-- ================================
+-- 📍 CURSORS
+-- ================================
+
+-- last_block: highest block fully indexed (already behind the confirmation depth)
+CREATE TABLE IF NOT EXISTS public.chain_sync_cursors (
+    chain_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    last_block BIGINT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain_id, name)
+);
+
+-- ================================
+-- 📜 RAW EVENTS
+-- ================================
+
+-- args: decoded event arguments (uint256 as decimal strings, addresses lowercase)
+CREATE TABLE IF NOT EXISTS public.chain_events (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_time TIMESTAMPTZ,
+    contract TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    args JSONB NOT NULL DEFAULT '{}'::JSONB,
+    indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_events_name_block ON public.chain_events (event_name, block_number DESC);
+
+-- ================================
+-- 🧾 QUERYABLE PROJECTIONS
+-- ================================
+
+CREATE TABLE IF NOT EXISTS public.chain_vote_purchases (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_time TIMESTAMPTZ,
+    contract TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    votes INTEGER NOT NULL,
+    cost NUMERIC(78, 0) NOT NULL, -- wei / GUGO base units
+    currency TEXT NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_vote_purchases_buyer ON public.chain_vote_purchases (buyer, block_number DESC);
+
+-- reward_type: GugoVoteManager RewardType enum index (PRIZE_REWARD_TYPES in lib/chain-indexer.ts)
+CREATE TABLE IF NOT EXISTS public.chain_prize_claims (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_time TIMESTAMPTZ,
+    contract TEXT NOT NULL,
+    user_address TEXT NOT NULL,
+    reward_type SMALLINT NOT NULL,
+    xp_awarded NUMERIC(78, 0) NOT NULL,
+    votes_awarded NUMERIC(78, 0) NOT NULL,
+    gugo_awarded NUMERIC(78, 0) NOT NULL,
+    new_total_xp NUMERIC(78, 0) NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_prize_claims_user ON public.chain_prize_claims (user_address, block_number DESC);
+
+-- TreasuryDeposit + RevenueDistributed history; treasury_type is NULL for distributions
+CREATE TABLE IF NOT EXISTS public.chain_treasury_movements (
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_time TIMESTAMPTZ,
+    contract TEXT NOT NULL,
+    event_name TEXT NOT NULL CHECK (event_name IN ('TreasuryDeposit', 'RevenueDistributed')),
+    treasury_type TEXT,
+    amount NUMERIC(78, 0) NOT NULL,
+    new_balance NUMERIC(78, 0),
+    details JSONB NOT NULL DEFAULT '{}'::JSONB,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+);
+
+-- getTreasuryInfo() as of the end of each indexed range that touched the treasury
+CREATE TABLE IF NOT EXISTS public.chain_treasury_snapshots (
+    chain_id INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    block_number BIGINT NOT NULL,
+    prize_break_balance NUMERIC(78, 0) NOT NULL,
+    weekly_raffle_balance NUMERIC(78, 0) NOT NULL,
+    legacy_balance NUMERIC(78, 0) NOT NULL,
+    unlocked_tiers INTEGER NOT NULL,
+    available_prize_funds NUMERIC(78, 0) NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (chain_id, contract, block_number)
+);
+
+CREATE OR REPLACE VIEW public.chain_treasury_state AS
+SELECT DISTINCT ON (chain_id, contract) *
+FROM public.chain_treasury_snapshots
+ORDER BY chain_id, contract, block_number DESC;
+
+-- Written by the indexer (service role) only; nothing here is user data
+ALTER TABLE public.chain_sync_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_vote_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_prize_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_treasury_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_treasury_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- ================================
+-- 💾 ATOMIC BATCH WRITE
+-- ================================
+
+-- One indexed block range: events (IndexedChainEvent[]), treasury snapshots and the cursor.
+-- Every insert is ON CONFLICT DO NOTHING and the cursor only moves forward, so re-running a
+-- range after a crash or with a rewound cursor is harmless. Returns the number of new events.
+CREATE OR REPLACE FUNCTION record_chain_events(
+    p_cursor TEXT,
+    p_chain_id INTEGER,
+    p_to_block BIGINT,
+    p_events JSONB,
+    p_snapshots JSONB
+)
+RETURNS INTEGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_inserted INTEGER;
+BEGIN
+    INSERT INTO public.chain_events (chain_id, tx_hash, log_index, block_number, block_hash, block_time, contract, event_name, args)
+    SELECT p_chain_id,
+           LOWER(e->>'txHash'),
+           (e->>'logIndex')::INTEGER,
+           (e->>'blockNumber')::BIGINT,
+           LOWER(e->>'blockHash'),
+           (e->>'blockTime')::TIMESTAMPTZ,
+           LOWER(e->>'contract'),
+           e->>'eventName',
+           COALESCE(e->'args', '{}'::JSONB)
+    FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) e
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    INSERT INTO public.chain_vote_purchases (chain_id, tx_hash, log_index, block_number, block_time, contract, buyer, votes, cost, currency)
+    SELECT p_chain_id, LOWER(e->>'txHash'), (e->>'logIndex')::INTEGER, (e->>'blockNumber')::BIGINT,
+           (e->>'blockTime')::TIMESTAMPTZ, LOWER(e->>'contract'),
+           LOWER(e->'args'->>'user'), (e->'args'->>'amount')::INTEGER, (e->'args'->>'cost')::NUMERIC, e->'args'->>'currency'
+    FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) e
+    WHERE e->>'eventName' = 'VotesPurchased'
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.chain_prize_claims (chain_id, tx_hash, log_index, block_number, block_time, contract, user_address, reward_type,
+                                           xp_awarded, votes_awarded, gugo_awarded, new_total_xp)
+    SELECT p_chain_id, LOWER(e->>'txHash'), (e->>'logIndex')::INTEGER, (e->>'blockNumber')::BIGINT,
+           (e->>'blockTime')::TIMESTAMPTZ, LOWER(e->>'contract'),
+           LOWER(e->'args'->>'user'), (e->'args'->>'rewardType')::SMALLINT,
+           (e->'args'->>'xpAwarded')::NUMERIC, (e->'args'->>'votesAwarded')::NUMERIC,
+           (e->'args'->>'gugoAwarded')::NUMERIC, (e->'args'->>'newTotalXP')::NUMERIC
+    FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) e
+    WHERE e->>'eventName' = 'PrizeBreakClaimed'
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.chain_treasury_movements (chain_id, tx_hash, log_index, block_number, block_time, contract, event_name,
+                                                 treasury_type, amount, new_balance, details)
+    SELECT p_chain_id, LOWER(e->>'txHash'), (e->>'logIndex')::INTEGER, (e->>'blockNumber')::BIGINT,
+           (e->>'blockTime')::TIMESTAMPTZ, LOWER(e->>'contract'), e->>'eventName',
+           CASE WHEN e->>'eventName' = 'TreasuryDeposit' THEN e->'args'->>'treasuryType' END,
+           COALESCE(e->'args'->>'amount', e->'args'->>'totalAmount')::NUMERIC,
+           (e->'args'->>'newBalance')::NUMERIC,
+           CASE WHEN e->>'eventName' = 'RevenueDistributed' THEN e->'args' ELSE '{}'::JSONB END
+    FROM jsonb_array_elements(COALESCE(p_events, '[]'::JSONB)) e
+    WHERE e->>'eventName' IN ('TreasuryDeposit', 'RevenueDistributed')
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.chain_treasury_snapshots (chain_id, contract, block_number, prize_break_balance, weekly_raffle_balance,
+                                                 legacy_balance, unlocked_tiers, available_prize_funds)
+    SELECT p_chain_id, LOWER(s->>'contract'), (s->>'blockNumber')::BIGINT,
+           (s->>'prizeBreakBalance')::NUMERIC, (s->>'weeklyRaffleBalance')::NUMERIC, (s->>'legacyBalance')::NUMERIC,
+           (s->>'unlockedTiers')::INTEGER, (s->>'availablePrizeFunds')::NUMERIC
+    FROM jsonb_array_elements(COALESCE(p_snapshots, '[]'::JSONB)) s
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.chain_sync_cursors (chain_id, name, last_block, updated_at)
+    VALUES (p_chain_id, p_cursor, p_to_block, NOW())
+    ON CONFLICT (chain_id, name) DO UPDATE
+    SET last_block = GREATEST(chain_sync_cursors.last_block, EXCLUDED.last_block),
+        updated_at = NOW();
+
+    RETURN v_inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION record_chain_events(TEXT, INTEGER, BIGINT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_chain_events(TEXT, INTEGER, BIGINT, JSONB, JSONB) TO service_role;
+
+-- Check results (empty until the indexer has run)
+SELECT chain_id, name, last_block FROM public.chain_sync_cursors;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (23, 'Chain event index - vote manager events, purchases, prize claims and treasury state', 'Run npm run chain:index (see README) to fill it');
@@ -0,0 +1,110 @@
+-- 🌳 STAGE 24: Vote Batch Commitments
+-- Votes stay off-chain, but every closed period is now hashed into a Merkle tree
+-- (lib/vote-merkle.ts) whose root scripts/anchor-vote-batches.ts anchors with anchorVoteBatch()
+-- on the vote manager. Each vote's leaf, proof and the exact fields it commits to are kept
+-- here, so any voter can fetch a proof and check it against the chain.
+-- Run this after Stage 23 migration is complete
+
+-- ================================
+-- 🌳 BATCHES
+-- ================================
+
+-- One row per period; status moves pending → anchored once the root is on-chain
+CREATE TABLE IF NOT EXISTS public.vote_batches (
+    id BIGSERIAL PRIMARY KEY,
+    period_start TIMESTAMPTZ NOT NULL,
+    period_end TIMESTAMPTZ NOT NULL,
+    merkle_root TEXT NOT NULL,
+    vote_count INTEGER NOT NULL CHECK (vote_count > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'anchored')),
+    chain_id INTEGER,
+    contract TEXT,
+    onchain_batch_id BIGINT, -- GugoVoteManager voteBatches key
+    tx_hash TEXT,
+    anchored_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (period_end > period_start),
+    CHECK (status = 'pending' OR (chain_id IS NOT NULL AND contract IS NOT NULL AND onchain_batch_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_batches_period ON public.vote_batches (period_end DESC);
+
+-- ================================
+-- 🍃 LEAVES + PROOFS
+-- ================================
+
+-- vote: the CommittedVote the leaf hashes (lib/vote-merkle.ts), so proofs stay checkable even
+-- if the votes row is edited later. A vote belongs to exactly one batch.
+CREATE TABLE IF NOT EXISTS public.vote_batch_leaves (
+    batch_id BIGINT NOT NULL REFERENCES public.vote_batches(id) ON DELETE CASCADE,
+    leaf_index INTEGER NOT NULL,
+    vote_id UUID NOT NULL UNIQUE REFERENCES public.votes(id),
+    user_id UUID NOT NULL,
+    leaf TEXT NOT NULL,
+    proof JSONB NOT NULL DEFAULT '[]'::JSONB,
+    vote JSONB NOT NULL,
+    PRIMARY KEY (batch_id, leaf_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_batch_leaves_user ON public.vote_batch_leaves (user_id, batch_id DESC);
+
+-- Written by the batcher (service role) and served through /api/user/vote-proofs
+ALTER TABLE public.vote_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vote_batch_leaves ENABLE ROW LEVEL SECURITY;
+
+-- ================================
+-- 💾 ATOMIC BATCH WRITE
+-- ================================
+
+-- A built batch (BuiltVoteBatch leaves plus user ids) in one transaction. Periods may not overlap
+-- an existing batch; returns the new batch id.
+CREATE OR REPLACE FUNCTION record_vote_batch(
+    p_period_start TIMESTAMPTZ,
+    p_period_end TIMESTAMPTZ,
+    p_merkle_root TEXT,
+    p_leaves JSONB
+)
+RETURNS BIGINT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch_id BIGINT;
+BEGIN
+    -- One batcher at a time, so two runs cannot claim the same period
+    LOCK TABLE public.vote_batches IN SHARE ROW EXCLUSIVE MODE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.vote_batches
+        WHERE period_start < p_period_end AND period_end > p_period_start
+    ) THEN
+        RAISE EXCEPTION 'Vote batch period % - % overlaps an existing batch', p_period_start, p_period_end;
+    END IF;
+
+    INSERT INTO public.vote_batches (period_start, period_end, merkle_root, vote_count)
+    VALUES (p_period_start, p_period_end, LOWER(p_merkle_root), jsonb_array_length(p_leaves))
+    RETURNING id INTO v_batch_id;
+
+    INSERT INTO public.vote_batch_leaves (batch_id, leaf_index, vote_id, user_id, leaf, proof, vote)
+    SELECT v_batch_id,
+           (l->>'leafIndex')::INTEGER,
+           (l->'vote'->>'id')::UUID,
+           (l->>'userId')::UUID,
+           LOWER(l->>'leaf'),
+           l->'proof',
+           l->'vote'
+    FROM jsonb_array_elements(p_leaves) l;
+
+    RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION record_vote_batch(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_vote_batch(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB) TO service_role;
+
+-- Check results (empty until the batcher has run)
+SELECT id, period_start, period_end, vote_count, status, onchain_batch_id FROM public.vote_batches ORDER BY id DESC LIMIT 5;
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (24, 'Vote batch commitments - per-period Merkle roots of off-chain votes with per-vote proofs', 'Run npm run votes:anchor (see README) to batch and anchor closed periods');
@@ -0,0 +1,36 @@
+-- 🔏 STAGE 25: Single-Use Sign-In Nonces
+-- GET /api/auth/nonce records every SIWE nonce it issues and POST /api/auth/verify deletes it
+-- on use, so a captured message + signature (and its nonce cookie) cannot start a second
+-- session. Also drops the browser-callable set_config() wrapper: wallet identity comes from
+-- the signed session cookie and API routes use the service role, never a client-set GUC.
+-- Run this after Stage 24 migration is complete
+
+-- ================================
+-- 🔏 NONCES
+-- ================================
+
+-- Service role only: RLS on, no policies
+CREATE TABLE IF NOT EXISTS public.auth_nonces (
+    nonce TEXT PRIMARY KEY,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires ON public.auth_nonces (expires_at);
+
+ALTER TABLE public.auth_nonces ENABLE ROW LEVEL SECURITY;
+
+-- ================================
+-- 🧹 CLIENT WALLET CONTEXT
+-- ================================
+
+-- supabase-setup.sql exposed this SECURITY DEFINER wrapper to anon, letting any browser claim
+-- any wallet for the app.current_wallet_address RLS policies
+DROP FUNCTION IF EXISTS public.set_config(TEXT, TEXT, BOOLEAN);
+
+-- Check results
+SELECT COUNT(*) AS outstanding_nonces FROM public.auth_nonces WHERE expires_at > NOW();
+
+-- Record completion
+INSERT INTO public.migration_status (stage, description, notes)
+VALUES (25, 'Single-use SIWE nonces and removal of the client set_config() wrapper', 'Sign-ins issued before this stage must be repeated');
@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+/**
+ * Vote Batch Anchoring
+ *
+ * Hashes every vote of each closed period into a Merkle tree (lib/vote-merkle.ts), stores the
+ * leaves and proofs (migrations/24-vote-batch-commitments.sql) and anchors the root with
+ * anchorVoteBatch() on the vote manager. Batches that were recorded but never anchored (e.g. a
+ * failed transaction) are anchored first. Meant for cron: it catches up, then exits.
+ *
+ * Usage:
+ *   npx tsx scripts/anchor-vote-batches.ts                     # batch + anchor every closed period
+ *   npx tsx scripts/anchor-vote-batches.ts --dry-run           # build the next period's root, write nothing
+ *   npx tsx scripts/anchor-vote-batches.ts --period-hours 6 --max-batches 4
+ *   npx tsx scripts/anchor-vote-batches.ts --no-anchor         # record batches only
+ *
+ * Env: VOTE_BATCH_ANCHOR_PRIVATE_KEY (vote manager owner), VOTE_BATCH_RPC_URL (defaults to
+ *      Abstract testnet), VOTE_BATCH_CONTRACT (defaults to the generated client's address for the chain)
+ */
+
+import dotenv from 'dotenv';
+import { isAddress, type Address, type Hex } from 'viem';
+import { abstractTestnet } from 'viem/chains';
+import type { VoteInclusionProof } from '../lib/vote-merkle';
+
+dotenv.config({ path: '.env.local' });
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dryRun = !!args['dry-run'];
+  const anchor = !dryRun && !args['no-anchor'];
+  const maxBatches = typeof args['max-batches'] === 'string' ? parseInt(args['max-batches'], 10) : Infinity;
+
+  // Loaded after dotenv so the service-role client sees .env.local
+  const batches = await import('../lib/vote-batches');
+  const { anchorVoteBatch, buildVoteBatch, createVoteBatchClient, createVoteBatchSigner } = await import('../lib/vote-merkle');
+  const { gugoVoteManagerUpdatedAddress } = await import('../src/contracts/addresses');
+
+  const periodHours = typeof args['period-hours'] === 'string'
+    ? parseFloat(args['period-hours'])
+    : batches.DEFAULT_BATCH_PERIOD_HOURS;
+
+  const rpcUrl = process.env.VOTE_BATCH_RPC_URL || abstractTestnet.rpcUrls.default.http[0];
+  const publicClient = createVoteBatchClient(rpcUrl);
+  let anchorBatch: ((batch: VoteInclusionProof['batch']) => Promise<void>) | null = null;
+
+  if (anchor) {
+    const privateKey = process.env.VOTE_BATCH_ANCHOR_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('Set VOTE_BATCH_ANCHOR_PRIVATE_KEY to the vote manager owner key (or pass --no-anchor)');
+    }
+
+    const chainId = await publicClient.getChainId();
+    const contract = (process.env.VOTE_BATCH_CONTRACT
+      || (gugoVoteManagerUpdatedAddress as Record<number, Address | undefined>)[chainId]) as Address | undefined;
+    if (!contract || !isAddress(contract)) {
+      throw new Error(`No vote manager for chain ${chainId}: set VOTE_BATCH_CONTRACT`);
+    }
+
+    const walletClient = createVoteBatchSigner(rpcUrl, privateKey as Hex);
+
+    console.log(`⛓️ Anchoring on chain ${chainId} at ${contract}`);
+    anchorBatch = async (batch) => {
+      const result = await anchorVoteBatch(publicClient, walletClient, contract, batch);
+      await batches.markVoteBatchAnchored(batch.id, { chainId, contract, ...result });
+      console.log(
+        `✅ Batch ${batch.id} anchored as #${result.onchainBatchId}${result.txHash ? ` in ${result.txHash}` : ' (already on-chain)'}`
+      );
+    };
+  }
+
+  if (anchorBatch) {
+    for (const pending of await batches.getPendingVoteBatches()) {
+      console.log(`🔁 Anchoring pending batch ${pending.id} (${pending.periodStart} - ${pending.periodEnd})`);
+      await anchorBatch(pending);
+    }
+  }
+
+  let built = 0;
+  while (built < maxBatches) {
+    const period = await batches.getNextBatchPeriod(periodHours);
+    if (!period) {
+      console.log('⏳ No closed period left to batch');
+      break;
+    }
+
+    const { votes, userIds } = await batches.loadPeriodVotes(period);
+    const tree = buildVoteBatch(votes);
+    console.log(`🌳 ${period.start.toISOString()} - ${period.end.toISOString()}: ${votes.length} votes, root ${tree.merkleRoot}`);
+
+    if (dryRun) break; // the next period only opens up once this one is recorded
+
+    const batchId = await batches.recordVoteBatch(period, tree, userIds);
+    built++;
+
+    if (anchorBatch) {
+      const [pending] = (await batches.getPendingVoteBatches()).filter(batch => batch.id === batchId);
+      if (pending) await anchorBatch(pending);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Vote batch anchoring failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+/**
+ * Bradley-Terry Batch Ranking Script
+ *
+ * Fits a Bradley-Terry model over every same_coll / cross_coll vote (slider_average as the
+ * prior) and optionally writes bt_score + confidence interval to nfts.
+ *
+ * Usage:
+ *   npx tsx scripts/fit-bradley-terry.ts                 # fit from Supabase, print top NFTs
+ *   npx tsx scripts/fit-bradley-terry.ts --write         # ...and persist bt_score columns
+ *   npx tsx scripts/fit-bradley-terry.ts --fixture scripts/fixtures/bradley-terry-votes.json
+ *                                                        # fit a local vote set, check expected_order
+ */
+
+import { readFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { fitBradleyTerry, votesToComparisons, type BradleyTerryPrior, type BradleyTerryScore } from '../lib/bradley-terry';
+
+dotenv.config({ path: '.env.local' });
+
+const PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+
+interface VoteRow {
+  nft_a_id: string;
+  nft_b_id: string;
+  winner_id: string;
+}
+
+interface NftRow extends BradleyTerryPrior {
+  id: string;
+}
+
+interface Fixture {
+  nfts: NftRow[];
+  votes: VoteRow[];
+  expected_order?: string[];
+}
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+const getSupabase = () => createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+async function loadFromSupabase(supabase: ReturnType<typeof getSupabase>): Promise<{ nfts: NftRow[]; votes: VoteRow[] }> {
+  const votes: VoteRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('votes')
+      .select('nft_a_id, nft_b_id, winner_id')
+      .in('vote_type_v2', ['same_coll', 'cross_coll'])
+      .not('winner_id', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    votes.push(...data);
+    process.stdout.write(`\r📥 Loaded ${votes.length} votes...`);
+    if (data.length < PAGE_SIZE) break;
+  }
+  console.log('');
+
+  const nfts: NftRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('nfts')
+      .select('id, slider_average, slider_count')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    nfts.push(...data);
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return { nfts, votes };
+}
+
+// expected_order only needs to hold for the listed NFTs, not be the full ranking
+function checkExpectedOrder(scores: BradleyTerryScore[], expected: string[]): boolean {
+  const actual = scores.map(score => score.nft_id).filter(id => expected.includes(id));
+  const matches = actual.length === expected.length && actual.every((id, i) => id === expected[i]);
+  if (matches) {
+    console.log(`✅ Ranking matches expected_order (${expected.join(' > ')})`);
+  } else {
+    console.error(`❌ Expected ${expected.join(' > ')}, got ${actual.join(' > ')}`);
+  }
+  return matches;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const top = parseInt((args.top as string) || '20', 10);
+  const fixturePath = typeof args.fixture === 'string' ? args.fixture : null;
+
+  if (fixturePath && args.write) {
+    console.error('❌ --write cannot be combined with --fixture');
+    process.exit(1);
+  }
+
+  const fixture: Fixture | null = fixturePath ? JSON.parse(readFileSync(fixturePath, 'utf8')) : null;
+  const supabase = fixture ? null : getSupabase();
+  const { nfts, votes } = fixture ?? await loadFromSupabase(supabase!);
+
+  console.log(`📐 Fitting Bradley-Terry over ${votes.length} votes, ${nfts.length} NFTs...`);
+  const priors = new Map(nfts.map(nft => [nft.id, { slider_average: nft.slider_average, slider_count: nft.slider_count }]));
+  const fit = fitBradleyTerry(votesToComparisons(votes), priors);
+  console.log(`${fit.converged ? '✅ Converged' : '⚠️ Did not converge'} after ${fit.iterations} iterations`);
+  if (fit.unranked.length > 0) console.log(`⏭️ ${fit.unranked.length} NFTs without matchups left unranked`);
+
+  console.table(fit.scores.slice(0, top).map(score => ({
+    id: score.nft_id,
+    bt_score: score.bt_score.toFixed(1),
+    ci: `${score.bt_ci_lower.toFixed(0)} - ${score.bt_ci_upper.toFixed(0)}`,
+    comparisons: score.comparisons
+  })));
+
+  if (fixture?.expected_order && !checkExpectedOrder(fit.scores, fixture.expected_order)) {
+    process.exit(1);
+  }
+
+  if (args.write && supabase) {
+    console.log(`💾 Writing ${fit.scores.length} scores...`);
+    let updated = 0;
+
+    for (let i = 0; i < fit.scores.length; i += WRITE_BATCH_SIZE) {
+      const batch = fit.scores.slice(i, i + WRITE_BATCH_SIZE).map(score => ({
+        nft_id: score.nft_id,
+        bt_score: score.bt_score,
+        bt_ci_lower: score.bt_ci_lower,
+        bt_ci_upper: score.bt_ci_upper,
+        comparisons: score.comparisons
+      }));
+
+      const { data, error } = await supabase.rpc('apply_bt_scores', { p_scores: batch });
+      if (error) throw error;
+      updated += data ?? 0;
+    }
+
+    console.log(`✅ Updated bt_score on ${updated} NFTs`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Bradley-Terry fit failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+/**
+ * Collection Import Script
+ *
+ * Registers a collection in public.collections and imports (or refreshes) its tokens through a
+ * metadata source. Eligibility is computed by the database from the collection's rules, so
+ * re-running after a reveal is all it takes to bring newly revealed NFTs into voting.
+ *
+ * Usage:
+ *   npx tsx scripts/import-collection.ts --contract 0xabc... --rules rules.json
+ *   npx tsx scripts/import-collection.ts --contract 0xabc... --start 1 --end 500 --inactive
+ *   npx tsx scripts/import-collection.ts --source fixture --fixture scripts/fixtures/collection-import.json \
+ *     --rules scripts/fixtures/beeish-rules.json --dry-run   # offline: print what would be eligible
+ *
+ * Options:
+ *   --source rpc|fixture   metadata source (default rpc, using ABSTRACT_RPC_URL if set)
+ *   --name                 collection name (default: the contract's name())
+ *   --rules                JSON file with ineligible_rules (default: keep existing / column default)
+ *   --inactive             register without letting any of its NFTs into voting yet
+ *   --dry-run              read metadata and report, write nothing
+ */
+
+import { readFileSync } from 'fs';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { DEFAULT_COLLECTION_RULES, ineligibleReason, parseCollectionRules } from '../lib/collections';
+import { createMetadataSource, type MetadataSourceName } from '../lib/metadata-sources';
+import type { CollectionRules, ImportedToken } from '../src/types/collections';
+
+dotenv.config({ path: '.env.local' });
+
+const UPSERT_BATCH_SIZE = 100;
+
+const getSupabase = () => createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+// Existing nfts rows may store a checksummed address; reuse it so upserts hit the same rows
+async function storedContractAddress(supabase: SupabaseClient, contractAddress: string): Promise<string> {
+  const { data } = await supabase
+    .from('nfts')
+    .select('contract_address')
+    .ilike('contract_address', contractAddress)
+    .limit(1);
+  return data?.[0]?.contract_address ?? contractAddress;
+}
+
+async function loadCollectionRules(supabase: SupabaseClient, contractAddress: string): Promise<CollectionRules | null> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('ineligible_rules')
+    .eq('contract_address', contractAddress.toLowerCase())
+    .maybeSingle();
+  if (error) throw error;
+  return data?.ineligible_rules ?? null;
+}
+
+async function upsertTokens(supabase: SupabaseClient, tokens: ImportedToken[], contractAddress: string, collectionName: string) {
+  const { error } = await supabase
+    .from('nfts')
+    .upsert(tokens.map(token => ({
+      token_id: token.tokenId,
+      contract_address: contractAddress,
+      collection_name: collectionName,
+      name: token.name || `${collectionName} #${token.tokenId}`,
+      description: token.description,
+      image: token.image,
+      traits: token.traits,
+      burned: token.burned
+    })), { onConflict: 'token_id,contract_address' });
+
+  if (error) throw error;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const sourceName = ((args.source as string) || 'rpc') as MetadataSourceName;
+  const dryRun = !!args['dry-run'];
+  const source = createMetadataSource(sourceName, {
+    rpcUrl: process.env.ABSTRACT_RPC_URL,
+    fixturePath: args.fixture as string | undefined
+  });
+
+  const collection = await source.getCollection((args.contract as string) || '');
+  if (!collection.contractAddress) {
+    console.error('❌ --contract is required');
+    process.exit(1);
+  }
+
+  const name = (args.name as string) || collection.name;
+  const fileRules = args.rules ? parseCollectionRules(JSON.parse(readFileSync(args.rules as string, 'utf8'))) : null;
+  const supabase = dryRun ? null : getSupabase();
+  const rules = fileRules ?? (supabase && await loadCollectionRules(supabase, collection.contractAddress)) ?? DEFAULT_COLLECTION_RULES;
+  const active = !args.inactive;
+
+  console.log(`📥 ${dryRun ? 'Dry run for' : 'Importing'} ${name} (${collection.contractAddress}) via ${source.name}`);
+  console.log(`📏 Rules: ${JSON.stringify(rules)}`);
+
+  let contractAddress = collection.contractAddress;
+  if (supabase) {
+    contractAddress = await storedContractAddress(supabase, collection.contractAddress);
+    const { error } = await supabase
+      .from('collections')
+      .upsert({
+        contract_address: collection.contractAddress.toLowerCase(),
+        name,
+        metadata_source: source.name,
+        active,
+        ...(fileRules ? { ineligible_rules: fileRules } : {})
+      }, { onConflict: 'contract_address' });
+    if (error) throw error;
+  }
+
+  const reasons = new Map<string, number>();
+  let imported = 0;
+  let batch: ImportedToken[] = [];
+
+  const flush = async () => {
+    if (supabase && batch.length > 0) await upsertTokens(supabase, batch, contractAddress, name);
+    imported += batch.length;
+    batch = [];
+    if (supabase) process.stdout.write(`\r🧾 ${imported} tokens processed...`);
+  };
+
+  const range = {
+    start: args.start ? parseInt(args.start as string, 10) : 1,
+    end: args.end ? parseInt(args.end as string, 10) : undefined
+  };
+
+  for await (const token of source.getTokens(collection.contractAddress, range)) {
+    const reason = ineligibleReason(token, rules, active) ?? 'eligible';
+    reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+    if (dryRun && reason !== 'eligible') console.log(`  🚫 #${token.tokenId} ${token.name ?? ''} → ${reason}`);
+
+    batch.push(token);
+    if (batch.length >= UPSERT_BATCH_SIZE) await flush();
+  }
+  await flush();
+  console.log('');
+
+  if (supabase) {
+    await supabase
+      .from('collections')
+      .update({ last_imported_at: new Date().toISOString() })
+      .eq('contract_address', collection.contractAddress.toLowerCase());
+
+    // Lets /api/img rebuild image URLs for this collection (keeps a hand-set rule)
+    const { data: ipfsRule } = await supabase.rpc('seed_collection_ipfs_url_rule', {
+      p_contract_address: collection.contractAddress
+    });
+    console.log(ipfsRule ? `🧭 IPFS URL rule: ${JSON.stringify(ipfsRule)}` : '🧭 No IPFS URL rule could be inferred from token images');
+  }
+
+  console.log('\n📊 Eligibility');
+  console.table([...reasons.entries()].map(([reason, count]) => ({ reason, count })));
+  console.log(dryRun ? '✅ Dry run complete - nothing written' : `✅ Imported ${imported} tokens`);
+}
+
+main().catch(error => {
+  console.error('❌ Import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Chain Event Indexer
+ *
+ * Syncs GugoVoteManager events (VotesPurchased, VoteCast, EloUpdated, PrizeBreakClaimed,
+ * RevenueDistributed, TreasuryDeposit, TreasuryUpdated) into the Stage 23 tables
+ * (migrations/23-chain-event-index.sql). Runs as a long-lived service by default: each pass
+ * indexes confirmed blocks past the cursor, then sleeps. Safe to stop and restart at any time.
+ *
+ * Usage:
+ *   npx tsx scripts/index-chain-events.ts                    # service, polls every 15s
+ *   npx tsx scripts/index-chain-events.ts --once             # catch up once and exit
+ *   npx tsx scripts/index-chain-events.ts --once --dry-run   # decode and log, write nothing
+ *   npx tsx scripts/index-chain-events.ts --interval 60 --batch-size 500 --confirmations 20
+ *
+ * Env: CHAIN_INDEXER_CONTRACTS (comma-separated, defaults to NEXT_PUBLIC_VOTE_MANAGER_CONTRACT),
+ *      CHAIN_INDEXER_RPC_URL (defaults to Abstract testnet), CHAIN_INDEXER_START_BLOCK,
+ *      CHAIN_INDEXER_CONFIRMATIONS
+ */
+
+import dotenv from 'dotenv';
+import { isAddress, type Address } from 'viem';
+import { abstractTestnet } from 'viem/chains';
+
+dotenv.config({ path: '.env.local' });
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+const numberArg = (value: string | boolean | undefined, fallback: number | undefined) =>
+  typeof value === 'string' && value.trim() !== '' ? parseInt(value, 10) : fallback;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const contracts = (process.env.CHAIN_INDEXER_CONTRACTS || process.env.NEXT_PUBLIC_VOTE_MANAGER_CONTRACT || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  const invalid = contracts.filter(address => !isAddress(address));
+  if (contracts.length === 0 || invalid.length > 0) {
+    throw new Error(`Set CHAIN_INDEXER_CONTRACTS to the vote manager address(es)${invalid.length ? ` (invalid: ${invalid.join(', ')})` : ''}`);
+  }
+
+  const intervalMs = (numberArg(args.interval, 15) as number) * 1000;
+  const options = {
+    cursor: (args.cursor as string) || 'gugo-vote-manager',
+    contracts: contracts as Address[],
+    startBlock: numberArg(process.env.CHAIN_INDEXER_START_BLOCK, undefined),
+    confirmations: numberArg(args.confirmations ?? process.env.CHAIN_INDEXER_CONFIRMATIONS, undefined),
+    batchSize: numberArg(args['batch-size'], undefined)
+  };
+
+  // Loaded after dotenv so the service-role client sees .env.local
+  const { createIndexerClient, createMemoryIndexerStore, syncChainEvents } = await import('../lib/chain-indexer');
+  const store = args['dry-run']
+    ? createMemoryIndexerStore()
+    : (await import('../lib/chain-indexer-store')).supabaseIndexerStore;
+
+  const client = createIndexerClient(process.env.CHAIN_INDEXER_RPC_URL || abstractTestnet.rpcUrls.default.http[0]);
+
+  let stopping = false;
+  process.on('SIGINT', () => {
+    console.log('🛑 Stopping after the current pass...');
+    stopping = true;
+  });
+
+  console.log(`⛓️ Indexing ${contracts.join(', ')}${args['dry-run'] ? ' (dry run)' : ''}`);
+
+  for (;;) {
+    try {
+      const result = await syncChainEvents(client, store, options);
+      console.log(
+        result.toBlock === null
+          ? `⏳ Up to date at block ${result.safeHead} (head ${result.head})`
+          : `✅ Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events in ${result.batches} batches`
+      );
+    } catch (error) {
+      // The service retries from the saved cursor next pass; --once reports the failure
+      if (args.once) throw error;
+      console.error('❌ Indexing pass failed, retrying:', error);
+    }
+
+    if (args.once || stopping) break;
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    if (stopping) break;
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Chain indexer failed:', error);
+  process.exit(1);
+});
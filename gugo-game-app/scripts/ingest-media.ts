@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+/**
+ * Media Ingest Script
+ *
+ * Drains the nft_media_map ingest queue (migrations/16-media-ingest.sql) outside of a request:
+ * fetches each token's source media, stores webp variants through MEDIA_STORAGE and marks the
+ * row ok. Use it for backfills; /api/media/run-batch handles the trickle from /api/img.
+ *
+ * Usage:
+ *   npx tsx scripts/ingest-media.ts                         # one batch of 25
+ *   npx tsx scripts/ingest-media.ts --contract 0xabc... --all
+ *   npx tsx scripts/ingest-media.ts --limit 100 --ignore-retry-after --all
+ *   npx tsx scripts/ingest-media.ts --hash-backfill --all   # ThumbHashes / perceptual hashes for assets ingested before Stage 20 / 21
+ *                                                          # (--thumbhash-backfill still works)
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env.local' });
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const limit = args.limit ? parseInt(args.limit as string, 10) : 25;
+  const contract = args.contract ? (args.contract as string).toLowerCase() : undefined;
+  const ignoreRetryAfter = !!args['ignore-retry-after'];
+
+  // Loaded after dotenv so the service-role client sees .env.local
+  const { backfillAssetHashes, processMediaIngestBatch } = await import('../src/lib/media-ingest-worker');
+
+  if (args['hash-backfill'] || args['thumbhash-backfill']) {
+    let updated = 0;
+    let failed = 0;
+    for (;;) {
+      const batch = await backfillAssetHashes({ limit });
+      updated += batch.updated;
+      failed += batch.failed;
+      console.log(`🌫️ Scanned ${batch.scanned}: ${updated} updated, ${failed} failed so far`);
+
+      // Failed assets stay without a hash, so stop once a batch makes no progress
+      if (!args.all || batch.scanned < limit || batch.updated === 0) break;
+    }
+    console.log(`✅ Hash backfill complete - ${updated} updated, ${failed} failed`);
+    return;
+  }
+
+  let ok = 0;
+  let failed = 0;
+  for (;;) {
+    const results = await processMediaIngestBatch({ limit, contract, ignoreRetryAfter });
+    ok += results.filter(result => result.status === 'ok').length;
+    failed += results.filter(result => result.status === 'failed').length;
+    console.log(`🖼️ Batch of ${results.length}: ${ok} ok, ${failed} failed so far`);
+
+    // Terminates with --ignore-retry-after too: every claim spends an attempt
+    if (!args.all || results.length < limit) break;
+  }
+
+  console.log(`✅ Media ingest complete - ${ok} ok, ${failed} failed`);
+}
+
+main().catch(error => {
+  console.error('❌ Media ingest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+#!/usr/bin/env node
+
+/**
+ * Rating Replay Script
+ *
+ * Recomputes every NFT's rating from the `votes` table with one or more rating
+ * engines and reports how well each one predicted the votes, so engines can be
+ * compared on real data before switching RATING_ENGINE.
+ *
+ * Usage:
+ *   npx tsx scripts/replay-ratings.ts                      # compare elo + glicko2
+ *   npx tsx scripts/replay-ratings.ts --engine elo --k 24  # single engine, custom K
+ *   npx tsx scripts/replay-ratings.ts --engine glicko2 --write   # persist results to nfts
+ *   npx tsx scripts/replay-ratings.ts --engine elo --stamp-votes  # backfill votes.nft_*_elo_after (NFT rating history)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { createRatingEngine, type RatingEngineName } from '../lib/rating-engine';
+import { replayRatings, rankCorrelation, type ReplayVote } from '../lib/rating-replay';
+
+dotenv.config({ path: '.env.local' });
+
+const PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 50;
+const STAMP_BATCH_SIZE = 500;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+async function loadVotes(): Promise<ReplayVote[]> {
+  const votes: ReplayVote[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('votes')
+      .select('id, nft_a_id, nft_b_id, winner_id, engagement_data')
+      .in('vote_type_v2', ['same_coll', 'cross_coll'])
+      .not('winner_id', 'is', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      votes.push({
+        id: row.id,
+        nft_a_id: row.nft_a_id,
+        nft_b_id: row.nft_b_id,
+        winner_id: row.winner_id,
+        super_vote: !!row.engagement_data?.super_vote
+      });
+    }
+
+    process.stdout.write(`\r📥 Loaded ${votes.length} votes...`);
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  console.log('');
+  return votes;
+}
+
+async function loadCurrentRatings(): Promise<Map<string, number>> {
+  const ratings = new Map<string, number>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('nfts')
+      .select('id, current_elo')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    data.forEach(row => ratings.set(row.id, row.current_elo));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return ratings;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const engineArg = (args.engine as string) || 'all';
+  const engineNames: RatingEngineName[] = engineArg === 'all' ? ['elo', 'glicko2'] : [engineArg as RatingEngineName];
+  const top = parseInt((args.top as string) || '10', 10);
+  const options = {
+    kFactor: args.k ? parseFloat(args.k as string) : undefined,
+    tau: args.tau ? parseFloat(args.tau as string) : undefined
+  };
+
+  if (engineNames.some(name => name !== 'elo' && name !== 'glicko2')) {
+    console.error(`❌ Unknown engine "${engineArg}" (expected elo, glicko2 or all)`);
+    process.exit(1);
+  }
+  if ((args.write || args['stamp-votes']) && engineNames.length !== 1) {
+    console.error('❌ --write and --stamp-votes need a single --engine');
+    process.exit(1);
+  }
+
+  console.log('🔁 Replaying vote history...');
+  const [votes, currentRatings] = await Promise.all([loadVotes(), loadCurrentRatings()]);
+  console.log(`🗳️ ${votes.length} matchup votes, ${currentRatings.size} NFTs`);
+
+  // Ratings after each vote, for the NFT detail page's rating history
+  const stamps: { vote_id: string; a: number; b: number }[] = [];
+  const results = engineNames.map(name => replayRatings(createRatingEngine(name, options), votes, (vote, updated) => {
+    if (args['stamp-votes'] && vote.id) stamps.push({ vote_id: vote.id, a: updated.a.rating, b: updated.b.rating });
+  }));
+
+  console.log('\n📊 Engine comparison');
+  console.table(results.map(result => {
+    const replayed = new Map([...result.ratings].map(([id, state]) => [id, state.rating]));
+    return {
+      engine: result.engine,
+      votes: result.votes,
+      accuracy: `${(result.accuracy * 100).toFixed(2)}%`,
+      logLoss: result.logLoss.toFixed(4),
+      rankCorrVsLive: rankCorrelation(replayed, currentRatings).toFixed(3)
+    };
+  }));
+
+  for (const result of results) {
+    const leaders = [...result.ratings.entries()]
+      .sort(([, x], [, y]) => y.rating - x.rating)
+      .slice(0, top)
+      .map(([id, state]) => ({
+        id,
+        rating: state.rating.toFixed(1),
+        deviation: state.deviation.toFixed(1),
+        live: currentRatings.get(id)?.toFixed(1) ?? '-'
+      }));
+    console.log(`\n🏆 Top ${top} (${result.engine})`);
+    console.table(leaders);
+  }
+
+  if (args.write) {
+    const result = results[0];
+    const entries = [...result.ratings.entries()];
+    console.log(`\n💾 Writing ${entries.length} ratings (${result.engine})...`);
+
+    for (let i = 0; i < entries.length; i += WRITE_BATCH_SIZE) {
+      const batch = entries.slice(i, i + WRITE_BATCH_SIZE);
+      const updates = await Promise.all(batch.map(([id, state]) =>
+        supabase
+          .from('nfts')
+          .update({
+            current_elo: state.rating,
+            rating_deviation: state.deviation,
+            rating_volatility: state.volatility,
+            rating_engine: result.engine,
+            elo_last_updated: new Date().toISOString()
+          })
+          .eq('id', id)
+      ));
+
+      const failed = updates.filter(update => update.error);
+      if (failed.length > 0) {
+        console.error(`❌ ${failed.length} updates failed:`, failed[0].error);
+        process.exit(1);
+      }
+    }
+
+    console.log('✅ Ratings written. Set RATING_ENGINE to match before new votes arrive.');
+  }
+
+  if (args['stamp-votes']) {
+    console.log(`\n🖋️ Stamping ratings on ${stamps.length} votes...`);
+    let stamped = 0;
+
+    for (let i = 0; i < stamps.length; i += STAMP_BATCH_SIZE) {
+      const { data, error } = await supabase.rpc('apply_vote_elo_stamps', {
+        p_stamps: stamps.slice(i, i + STAMP_BATCH_SIZE),
+        p_overwrite: !!args.overwrite
+      });
+      if (error) {
+        console.error('❌ Stamping failed:', error);
+        process.exit(1);
+      }
+      stamped += data ?? 0;
+    }
+
+    console.log(`✅ Stamped ${stamped} votes${args.overwrite ? '' : ' (existing stamps kept; add --overwrite to replace)'}`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Vote Proof Verifier
+ *
+ * Checks that a vote is included in an anchored vote batch: the leaf matches the vote's fields,
+ * the Merkle proof reaches the batch root, and the vote manager holds that root and accepts the
+ * proof (verifyVoteInclusion). Exits 1 if any check fails.
+ *
+ * Usage:
+ *   npx tsx scripts/verify-vote-proof.ts --file proof.json     # saved from GET /api/user/vote-proofs?voteId=...
+ *   npx tsx scripts/verify-vote-proof.ts --vote <vote-uuid>    # operator: read the proof from Supabase
+ *   npx tsx scripts/verify-vote-proof.ts --file proof.json --offline   # skip the on-chain checks
+ *   npx tsx scripts/verify-vote-proof.ts --file proof.json --rpc https://api.testnet.abs.xyz
+ *
+ * Env: VOTE_BATCH_RPC_URL (defaults to Abstract testnet)
+ */
+
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { abstractTestnet } from 'viem/chains';
+import { checkVoteProof, createVoteBatchClient, type ProofCheck, type VoteInclusionProof } from '../lib/vote-merkle';
+
+dotenv.config({ path: '.env.local' });
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+async function loadProof(args: Record<string, string | boolean>): Promise<VoteInclusionProof> {
+  if (typeof args.file === 'string') {
+    const parsed = JSON.parse(readFileSync(args.file, 'utf8'));
+    return (parsed.proof ?? parsed) as VoteInclusionProof; // API response or a bare proof
+  }
+
+  if (typeof args.vote === 'string') {
+    // Loaded after dotenv so the service-role client sees .env.local
+    const { getVoteProof } = await import('../lib/vote-batches');
+    const proof = await getVoteProof(args.vote);
+    if (!proof) throw new Error(`Vote ${args.vote} is not in any batch yet`);
+    return proof;
+  }
+
+  throw new Error('Pass --file <proof.json> or --vote <vote id>');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const record = await loadProof(args);
+  const { batch, vote } = record;
+
+  console.log(`🗳️ Vote ${vote.id} by ${vote.voter} at ${vote.createdAt}`);
+  console.log(`🌳 Batch ${batch.id} (${batch.periodStart} - ${batch.periodEnd}, ${batch.voteCount} votes), leaf #${record.leafIndex}`);
+
+  let client: ReturnType<typeof createVoteBatchClient> | undefined;
+  const checks: ProofCheck[] = [];
+
+  if (!args.offline) {
+    const rpcUrl = typeof args.rpc === 'string' ? args.rpc : process.env.VOTE_BATCH_RPC_URL || abstractTestnet.rpcUrls.default.http[0];
+    client = createVoteBatchClient(rpcUrl);
+
+    const chainId = await client.getChainId();
+    const sameChain = batch.chainId === null || batch.chainId === chainId;
+    checks.push({ name: 'RPC is on the anchoring chain', ok: sameChain, detail: `rpc chain ${chainId}, batch chain ${batch.chainId ?? 'n/a'}` });
+    if (!sameChain) client = undefined;
+  }
+
+  checks.push(...await checkVoteProof(record, client));
+
+  for (const check of checks) {
+    console.log(`${check.ok ? '✅' : '❌'} ${check.name}${check.detail ? ` (${check.detail})` : ''}`);
+  }
+  if (args.offline) {
+    console.log('⚠️ Offline: the root was not checked against the chain');
+  }
+
+  if (checks.some(check => !check.ok)) process.exit(1);
+}
+
+main().catch(error => {
+  console.error('❌ Vote proof verification failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import ModerationQueueView from "@/components/ModerationQueueView";
+
+export const metadata: Metadata = {
+  title: "Media moderation · Taste Machine",
+  robots: { index: false, follow: false },
+};
+
+// Access is checked by /api/admin/moderation (ADMIN_WALLETS); the page itself holds no data
+export default function ModerationPage() {
+  return <ModerationQueueView />;
+}
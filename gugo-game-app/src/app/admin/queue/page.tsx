@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import QueueAdminView from "@/components/QueueAdminView";
+
+export const metadata: Metadata = {
+  title: "Matchup queue · Taste Machine",
+  robots: { index: false, follow: false },
+};
+
+// Access is checked by /api/admin/queue (ADMIN_WALLETS); the page itself holds no data
+export default function QueueAdminPage() {
+  return <QueueAdminView />;
+}
@@ -0,0 +1,52 @@
+// Media moderation queue for operators (ADMIN_WALLETS only)
+// GET ?page=&pageSize=: NFTs with open reports or a moderation status, most urgent first
+// POST { nftId, action: 'reingest' | 'clear' | 'unrevealed' | 'ban', note? }: resolves the NFT's reports
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@lib/admin";
+import { MAX_MODERATION_PAGE_SIZE, getModerationQueue, moderateNft } from "@/lib/media-moderation";
+import { MODERATION_ACTIONS, type ModerationAction } from "@/types/moderation";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export async function GET(req: NextRequest) {
+  const { response } = await requireAdmin(req);
+  if (response) return response;
+
+  const params = req.nextUrl.searchParams;
+  const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+  const pageSize = Math.max(1, Math.min(MAX_MODERATION_PAGE_SIZE, parseInt(params.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE));
+
+  try {
+    const items = await getModerationQueue(pageSize, (page - 1) * pageSize);
+    const res = NextResponse.json({ items, page, pageSize });
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load moderation queue:', error);
+    return NextResponse.json({ error: 'Failed to load moderation queue' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin(req);
+  if (response) return response;
+
+  const body = await req.json().catch(() => ({}));
+  const action = body.action as ModerationAction;
+  if (typeof body.nftId !== 'string' || !body.nftId) {
+    return NextResponse.json({ error: 'nftId is required' }, { status: 400 });
+  }
+  if (!MODERATION_ACTIONS.includes(action)) {
+    return NextResponse.json({ error: `action must be one of ${MODERATION_ACTIONS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const status = await moderateNft(body.nftId, action, session.address, typeof body.note === 'string' ? body.note.slice(0, 500) : null);
+    console.log(`🚩 ${session.address} applied ${action} to NFT ${body.nftId}`);
+    return NextResponse.json({ success: true, status });
+  } catch (error) {
+    console.error('❌ Moderation action failed:', error);
+    return NextResponse.json({ error: 'Moderation action failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+// Matchup queue dashboard for operators (ADMIN_WALLETS only)
+// GET: health, analytics, per-collection entry counts and the latest refill runs
+// POST { action: 'refill' | 'cleanup' | 'purge', collection? }: runs the action, returns its result
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@lib/admin";
+import { cleanupQueue } from "@lib/queue-manager";
+import { backgroundRefill } from "@lib/queue-refill";
+import { getQueueDashboard, purgeCollectionQueue, recordRefillRun } from "@lib/queue-admin";
+import type { QueueAdminAction } from "@/types/admin";
+
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const { response } = await requireAdmin(req);
+  if (response) return response;
+
+  try {
+    const res = NextResponse.json(await getQueueDashboard());
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load queue dashboard:', error);
+    return NextResponse.json({ error: 'Failed to load queue dashboard' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin(req);
+  if (response) return response;
+
+  const body = await req.json().catch(() => ({}));
+  const action = body.action as QueueAdminAction;
+  console.log(`🧰 ${session.address} requested queue ${action}`);
+
+  try {
+    switch (action) {
+      case 'refill': {
+        // Rescore + scored refill; logged to the run history with source 'admin'
+        const result = await recordRefillRun('admin', await backgroundRefill());
+        return NextResponse.json({ success: result.success, result });
+      }
+      case 'cleanup': {
+        const result = await cleanupQueue();
+        if (!result.success) {
+          return NextResponse.json({ error: result.error ?? 'Cleanup failed' }, { status: 500 });
+        }
+        return NextResponse.json({ success: true, cleaned: result.cleaned ?? 0 });
+      }
+      case 'purge': {
+        const collection = typeof body.collection === 'string' ? body.collection.trim() : '';
+        if (!collection) {
+          return NextResponse.json({ error: 'collection is required' }, { status: 400 });
+        }
+        const purged = await purgeCollectionQueue(collection);
+        return NextResponse.json({ success: true, purged });
+      }
+      default:
+        return NextResponse.json({ error: 'action must be one of refill, cleanup, purge' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error(`❌ Queue ${action} failed:`, error);
+    return NextResponse.json({ error: `Queue ${action} failed` }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+// SIWE challenge - issues a single-use sign-in nonce bound to a signed httpOnly cookie
+
+import { NextResponse } from "next/server";
+import { generateSiweNonce } from "viem/siwe";
+import { recordNonce, setNonceCookie } from "@lib/session";
+
+export async function GET() {
+  const nonce = generateSiweNonce();
+  try {
+    await recordNonce(nonce);
+  } catch (error) {
+    console.error('❌ Failed to issue sign-in nonce:', error);
+    return NextResponse.json({ error: 'Failed to start sign-in' }, { status: 500 });
+  }
+
+  const res = NextResponse.json({ nonce });
+  res.headers.set('Cache-Control', 'no-store');
+  await setNonceCookie(res, nonce);
+  return res;
+}
@@ -0,0 +1,17 @@
+// Current wallet session (GET) and sign-out (DELETE)
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, clearSessionCookie } from "@lib/session";
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  const res = NextResponse.json({ session });
+  res.headers.set('Cache-Control', 'no-store');
+  return res;
+}
+
+export async function DELETE() {
+  const res = NextResponse.json({ success: true });
+  clearSessionCookie(res);
+  return res;
+}
@@ -0,0 +1,108 @@
+// SIWE verify - checks the signed message against the issued nonce and starts a wallet session
+// Signatures are verified through the chain's public client, so both EOAs (MetaMask)
+// and smart contract wallets (AGW, ERC-1271 / ERC-6492) are accepted.
+
+import { NextRequest, NextResponse } from "next/server";
+import { createPublicClient, http, type Chain, type Hex } from "viem";
+import { abstract, abstractTestnet } from "viem/chains";
+import { parseSiweMessage, verifySiweMessage } from "viem/siwe";
+import { supabaseAdmin } from "@lib/supabase-server";
+import {
+  getNonce,
+  clearNonceCookie,
+  consumeNonce,
+  createWalletSession,
+  setSessionCookie
+} from "@lib/session";
+import type { WalletType } from "@lib/wallet";
+
+const SUPPORTED_CHAINS: Record<number, Chain> = {
+  [abstractTestnet.id]: abstractTestnet,
+  [abstract.id]: abstract
+};
+
+type VerifyRequest = {
+  message: string;
+  signature: Hex;
+  walletType?: WalletType;
+};
+
+export async function POST(req: NextRequest) {
+  let body: VerifyRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { message, signature } = body;
+  const walletType: WalletType = body.walletType === 'metamask' ? 'metamask' : 'agw';
+
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return NextResponse.json({ error: 'Missing message or signature' }, { status: 400 });
+  }
+
+  const nonce = await getNonce(req);
+  if (!nonce) {
+    return NextResponse.json({ error: 'Sign-in nonce missing or expired' }, { status: 401 });
+  }
+
+  const parsed = parseSiweMessage(message);
+  const chain = parsed.chainId ? SUPPORTED_CHAINS[parsed.chainId] : undefined;
+  if (!parsed.address || !chain) {
+    return NextResponse.json({ error: 'Unsupported sign-in message' }, { status: 400 });
+  }
+
+  const client = createPublicClient({ chain, transport: http() });
+
+  let valid = false;
+  try {
+    valid = await verifySiweMessage(client, {
+      message,
+      signature,
+      domain: req.headers.get('host') || undefined,
+      nonce
+    });
+  } catch (error) {
+    console.error('❌ SIWE verification error:', error);
+  }
+
+  if (!valid) {
+    const res = NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    clearNonceCookie(res);
+    return res;
+  }
+
+  // Single use: a replayed message + nonce cookie finds the nonce already gone
+  let consumed = false;
+  try {
+    consumed = await consumeNonce(nonce);
+  } catch (error) {
+    console.error('❌ Failed to consume sign-in nonce:', error);
+    return NextResponse.json({ error: 'Failed to verify sign-in' }, { status: 500 });
+  }
+  if (!consumed) {
+    const res = NextResponse.json({ error: 'Sign-in nonce already used or expired' }, { status: 401 });
+    clearNonceCookie(res);
+    return res;
+  }
+
+  // Make sure the user row exists before any session-backed route touches it
+  const { error: upsertError } = await supabaseAdmin
+    .from('users')
+    .upsert(
+      { wallet_address: parsed.address, wallet_type: walletType },
+      { onConflict: 'wallet_address', ignoreDuplicates: true }
+    );
+
+  if (upsertError) {
+    console.error('❌ Failed to create user on sign-in:', upsertError);
+    return NextResponse.json({ error: 'Failed to create user' }, { status: 500 });
+  }
+
+  const session = createWalletSession(parsed.address, walletType, chain.id);
+  const res = NextResponse.json({ session });
+  await setSessionCookie(res, session);
+  clearNonceCookie(res);
+  return res;
+}
@@ -0,0 +1,56 @@
+// Shared IPFS gateway health
+// GET: gateways ranked from the aggregate (browsers call this on load and every few minutes)
+// POST { reports: [{ gateway, successes, failures, latencyMs? }] }: batched outcomes from IPFSGatewayManager
+// The only way browsers reach record_gateway_reports(), so POSTs are rate limited per client IP
+
+import { NextRequest, NextResponse } from "next/server";
+import { getGatewayRanking, IPFS_GATEWAYS, type GatewayReport } from "@/lib/gateway-health";
+import { recordGatewayReports } from "@/lib/gateway-health-server";
+import { clientIp, createRateLimiter, tooManyRequestsHeaders } from "@/lib/rate-limit";
+
+// IPFSGatewayManager flushes every 15s; room for a few tabs (or visitors) behind one address
+const REPORT_WINDOW_MS = 60 * 1000;
+const reportLimiter = createRateLimiter({ limit: 12, windowMs: REPORT_WINDOW_MS });
+// A client batch holds at most one merged entry per known gateway
+const MAX_REPORTS_PER_REQUEST = IPFS_GATEWAYS.length;
+
+export async function GET() {
+  const gateways = await getGatewayRanking();
+  return NextResponse.json(
+    { gateways, generatedAt: new Date().toISOString() },
+    { headers: { 'Cache-Control': 'public, max-age=15, s-maxage=30, stale-while-revalidate=60' } }
+  );
+}
+
+export async function POST(req: NextRequest) {
+  if (!reportLimiter.take(clientIp(req.headers))) {
+    return NextResponse.json({ error: 'Too many reports' }, { status: 429, headers: tooManyRequestsHeaders(REPORT_WINDOW_MS) });
+  }
+
+  let body: { reports?: unknown };
+  try {
+    // sendBeacon posts text/plain, so parse the raw body rather than relying on the content type
+    body = JSON.parse(await req.text());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!Array.isArray(body?.reports)) {
+    return NextResponse.json({ error: 'reports must be an array' }, { status: 400 });
+  }
+  if (body.reports.length > MAX_REPORTS_PER_REQUEST) {
+    return NextResponse.json({ error: `At most ${MAX_REPORTS_PER_REQUEST} reports per request` }, { status: 400 });
+  }
+
+  const reports = body.reports.filter((report): report is GatewayReport =>
+    !!report && typeof report === 'object' && typeof (report as GatewayReport).gateway === 'string'
+  );
+
+  try {
+    await recordGatewayReports(reports);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('❌ Failed to record gateway reports:', error);
+    return NextResponse.json({ error: 'Failed to record gateway reports' }, { status: 500 });
+  }
+}
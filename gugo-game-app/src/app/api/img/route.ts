@@ -1,20 +1,32 @@
 // Media proxy for Abstract NFTs
 // Priority: Alchemy NFT API → IPFS reconstruction → original URL → SVG placeholder
+// Originals are resized to the w/dpr bucket and re-encoded to avif/webp per Accept (Save-Data → 1x, lower quality)
 
 import { NextRequest } from "next/server";
 import { supabase } from "@lib/supabase";
-import { generateFallbackIPFSUrl } from "@/lib/reservoir-image-optimizer";
+import { generateFallbackIPFSUrl, loadIpfsUrlRules } from "@/lib/reservoir-image-optimizer";
 import { enqueueTokenForIngest } from "@/lib/media-ingest-queue";
+import { getMediaUrl, mediaMasterKey, mediaVariantKey, pickVariantWidth } from "@/lib/media-store";
+import { isSaveData, transcodeImage, type TranscodeRequest } from "@/lib/image-transcoder";
+import { createGatewayReporter, getGatewayRanking } from "@/lib/gateway-health";
+import { recordGatewayReports } from "@/lib/gateway-health-server";
+import { hedgedRace, isHedgeCancelled } from "@/lib/hedged-fetch";
+import { fetchPublicUrl } from "@/lib/source-url-guard";
+import { clientIp, createRateLimiter } from "@/lib/rate-limit";
 
-export const runtime = "edge";
+// Node, not edge: originals without a pre-generated variant are transcoded with sharp
+export const runtime = "nodejs";
 
 // Feature flags
 const ENABLE_MEDIA_MAPPING = true; // ✅ Re-enabled - database mappings fixed
 // CDN-only mode (default ON). Disable only with NEXT_PUBLIC_CDN_ONLY=0
 const CDN_ONLY = false; // Keep API proxy as fallback
 const ENABLE_CDN_REDIRECT = true; // ✅ Re-enabled - CDN URLs working
-const CDN_BASE = process.env.NEXT_PUBLIC_CDN_BASE || 'https://cdn.tastemachine.xyz'; // ✅ Re-enabled
+// Image-resizing CDN for originals that have no pre-generated variant yet
+const CDN_BASE = process.env.NEXT_PUBLIC_CDN_BASE || 'https://cdn.tastemachine.xyz';
 const IS_DEV = process.env.NODE_ENV !== 'production';
+// Resize + re-encode upstream originals to the requested bucket (disable with IMG_TRANSCODE=0)
+const ENABLE_TRANSCODE = process.env.IMG_TRANSCODE !== '0';
 
 // Normalize and bucket requested sizes to reduce variant cardinality
 function bucketWidth(raw: string | null): number {
@@ -70,11 +82,18 @@ class SimpleLru {
   }
 }
 
-// Module-level singletons (per edge isolate)
+// Module-level singletons (per server instance)
 const urlLru = new SimpleLru(256, 24 * 60 * 60 * 1000); // 24h TTL
 const inflightMap: Map<string, Promise<UpstreamResult>> = new Map();
 const lastRunBatchAtByContract: Map<string, number> = new Map();
 
+// nft_media_map row; media_assets is many-to-one, so PostgREST embeds an object (the inferred type says array)
+type MediaMapRow = {
+  asset_hash: string | null;
+  status: string;
+  media_assets: { storage_key: string } | null;
+};
+
 type UpstreamResult = {
   ok: boolean;
   status: number;
@@ -150,14 +169,48 @@ function extractIpfsPath(url: string): string | null {
   return null;
 }
 
-function buildGatewayUrls(ipfsPath: string): string[] {
-  const gateways = [
-    'https://cloudflare-ipfs.com/ipfs/',
-    'https://ipfs.io/ipfs/',
-    'https://dweb.link/ipfs/',
-    'https://cf-ipfs.com/ipfs/'
-  ];
-  return gateways.map(g => g + ipfsPath);
+// Gateways the proxy may use (avoid Pinata), ranked by the shared health aggregate
+const PROXY_GATEWAYS = [
+  'https://cloudflare-ipfs.com/ipfs/',
+  'https://ipfs.io/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://cf-ipfs.com/ipfs/'
+];
+const gatewayReporter = createGatewayReporter(recordGatewayReports);
+// Unmapped tokens are queued for ingest at most this often per client; over it the request still gets its image
+const ingestEnqueueLimiter = createRateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+// Gateways with an open circuit are skipped while any other gateway is available
+async function buildGatewayUrls(ipfsPath: string): Promise<string[]> {
+  const ranked = await getGatewayRanking(PROXY_GATEWAYS);
+  const usable = ranked.filter(gateway => !gateway.circuitOpenUntil);
+  return (usable.length > 0 ? usable : ranked).map(gateway => gateway.url + ipfsPath);
+}
+
+// Races the ranked gateways (hedged: the next one starts if the first is slow) and returns the
+// first image, or null. Outcomes feed the shared aggregate; 4xx says more about the content than
+// the gateway, and attempts cancelled because another gateway won aren't reported at all.
+async function fetchFromGateways(ipfsPath: string): Promise<UpstreamResult | null> {
+  const candidates = await buildGatewayUrls(ipfsPath);
+  try {
+    const { value } = await hedgedRace(candidates, async (url, signal) => {
+      const started = Date.now();
+      const result = await fetchUpstream(url, signal);
+      const gateway = url.slice(0, url.indexOf('/ipfs/') + '/ipfs/'.length);
+
+      if (result.ok && result.body && isLikelyImage(result.body, result.contentType)) {
+        gatewayReporter.record(gateway, true, Date.now() - started);
+        return result;
+      }
+      if (!isHedgeCancelled(signal) && (result.status >= 500 || result.status === 429)) {
+        gatewayReporter.record(gateway, false);
+      }
+      throw new Error(`Gateway returned ${result.ok ? 'a non-image' : result.status}`);
+    }, { hedgeDelayMs: 600, attemptTimeoutMs: 7000 });
+    return value;
+  } catch {
+    return null;
+  }
 }
 
 export async function GET(req: NextRequest) {
@@ -172,6 +225,12 @@ export async function GET(req: NextRequest) {
   const originalUrl = searchParams.get("url");
   const widthBucket = bucketWidth(searchParams.get("w"));
   const dprBucket = bucketDpr(searchParams.get("dpr") || req.headers.get("dpr"));
+  const transcodeRequest: TranscodeRequest = {
+    width: widthBucket,
+    dpr: dprBucket,
+    accept: req.headers.get("accept"),
+    saveData: isSaveData(req.headers.get("save-data"))
+  };
 
   if (!contract || !tokenId) {
     return new Response("Missing contract or tokenId", { status: 400 });
@@ -184,7 +243,7 @@ export async function GET(req: NextRequest) {
     const existing = inflightMap.get(key);
     if (existing) {
       const result = await existing;
-      return buildResponseFromUpstream(result);
+      return buildResponseFromUpstream(await maybeTranscode(result, transcodeRequest));
     }
 
     const promise = (async (): Promise<UpstreamResult> => {
@@ -196,7 +255,7 @@ export async function GET(req: NextRequest) {
           const isSolana = primaryKey.startsWith('solana');
           const contractKey = isSolana ? contract! : contract!.toLowerCase();
 
-          let mapRow: any = null;
+          let mapRow: MediaMapRow | null = null;
           for (const ck of chainCandidates) {
             const { data } = await supabase
               .from('nft_media_map')
@@ -206,12 +265,12 @@ export async function GET(req: NextRequest) {
               .eq('token_id', String(tokenId))
               .limit(1);
             const row = Array.isArray(data) ? data[0] : data;
-            if (row) { mapRow = row; break; }
+            if (row) { mapRow = row as unknown as MediaMapRow; break; }
           }
           console.log(`🔍 Media mapping query result for ${contract}:${tokenId}:`, mapRow ? `found ${mapRow.asset_hash} (status: ${mapRow.status})` : 'not found');
           if (mapRow && mapRow.status === 'ok' && mapRow.asset_hash) {
             console.log(`✅ Found media mapping: ${mapRow.asset_hash} for ${contract}:${tokenId}`);
-            let masterPath = (mapRow as any).media_assets?.storage_key || `media/${mapRow.asset_hash}/master.webp`;
+            let masterPath = mapRow.media_assets?.storage_key || mediaMasterKey(mapRow.asset_hash);
             // Normalize to path for CDN transform when a full URL sneaks in
             try {
               if (masterPath.startsWith('http')) {
@@ -219,13 +278,11 @@ export async function GET(req: NextRequest) {
                 masterPath = u.pathname.replace(/^\//, '');
               }
             } catch {}
-            // Prefer direct CDN variant redirect to pre-generated sizes
-            if (ENABLE_CDN_REDIRECT && CDN_BASE) {
-              console.log(`🔗 CDN redirect enabled: ${CDN_BASE}`);
-              const needed = Math.ceil(widthBucket * dprBucket);
-              const size = needed <= 256 ? 256 : needed <= 512 ? 512 : needed <= 1024 ? 1024 : 2048;
-              const sep = CDN_BASE.endsWith('/') ? '' : '/';
-              const variantUrl = `${CDN_BASE}${sep}media/${mapRow.asset_hash}/w${size}.webp`;
+            // Prefer direct redirect to pre-generated sizes (CDN or MediaStore URL)
+            if (ENABLE_CDN_REDIRECT) {
+              const size = pickVariantWidth(widthBucket, dprBucket);
+              const variantUrl = new URL(await getMediaUrl(mediaVariantKey(mapRow.asset_hash, size)), req.url).toString();
+              console.log(`🔗 Variant redirect: ${variantUrl}`);
               // In local/dev, some CDNs block hotlinking; stream bytes through same-origin instead
               const host = req.headers.get('host') || '';
               const xfh = req.headers.get('x-forwarded-host') || '';
@@ -291,7 +348,7 @@ export async function GET(req: NextRequest) {
       }
 
       // FORCE CDN REDIRECT - Check nfts_unified table for image URL
-      if (CDN_BASE && ENABLE_CDN_REDIRECT) {
+      if (ENABLE_CDN_REDIRECT) {
         console.log(`🚀 V2 MEDIA PIPELINE: Checking nft_media_map for ${contract}:${tokenId}`);
         
         try {
@@ -398,8 +455,8 @@ export async function GET(req: NextRequest) {
               } as UpstreamResult;
             }
             
-            // Use the storage_key directly for the CDN URL
-            const assetCdnUrl = `${CDN_BASE}/${mediaAsset.storage_key}`;
+            // Resolve the storage_key through the CDN / MediaStore
+            const assetCdnUrl = new URL(await getMediaUrl(mediaAsset.storage_key), req.url).toString();
             
             console.log(`✅ V2 Media Pipeline: Redirecting to ${assetCdnUrl}`);
             return {
@@ -453,37 +510,32 @@ export async function GET(req: NextRequest) {
 
       // 2) Try IPFS via resilient gateways (avoid Pinata)
       // (a) Use collection-specific reconstruction if available to get the IPFS path
+      await loadIpfsUrlRules();
       const reconstructed = generateFallbackIPFSUrl({ contractAddress: contract, tokenId });
       let ipfsPath: string | null = null;
       if (reconstructed) ipfsPath = extractIpfsPath(reconstructed);
       // (b) If no reconstruction, try to derive from originalUrl if ipfs-like
       if (!ipfsPath && originalUrl) ipfsPath = extractIpfsPath(originalUrl);
       if (ipfsPath) {
-        const candidates = buildGatewayUrls(ipfsPath);
-        for (const url of candidates) {
-          const res = await fetchUpstream(url);
-          if (res.ok && res.body && isLikelyImage(res.body, res.contentType)) return res;
-        }
+        const res = await fetchFromGateways(ipfsPath);
+        if (res) return res;
       }
 
-      // 3) Final: original URL (gateway or http) if provided
+      // 3) Final: original URL if provided - public https hosts only (src/lib/source-url-guard.ts)
       if (originalUrl) {
         // First try as-is
-        let resolved = await fetchUpstream(originalUrl);
+        let resolved = await fetchUpstream(originalUrl, undefined, true);
         if (resolved.ok && resolved.body && isLikelyImage(resolved.body, resolved.contentType)) return resolved;
         // Retry once without query params to dodge bad variants
         try {
           const stripped = originalUrl.split('?')[0];
-          resolved = await fetchUpstream(stripped);
+          resolved = await fetchUpstream(stripped, undefined, true);
           if (resolved.ok && resolved.body && isLikelyImage(resolved.body, resolved.contentType)) return resolved;
           // If still not an image and the stripped form is ipfs-like, try gateways
           const path = extractIpfsPath(stripped);
           if (path) {
-            const candidates = buildGatewayUrls(path);
-            for (const url of candidates) {
-              const res = await fetchUpstream(url);
-              if (res.ok && res.body && isLikelyImage(res.body, res.contentType)) return res;
-            }
+            const res = await fetchFromGateways(path);
+            if (res) return res;
           }
         } catch {}
       }
@@ -492,8 +544,10 @@ export async function GET(req: NextRequest) {
       // Best-effort enqueue for ingest so future requests hit mapping
       if (ENABLE_MEDIA_MAPPING) {
         try {
-          const chainKey = normalizeChainId(chainParam);
-          enqueueTokenForIngest({ chain: chainKey, contract: contract!.toLowerCase(), tokenId: String(tokenId), sourceUri: originalUrl || undefined });
+          const chainKey = normalizeChainKeyForDb(chainParam);
+          if (ingestEnqueueLimiter.take(clientIp(req.headers))) {
+            enqueueTokenForIngest({ chain: chainKey, contract: contract!.toLowerCase(), tokenId: String(tokenId) });
+          }
         } catch {}
       }
       return {
@@ -506,7 +560,7 @@ export async function GET(req: NextRequest) {
 
     inflightMap.set(key, promise);
     const result = await promise.finally(() => inflightMap.delete(key));
-    return buildResponseFromUpstream(result);
+    return buildResponseFromUpstream(await maybeTranscode(result, transcodeRequest));
   } catch (error) {
     return generatePlaceholder(tokenId);
   }
@@ -526,7 +580,7 @@ export async function HEAD(req: NextRequest) {
       const chainCandidates = getAbstractAliases(primaryKey);
       const isSolana = primaryKey.startsWith('solana');
       const contractKey = isSolana ? contract : contract.toLowerCase();
-      let mapRow: any = null;
+      let mapRow: MediaMapRow | null = null;
       for (const ck of chainCandidates) {
         const { data } = await supabase
           .from('nft_media_map')
@@ -536,12 +590,13 @@ export async function HEAD(req: NextRequest) {
           .eq('token_id', String(tokenId))
           .limit(1);
         const row = Array.isArray(data) ? data[0] : data;
-        if (row) { mapRow = row; break; }
+        if (row) { mapRow = row as unknown as MediaMapRow; break; }
       }
       if (mapRow && mapRow.status === 'ok' && mapRow.asset_hash) {
-        const needed = Math.ceil(widthBucket * dprBucket);
-        const size = needed <= 256 ? 256 : needed <= 512 ? 512 : needed <= 1024 ? 1024 : 2048;
-        const variantUrl = CDN_BASE ? `${CDN_BASE}${CDN_BASE.endsWith('/') ? '' : '/'}media/${mapRow.asset_hash}/w${size}.webp` : '';
+        const size = pickVariantWidth(widthBucket, dprBucket);
+        const variantUrl = await getMediaUrl(mediaVariantKey(mapRow.asset_hash, size))
+          .then(url => new URL(url, req.url).toString())
+          .catch(() => '');
         return new Response(null, {
           status: 200,
           headers: {
@@ -554,17 +609,14 @@ export async function HEAD(req: NextRequest) {
             ...(variantUrl ? { 'Location': variantUrl } : {}),
           }
         });
-      } else if (!mapRow) {
-        // If not mapped, proactively enqueue via service and return placeholder
+      } else if (!mapRow && ingestEnqueueLimiter.take(clientIp(req.headers))) {
+        // If not mapped, proactively enqueue and return placeholder
         try {
-          const origin = req.headers.get('origin') || (req as any).nextUrl?.origin || '';
-          if (origin) {
-            await fetch(`${origin}/api/media/ingest`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ chain: normalizeChainKeyForDb(chainParam), contract: contract!.toLowerCase(), tokenId: String(tokenId), sourceUri: null })
-            }).catch(() => undefined);
+          enqueueTokenForIngest({ chain: normalizeChainKeyForDb(chainParam), contract: contract!.toLowerCase(), tokenId: String(tokenId) });
 
+          // Our own origin - never the request's Origin header
+          const origin = req.nextUrl.origin;
+          if (origin) {
             // Opportunistically trigger a small batch for this contract (cooldown to avoid spam)
             try {
               const now = Date.now();
@@ -573,10 +625,14 @@ export async function HEAD(req: NextRequest) {
               const cooldownMs = IS_DEV ? 3000 : 30000;
               if (now - last > cooldownMs) {
                 lastRunBatchAtByContract.set(cKey, now);
+                const secret = process.env.MEDIA_INGEST_SECRET;
                 await fetch(`${origin}/api/media/run-batch`, {
                   method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ contract: cKey, limit: 25, ignoreRetryAfter: '1', apiKey: process.env.ALCHEMY_KEY || '' })
+                  headers: {
+                    'Content-Type': 'application/json',
+                    ...(secret ? { Authorization: `Bearer ${secret}` } : {})
+                  },
+                  body: JSON.stringify({ contract: cKey, limit: 25 })
                 }).catch(() => undefined);
               }
             } catch {}
@@ -695,11 +751,16 @@ function simpleHash(str: string): number {
   return Math.abs(hash);
 }
 
-async function fetchUpstream(url: string): Promise<UpstreamResult> {
+// `signal` lets a hedged race cancel the request once another gateway has answered
+// publicOnly: the URL came from the request, so it (and any redirect) must reach a public https host
+async function fetchUpstream(url: string, signal?: AbortSignal, publicOnly = false): Promise<UpstreamResult> {
   try {
     const ctrl = new AbortController();
     const timeout = setTimeout(() => ctrl.abort(), 7000);
-    const resp = await fetch(url, { redirect: 'follow', signal: ctrl.signal as any });
+    signal?.addEventListener('abort', () => ctrl.abort(), { once: true });
+    const resp = publicOnly
+      ? await fetchPublicUrl(url, { signal: ctrl.signal })
+      : await fetch(url, { redirect: 'follow', signal: ctrl.signal as any });
     clearTimeout(timeout);
     if (!resp.ok || !resp.body) {
       return { ok: false, status: resp.status || 502, contentType: 'application/octet-stream', body: null };
@@ -714,6 +775,30 @@ async function fetchUpstream(url: string): Promise<UpstreamResult> {
   }
 }
 
+// Upstream originals are re-encoded per request (after coalescing, since Accept/Save-Data differ per client);
+// pre-generated variants, redirects and placeholders carry an X-Img-Source and pass through
+async function maybeTranscode(result: UpstreamResult, request: TranscodeRequest): Promise<UpstreamResult> {
+  if (!ENABLE_TRANSCODE || result.status !== 200 || !result.ok || !result.body || result.headers?.['X-Img-Source']) return result;
+  if (!isLikelyImage(result.body, result.contentType) || result.contentType.includes('svg')) return result;
+
+  try {
+    const transcoded = await transcodeImage(result.body, request);
+    if (!transcoded) return result;
+
+    const params = `${transcoded.format};w=${transcoded.width}${request.saveData ? ';save-data' : ''}`;
+    return {
+      ...result,
+      contentType: transcoded.contentType,
+      body: transcoded.body,
+      etag: result.etag ? `W/"${result.etag.replace(/^W\//, '').replace(/"/g, '')}-${transcoded.format}-${transcoded.width}"` : null,
+      headers: { ...(result.headers || {}), 'X-Img-Source': 'upstream-transcoded', 'X-Img-Transcode': params }
+    };
+  } catch (error) {
+    console.log('⚠️ Image transcode failed, serving original:', error instanceof Error ? error.message : error);
+    return result;
+  }
+}
+
 function buildResponseFromUpstream(result: UpstreamResult): Response {
   // Allow 302 redirects without body
   if (result.status === 302 && result.headers?.Location) {
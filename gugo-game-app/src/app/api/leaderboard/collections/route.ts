@@ -0,0 +1,17 @@
+// Collections available on the leaderboard
+// GET /api/leaderboard/collections
+
+import { NextResponse } from "next/server";
+import { getLeaderboardCollections } from "@lib/leaderboard";
+
+export async function GET() {
+  try {
+    const collections = await getLeaderboardCollections();
+    const res = NextResponse.json({ collections });
+    res.headers.set('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load leaderboard collections:', error);
+    return NextResponse.json({ error: 'Failed to load collections' }, { status: 500 });
+  }
+}
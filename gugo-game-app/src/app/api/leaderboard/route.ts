@@ -0,0 +1,19 @@
+// Public NFT leaderboard - global or per collection
+// GET /api/leaderboard?collection=&sort=elo|win_rate|slider|movers&window=all|1d|7d|30d&minVotes=0&page=0&pageSize=25
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLeaderboard, parseLeaderboardQuery } from "@lib/leaderboard";
+
+export async function GET(req: NextRequest) {
+  const query = parseLeaderboardQuery(req.nextUrl.searchParams);
+
+  try {
+    const result = await getLeaderboard(query);
+    const res = NextResponse.json(result);
+    res.headers.set('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load leaderboard:', error);
+    return NextResponse.json({ error: 'Failed to load leaderboard' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// Next queued matchup for this visitor
+// GET /api/matchup - signed-in wallets (from the session cookie) skip what they already judged;
+// anonymous visitors get the top of the queue and deduplicate client-side (lib/seen-matchups.ts)
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { getUserIdByWallet } from "@lib/vote-ledger";
+import { SEEN_WINDOW_DAYS } from "@lib/seen-matchups";
+
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    const userId = session ? await getUserIdByWallet(session.address) : null;
+
+    const { data, error } = await supabaseAdmin.rpc('get_instant_matchup', {
+      preferred_vote_type: null, // Let the queue decide
+      p_user_id: userId,
+      p_reserved_by: session ? session.address.toLowerCase() : `anon_${Date.now()}`,
+      p_seen_window_days: SEEN_WINDOW_DAYS
+    });
+    if (error) throw error;
+
+    const res = NextResponse.json({ matchup: data?.[0] ?? null });
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to fetch queued matchup:', error);
+    return NextResponse.json({ error: 'Failed to fetch queued matchup' }, { status: 500 });
+  }
+}
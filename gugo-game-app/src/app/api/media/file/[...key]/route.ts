@@ -0,0 +1,38 @@
+// Serves objects from the local MediaStore - GET /api/media/file/media/<hash>/w512.webp?expires=&sig=
+// URLs come from getMediaUrl() / signLocalMediaUrl(); with MEDIA_STORAGE=s3 files are fetched from the bucket instead
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMediaStoreName, isValidMediaKey, verifyLocalMediaSignature } from "@/lib/media-store";
+import { getMediaStore } from "@/lib/media-store-local";
+
+export const runtime = "nodejs";
+
+interface MediaFileRouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+export async function GET(req: NextRequest, { params }: MediaFileRouteContext) {
+  const key = (await params).key.join('/');
+  if (getMediaStoreName() !== 'local' || !isValidMediaKey(key)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { searchParams } = req.nextUrl;
+  if (!(await verifyLocalMediaSignature(key, searchParams.get('expires'), searchParams.get('sig')))) {
+    return NextResponse.json({ error: 'Invalid or expired media URL' }, { status: 403 });
+  }
+
+  const object = await getMediaStore().get(key);
+  if (!object) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+  return new Response(Buffer.from(object.body), {
+    headers: {
+      'Content-Type': object.contentType || 'application/octet-stream',
+      'Content-Length': String(object.size),
+      // Keys are content-addressed, so the bytes behind a key never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      ...(object.etag ? { 'ETag': object.etag } : {}),
+      ...(object.lastModified ? { 'Last-Modified': object.lastModified } : {})
+    }
+  });
+}
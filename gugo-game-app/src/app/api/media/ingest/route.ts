@@ -0,0 +1,43 @@
+// Media ingest queue - POST { chain, contract, tokenId } to queue a token's media
+// The worker (/api/media/run-batch) fetches the token's own nfts.image; no source URL is accepted here.
+// Only known NFTs are queued, and requests are rate limited per client IP.
+
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueMediaIngest, type MediaIngestRequest } from "@/lib/media-ingest-queue";
+import { clientIp, createRateLimiter, tooManyRequestsHeaders } from "@/lib/rate-limit";
+
+const ENQUEUE_WINDOW_MS = 60 * 1000;
+const enqueueLimiter = createRateLimiter({ limit: 30, windowMs: ENQUEUE_WINDOW_MS });
+
+export async function POST(req: NextRequest) {
+  if (!enqueueLimiter.take(clientIp(req.headers))) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: tooManyRequestsHeaders(ENQUEUE_WINDOW_MS) });
+  }
+
+  let body: Partial<MediaIngestRequest>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { chain, contract, tokenId } = body;
+  if (typeof contract !== 'string' || !contract || tokenId == null || String(tokenId) === '') {
+    return NextResponse.json({ error: 'contract and tokenId are required' }, { status: 400 });
+  }
+
+  try {
+    const status = await enqueueMediaIngest({
+      chain: typeof chain === 'string' ? chain : 'eip155:2741',
+      contract,
+      tokenId: String(tokenId)
+    });
+    if (!status) {
+      return NextResponse.json({ error: 'Unknown token' }, { status: 404 });
+    }
+    return NextResponse.json({ status }, { status: status === 'ok' ? 200 : 202 });
+  } catch (error) {
+    console.error('❌ Failed to enqueue media ingest:', error);
+    return NextResponse.json({ error: 'Failed to enqueue media ingest' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// Media failure reports - POST { nftId, reason, gateway?, mediaUrl? } from browsers that gave up on an NFT
+// Each signed-in wallet counts once toward auto-exclusion; anonymous reports are recorded but don't
+// count (see src/lib/media-moderation.ts). Rate limited per wallet, else per client IP.
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { recordMediaFailure, reporterKey } from "@/lib/media-moderation";
+import { clientIp, createRateLimiter, tooManyRequestsHeaders } from "@/lib/rate-limit";
+import { CLIENT_FAILURE_REASONS, type MediaFailureReason } from "@/types/moderation";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// A matchup shows two NFTs, so even a bad run of broken media stays well under this
+const REPORT_WINDOW_MS = 60 * 1000;
+const reportLimiter = createRateLimiter({ limit: 10, windowMs: REPORT_WINDOW_MS });
+
+export async function POST(req: NextRequest) {
+  const session = await getSession(req).catch(() => null);
+  if (!reportLimiter.take(session ? `wallet:${session.address.toLowerCase()}` : `ip:${clientIp(req.headers)}`)) {
+    return NextResponse.json({ error: 'Too many reports' }, { status: 429, headers: tooManyRequestsHeaders(REPORT_WINDOW_MS) });
+  }
+
+  let body: { nftId?: unknown; reason?: unknown; gateway?: unknown; mediaUrl?: unknown };
+  try {
+    // sendBeacon posts text/plain, so parse the raw body rather than relying on the content type
+    body = JSON.parse(await req.text());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const nftId = typeof body?.nftId === 'string' ? body.nftId : '';
+  if (!UUID_PATTERN.test(nftId)) {
+    return NextResponse.json({ error: 'nftId must be a UUID' }, { status: 400 });
+  }
+  const reason = body.reason as MediaFailureReason;
+  if (!CLIENT_FAILURE_REASONS.includes(reason)) {
+    return NextResponse.json({ error: `reason must be one of ${CLIENT_FAILURE_REASONS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const status = await recordMediaFailure({
+      nftId,
+      reason,
+      gateway: typeof body.gateway === 'string' ? body.gateway : null,
+      mediaUrl: typeof body.mediaUrl === 'string' ? body.mediaUrl : null
+    }, session ? reporterKey(`wallet:${session.address}`) : null);
+
+    return NextResponse.json({ status });
+  } catch (error) {
+    console.error('❌ Failed to record media failure:', error);
+    return NextResponse.json({ error: 'Failed to record media failure' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+// Media ingest worker trigger - POST { contract?, limit?, ignoreRetryAfter? } processes queued tokens
+// Anyone may run a small batch of due tokens, rate limited per client address; the /api/img HEAD handler
+// triggers batches per contract with a cooldown and sends the secret when one is configured.
+// Larger backfills and ignoreRetryAfter need Authorization: Bearer $MEDIA_INGEST_SECRET or npm run media:ingest.
+
+import { NextRequest, NextResponse } from "next/server";
+import { processMediaIngestBatch } from "@/lib/media-ingest-worker";
+import { clientIp, createRateLimiter, tooManyRequestsHeaders } from "@/lib/rate-limit";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const PUBLIC_BATCH_LIMIT = 25;
+const AUTHORIZED_BATCH_LIMIT = 200;
+// Each public batch fetches up to 25 sources, so allow a couple per client and a small total per instance
+const PUBLIC_BATCH_WINDOW_MS = 60 * 1000;
+const publicBatchLimiter = createRateLimiter({ limit: 2, windowMs: PUBLIC_BATCH_WINDOW_MS });
+const publicBatchTotalLimiter = createRateLimiter({ limit: 10, windowMs: PUBLIC_BATCH_WINDOW_MS });
+
+export async function POST(req: NextRequest) {
+  const secret = process.env.MEDIA_INGEST_SECRET;
+  const authorized = !!secret && req.headers.get('authorization') === `Bearer ${secret}`;
+  if (!authorized && (!publicBatchLimiter.take(clientIp(req.headers)) || !publicBatchTotalLimiter.take('all'))) {
+    return NextResponse.json({ error: 'Too many batches' }, { status: 429, headers: tooManyRequestsHeaders(PUBLIC_BATCH_WINDOW_MS) });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  const maxLimit = authorized ? AUTHORIZED_BATCH_LIMIT : PUBLIC_BATCH_LIMIT;
+  const limit = Math.max(1, Math.min(maxLimit, parseInt(String(body.limit ?? PUBLIC_BATCH_LIMIT), 10) || PUBLIC_BATCH_LIMIT));
+  const contract = typeof body.contract === 'string' && body.contract ? body.contract.toLowerCase() : undefined;
+  // Skipping backoff is an operator action; public batches only pick up tokens that are due
+  const ignoreRetryAfter = authorized && (body.ignoreRetryAfter === true || body.ignoreRetryAfter === '1');
+
+  try {
+    const results = await processMediaIngestBatch({ limit, contract, ignoreRetryAfter });
+    return NextResponse.json({
+      processed: results.length,
+      ok: results.filter(result => result.status === 'ok').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      results
+    });
+  } catch (error) {
+    console.error('❌ Media ingest batch failed:', error);
+    return NextResponse.json({ error: 'Media ingest batch failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// Prize break queue refill - POST { breakStartTime } from a signed-in player's prize break
+// Refills run here rather than in the browser so every run is logged (record_queue_refill_run is
+// service role only); rate limited per wallet since each refill writes to matchup_queue. The refill is
+// sized from the wallet's stored vote total and a break length capped at MAX_BREAK_DURATION_MS.
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { refillDuringPrizeBreak } from "@lib/queue-refill";
+import { recordRefillRun } from "@lib/queue-admin";
+import { createRateLimiter, tooManyRequestsHeaders } from "@/lib/rate-limit";
+
+export const maxDuration = 60;
+
+// A prize break ends in one refill, plus one more if it runs past 30 seconds
+const REFILL_WINDOW_MS = 60 * 1000;
+const refillLimiter = createRateLimiter({ limit: 3, windowMs: REFILL_WINDOW_MS });
+// Refill sizing tops out at 30 second breaks; anything longer counts as this
+const MAX_BREAK_DURATION_MS = 60 * 1000;
+
+export async function POST(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!refillLimiter.take(session.address.toLowerCase())) {
+    return NextResponse.json({ error: 'Too many refills' }, { status: 429, headers: tooManyRequestsHeaders(REFILL_WINDOW_MS) });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const breakStartTime = Number(body.breakStartTime);
+  const now = Date.now();
+  if (!Number.isFinite(breakStartTime) || breakStartTime > now) {
+    return NextResponse.json({ error: 'breakStartTime is required' }, { status: 400 });
+  }
+
+  try {
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('users')
+      .select('total_votes')
+      .eq('wallet_address', session.address)
+      .maybeSingle();
+    if (userError) throw userError;
+
+    const voteCount = Math.max(0, user?.total_votes ?? 0);
+    const cappedStartTime = Math.max(breakStartTime, now - MAX_BREAK_DURATION_MS);
+    const result = await recordRefillRun('prize_break', await refillDuringPrizeBreak(voteCount, cappedStartTime));
+    const res = NextResponse.json({ result });
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Prize break refill failed:', error);
+    return NextResponse.json({ error: 'Queue refill failed' }, { status: 500 });
+  }
+}
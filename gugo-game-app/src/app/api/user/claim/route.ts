@@ -0,0 +1,42 @@
+// Daily free vote claim for the signed-in wallet (once per 24 hours, credited to the vote ledger)
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { getSession } from "@lib/session";
+import { claimDailyFreeVotes, DAILY_FREE_VOTES } from "@lib/vote-ledger";
+
+export async function POST(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let claim;
+  try {
+    claim = await claimDailyFreeVotes(session.address);
+  } catch (error) {
+    console.error('❌ Failed to claim free votes:', error);
+    return NextResponse.json({ error: 'Failed to claim free votes' }, { status: 500 });
+  }
+
+  if (!claim.claimed) {
+    return NextResponse.json(
+      { error: 'Free votes already claimed today', nextClaimAt: claim.nextClaimAt, balance: claim.balance },
+      { status: 409 }
+    );
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('*')
+    .eq('wallet_address', session.address)
+    .single();
+
+  return NextResponse.json({
+    success: true,
+    votesAdded: DAILY_FREE_VOTES,
+    balance: claim.balance,
+    nextClaimAt: claim.nextClaimAt,
+    user
+  });
+}
@@ -0,0 +1,32 @@
+// Free votes when the media system fails mid-session
+// Only granted for a media failure this wallet reported (POST /api/media/report) within the last
+// hour that the server confirms (NFT auto-excluded or its ingest failed), once per report and at most
+// once a day - see grantMediaFailureCompensation().
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { getUserIdByWallet } from "@lib/vote-ledger";
+import { CompensationError, grantMediaFailureCompensation } from "@/lib/media-moderation";
+
+export async function POST(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const userId = await getUserIdByWallet(session.address);
+  if (!userId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  try {
+    const result = await grantMediaFailureCompensation(userId, session.address);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof CompensationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Failed to grant compensation votes:', error);
+    return NextResponse.json({ error: 'Failed to grant votes' }, { status: 500 });
+  }
+}
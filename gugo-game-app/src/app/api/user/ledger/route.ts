@@ -0,0 +1,32 @@
+// Paginated vote ledger history for the signed-in wallet
+// GET /api/user/ledger?page=0&pageSize=20
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { getLedgerPage, getUserIdByWallet } from "@lib/vote-ledger";
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const userId = await getUserIdByWallet(session.address);
+  if (!userId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const { searchParams } = req.nextUrl;
+  const page = parseInt(searchParams.get('page') || '0', 10) || 0;
+  const pageSize = parseInt(searchParams.get('pageSize') || '20', 10) || 20;
+
+  try {
+    const result = await getLedgerPage(userId, page, pageSize);
+    const res = NextResponse.json(result);
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load vote ledger:', error);
+    return NextResponse.json({ error: 'Failed to load vote history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+// On-chain prize break claims for the signed-in wallet, newest first
+// GET /api/user/prize-claims?limit=20
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { getPrizeClaims, MAX_PRIZE_CLAIMS_PER_PAGE } from "@lib/prize-claims";
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const limit = parseInt(req.nextUrl.searchParams.get('limit') || '20', 10) || MAX_PRIZE_CLAIMS_PER_PAGE;
+
+  try {
+    const claims = await getPrizeClaims(session.address, limit);
+    const res = NextResponse.json({ claims });
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load prize claims:', error);
+    return NextResponse.json({ error: 'Failed to load prize claims' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// Credit an on-chain vote purchase to the signed-in wallet's vote ledger
+// POST /api/user/purchase { txHash, chainId } - safe to retry, each VotesPurchased event credits once
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { creditVotePurchase, PurchaseVerificationError } from "@lib/purchase-verifier";
+
+export async function POST(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  let body: { txHash?: unknown; chainId?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof body.txHash !== 'string' || typeof body.chainId !== 'number') {
+    return NextResponse.json({ error: 'txHash and chainId are required' }, { status: 400 });
+  }
+
+  try {
+    const result = await creditVotePurchase(session.address, body.chainId, body.txHash);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof PurchaseVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Failed to credit vote purchase:', error);
+    return NextResponse.json({ error: 'Failed to credit vote purchase' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// Pairs and slider NFTs the signed-in wallet judged within the seen window
+// GET /api/user/seen-matchups
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { getUserIdByWallet } from "@lib/vote-ledger";
+import { SEEN_WINDOW_DAYS, type SeenMatchupItem } from "@lib/seen-matchups";
+
+const MAX_SEEN_ITEMS = 5000;
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const userId = await getUserIdByWallet(session.address);
+  if (!userId) {
+    return NextResponse.json({ items: [], windowDays: SEEN_WINDOW_DAYS });
+  }
+
+  const since = new Date(Date.now() - SEEN_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('user_seen_matchups')
+    .select('item_key, last_seen_at')
+    .eq('user_id', userId)
+    .gt('last_seen_at', since)
+    .order('last_seen_at', { ascending: false })
+    .limit(MAX_SEEN_ITEMS);
+
+  if (error) {
+    console.error('❌ Failed to load seen matchups:', error);
+    return NextResponse.json({ error: 'Failed to load seen matchups' }, { status: 500 });
+  }
+
+  const items: SeenMatchupItem[] = (data ?? []).map(row => ({ key: row.item_key, seenAt: row.last_seen_at }));
+  const res = NextResponse.json({ items, windowDays: SEEN_WINDOW_DAYS });
+  res.headers.set('Cache-Control', 'no-store');
+  return res;
+}
@@ -0,0 +1,27 @@
+// Signed-in user's profile and stats
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { getSession } from "@lib/session";
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const { data: user, error } = await supabaseAdmin
+    .from('users')
+    .select('*')
+    .eq('wallet_address', session.address)
+    .single();
+
+  if (error || !user) {
+    console.error('❌ Failed to load user stats:', error);
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const res = NextResponse.json({ user });
+  res.headers.set('Cache-Control', 'no-store');
+  return res;
+}
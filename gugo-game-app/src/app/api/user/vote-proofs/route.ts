@@ -0,0 +1,46 @@
+// Merkle inclusion proofs for the signed-in wallet's votes
+// GET /api/user/vote-proofs?voteId=<uuid>  - one vote (404 until its period has been batched)
+// GET /api/user/vote-proofs?limit=20       - latest batched votes
+// Save a proof as JSON and check it with: npx tsx scripts/verify-vote-proof.ts --file proof.json
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@lib/session";
+import { getUserIdByWallet } from "@lib/vote-ledger";
+import { getUserVoteProofs, MAX_PROOFS_PER_PAGE } from "@lib/vote-batches";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const userId = await getUserIdByWallet(session.address);
+  if (!userId) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const { searchParams } = req.nextUrl;
+  const voteId = searchParams.get('voteId');
+  const limit = parseInt(searchParams.get('limit') || String(MAX_PROOFS_PER_PAGE), 10) || MAX_PROOFS_PER_PAGE;
+
+  if (voteId && !UUID_PATTERN.test(voteId)) {
+    return NextResponse.json({ error: 'Invalid vote id' }, { status: 400 });
+  }
+
+  try {
+    const proofs = await getUserVoteProofs(userId, { voteId: voteId ?? undefined, limit });
+
+    if (voteId && proofs.length === 0) {
+      return NextResponse.json({ error: 'Vote not batched yet - proofs appear once its period closes' }, { status: 404 });
+    }
+
+    const res = NextResponse.json(voteId ? { proof: proofs[0] } : { proofs });
+    res.headers.set('Cache-Control', 'no-store');
+    return res;
+  } catch (error) {
+    console.error('❌ Failed to load vote proofs:', error);
+    return NextResponse.json({ error: 'Failed to load vote proofs' }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+// Vote submission API
+// Applies Elo / slider update, ledger spend, queue cleanup and user stats in one DB transaction (submit_vote)
+
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@lib/supabase-server";
+import { getSession } from "@lib/session";
+import { VOTE_COSTS } from "@lib/vote-ledger";
+import { getRatingEngine, toRatingState, SUPER_VOTE_RATING_MULTIPLIER } from "@lib/rating-engine";
+import type { VoteSubmission, VoteResult } from "@/types/voting";
+
+const PRIZE_BREAK_INTERVAL = 10;
+const MAX_RATING_RETRIES = 3; // Retries when another vote moved the same NFT first
+const SERIALIZATION_FAILURE = '40001';
+
+type SubmitVoteRequest = {
+  vote: VoteSubmission;
+};
+
+function validateVote(vote: VoteSubmission | undefined): string | null {
+  if (!vote || typeof vote !== 'object') return 'Missing vote data';
+  if (!['same_coll', 'cross_coll', 'slider'].includes(vote.vote_type)) return 'Invalid vote type';
+
+  if (vote.vote_type === 'slider') {
+    if (!vote.nft_a_id || typeof vote.slider_value !== 'number') return 'Invalid slider vote data';
+    if (vote.slider_value < 0 || vote.slider_value > 10) return 'Slider value must be between 0 and 10';
+    return null;
+  }
+
+  if (!vote.nft_a_id || !vote.nft_b_id || !vote.winner_id) return 'Invalid matchup vote data';
+  if (vote.winner_id !== vote.nft_a_id && vote.winner_id !== vote.nft_b_id) return 'Winner is not part of this matchup';
+  return null;
+}
+
+// Compute new ratings with the deployment's RatingEngine from the NFTs' current state.
+// The expected versions let submit_vote() reject the update if either NFT changed meanwhile.
+async function buildRatingUpdate(vote: VoteSubmission) {
+  if (vote.vote_type === 'slider') return null;
+
+  const { data: rows, error } = await supabaseAdmin
+    .from('nfts')
+    .select('id, current_elo, rating_deviation, rating_volatility, rating_version')
+    .in('id', [vote.nft_a_id, vote.nft_b_id]);
+
+  const rowA = rows?.find(r => r.id === vote.nft_a_id);
+  const rowB = rows?.find(r => r.id === vote.nft_b_id);
+  if (error || !rowA || !rowB) return null; // submit_vote reports the missing NFT
+
+  const engine = getRatingEngine();
+  const { a, b } = engine.update(
+    toRatingState(rowA, engine),
+    toRatingState(rowB, engine),
+    vote.winner_id === rowA.id ? 'a' : 'b',
+    vote.super_vote ? SUPER_VOTE_RATING_MULTIPLIER : 1
+  );
+
+  return {
+    engine: engine.name,
+    a: { ...a, expected_version: rowA.rating_version ?? 0 },
+    b: { ...b, expected_version: rowB.rating_version ?? 0 }
+  };
+}
+
+export async function POST(req: NextRequest) {
+  // The voter is whoever holds the signed session - never a client-supplied address
+  const session = await getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in with your wallet to vote' }, { status: 401 });
+  }
+
+  let body: SubmitVoteRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { vote } = body;
+
+  const validationError = validateVote(vote);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const { queueId, ...engagementData } = vote.engagement_data || {};
+
+  const submit = async () => supabaseAdmin.rpc('submit_vote', {
+    p_wallet_address: session.address,
+    p_vote_type: vote.vote_type,
+    p_nft_a_id: vote.nft_a_id ?? null,
+    p_nft_b_id: vote.nft_b_id ?? null,
+    p_winner_id: vote.winner_id ?? null,
+    p_slider_value: vote.slider_value ?? null,
+    p_super_vote: !!vote.super_vote,
+    p_queue_id: typeof queueId === 'string' ? queueId : null,
+    p_engagement_data: {
+      ...engagementData,
+      timestamp: new Date().toISOString(),
+      user_agent: req.headers.get('user-agent')
+    },
+    p_rating_update: await buildRatingUpdate(vote)
+  });
+
+  let { data, error } = await submit();
+  for (let attempt = 1; error?.code === SERIALIZATION_FAILURE && attempt < MAX_RATING_RETRIES; attempt++) {
+    console.log(`🔁 Rating conflict, retrying vote (attempt ${attempt + 1})`);
+    ({ data, error } = await submit());
+  }
+
+  if (error || !data || data.length === 0) {
+    console.error('❌ submit_vote failed:', error);
+    return NextResponse.json({ error: `Failed to record vote: ${error?.message || 'no result'}` }, { status: 500 });
+  }
+
+  const row = data[0] as { vote_id: string | null; user_total_votes: number; available_votes: number; insufficient_votes: boolean };
+
+  if (row.insufficient_votes) {
+    const result: VoteResult = {
+      hash: 'insufficient-votes',
+      voteId: null,
+      isPrizeBreak: false,
+      voteCount: row.user_total_votes,
+      insufficientVotes: true,
+      requiredVotes: vote.super_vote ? VOTE_COSTS.super : VOTE_COSTS.regular,
+      availableVotes: row.available_votes
+    };
+    return NextResponse.json(result);
+  }
+
+  // Prize breaks follow the wallet's stored vote total (after this vote), not a client-sent count
+  const result: VoteResult = {
+    hash: 'vote-processed',
+    voteId: row.vote_id,
+    isPrizeBreak: row.user_total_votes > 0 && row.user_total_votes % PRIZE_BREAK_INTERVAL === 0,
+    voteCount: row.user_total_votes,
+    insufficientVotes: false,
+    availableVotes: row.available_votes
+  };
+  return NextResponse.json(result);
+}
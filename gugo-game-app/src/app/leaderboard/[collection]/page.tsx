@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import LeaderboardView from "@/components/LeaderboardView";
+
+interface CollectionLeaderboardPageProps {
+  params: Promise<{ collection: string }>;
+}
+
+export async function generateMetadata({ params }: CollectionLeaderboardPageProps): Promise<Metadata> {
+  const collection = decodeURIComponent((await params).collection);
+  return {
+    title: `${collection} Leaderboard · Taste Machine`,
+    description: `Top-rated ${collection} NFTs, ranked by Taste Machine voters`,
+  };
+}
+
+export default async function CollectionLeaderboardPage({ params }: CollectionLeaderboardPageProps) {
+  const collection = decodeURIComponent((await params).collection);
+  return <LeaderboardView collection={collection} />;
+}
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import LeaderboardView from "@/components/LeaderboardView";
+
+export const metadata: Metadata = {
+  title: "Leaderboard · Taste Machine",
+  description: "Top-rated NFTs across every collection, ranked by Taste Machine voters",
+};
+
+export default function LeaderboardPage() {
+  return <LeaderboardView collection={null} />;
+}
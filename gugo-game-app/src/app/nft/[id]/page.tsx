@@ -0,0 +1,30 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import NftDetailView from "@/components/NftDetailView";
+import { getNftDetail } from "@lib/nft-detail";
+
+// Rebuilt from votes on each request so the chart and records include the latest votes
+export const dynamic = "force-dynamic";
+
+// Metadata and the page share one load per request
+const loadNftDetail = cache(getNftDetail);
+
+interface NftDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: NftDetailPageProps): Promise<Metadata> {
+  const detail = await loadNftDetail((await params).id);
+  if (!detail) return { title: "NFT not found · Taste Machine" };
+  return {
+    title: `${detail.nft.name} · Taste Machine`,
+    description: `${detail.nft.name} from ${detail.nft.collection_name}: Elo ${Math.round(detail.nft.current_elo)}, rating history and head-to-head record`,
+  };
+}
+
+export default async function NftDetailPage({ params }: NftDetailPageProps) {
+  const detail = await loadNftDetail((await params).id);
+  if (!detail) notFound();
+  return <NftDetailView detail={detail} />;
+}
@@ -1,29 +1,24 @@
 "use client"
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import MatchupCard from '@/components/MatchupCard';
 import StatusBar from '@/components/StatusBar';
 import WalletConnect from '@/components/WalletConnect';
 import PurchaseAlert from '@/components/PurchaseAlert';
+import PrizeBreakClaim from '@/components/PrizeBreakClaim';
 import { useVote } from '@/hooks/useVote';
 import { usePrizeBreak } from '@/hooks/usePrizeBreak';
+import { usePrizeBreakClaim } from '@/hooks/usePrizeBreakClaim';
+import { holdsPrizeBreak } from '@/lib/prize-break';
 import { fetchVotingSession } from '@lib/matchup';
 import { votingPreloader } from '@lib/preloader';
+import { seenMatchups } from '@lib/seen-matchups';
 import { useAccount } from 'wagmi';
 import type { VotingSession, VoteSubmission } from '@/types/voting';
 import { fixImageUrl, getNextIPFSGateway, ipfsGatewayManager } from '@lib/ipfs-gateway-manager';
-import { supabase } from '@lib/supabase';
-
-// 🔢 Simple hash function for consistent placeholders
-const simpleHash = (str: string): number => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-};
+import VideoNftMedia from '@/components/VideoNftMedia';
+import { thumbhashBackground } from '@/lib/thumbhash';
+import { reportMediaFailure } from '@/lib/media-failure-reports';
 
 
 
@@ -61,11 +56,17 @@ export default function Page() {
   const [showPurchaseAlert, setShowPurchaseAlert] = useState(false);
   const [requiredVotes, setRequiredVotes] = useState(5);
   const [imageFailureCount, setImageFailureCount] = useState(0);
+  const [sliderMediaHovered, setSliderMediaHovered] = useState(false);
   const [maintenanceMode, setMaintenanceMode] = useState(false);
   const [freeVotesPrizeBreak, setFreeVotesPrizeBreak] = useState(false);
   const { submitVote, vote, isVoting } = useVote();
   const { prizeBreakState, startPrizeBreak, endPrizeBreak } = usePrizeBreak();
+  const prizeClaim = usePrizeBreakClaim();
   const { address, isConnected } = useAccount();
+
+  // Read by the prize break auto-end timer, which only sees the state of the vote that started it
+  const holdPrizeBreakRef = useRef(false);
+  holdPrizeBreakRef.current = holdsPrizeBreak(prizeClaim.state, prizeClaim.info);
   
   // Current blockchain - can be made dynamic in the future
   const currentChain = "Abstract";
@@ -88,6 +89,12 @@ export default function Page() {
     });
   };
 
+  // 🎁 Re-read on-chain rewards each time a prize break opens
+  const { refresh: refreshPrizeClaim } = prizeClaim;
+  useEffect(() => {
+    if (prizeBreakState.isActive) refreshPrizeClaim();
+  }, [prizeBreakState.isActive, refreshPrizeClaim]);
+
   // 🔄 Reset slider when session changes
   useEffect(() => {
     if (votingSession?.vote_type === 'slider') {
@@ -100,6 +107,9 @@ export default function Page() {
     try {
       setError(null);
       
+      // Load (or switch to) this wallet's judged matchups so repeats are skipped
+      await seenMatchups.load(address);
+      
       // Try to get from preloader first (instant)
       const preloadedSession = votingPreloader.getNextSession();
       updatePreloaderStatus(); // Update status after getting session
@@ -134,8 +144,8 @@ export default function Page() {
       console.log('🔥 Initializing voting preloader...');
       await votingPreloader.initialize();
       
-      // 🚫👻 Force clear any old cached sessions with unrevealed NFTs
-      console.log('🔄 Forcing full reset to apply unrevealed NFT filters...');
+      // 🚫👻 Force clear any old cached sessions with now-ineligible NFTs
+      console.log('🔄 Forcing full reset to apply collection rules...');
       await votingPreloader.forceFullReset();
       
       setPreloaderReady(true);
@@ -205,11 +215,11 @@ export default function Page() {
         voteData.winner_id = winnerId;
       }
 
-      const result = await submitVote(voteData, address, userVoteCount);
+      const result = await submitVote(voteData, address);
       
       // Check for insufficient votes
       if (result.insufficientVotes) {
-        console.log(`💳 Insufficient votes for super vote: need ${result.requiredVotes || 5}`);
+        console.log(`💳 Insufficient votes: need ${result.requiredVotes || 5}`);
         setRequiredVotes(result.requiredVotes || 5);
         setShowPurchaseAlert(true);
         return; // Don't proceed with vote
@@ -233,6 +243,10 @@ export default function Page() {
         
         // Show prize break UI for 3 seconds minimum, then end break
         setTimeout(async () => {
+          if (holdPrizeBreakRef.current) {
+            console.log('🎁 On-chain reward to claim, keeping prize break open');
+            return;
+          }
           try {
             console.log('⏰ Auto-ending prize break after 3 seconds...');
             const refillResult = await endPrizeBreak();
@@ -280,11 +294,9 @@ export default function Page() {
     setShowWalletConnect(true);
   };
 
-  // 💳 Handle vote purchase
-  const handlePurchaseVotes = () => {
-    console.log('💳 Opening vote purchase...');
-    // TODO: Integrate with payment system
-    alert('💳 Vote purchase coming soon! This will open a payment interface to buy more votes.');
+  // 💳 Votes bought on-chain and credited (StatusBar refreshes its balance on its own)
+  const handleVotesPurchased = (votesAdded: number) => {
+    console.log(`💳 Purchased ${votesAdded} votes`);
     setShowPurchaseAlert(false);
   };
 
@@ -299,30 +311,30 @@ export default function Page() {
     
     // First failure: Give 10 free votes and trigger prize break
     if (imageFailureCount === 0) {
-      console.log('🎁 Image loading issues detected - giving 10 free votes!');
+      console.log('🎁 Image loading issues detected - requesting free votes');
       
-      // Award 10 free votes to the user
+      // Award 10 free votes to the user (the server only credits failures it can confirm)
+      let votesAwarded = 0;
       if (address) {
         try {
-          await supabase
-            .from('users')
-            .upsert({
-              wallet_address: address,
-              available_votes: (userVoteCount || 0) + 10,
-              last_free_votes: new Date().toISOString()
-            }, {
-              onConflict: 'wallet_address'
-            });
+          const response = await fetch('/api/user/compensation', { method: 'POST' });
+          if (!response.ok) {
+            throw new Error(`Compensation request failed with status ${response.status}`);
+          }
           
-          setUserVoteCount(prev => prev + 10);
-          console.log('✅ Awarded 10 free votes to user');
+          const { votesAdded } = await response.json();
+          votesAwarded = Number(votesAdded) || 0;
+          if (votesAwarded > 0) {
+            setUserVoteCount(prev => prev + votesAwarded);
+            console.log(`✅ Awarded ${votesAwarded} free votes to user`);
+          }
         } catch (error) {
           console.error('❌ Error awarding free votes:', error);
         }
       }
       
-      // Trigger prize break with free votes message
-      setFreeVotesPrizeBreak(true);
+      // Prize break, with the free votes message only when votes were actually credited
+      setFreeVotesPrizeBreak(votesAwarded > 0);
       await startPrizeBreak(userVoteCount);
       
       // Try to reload sessions during prize break
@@ -652,12 +664,47 @@ export default function Page() {
                       opacity: isVoting ? 0.7 : 1
                     }}>
                       {/* Image Container */}
-                      <div style={{
-                        aspectRatio: '1',
-                        position: 'relative',
-                        overflow: 'hidden',
-                        background: 'var(--color-grey-100)'
-                      }}>
+                      <div
+                        style={{
+                          aspectRatio: '1',
+                          position: 'relative',
+                          overflow: 'hidden',
+                          backgroundColor: 'var(--color-grey-100)',
+                          ...thumbhashBackground(votingSession.nft.thumbhash)
+                        }}
+                        onMouseEnter={() => setSliderMediaHovered(true)}
+                        onMouseLeave={() => setSliderMediaHovered(false)}
+                      >
+                        {votingSession.nft.media_type === 'video' ? (
+                        <VideoNftMedia
+                          nftId={votingSession.nft.id}
+                          src={votingSession.nft.image}
+                          contract={votingSession.nft.collection_address ?? votingSession.nft.contract_address}
+                          tokenId={votingSession.nft.token_id}
+                          active={sliderMediaHovered && !isVoting}
+                          style={{
+                            width: '100%',
+                            height: '100%',
+                            objectFit: 'cover'
+                          }}
+                          onMediaFailure={async () => {
+                            console.log(`❌ Slider video failed for NFT ${votingSession.nft!.id}, skipping to next session...`);
+                            try {
+                              const nextSession = await votingPreloader.skipFailedSession();
+                              if (nextSession) {
+                                setVotingSession(nextSession);
+                                console.log(`✅ Loaded next session: ${nextSession.vote_type}`);
+                              } else {
+                                console.log('🚨 No valid sessions available - triggering graceful fallback');
+                                await handleImageSystemFailure();
+                              }
+                            } catch (error) {
+                              console.error('❌ Error skipping to next session:', error);
+                              await handleImageSystemFailure();
+                            }
+                          }}
+                        />
+                        ) : (
                         <img 
                           src={fixImageUrl(votingSession.nft.image)} 
                           alt={votingSession.nft.name}
@@ -671,6 +718,7 @@ export default function Page() {
                             // Set 5-second timeout for image loading
                             const timeoutId = setTimeout(() => {
                               console.log(`⏰ Image loading timeout for slider NFT ${votingSession.nft.id}, trying next gateway...`);
+                              target.dataset.timedOut = 'true';
                               target.dispatchEvent(new Event('error'));
                             }, 5000);
                             target.dataset.loadTimeout = timeoutId.toString();
@@ -689,6 +737,11 @@ export default function Page() {
                             // Check if we've already tried retrying this image 3 times
                             if (retryCount >= 3) {
                               console.log(`❌ All gateways failed for slider NFT ${votingSession.nft.id} after ${retryCount} attempts, skipping to next session...`);
+                              reportMediaFailure({
+                                nftId: votingSession.nft.id,
+                                reason: target.dataset.timedOut ? 'timeout' : 'load_failed',
+                                mediaUrl: target.src
+                              });
                               
                               // Skip to next session with working images
                               try {
@@ -709,6 +762,7 @@ export default function Page() {
                             
                             console.log(`❌ Slider image failed for NFT ${votingSession.nft.id} (attempt ${retryCount + 1}):`, target.src);
                             target.dataset.retryCount = (retryCount + 1).toString();
+                            delete target.dataset.timedOut; // the report reflects the last gateway tried
                             
                             const nextSrc = getNextIPFSGateway(target.src, votingSession.nft.image);
                             console.log(`🔄 Trying next gateway:`, nextSrc);
@@ -729,6 +783,7 @@ export default function Page() {
                             console.log(`✅ Slider image loaded for NFT ${votingSession.nft.id}`);
                           }}
                         />
+                        )}
                       </div>
                       
                       {/* White Info Section - Exact Matchup Card Style */}
@@ -1136,6 +1191,8 @@ export default function Page() {
                       `Congratulations! You've completed ${prizeBreakState.voteCount} votes.`
                     )}
                   </p>
+
+                  {!freeVotesPrizeBreak && <PrizeBreakClaim prizeClaim={prizeClaim} />}
                   
                   {prizeBreakState.refillInProgress && (
                     <div style={{ 
@@ -1269,7 +1326,7 @@ export default function Page() {
       {showPurchaseAlert && (
         <PurchaseAlert
           requiredVotes={requiredVotes}
-          onPurchase={handlePurchaseVotes}
+          onPurchased={handleVotesPurchased}
           onClose={handleClosePurchaseAlert}
         />
       )}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useAuth } from '@/hooks/useAuth';
+import WalletConnect from './WalletConnect';
+import type { AdminAccess } from '@/types/admin';
+
+// Shown by /admin pages while their API answers 401 (sign in) or 403 (wallet not in ADMIN_WALLETS)
+export default function AdminAccessNotice({ access, purpose }: { access: AdminAccess; purpose: string }) {
+  const { session, isAuthenticated, signIn, loading } = useAuth();
+
+  if (access === 'signed_out') {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--space-3)', alignItems: 'flex-start' }}>
+        <p style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          Connect and sign in with an admin wallet to {purpose}.
+        </p>
+        <WalletConnect />
+        {!isAuthenticated && (
+          <button
+            onClick={() => signIn()}
+            disabled={loading}
+            style={{
+              padding: 'var(--space-1) var(--space-3)',
+              borderRadius: 'var(--border-radius-sm)',
+              border: 'none',
+              cursor: 'pointer',
+              fontSize: 'var(--font-size-xs)',
+              fontWeight: '600',
+              background: 'var(--color-black)',
+              color: 'var(--color-white)'
+            }}
+          >
+            Sign in
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (access === 'forbidden') {
+    return (
+      <p style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+        {session?.address} is not an admin wallet.
+      </p>
+    );
+  }
+
+  return null;
+}
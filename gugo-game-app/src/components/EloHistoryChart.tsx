@@ -0,0 +1,61 @@
+import type { EloHistoryPoint } from '@/types/nft-detail';
+
+interface EloHistoryChartProps {
+  history: EloHistoryPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 24;
+
+// 📈 Elo after each matchup vote, as a plain SVG line (one x step per vote)
+export default function EloHistoryChart({ history, height = 200 }: EloHistoryChartProps) {
+  const points = history.filter((point): point is EloHistoryPoint & { elo: number } => point.elo != null);
+
+  if (points.length < 2) {
+    return (
+      <p style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-sm)' }}>
+        Not enough rated votes yet to chart this NFT&apos;s history.
+      </p>
+    );
+  }
+
+  const elos = points.map(point => point.elo);
+  const min = Math.min(...elos);
+  const max = Math.max(...elos);
+  const range = Math.max(max - min, 1);
+  const x = (i: number) => PADDING + (i / (points.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (elo: number) => PADDING + (1 - (elo - min) / range) * (height - PADDING * 2);
+  const line = points.map((point, i) => `${x(i).toFixed(1)},${y(point.elo).toFixed(1)}`).join(' ');
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width="100%"
+        role="img"
+        aria-label={`Elo went from ${Math.round(first.elo)} to ${Math.round(last.elo)} over ${points.length} votes`}
+        style={{ display: 'block', background: 'var(--color-grey-100)', borderRadius: 'var(--border-radius-sm)' }}
+      >
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(max)} y2={y(max)} stroke="var(--color-grey-300)" strokeDasharray="4 4" />
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(min)} y2={y(min)} stroke="var(--color-grey-300)" strokeDasharray="4 4" />
+        <text x={PADDING} y={y(max) - 6} fontSize="11" fill="var(--color-grey-500)">{Math.round(max)}</text>
+        <text x={PADDING} y={y(min) + 14} fontSize="11" fill="var(--color-grey-500)">{Math.round(min)}</text>
+        <polyline points={line} fill="none" stroke="var(--color-green-dark)" strokeWidth="2" strokeLinejoin="round" />
+        <circle cx={x(points.length - 1)} cy={y(last.elo)} r="4" fill="var(--color-green-dark)" />
+      </svg>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginTop: 'var(--space-1)',
+        color: 'var(--color-grey-500)',
+        fontSize: 'var(--font-size-xs)'
+      }}>
+        <span>{new Date(first.votedAt).toLocaleDateString()}</span>
+        <span>{new Date(last.votedAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client"
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useLeaderboard } from '@/hooks/useLeaderboard';
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, leaderboardImageUrl } from '@lib/leaderboard';
+import type { LeaderboardEntry, LeaderboardSort, LeaderboardWindow } from '@/types/leaderboard';
+
+interface LeaderboardViewProps {
+  collection: string | null;
+}
+
+const SORT_LABELS: Record<LeaderboardSort, string> = {
+  elo: '🏆 Elo',
+  win_rate: '🥊 Win rate',
+  slider: '🎚️ Slider',
+  movers: '🚀 Top movers'
+};
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  all: 'All time',
+  '1d': 'Today',
+  '7d': 'This week',
+  '30d': 'This month'
+};
+
+const MIN_VOTE_OPTIONS = [0, 5, 10, 25, 50];
+
+const pillStyle = (active: boolean): React.CSSProperties => ({
+  padding: 'var(--space-1) var(--space-3)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: 'var(--font-size-sm)',
+  fontWeight: active ? '700' : '500',
+  background: active ? 'var(--color-black)' : 'var(--color-grey-100)',
+  color: active ? 'var(--color-white)' : 'var(--color-grey-700)',
+  textDecoration: 'none'
+});
+
+const formatPercent = (value: number | null) => (value == null ? '—' : `${Math.round(value * 100)}%`);
+
+const formatChange = (value: number | null) => {
+  if (value == null) return '—';
+  const rounded = Math.round(value);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+function LeaderboardRow({ entry, showChange }: { entry: LeaderboardEntry; showChange: boolean }) {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 'var(--space-3)',
+      padding: 'var(--space-2) 0',
+      borderBottom: '1px solid var(--color-grey-200)',
+      fontSize: 'var(--font-size-sm)'
+    }}>
+      <div style={{ width: '2.5rem', textAlign: 'right', fontWeight: '800', color: 'var(--color-grey-500)' }}>
+        {entry.rank}
+      </div>
+      <img
+        src={leaderboardImageUrl(entry)}
+        alt={entry.name}
+        loading="lazy"
+        style={{
+          width: '56px',
+          height: '56px',
+          objectFit: 'cover',
+          borderRadius: 'var(--border-radius-sm)',
+          background: 'var(--color-grey-100)'
+        }}
+      />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontWeight: '600', color: 'var(--color-black)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {entry.name}
+        </div>
+        <Link
+          href={`/leaderboard/${encodeURIComponent(entry.collection_name)}`}
+          style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)', textDecoration: 'none' }}
+        >
+          {entry.collection_name}
+        </Link>
+      </div>
+      <div style={{ textAlign: 'right', minWidth: '4rem' }}>
+        <div style={{ fontWeight: '700', color: 'var(--color-black)' }}>{Math.round(entry.current_elo)}</div>
+        <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>Elo</div>
+      </div>
+      <div style={{ textAlign: 'right', minWidth: '4.5rem' }}>
+        <div style={{ fontWeight: '600', color: 'var(--color-grey-700)' }}>{formatPercent(entry.win_rate)}</div>
+        <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>{entry.wins}W · {entry.losses}L</div>
+      </div>
+      <div style={{ textAlign: 'right', minWidth: '3.5rem' }}>
+        <div style={{ fontWeight: '600', color: 'var(--color-grey-700)' }}>
+          {entry.slider_average != null ? entry.slider_average.toFixed(1) : '—'}
+        </div>
+        <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>Slider</div>
+      </div>
+      {showChange && (
+        <div style={{ textAlign: 'right', minWidth: '3.5rem' }}>
+          <div style={{
+            fontWeight: '700',
+            color: (entry.elo_change ?? 0) > 0 ? 'var(--color-green)' : 'var(--color-grey-700)'
+          }}>
+            {formatChange(entry.elo_change)}
+          </div>
+          <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>Change</div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function LeaderboardView({ collection }: LeaderboardViewProps) {
+  const [sort, setSort] = useState<LeaderboardSort>('elo');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [minVotes, setMinVotes] = useState(0);
+  const [page, setPage] = useState(0);
+
+  // Movers are measured over a window, so never pair them with 'all'
+  const effectiveWindow = sort === 'movers' && timeWindow === 'all' ? '7d' : timeWindow;
+
+  const { data, collections, loading, error } = useLeaderboard({
+    collection,
+    sort,
+    window: effectiveWindow,
+    minVotes,
+    page,
+    pageSize: DEFAULT_LEADERBOARD_PAGE_SIZE
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / DEFAULT_LEADERBOARD_PAGE_SIZE)) : 1;
+
+  const updateFilters = (update: () => void) => {
+    update();
+    setPage(0);
+  };
+
+  return (
+    <main style={{
+      maxWidth: '900px',
+      margin: '0 auto',
+      padding: 'var(--space-6) var(--space-4)',
+      background: 'var(--color-white)',
+      minHeight: '100vh'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--space-4)' }}>
+        <h1 style={{
+          fontSize: 'var(--font-size-2xl)',
+          fontWeight: '800',
+          color: 'var(--color-black)',
+          textTransform: 'uppercase'
+        }}>
+          {collection ? `${collection} Leaderboard` : 'Leaderboard'}
+        </h1>
+        <Link href="/" style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          ← Back to voting
+        </Link>
+      </div>
+
+      {/* Collection navigation */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-2)', marginBottom: 'var(--space-4)' }}>
+        <Link href="/leaderboard" style={pillStyle(!collection)}>All collections</Link>
+        {collections.map(item => (
+          <Link
+            key={item.collection_name}
+            href={`/leaderboard/${encodeURIComponent(item.collection_name)}`}
+            style={pillStyle(item.collection_name === collection)}
+          >
+            {item.collection_name} ({item.nft_count})
+          </Link>
+        ))}
+      </div>
+
+      {/* Sort / window / minimum votes */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-2)', alignItems: 'center', marginBottom: 'var(--space-4)' }}>
+        {(Object.keys(SORT_LABELS) as LeaderboardSort[]).map(option => (
+          <button key={option} onClick={() => updateFilters(() => setSort(option))} style={pillStyle(sort === option)}>
+            {SORT_LABELS[option]}
+          </button>
+        ))}
+        <select
+          value={effectiveWindow}
+          onChange={(e) => updateFilters(() => setTimeWindow(e.target.value as LeaderboardWindow))}
+          style={{ ...pillStyle(false), appearance: 'auto' }}
+        >
+          {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[])
+            .filter(option => sort !== 'movers' || option !== 'all')
+            .map(option => (
+              <option key={option} value={option}>{WINDOW_LABELS[option]}</option>
+            ))}
+        </select>
+        <select
+          value={minVotes}
+          onChange={(e) => updateFilters(() => setMinVotes(parseInt(e.target.value, 10)))}
+          style={{ ...pillStyle(false), appearance: 'auto' }}
+        >
+          {MIN_VOTE_OPTIONS.map(option => (
+            <option key={option} value={option}>{option === 0 ? 'Any votes' : `${option}+ votes`}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p style={{ color: 'var(--color-red, #e53e3e)', fontSize: 'var(--font-size-sm)' }}>{error}</p>
+      )}
+
+      {!error && data && data.entries.length === 0 && !loading && (
+        <p style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-sm)' }}>
+          No NFTs match these filters yet.
+        </p>
+      )}
+
+      <div style={{ opacity: loading ? 0.5 : 1, transition: 'opacity var(--transition-base)' }}>
+        {data?.entries.map(entry => (
+          <LeaderboardRow key={entry.nft_id} entry={entry} showChange={effectiveWindow !== 'all'} />
+        ))}
+      </div>
+
+      {data && data.total > 0 && (
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 'var(--space-4)' }}>
+          <button onClick={() => setPage(p => Math.max(0, p - 1))} disabled={page === 0 || loading} style={pillStyle(false)}>
+            ← Previous
+          </button>
+          <span style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+            Page {page + 1} of {totalPages} · {data.total} NFTs
+          </span>
+          <button onClick={() => setPage(p => p + 1)} disabled={!data.hasMore || loading} style={pillStyle(false)}>
+            Next →
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
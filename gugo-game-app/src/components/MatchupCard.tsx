@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { fixImageUrl, getNextIPFSGateway, ipfsGatewayManager } from '@lib/ipfs-gateway-manager';
+import type { NftMediaType } from '@/types/collections';
+import { thumbhashBackground } from '@/lib/thumbhash';
+import { reportMediaFailure } from '@/lib/media-failure-reports';
+import VideoNftMedia from './VideoNftMedia';
 
 interface NFTData {
   id: string;
   image: string;
+  media_type?: NftMediaType;
+  thumbhash?: string | null;
   name?: string;
   collection_address?: string;
+  contract_address?: string; // preloaded sessions carry raw nfts rows
   token_address?: string;
   token_id?: string;
 }
@@ -19,17 +27,6 @@ interface MatchupCardProps {
   isVoting?: boolean;
 }
 
-// 🔢 Simple hash function for consistent placeholders
-const simpleHash = (str: string): number => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash);
-};
-
 
 
 function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting = false }: MatchupCardProps) {
@@ -218,13 +215,31 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
             aspectRatio: '1',
             position: 'relative',
             overflow: 'hidden',
-            background: 'var(--color-grey-100)',
+            backgroundColor: 'var(--color-grey-100)',
+            ...thumbhashBackground(nft.thumbhash),
             cursor: isVoting ? 'not-allowed' : 'pointer'
           }}
           onMouseEnter={() => !isVoting && setHoveredNft(nft.id)}
           onMouseLeave={() => setHoveredNft(null)}
           onClick={() => !isVoting && onVote(nft.id, false)}
         >
+          {nft.media_type === 'video' ? (
+          <VideoNftMedia
+            nftId={nft.id}
+            src={nft.image}
+            contract={nft.collection_address ?? nft.contract_address}
+            tokenId={nft.token_id}
+            active={hoveredNft === nft.id && !isVoting}
+            onMediaFailure={onImageFailure}
+            style={{
+              width: '100%',
+              height: '100%',
+              objectFit: 'cover',
+              transition: 'transform var(--transition-slow)',
+              transform: hoveredNft === nft.id ? 'scale(1.05)' : 'scale(1)'
+            }}
+          />
+          ) : (
           <img 
             src={fixImageUrl(nft.image)} 
             style={{
@@ -240,6 +255,7 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
               // Set 5-second timeout for image loading
               const timeoutId = setTimeout(() => {
                 console.log(`⏰ Image loading timeout for NFT ${nft.id}, trying next gateway...`);
+                target.dataset.timedOut = 'true';
                 target.dispatchEvent(new Event('error'));
               }, 5000);
               target.dataset.loadTimeout = timeoutId.toString();
@@ -258,6 +274,11 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
               // Prevent infinite loops - only try fallbacks 3 times per image
               if (retryCount >= 3) {
                 console.log(`❌ All gateways failed for NFT ${nft.id} after ${retryCount} attempts, triggering session skip...`);
+                reportMediaFailure({
+                  nftId: nft.id,
+                  reason: target.dataset.timedOut ? 'timeout' : 'load_failed',
+                  mediaUrl: target.src
+                });
                 
                 // Call the failure callback to skip to next session
                 if (onImageFailure) {
@@ -273,6 +294,7 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
               
               // Increment retry count
               target.dataset.retryCount = (retryCount + 1).toString();
+              delete target.dataset.timedOut; // the report reflects the last gateway tried
               
               // Try next IPFS gateway before giving up
               const nextSrc = getNextIPFSGateway(target.src, nft.image);
@@ -294,6 +316,7 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
               console.log(`✅ Image loaded successfully for NFT ${nft.id}:`, nft.image);
             }}
           />
+          )}
           
           {/* Overlay on hover */}
           {hoveredNft === nft.id && !isVoting && (
@@ -422,6 +445,23 @@ function MatchupCard({ nft1, nft2, onVote, onNoVote, onImageFailure, isVoting =
             ) : (
               <div></div> // Empty div to maintain flex layout
             )}
+
+            {/* NFT details - opens in a new tab so the matchup isn't lost */}
+            <Link
+              href={`/nft/${nft.id}`}
+              target="_blank"
+              rel="noopener"
+              onClick={(e) => e.stopPropagation()}
+              style={{
+                color: 'var(--color-grey-600)',
+                fontSize: 'var(--font-size-xs)',
+                textDecoration: 'none',
+                marginLeft: 'var(--space-2)'
+              }}
+              title="View rating history and head-to-head record"
+            >
+              Details ↗
+            </Link>
           </div>
           
           {/* Token ID - Right Side - Clickable */}
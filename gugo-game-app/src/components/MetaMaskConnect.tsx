@@ -1,17 +1,19 @@
 "use client"
 
 import { useState } from 'react';
+import { useConnect } from 'wagmi';
 import { connectMetamask, isMetamaskInstalled } from '../../lib/wallet';
-import { getOrCreateUser, type User } from '../../lib/auth';
 
 interface MetaMaskConnectProps {
-  onUserCreated: (user: User) => void;
+  onConnected: () => void;
   onError: (error: string) => void;
 }
 
-export default function MetaMaskConnect({ onUserCreated, onError }: MetaMaskConnectProps) {
+// The wallet is handed to wagmi, so useAuth runs the SIWE sign-in that creates the user
+export default function MetaMaskConnect({ onConnected, onError }: MetaMaskConnectProps) {
   const [connecting, setConnecting] = useState(false);
   const [connected, setConnected] = useState(false);
+  const { connectAsync, connectors } = useConnect();
 
   const handleConnectMetaMask = async () => {
     setConnecting(true);
@@ -30,15 +32,15 @@ export default function MetaMaskConnect({ onUserCreated, onError }: MetaMaskConn
 
       console.log('MetaMask connected:', walletInfo.address);
 
-      // Create or get user in our system
-      const user = await getOrCreateUser(walletInfo.address, 'metamask');
-      
-      if (!user) {
-        throw new Error('Failed to create user profile');
+      const connector = connectors.find(c => c.id === 'metaMask' || c.id === 'io.metamask')
+        ?? connectors.find(c => c.type === 'injected');
+      if (!connector) {
+        throw new Error('MetaMask connector is not configured');
       }
+      await connectAsync({ connector });
 
       setConnected(true);
-      onUserCreated(user);
+      onConnected();
       
     } catch (error: any) {
       console.error('MetaMask connection error:', error);
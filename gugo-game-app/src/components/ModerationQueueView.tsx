@@ -0,0 +1,201 @@
+"use client"
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { useModerationQueue } from '@/hooks/useModerationQueue';
+import { fixImageUrl } from '@lib/ipfs-gateway-manager';
+import AdminAccessNotice from './AdminAccessNotice';
+import type { MediaFailureReason, ModerationAction, ModerationQueueItem, ModerationStatus } from '@/types/moderation';
+
+const PAGE_SIZE = 25;
+
+const STATUS_LABELS: Record<ModerationStatus, string> = {
+  none: 'Reported',
+  auto_excluded: '⛔ Auto-excluded',
+  unrevealed: '🙈 Unrevealed',
+  banned: '🚫 Banned'
+};
+
+const REASON_LABELS: Record<MediaFailureReason, string> = {
+  load_failed: 'load failed',
+  timeout: 'timeout',
+  not_image: 'not an image',
+  duplicate: 'duplicate'
+};
+
+const ACTIONS: { action: ModerationAction; label: string; confirm?: string }[] = [
+  { action: 'reingest', label: '🔄 Re-ingest' },
+  { action: 'unrevealed', label: '🙈 Unrevealed' },
+  { action: 'ban', label: '🚫 Ban', confirm: 'Ban this NFT from all matchups?' },
+  { action: 'clear', label: '✅ Clear' }
+];
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  padding: 'var(--space-1) var(--space-3)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: 'var(--font-size-xs)',
+  fontWeight: '600',
+  background: primary ? 'var(--color-black)' : 'var(--color-grey-100)',
+  color: primary ? 'var(--color-white)' : 'var(--color-grey-700)'
+});
+
+function ModerationRow({
+  item,
+  pending,
+  onAction
+}: {
+  item: ModerationQueueItem;
+  pending: boolean;
+  onAction: (action: ModerationAction) => void;
+}) {
+  const reasons = Object.entries(item.reasons) as [MediaFailureReason, number][];
+
+  return (
+    <div style={{
+      display: 'flex',
+      gap: 'var(--space-3)',
+      padding: 'var(--space-3) 0',
+      borderBottom: '1px solid var(--color-grey-200)',
+      fontSize: 'var(--font-size-sm)',
+      opacity: pending ? 0.5 : 1
+    }}>
+      <img
+        src={fixImageUrl(item.image)}
+        alt={item.name}
+        loading="lazy"
+        style={{
+          width: '72px',
+          height: '72px',
+          objectFit: 'cover',
+          borderRadius: 'var(--border-radius-sm)',
+          background: 'var(--color-grey-100)',
+          flexShrink: 0
+        }}
+      />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ display: 'flex', gap: 'var(--space-2)', alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <Link href={`/nft/${item.nft_id}`} style={{ fontWeight: '600', color: 'var(--color-black)', textDecoration: 'none' }}>
+            {item.name}
+          </Link>
+          <span style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>
+            {item.collection_name ?? item.contract_address} · #{item.token_id}
+          </span>
+        </div>
+
+        <div style={{ color: 'var(--color-grey-700)', fontSize: 'var(--font-size-xs)', marginTop: 'var(--space-1)' }}>
+          <strong>{STATUS_LABELS[item.moderation_status]}</strong>
+          {item.moderation_note && ` — ${item.moderation_note}`}
+          {!item.eligible && item.moderation_status === 'none' && ' · excluded by collection rules'}
+        </div>
+
+        <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)', marginTop: 'var(--space-1)' }}>
+          {item.open_reports} open report{item.open_reports === 1 ? '' : 's'}
+          {reasons.length > 0 && ` (${reasons.map(([reason, count]) => `${REASON_LABELS[reason] ?? reason} ×${count}`).join(', ')})`}
+          {item.gateways.length > 0 && ` · gateways: ${item.gateways.join(', ')}`}
+          {item.last_reported_at && ` · last ${new Date(item.last_reported_at).toLocaleString()}`}
+        </div>
+
+        {item.duplicate_of && (
+          <div style={{ fontSize: 'var(--font-size-xs)', marginTop: 'var(--space-1)' }}>
+            👯 Looks like <Link href={`/nft/${item.duplicate_of}`} style={{ color: 'var(--color-grey-700)' }}>this NFT</Link> from another collection
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 'var(--space-2)', flexWrap: 'wrap', marginTop: 'var(--space-2)' }}>
+          {ACTIONS.map(({ action, label, confirm }) => (
+            <button
+              key={action}
+              disabled={pending}
+              style={buttonStyle(action === 'reingest')}
+              onClick={() => {
+                if (confirm && !window.confirm(confirm)) return;
+                onAction(action);
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ModerationQueueView() {
+  const [page, setPage] = useState(1);
+  const { session } = useAuth();
+  const { items, access, loading, error, pendingNftId, refresh, moderate } = useModerationQueue(page, PAGE_SIZE, session?.address);
+
+  return (
+    <main style={{
+      maxWidth: '900px',
+      margin: '0 auto',
+      padding: 'var(--space-6) var(--space-4)',
+      background: 'var(--color-white)',
+      minHeight: '100vh'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--space-4)' }}>
+        <h1 style={{
+          fontSize: 'var(--font-size-2xl)',
+          fontWeight: '800',
+          color: 'var(--color-black)',
+          textTransform: 'uppercase'
+        }}>
+          Media moderation
+        </h1>
+        <Link href="/" style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          ← Back to voting
+        </Link>
+      </div>
+
+      <AdminAccessNotice access={access} purpose="review reported media" />
+
+      {error && (
+        <p style={{ color: 'var(--color-red, #e53e3e)', fontSize: 'var(--font-size-sm)' }}>{error}</p>
+      )}
+
+      {access === 'ok' && (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 'var(--space-2)' }}>
+            <span style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+              Auto-excluded NFTs first, then the most reported
+            </span>
+            <button onClick={() => refresh()} disabled={loading} style={buttonStyle(false)}>
+              Refresh
+            </button>
+          </div>
+
+          {items.length === 0 && !loading && (
+            <p style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-sm)' }}>
+              Nothing to review. 🎉
+            </p>
+          )}
+
+          <div style={{ opacity: loading ? 0.5 : 1, transition: 'opacity var(--transition-base)' }}>
+            {items.map(item => (
+              <ModerationRow
+                key={item.nft_id}
+                item={item}
+                pending={pendingNftId === item.nft_id}
+                onAction={action => moderate(item.nft_id, action)}
+              />
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: 'var(--space-4)' }}>
+            <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1 || loading} style={buttonStyle(false)}>
+              ← Previous
+            </button>
+            <span style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>Page {page}</span>
+            <button onClick={() => setPage(p => p + 1)} disabled={items.length < PAGE_SIZE || loading} style={buttonStyle(false)}>
+              Next →
+            </button>
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
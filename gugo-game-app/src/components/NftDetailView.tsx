@@ -0,0 +1,200 @@
+import Link from 'next/link';
+import EloHistoryChart from '@/components/EloHistoryChart';
+import { leaderboardImageUrl } from '@lib/leaderboard';
+import { MAX_DETAIL_VOTES } from '@lib/nft-detail';
+import type { HeadToHeadRecord, NftDetailPage, NotableResult } from '@/types/nft-detail';
+
+interface NftDetailViewProps {
+  detail: NftDetailPage;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: 'var(--font-size-lg)',
+  fontWeight: '800',
+  color: 'var(--color-black)',
+  textTransform: 'uppercase',
+  margin: 'var(--space-6) 0 var(--space-3)'
+};
+
+const mutedStyle: React.CSSProperties = { color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' };
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ minWidth: '5rem' }}>
+      <div style={{ fontSize: 'var(--font-size-xl)', fontWeight: '800', color: 'var(--color-black)' }}>{value}</div>
+      <div style={mutedStyle}>{label}</div>
+    </div>
+  );
+}
+
+function OpponentLink({ opponent }: { opponent: NotableResult['opponent'] }) {
+  return (
+    <Link
+      href={`/nft/${opponent.id}`}
+      style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-2)', minWidth: 0, flex: 1, textDecoration: 'none' }}
+    >
+      <img
+        src={leaderboardImageUrl(opponent, 96)}
+        alt={opponent.name}
+        loading="lazy"
+        style={{ width: '40px', height: '40px', objectFit: 'cover', borderRadius: 'var(--border-radius-sm)', background: 'var(--color-grey-100)' }}
+      />
+      <div style={{ minWidth: 0 }}>
+        <div style={{ fontWeight: '600', color: 'var(--color-black)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {opponent.name}
+        </div>
+        <div style={mutedStyle}>{opponent.collection_name}</div>
+      </div>
+    </Link>
+  );
+}
+
+function ResultList({ title, results, empty }: { title: string; results: NotableResult[]; empty: string }) {
+  return (
+    <div style={{ flex: '1 1 280px' }}>
+      <h2 style={sectionTitleStyle}>{title}</h2>
+      {results.length === 0 && <p style={mutedStyle}>{empty}</p>}
+      {results.map(result => (
+        <div
+          key={`${result.opponent.id}-${result.votedAt}`}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 'var(--space-3)',
+            padding: 'var(--space-2) 0',
+            borderBottom: '1px solid var(--color-grey-200)',
+            fontSize: 'var(--font-size-sm)'
+          }}
+        >
+          <OpponentLink opponent={result.opponent} />
+          <div style={{ textAlign: 'right' }}>
+            <div style={{ fontWeight: '700', color: 'var(--color-black)' }}>
+              {result.superVote && '🔥 '}
+              {Math.round(result.opponentElo ?? result.opponent.current_elo)}
+            </div>
+            <div style={mutedStyle}>{new Date(result.votedAt).toLocaleDateString()}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HeadToHeadRow({ record }: { record: HeadToHeadRecord }) {
+  const total = record.wins + record.losses;
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 'var(--space-3)',
+      padding: 'var(--space-2) 0',
+      borderBottom: '1px solid var(--color-grey-200)',
+      fontSize: 'var(--font-size-sm)'
+    }}>
+      <OpponentLink opponent={record.opponent} />
+      <div style={{ textAlign: 'right', minWidth: '4rem' }}>
+        <div style={{ fontWeight: '700', color: record.wins >= record.losses ? 'var(--color-green-dark)' : 'var(--color-grey-700)' }}>
+          {record.wins}–{record.losses}
+        </div>
+        <div style={mutedStyle}>{Math.round((record.wins / total) * 100)}% won</div>
+      </div>
+      <div style={{ textAlign: 'right', minWidth: '4rem' }}>
+        <div style={{ fontWeight: '600', color: 'var(--color-grey-700)' }}>{Math.round(record.opponent.current_elo)}</div>
+        <div style={mutedStyle}>Elo now</div>
+      </div>
+    </div>
+  );
+}
+
+// 🖼️ Everything we know about one NFT: rating, traits, history and results against other NFTs
+export default function NftDetailView({ detail }: NftDetailViewProps) {
+  const { nft, history, bestWins, worstLosses, headToHead, votesConsidered } = detail;
+  const decided = nft.wins + nft.losses;
+
+  return (
+    <main style={{
+      maxWidth: '900px',
+      margin: '0 auto',
+      padding: 'var(--space-6) var(--space-4)',
+      background: 'var(--color-white)',
+      minHeight: '100vh'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--space-4)' }}>
+        <Link href={`/leaderboard/${encodeURIComponent(nft.collection_name)}`} style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          {nft.collection_name} leaderboard
+        </Link>
+        <Link href="/" style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          ← Back to voting
+        </Link>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-6)' }}>
+        <img
+          src={leaderboardImageUrl(nft, 768)}
+          alt={nft.name}
+          style={{
+            width: '100%',
+            maxWidth: '360px',
+            aspectRatio: '1',
+            objectFit: 'cover',
+            borderRadius: 'var(--border-radius-sm)',
+            background: 'var(--color-grey-100)'
+          }}
+        />
+        <div style={{ flex: '1 1 280px' }}>
+          <h1 style={{ fontSize: 'var(--font-size-2xl)', fontWeight: '800', color: 'var(--color-black)', marginBottom: 'var(--space-1)' }}>
+            {nft.name}
+          </h1>
+          <div style={{ ...mutedStyle, fontSize: 'var(--font-size-sm)', marginBottom: 'var(--space-4)' }}>
+            {nft.collection_name} · #{nft.token_id}
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-4)', marginBottom: 'var(--space-4)' }}>
+            <Stat label="Elo" value={String(Math.round(nft.current_elo))} />
+            <Stat label={`${nft.wins}W · ${nft.losses}L`} value={decided > 0 ? `${Math.round((nft.wins / decided) * 100)}%` : '—'} />
+            <Stat
+              label={`Slider (${nft.slider_count})`}
+              value={nft.slider_average != null ? nft.slider_average.toFixed(1) : '—'}
+            />
+          </div>
+
+          {nft.traits.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-2)' }}>
+              {nft.traits.map(trait => (
+                <div
+                  key={`${trait.trait_type}-${trait.value}`}
+                  style={{
+                    padding: 'var(--space-1) var(--space-2)',
+                    borderRadius: 'var(--border-radius-sm)',
+                    background: 'var(--color-grey-100)',
+                    fontSize: 'var(--font-size-xs)'
+                  }}
+                >
+                  <div style={{ color: 'var(--color-grey-500)', textTransform: 'uppercase' }}>{trait.trait_type}</div>
+                  <div style={{ color: 'var(--color-black)', fontWeight: '600' }}>{String(trait.value)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <h2 style={sectionTitleStyle}>Elo over time</h2>
+      <EloHistoryChart history={history} />
+      {votesConsidered >= MAX_DETAIL_VOTES && (
+        <p style={{ ...mutedStyle, marginTop: 'var(--space-2)' }}>Showing the most recent {votesConsidered} matchup votes.</p>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-6)' }}>
+        <ResultList title="Best wins" results={bestWins} empty="No wins yet." />
+        <ResultList title="Worst losses" results={worstLosses} empty="No losses yet." />
+      </div>
+
+      <h2 style={sectionTitleStyle}>Head to head</h2>
+      {headToHead.length === 0 && <p style={mutedStyle}>No matchups yet.</p>}
+      {headToHead.map(record => (
+        <HeadToHeadRow key={record.opponent.id} record={record} />
+      ))}
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import type { usePrizeBreakClaim } from '@/hooks/usePrizeBreakClaim';
+import {
+  formatPrizeReward,
+  isClaimBusy,
+  isGugoReward,
+  rewardTypeLabel,
+  type PrizeClaim,
+  type PrizeClaimState
+} from '@/lib/prize-break';
+
+interface PrizeBreakClaimProps {
+  prizeClaim: ReturnType<typeof usePrizeBreakClaim>;
+}
+
+const HISTORY_SHOWN = 5;
+
+const statusText = (state: PrizeClaimState): string | null => {
+  switch (state.status) {
+    case 'claiming': return 'Confirm the claim in your wallet...';
+    case 'confirming': return 'Rolling your reward on-chain...';
+    case 'failed': return `❌ ${state.error}`;
+    default: return null;
+  }
+};
+
+const claimDate = (claim: PrizeClaim) =>
+  claim.claimedAt ? new Date(claim.claimedAt).toLocaleDateString() : 'Just now';
+
+// 🎁 On-chain reward section of the prize break screen: what's claimable, the claim itself, the
+// revealed reward and the wallet's past rewards
+export default function PrizeBreakClaim({ prizeClaim }: PrizeBreakClaimProps) {
+  const { state, available, info, history, explorerUrl, claim } = prizeClaim;
+  if (!available) return null;
+
+  const busy = isClaimBusy(state);
+  const claimable = (info?.prizeBreaksAvailable ?? 0) > 0;
+  const status = statusText(state);
+
+  return (
+    <div style={{
+      margin: 'var(--space-4) 0',
+      padding: 'var(--space-4)',
+      border: '1px solid var(--color-grey-200)',
+      borderRadius: 'var(--border-radius)',
+      textAlign: 'center'
+    }}>
+      {state.status === 'revealed' ? (
+        <>
+          {state.rewards.map(reward => (
+            <div key={`${reward.txHash}:${reward.logIndex}`} style={{ margin: 'var(--space-2) 0' }}>
+              <div style={{
+                color: isGugoReward(reward.rewardType) ? 'var(--color-green)' : 'var(--color-grey-800)',
+                fontSize: 'var(--font-size-lg)',
+                fontWeight: '700'
+              }}>
+                {isGugoReward(reward.rewardType) ? '💰' : '✨'} {rewardTypeLabel(reward.rewardType)}
+              </div>
+              <div style={{ color: 'var(--color-grey-700)', fontSize: 'var(--font-size-sm)' }}>
+                {formatPrizeReward(reward)} · {reward.newTotalXP} XP total
+              </div>
+            </div>
+          ))}
+          {explorerUrl && (
+            <a
+              href={`${explorerUrl}/tx/${state.txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}
+            >
+              View transaction ↗
+            </a>
+          )}
+        </>
+      ) : (
+        <>
+          <p style={{
+            color: 'var(--color-grey-700)',
+            fontSize: 'var(--font-size-sm)',
+            margin: '0 0 var(--space-3) 0',
+            lineHeight: 1.5
+          }}>
+            {!info && 'Checking your on-chain rewards...'}
+            {info && claimable && (
+              <>
+                <strong>{info.prizeBreaksAvailable} on-chain reward{info.prizeBreaksAvailable === 1 ? '' : 's'}</strong> ready to claim
+                {info.pendingXP > 0 && <> with {info.pendingXP} pending XP</>}
+                {info.unlockedGugoTiers > 0 && <><br />GUGO tiers unlocked: {info.unlockedGugoTiers}</>}
+              </>
+            )}
+            {info && !claimable && `${info.votesUntilNext} more on-chain votes until your next reward.`}
+          </p>
+
+          {claimable && (
+            <button
+              onClick={() => claim()}
+              disabled={busy}
+              style={{
+                background: 'var(--color-green)',
+                opacity: busy ? 0.5 : 1,
+                color: 'var(--color-white)',
+                border: 'none',
+                borderRadius: 'var(--border-radius)',
+                padding: 'var(--space-3) var(--space-6)',
+                fontSize: 'var(--font-size-base)',
+                fontWeight: '700',
+                cursor: busy ? 'default' : 'pointer'
+              }}
+            >
+              {state.status === 'failed' ? 'Try Again' : '🎲 Claim Reward'}
+            </button>
+          )}
+
+          {status && (
+            <p style={{
+              color: state.status === 'failed' ? '#dc2626' : 'var(--color-grey-600)',
+              fontSize: 'var(--font-size-sm)',
+              margin: 'var(--space-2) 0 0 0'
+            }}>
+              {status}
+            </p>
+          )}
+        </>
+      )}
+
+      {/* Past rewards */}
+      {history.length > 0 && (
+        <div style={{
+          marginTop: 'var(--space-4)',
+          paddingTop: 'var(--space-3)',
+          borderTop: '1px solid var(--color-grey-200)',
+          textAlign: 'left',
+          fontSize: 'var(--font-size-xs)',
+          color: 'var(--color-grey-600)'
+        }}>
+          <div style={{ fontWeight: '700', marginBottom: 'var(--space-2)' }}>Past rewards</div>
+          {history.slice(0, HISTORY_SHOWN).map(reward => (
+            <div
+              key={`${reward.txHash}:${reward.logIndex}`}
+              style={{ display: 'flex', justifyContent: 'space-between', gap: 'var(--space-2)' }}
+            >
+              <span>{rewardTypeLabel(reward.rewardType)}: {formatPrizeReward(reward)}</span>
+              <span style={{ color: 'var(--color-grey-500)' }}>{claimDate(reward)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,79 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { formatEther } from 'viem';
+import { useVotePurchase } from '@/hooks/useVotePurchase';
+import {
+  isPurchaseBusy,
+  MAXIMUM_PURCHASE_VOTES,
+  MINIMUM_PURCHASE_VOTES,
+  needsApproval,
+  type PurchaseCurrency,
+  type PurchaseState
+} from '@/lib/vote-purchase';
 
 interface PurchaseAlertProps {
   requiredVotes: number;
-  onPurchase: () => void;
+  onPurchased: (votesAdded: number) => void;
   onClose: () => void;
 }
 
-export default function PurchaseAlert({ requiredVotes, onPurchase, onClose }: PurchaseAlertProps) {
+const CURRENCIES: PurchaseCurrency[] = ['ETH', 'GUGO'];
+
+// Both ETH and GUGO use 18 decimals
+const formatCost = (value: bigint) => Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const statusText = (state: PurchaseState): string | null => {
+  switch (state.status) {
+    case 'quoting': return 'Fetching price...';
+    case 'approving': return state.approvalHash ? 'Waiting for GUGO approval to confirm...' : 'Approve GUGO spending in your wallet...';
+    case 'purchasing': return 'Confirm the purchase in your wallet...';
+    case 'confirming': return 'Waiting for the transaction to confirm...';
+    case 'crediting': return 'Adding votes to your balance...';
+    case 'confirmed': return `✅ ${state.votesAdded} votes added!`;
+    case 'failed': return `❌ ${state.error}`;
+    default: return null;
+  }
+};
+
+export default function PurchaseAlert({ requiredVotes, onPurchased, onClose }: PurchaseAlertProps) {
+  const { state, available, quote, purchase, reset } = useVotePurchase();
+  const [voteCount, setVoteCount] = useState(Math.max(MINIMUM_PURCHASE_VOTES, requiredVotes));
+  const [currency, setCurrency] = useState<PurchaseCurrency>('ETH');
+
+  const validCount = Number.isInteger(voteCount) && voteCount >= MINIMUM_PURCHASE_VOTES && voteCount <= MAXIMUM_PURCHASE_VOTES;
+  const busy = isPurchaseBusy(state);
+  const currentQuote = state.status === 'quoted' ? state.quote : null;
+  const insufficient = !!currentQuote && currentQuote.balance < currentQuote.cost;
+
+  // Re-quote whenever the order changes (the contract price follows its oracle)
+  useEffect(() => {
+    if (available && validCount) quote(voteCount, currency);
+  }, [available, validCount, voteCount, currency, quote]);
+
+  const handlePurchase = async () => {
+    if (state.status === 'confirmed') {
+      onPurchased(state.votesAdded);
+      reset();
+      return;
+    }
+    if (state.status === 'failed') {
+      reset();
+      if (validCount) quote(voteCount, currency);
+      return;
+    }
+    await purchase();
+  };
+
+  const purchaseLabel =
+    state.status === 'confirmed' ? 'Done'
+    : state.status === 'failed' ? 'Try Again'
+    : currentQuote && needsApproval(currentQuote) ? '💳 Approve & Buy'
+    : '💳 Purchase Votes';
+
+  const purchaseDisabled =
+    state.status !== 'confirmed' && state.status !== 'failed' && (!available || !currentQuote || insufficient || busy);
+
+  const status = statusText(state);
+
   return (
     <div style={{
       position: 'fixed',
@@ -45,13 +112,89 @@ export default function PurchaseAlert({ requiredVotes, onPurchase, onClose }: Pu
       <p style={{
         fontSize: 'var(--font-size-md)',
         color: 'var(--color-grey-700)',
-        marginBottom: 'var(--space-6)',
+        marginBottom: 'var(--space-4)',
         lineHeight: 1.5
       }}>
         You need at least <strong>{requiredVotes} votes</strong> to use Super Vote.
         <br />
         Regular votes cost $0.04 each.
       </p>
+
+      {available ? (
+        <>
+          {/* Order: vote count + currency */}
+          <div style={{
+            display: 'flex',
+            gap: 'var(--space-2)',
+            justifyContent: 'center',
+            alignItems: 'center',
+            marginBottom: 'var(--space-3)'
+          }}>
+            <input
+              type="number"
+              min={MINIMUM_PURCHASE_VOTES}
+              max={MAXIMUM_PURCHASE_VOTES}
+              value={voteCount}
+              disabled={busy}
+              onChange={(e) => setVoteCount(parseInt(e.target.value, 10) || 0)}
+              style={{
+                width: '90px',
+                padding: 'var(--space-2)',
+                border: '1px solid var(--color-grey-300)',
+                borderRadius: 'var(--border-radius)',
+                fontSize: 'var(--font-size-md)',
+                textAlign: 'center'
+              }}
+            />
+            <span style={{ color: 'var(--color-grey-600)' }}>votes with</span>
+            {CURRENCIES.map(option => (
+              <button
+                key={option}
+                onClick={() => setCurrency(option)}
+                disabled={busy}
+                style={{
+                  background: currency === option ? 'var(--color-black)' : 'transparent',
+                  color: currency === option ? 'var(--color-white)' : 'var(--color-grey-700)',
+                  border: '1px solid var(--color-black)',
+                  borderRadius: 'var(--border-radius)',
+                  padding: 'var(--space-2) var(--space-3)',
+                  fontSize: 'var(--font-size-sm)',
+                  fontWeight: '700',
+                  cursor: busy ? 'default' : 'pointer'
+                }}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {/* Quote + transaction status */}
+          <p style={{
+            fontSize: 'var(--font-size-sm)',
+            color: 'var(--color-grey-700)',
+            marginBottom: 'var(--space-6)',
+            minHeight: '2.5em',
+            lineHeight: 1.5
+          }}>
+            {!validCount && `Buy between ${MINIMUM_PURCHASE_VOTES} and ${MAXIMUM_PURCHASE_VOTES} votes.`}
+            {validCount && currentQuote && (
+              <>
+                Cost: <strong>{formatCost(currentQuote.cost)} {currentQuote.currency}</strong>
+                {insufficient && <><br />Your balance is only {formatCost(currentQuote.balance)} {currentQuote.currency}.</>}
+              </>
+            )}
+            {validCount && status}
+          </p>
+        </>
+      ) : (
+        <p style={{
+          fontSize: 'var(--font-size-sm)',
+          color: 'var(--color-grey-600)',
+          marginBottom: 'var(--space-6)'
+        }}>
+          Vote purchases aren&apos;t available right now.
+        </p>
+      )}
       
       {/* Action buttons */}
       <div style={{
@@ -61,16 +204,18 @@ export default function PurchaseAlert({ requiredVotes, onPurchase, onClose }: Pu
       }}>
         {/* Purchase button */}
         <button
-          onClick={onPurchase}
+          onClick={handlePurchase}
+          disabled={purchaseDisabled}
           style={{
             background: 'var(--color-green)',
+            opacity: purchaseDisabled ? 0.5 : 1,
             color: 'var(--color-white)',
             border: 'none',
             borderRadius: 'var(--border-radius)',
             padding: 'var(--space-3) var(--space-6)',
             fontSize: 'var(--font-size-md)',
             fontWeight: '700',
-            cursor: 'pointer',
+            cursor: purchaseDisabled ? 'default' : 'pointer',
             transition: 'all 0.2s ease',
             boxShadow: '0 4px 16px rgba(0, 211, 149, 0.3)'
           }}
@@ -85,7 +230,7 @@ export default function PurchaseAlert({ requiredVotes, onPurchase, onClose }: Pu
             target.style.boxShadow = '0 4px 16px rgba(0, 211, 149, 0.3)';
           }}
         >
-          💳 Purchase Votes
+          {purchaseLabel}
         </button>
         
         {/* Close button */}
@@ -0,0 +1,225 @@
+"use client"
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { useQueueAdmin } from '@/hooks/useQueueAdmin';
+import AdminAccessNotice from './AdminAccessNotice';
+import type { RefillSource } from '@lib/queue-refill';
+
+const VOTE_TYPES = [
+  { key: 'slider', label: '🎚️ Slider' },
+  { key: 'same_coll', label: '🥊 Same collection' },
+  { key: 'cross_coll', label: '🌐 Cross collection' }
+] as const;
+
+const SOURCE_LABELS: Record<RefillSource, string> = {
+  prize_break: '🎁 Prize break',
+  background: '🔧 Background',
+  admin: '🧰 Admin'
+};
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  padding: 'var(--space-1) var(--space-3)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: 'var(--font-size-sm)',
+  fontWeight: '600',
+  background: primary ? 'var(--color-black)' : 'var(--color-grey-100)',
+  color: primary ? 'var(--color-white)' : 'var(--color-grey-700)'
+});
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: 'var(--font-size-lg)',
+  fontWeight: '700',
+  color: 'var(--color-black)',
+  margin: 'var(--space-6) 0 var(--space-2)'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: 'var(--space-1) var(--space-2)',
+  borderBottom: '1px solid var(--color-grey-200)',
+  textAlign: 'left'
+};
+
+const formatAge = (iso: string | null) => {
+  if (!iso) return '—';
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (24 * 60))}d ago`;
+};
+
+function StatCard({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div style={{
+      flex: '1 1 160px',
+      padding: 'var(--space-3)',
+      borderRadius: 'var(--border-radius)',
+      background: 'var(--color-grey-100)'
+    }}>
+      <div style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-xs)' }}>{label}</div>
+      <div style={{ fontWeight: '800', fontSize: 'var(--font-size-xl)', color: 'var(--color-black)' }}>{value}</div>
+      {detail && <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>{detail}</div>}
+    </div>
+  );
+}
+
+export default function QueueAdminView() {
+  const { session } = useAuth();
+  const { dashboard, access, loading, error, pendingAction, lastActionResult, refresh, runAction } = useQueueAdmin(session?.address);
+  const [purgeCollection, setPurgeCollection] = useState('');
+
+  const health = dashboard?.health;
+  const analytics = dashboard?.analytics;
+  const busy = pendingAction !== null;
+
+  return (
+    <main style={{
+      maxWidth: '900px',
+      margin: '0 auto',
+      padding: 'var(--space-6) var(--space-4)',
+      background: 'var(--color-white)',
+      minHeight: '100vh'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 'var(--space-4)' }}>
+        <h1 style={{
+          fontSize: 'var(--font-size-2xl)',
+          fontWeight: '800',
+          color: 'var(--color-black)',
+          textTransform: 'uppercase'
+        }}>
+          Matchup queue
+        </h1>
+        <Link href="/" style={{ color: 'var(--color-grey-600)', fontSize: 'var(--font-size-sm)' }}>
+          ← Back to voting
+        </Link>
+      </div>
+
+      <AdminAccessNotice access={access} purpose="manage the matchup queue" />
+
+      {error && (
+        <p style={{ color: 'var(--color-red, #e53e3e)', fontSize: 'var(--font-size-sm)' }}>{error}</p>
+      )}
+
+      {access === 'ok' && dashboard && health && (
+        <>
+          {/* Health */}
+          <div style={{
+            padding: 'var(--space-3)',
+            borderRadius: 'var(--border-radius)',
+            background: health.healthy ? 'var(--color-grey-100)' : '#fff4e5',
+            fontSize: 'var(--font-size-sm)',
+            marginBottom: 'var(--space-4)'
+          }}>
+            <strong>{health.healthy ? '✅ Queue healthy' : '⚠️ Queue needs attention'}</strong>
+            {health.warnings.length > 0 && (
+              <ul style={{ margin: 'var(--space-1) 0 0', paddingLeft: 'var(--space-4)' }}>
+                {health.warnings.map(warning => <li key={warning}>{warning}</li>)}
+              </ul>
+            )}
+            <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)', marginTop: 'var(--space-1)' }}>
+              Updated {new Date(dashboard.generatedAt).toLocaleTimeString()}{loading ? ' · refreshing…' : ''}
+            </div>
+          </div>
+
+          {/* Counts by vote type */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-2)' }}>
+            {VOTE_TYPES.map(({ key, label }) => (
+              <StatCard
+                key={key}
+                label={label}
+                value={health.stats[key]}
+                detail={`${analytics?.byType[key] ?? 0} queued · avg priority ${analytics?.averagePriority[key] ?? '—'}`}
+              />
+            ))}
+            <StatCard label="Available" value={health.stats.total} detail={`${Object.values(analytics?.byType ?? {}).reduce((sum, n) => sum + n, 0)} queued in total`} />
+            <StatCard
+              label="Reservation rate"
+              value={analytics ? `${Math.round(analytics.reservationRate * 100)}%` : '—'}
+              detail="entries currently held by a visitor"
+            />
+            <StatCard
+              label="Oldest item"
+              value={formatAge(analytics?.oldestItem ?? null)}
+              detail={analytics?.newestItem ? `newest ${formatAge(analytics.newestItem)}` : undefined}
+            />
+          </div>
+
+          {/* Controls */}
+          <h2 style={sectionTitleStyle}>Controls</h2>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--space-2)', alignItems: 'center' }}>
+            <button onClick={() => runAction('refill')} disabled={busy} style={buttonStyle(true)}>
+              {pendingAction === 'refill' ? 'Refilling…' : '🔄 Refill'}
+            </button>
+            <button onClick={() => runAction('cleanup')} disabled={busy} style={buttonStyle(false)}>
+              {pendingAction === 'cleanup' ? 'Cleaning…' : '🧹 Cleanup'}
+            </button>
+            <select
+              value={purgeCollection}
+              onChange={(e) => setPurgeCollection(e.target.value)}
+              style={{ ...buttonStyle(false), appearance: 'auto' }}
+            >
+              <option value="">Collection to purge…</option>
+              {dashboard.collections.map(item => (
+                <option key={item.collection_name} value={item.collection_name}>
+                  {item.collection_name} ({item.entries})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={async () => {
+                if (!window.confirm(`Remove every queued entry with an NFT from ${purgeCollection}?`)) return;
+                if (await runAction('purge', purgeCollection)) setPurgeCollection('');
+              }}
+              disabled={busy || !purgeCollection}
+              style={buttonStyle(false)}
+            >
+              {pendingAction === 'purge' ? 'Purging…' : '🗑️ Purge'}
+            </button>
+            <button onClick={() => refresh()} disabled={loading} style={buttonStyle(false)}>
+              Refresh
+            </button>
+          </div>
+          {lastActionResult && (
+            <p style={{ color: 'var(--color-grey-700)', fontSize: 'var(--font-size-sm)', marginTop: 'var(--space-2)' }}>
+              {lastActionResult}
+            </p>
+          )}
+
+          {/* Refill history */}
+          <h2 style={sectionTitleStyle}>Refill runs</h2>
+          {dashboard.runs.length === 0 ? (
+            <p style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-sm)' }}>No refill runs logged yet.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 'var(--font-size-sm)' }}>
+              <thead>
+                <tr style={{ color: 'var(--color-grey-600)' }}>
+                  <th style={cellStyle}>When</th>
+                  <th style={cellStyle}>Source</th>
+                  <th style={cellStyle}>Added (slider / same / cross)</th>
+                  <th style={cellStyle}>Queue after</th>
+                  <th style={cellStyle}>Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dashboard.runs.map(run => (
+                  <tr key={run.id} style={{ color: run.result.success ? 'var(--color-black)' : 'var(--color-red, #e53e3e)' }}>
+                    <td style={cellStyle} title={new Date(run.createdAt).toLocaleString()}>{formatAge(run.createdAt)}</td>
+                    <td style={cellStyle}>{SOURCE_LABELS[run.source]}{run.result.success ? '' : ' · failed'}</td>
+                    <td style={cellStyle}>
+                      +{run.result.added.total} ({run.result.added.slider} / {run.result.added.same_coll} / {run.result.added.cross_coll})
+                    </td>
+                    <td style={cellStyle}>{run.result.queueStatus.total}</td>
+                    <td style={cellStyle}>{run.result.refillTime}ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
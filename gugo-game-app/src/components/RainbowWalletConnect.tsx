@@ -16,7 +16,7 @@ export default function RainbowWalletConnect() {
     
     setClaiming(true);
     try {
-      const success = await claimFreeVotes(address);
+      const success = await claimFreeVotes();
       if (success) {
         await refreshUser();
         console.log('Free votes claimed successfully!');
@@ -3,7 +3,10 @@
 import { useAccount, useDisconnect } from 'wagmi';
 import { useAuth } from '../hooks/useAuth';
 import { useTokenBalance } from '../hooks/useTokenBalance';
+import { useVoteLedger } from '../hooks/useVoteLedger';
+import VoteHistoryPopup from './VoteHistoryPopup';
 import { useState } from 'react';
+import Link from 'next/link';
 import { canClaimFreeVotes, claimFreeVotes } from '../../lib/auth';
 
 interface StatusBarProps {
@@ -13,13 +16,15 @@ interface StatusBarProps {
 export default function StatusBar({ onConnectWallet }: StatusBarProps) {
   const { address, isConnected } = useAccount();
   const { disconnect } = useDisconnect();
-  const { user, loading, refreshUser } = useAuth();
+  const { user, loading, refreshUser, isAuthenticated } = useAuth();
   const { eligibility } = useTokenBalance();
+  const voteLedger = useVoteLedger(isAuthenticated);
   const [showWalletDropdown, setShowWalletDropdown] = useState(false);
   const [showAboutPopup, setShowAboutPopup] = useState(false);
   const [showHowPopup, setShowHowPopup] = useState(false);
   const [showWhyPopup, setShowWhyPopup] = useState(false);
   const [claimingVotes, setClaimingVotes] = useState(false);
+  const [showVoteHistory, setShowVoteHistory] = useState(false);
 
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -36,9 +41,9 @@ export default function StatusBar({ onConnectWallet }: StatusBarProps) {
     
     setClaimingVotes(true);
     try {
-      const success = await claimFreeVotes(address);
+      const success = await claimFreeVotes();
       if (success) {
-        await refreshUser();
+        await Promise.all([refreshUser(), voteLedger.refresh()]);
         console.log('Free votes claimed successfully!');
       } else {
         console.error('Failed to claim free votes');
@@ -427,6 +432,28 @@ export default function StatusBar({ onConnectWallet }: StatusBarProps) {
               >
                 Why
               </span>
+              
+              {/* Leaderboard */}
+              <Link
+                href="/leaderboard"
+                style={{
+                  fontSize: 'var(--font-size-xs)',
+                  fontWeight: '500',
+                  color: 'var(--color-grey-300)',
+                  transition: 'all var(--transition-base)',
+                  textDecoration: 'none'
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.color = 'var(--color-white)';
+                  e.currentTarget.style.textDecoration = 'underline';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.color = 'var(--color-grey-300)';
+                  e.currentTarget.style.textDecoration = 'none';
+                }}
+              >
+                Leaderboard
+              </Link>
             </div>
           </div>
 
@@ -504,6 +531,32 @@ export default function StatusBar({ onConnectWallet }: StatusBarProps) {
                     </span>
                   </div>
 
+                  {/* Vote Balance (ledger) */}
+                  <div
+                    onClick={() => {
+                      voteLedger.refresh();
+                      setShowVoteHistory(true);
+                    }}
+                    title="Vote history"
+                    style={{ 
+                      display: 'flex', 
+                      alignItems: 'center', 
+                      gap: 'var(--space-2)',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <span style={{ fontSize: '14px' }}>
+                      🗳️
+                    </span>
+                    <span style={{ 
+                      fontWeight: '600',
+                      color: 'var(--color-white)',
+                      fontSize: 'var(--font-size-xs)'
+                    }}>
+                      {voteLedger.balance ?? '—'}
+                    </span>
+                  </div>
+
                   {/* FGUGO Balance */}
                   <div style={{ 
                     display: 'flex', 
@@ -707,6 +760,19 @@ export default function StatusBar({ onConnectWallet }: StatusBarProps) {
       
       {/* Why Popup */}
       {showWhyPopup && <WhyPopup />}
+
+      {/* Vote History Popup */}
+      {showVoteHistory && (
+        <VoteHistoryPopup
+          entries={voteLedger.entries}
+          balance={voteLedger.balance}
+          hasMore={voteLedger.hasMore}
+          loading={voteLedger.loading}
+          error={voteLedger.error}
+          onLoadMore={voteLedger.loadMore}
+          onClose={() => setShowVoteHistory(false)}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react';
+import type { CSSProperties } from 'react';
+import { fixImageUrl, getNextIPFSGateway } from '@lib/ipfs-gateway-manager';
+import { reportMediaFailure } from '@/lib/media-failure-reports';
+
+// 🎞️ Video / animated NFT renderer for matchup and slider cards
+// Shows the ingested poster frame (via /api/img) and plays the clip as a muted loop while the card
+// is hovered. Touch devices can't hover, so a corner button toggles playback without voting.
+
+interface VideoNftMediaProps {
+  nftId: string;
+  src: string;
+  contract?: string;
+  tokenId?: string;
+  active: boolean; // parent's hover state
+  style?: CSSProperties;
+  onMediaFailure?: () => void;
+}
+
+const MAX_GATEWAY_RETRIES = 3;
+
+const posterUrl = (contract?: string, tokenId?: string) =>
+  contract && tokenId
+    ? `/api/img?contract=${encodeURIComponent(contract)}&tokenId=${encodeURIComponent(tokenId)}&w=512`
+    : undefined;
+
+export default function VideoNftMedia({ nftId, src, contract, tokenId, active, style, onMediaFailure }: VideoNftMediaProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [tapped, setTapped] = useState(false);
+  const [currentSrc, setCurrentSrc] = useState(() => fixImageUrl(src));
+  const [retryCount, setRetryCount] = useState(0);
+  const playing = active || tapped;
+
+  useEffect(() => {
+    setCurrentSrc(fixImageUrl(src));
+    setRetryCount(0);
+    setTapped(false);
+  }, [src]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (playing) {
+      // Autoplay policies can still refuse; the poster stays up in that case
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [playing, currentSrc]);
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        src={currentSrc}
+        poster={posterUrl(contract, tokenId)}
+        muted
+        loop
+        playsInline
+        preload="metadata"
+        aria-label={`NFT ${nftId}`}
+        style={style}
+        onError={() => {
+          if (retryCount >= MAX_GATEWAY_RETRIES) {
+            console.log(`❌ All gateways failed for video NFT ${nftId} after ${retryCount} attempts`);
+            reportMediaFailure({ nftId, reason: 'load_failed', mediaUrl: currentSrc });
+            onMediaFailure?.();
+            return;
+          }
+          console.log(`❌ Video failed to load for NFT ${nftId} (attempt ${retryCount + 1}):`, currentSrc);
+          setRetryCount(retryCount + 1);
+          setCurrentSrc(getNextIPFSGateway(currentSrc, src));
+        }}
+      />
+
+      <button
+        type="button"
+        aria-label={playing ? 'Pause video' : 'Play video'}
+        onClick={(e) => {
+          // The media area is a vote target; only toggle playback
+          e.stopPropagation();
+          setTapped(!tapped);
+        }}
+        style={{
+          position: 'absolute',
+          bottom: 'var(--space-3)',
+          left: 'var(--space-3)',
+          width: '36px',
+          height: '36px',
+          borderRadius: '50%',
+          border: 'none',
+          background: 'rgba(0, 0, 0, 0.6)',
+          color: 'var(--color-white)',
+          fontSize: 'var(--font-size-sm)',
+          cursor: 'pointer',
+          zIndex: 2
+        }}
+      >
+        {playing ? '❚❚' : '▶'}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import type { LedgerEntryType, VoteLedgerEntry } from '@/types/ledger';
+
+interface VoteHistoryPopupProps {
+  entries: VoteLedgerEntry[];
+  balance: number | null;
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  onClose: () => void;
+}
+
+const ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  opening_balance: '📦 Starting balance',
+  daily_free_claim: '✨ Daily free votes',
+  purchase: '💳 Purchase',
+  regular_spend: '🗳️ Vote',
+  super_spend: '🔥 Super vote',
+  prize_break_grant: '🎁 Prize break',
+  media_failure_grant: '🖼️ Image issue compensation',
+  refund: '↩️ Refund'
+};
+
+export default function VoteHistoryPopup({
+  entries,
+  balance,
+  hasMore,
+  loading,
+  error,
+  onLoadMore,
+  onClose
+}: VoteHistoryPopupProps) {
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000,
+      padding: 'var(--space-4)'
+    }} onClick={onClose}>
+      <div style={{
+        background: 'var(--color-white)',
+        borderRadius: 'var(--border-radius-lg)',
+        padding: 'var(--space-8)',
+        maxWidth: '500px',
+        width: '100%',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 20px 60px rgba(0,0,0,0.3)',
+        position: 'relative'
+      }} onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          style={{
+            position: 'absolute',
+            top: 'var(--space-4)',
+            right: 'var(--space-4)',
+            background: 'none',
+            border: 'none',
+            fontSize: 'var(--font-size-xl)',
+            cursor: 'pointer',
+            color: 'var(--color-grey-500)'
+          }}
+        >
+          ×
+        </button>
+
+        <h2 style={{
+          fontSize: 'var(--font-size-2xl)',
+          fontWeight: '800',
+          color: 'var(--color-black)',
+          marginBottom: 'var(--space-2)',
+          textTransform: 'uppercase'
+        }}>
+          Vote History
+        </h2>
+        <p style={{ color: 'var(--color-grey-600)', marginBottom: 'var(--space-4)' }}>
+          Balance: <strong>{balance ?? '—'}</strong> votes
+        </p>
+
+        <div style={{ overflowY: 'auto', flex: 1 }}>
+          {entries.length === 0 && !loading && (
+            <p style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-sm)' }}>
+              No vote activity yet.
+            </p>
+          )}
+
+          {entries.map(entry => (
+            <div
+              key={entry.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: 'var(--space-2) 0',
+                borderBottom: '1px solid var(--color-grey-200)',
+                fontSize: 'var(--font-size-sm)'
+              }}
+            >
+              <div>
+                <div style={{ color: 'var(--color-black)', fontWeight: '500' }}>
+                  {ENTRY_LABELS[entry.entry_type] || entry.entry_type}
+                </div>
+                <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>
+                  {new Date(entry.created_at).toLocaleString()}
+                </div>
+              </div>
+              <div style={{ textAlign: 'right' }}>
+                <div style={{
+                  fontWeight: '600',
+                  color: entry.amount > 0 ? 'var(--color-green)' : 'var(--color-grey-700)'
+                }}>
+                  {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                </div>
+                <div style={{ color: 'var(--color-grey-500)', fontSize: 'var(--font-size-xs)' }}>
+                  = {entry.balance_after}
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {error && (
+            <p style={{ color: 'var(--color-red, #e53e3e)', fontSize: 'var(--font-size-sm)', marginTop: 'var(--space-2)' }}>
+              {error}
+            </p>
+          )}
+        </div>
+
+        {(hasMore || loading) && (
+          <button
+            onClick={onLoadMore}
+            disabled={loading}
+            style={{
+              marginTop: 'var(--space-4)',
+              padding: 'var(--space-2)',
+              background: 'var(--color-grey-100)',
+              border: 'none',
+              borderRadius: 'var(--border-radius-sm)',
+              cursor: loading ? 'default' : 'pointer',
+              fontSize: 'var(--font-size-sm)'
+            }}
+          >
+            {loading ? '⏳ Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useLoginWithAbstract, useAbstractClient } from "@abstract-foundation/agw-react";
 import { useAccount, useDisconnect } from "wagmi";
 import { useAuth } from "../hooks/useAuth";
-import { canClaimFreeVotes, claimFreeVotes, type User } from "../../lib/auth";
+import { canClaimFreeVotes, claimFreeVotes } from "../../lib/auth";
 import { useState } from "react";
 import MetaMaskConnect from "./MetaMaskConnect";
 
@@ -15,7 +15,6 @@ export default function WalletConnect() {
   const { user, loading, error, refreshUser } = useAuth();
   const [claiming, setClaiming] = useState(false);
   const [showWalletOptions, setShowWalletOptions] = useState(false);
-  const [metamaskUser, setMetamaskUser] = useState<User | null>(null);
   const [metamaskError, setMetamaskError] = useState<string | null>(null);
 
   const handleClaimFreeVotes = async () => {
@@ -23,7 +22,7 @@ export default function WalletConnect() {
     
     setClaiming(true);
     try {
-      const success = await claimFreeVotes(address);
+      const success = await claimFreeVotes();
       if (success) {
         await refreshUser(); // Refresh user data
         console.log('Free votes claimed successfully!');
@@ -37,21 +36,13 @@ export default function WalletConnect() {
     }
   };
 
-  const handleMetaMaskUserCreated = (user: User) => {
-    setMetamaskUser(user);
+  const handleMetaMaskConnected = () => {
     setMetamaskError(null);
     setShowWalletOptions(false);
   };
 
   const handleMetaMaskError = (error: string) => {
     setMetamaskError(error);
-    setMetamaskUser(null);
-  };
-
-  const resetConnection = () => {
-    setMetamaskUser(null);
-    setMetamaskError(null);
-    setShowWalletOptions(false);
   };
 
   if (loading) {
@@ -79,70 +70,6 @@ export default function WalletConnect() {
     );
   }
 
-  // Handle MetaMask connection display
-  if (metamaskUser) {
-    const canClaim = canClaimFreeVotes(metamaskUser);
-    
-    return (
-      <div className="flex flex-col gap-4 p-6 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
-        <div className="flex flex-col gap-3">
-          <div className="flex items-center gap-2">
-            <span className="text-2xl">🦊</span>
-            <div>
-              <p className="text-green-700 dark:text-green-300 font-semibold">MetaMask Connected!</p>
-              <p className="text-sm text-gray-600 dark:text-gray-300">
-                {metamaskUser.wallet_address.slice(0, 6)}...{metamaskUser.wallet_address.slice(-4)}
-              </p>
-            </div>
-          </div>
-          
-          {/* User Stats */}
-          <div className="grid grid-cols-2 gap-4 mt-2">
-            <div className="bg-white dark:bg-gray-700 p-3 rounded border">
-              <p className="text-sm text-gray-500 dark:text-gray-400">XP</p>
-              <p className="text-lg font-bold text-purple-600 dark:text-purple-400">{metamaskUser.xp}</p>
-            </div>
-            <div className="bg-white dark:bg-gray-700 p-3 rounded border">
-              <p className="text-sm text-gray-500 dark:text-gray-400">Total Votes</p>
-              <p className="text-lg font-bold text-blue-600 dark:text-blue-400">{metamaskUser.total_votes}</p>
-            </div>
-          </div>
-
-          {/* Free Votes Claim */}
-          {canClaim && (
-            <button
-              onClick={() => {/* MetaMask claim logic */}}
-              disabled={claiming}
-              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-semibold disabled:opacity-50"
-            >
-              {claiming ? '⏳ Claiming...' : '🎁 Claim Daily Free Votes'}
-            </button>
-          )}
-
-          {/* Connection Status */}
-          <div className="flex flex-col gap-1 text-sm">
-            <div className="flex items-center gap-2">
-              <span className="text-green-600">✅ MetaMask Connected</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="text-green-600">✅ Abstract Chain: Active</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <span className="text-green-600">✅ User Profile: Synced</span>
-            </div>
-          </div>
-        </div>
-        
-        <button
-          onClick={resetConnection}
-          className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors"
-        >
-          Disconnect
-        </button>
-      </div>
-    );
-  }
-
   // Show MetaMask error
   if (metamaskError) {
     return (
@@ -170,7 +97,7 @@ export default function WalletConnect() {
             <div>
                               <p className="text-green-700 dark:text-green-300 font-semibold">Welcome to Taste Machine!</p>
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                AGW: {address.slice(0, 6)}...{address.slice(-4)}
+                {user.wallet_type === 'metamask' ? 'MetaMask' : 'AGW'}: {address.slice(0, 6)}...{address.slice(-4)}
               </p>
             </div>
           </div>
@@ -207,7 +134,7 @@ export default function WalletConnect() {
           {/* Connection Status */}
           <div className="flex flex-col gap-1 text-sm">
             <div className="flex items-center gap-2">
-              <span className="text-green-600">✅ AGW Connected</span>
+              <span className="text-green-600">✅ {user.wallet_type === 'metamask' ? 'MetaMask' : 'AGW'} Connected</span>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-green-600">✅ Client: {client ? "Ready" : "Loading..."}</span>
@@ -259,7 +186,7 @@ export default function WalletConnect() {
 
         {/* MetaMask Option */}
         <MetaMaskConnect 
-          onUserCreated={handleMetaMaskUserCreated}
+          onConnected={handleMetaMaskConnected}
           onError={handleMetaMaskError}
         />
 
@@ -0,0 +1,15 @@
+// Generated by contracts/scripts/generate-client.ts from the Hardhat artifacts - do not edit.
+// Regenerate with: cd contracts && npm run generate:client
+
+export const gugoVoteManagerUpdatedAddress = {
+  11124: '0xF714af6b79143b3A412eBe421BFbaC4f7D4e4B13',
+} as const;
+
+export const gugoTokenAddress = {
+  11124: '0x3eAd960365697E1809683617af9390ABC9C24E56',
+} as const;
+
+export const contractNetworks = {
+  11124: { name: 'abstractTestnet', rpcUrl: 'https://api.testnet.abs.xyz', explorerUrl: 'https://explorer.testnet.abs.xyz' },
+  26026: { name: 'abstractMainnet', rpcUrl: 'https://api.mainnet.abs.xyz', explorerUrl: 'https://explorer.abs.xyz' },
+} as const;
@@ -0,0 +1,26 @@
+// Generated by contracts/scripts/generate-client.ts from the Hardhat artifacts - do not edit.
+// Regenerate with: cd contracts && npm run generate:client
+
+import {
+  createUseReadContract,
+  createUseSimulateContract,
+  createUseWatchContractEvent,
+  createUseWriteContract
+} from 'wagmi/codegen';
+import { gugoVoteManagerAbi, gugoVoteManagerUpdatedAbi, mockErc20Abi } from './abis';
+import { gugoVoteManagerUpdatedAddress } from './addresses';
+
+export const useReadGugoVoteManager = createUseReadContract({ abi: gugoVoteManagerAbi });
+export const useWriteGugoVoteManager = createUseWriteContract({ abi: gugoVoteManagerAbi });
+export const useSimulateGugoVoteManager = createUseSimulateContract({ abi: gugoVoteManagerAbi });
+export const useWatchGugoVoteManagerEvent = createUseWatchContractEvent({ abi: gugoVoteManagerAbi });
+
+export const useReadGugoVoteManagerUpdated = createUseReadContract({ abi: gugoVoteManagerUpdatedAbi, address: gugoVoteManagerUpdatedAddress });
+export const useWriteGugoVoteManagerUpdated = createUseWriteContract({ abi: gugoVoteManagerUpdatedAbi, address: gugoVoteManagerUpdatedAddress });
+export const useSimulateGugoVoteManagerUpdated = createUseSimulateContract({ abi: gugoVoteManagerUpdatedAbi, address: gugoVoteManagerUpdatedAddress });
+export const useWatchGugoVoteManagerUpdatedEvent = createUseWatchContractEvent({ abi: gugoVoteManagerUpdatedAbi, address: gugoVoteManagerUpdatedAddress });
+
+export const useReadMockErc20 = createUseReadContract({ abi: mockErc20Abi });
+export const useWriteMockErc20 = createUseWriteContract({ abi: mockErc20Abi });
+export const useSimulateMockErc20 = createUseSimulateContract({ abi: mockErc20Abi });
+export const useWatchMockErc20Event = createUseWatchContractEvent({ abi: mockErc20Abi });
@@ -0,0 +1,6 @@
+// Generated by contracts/scripts/generate-client.ts from the Hardhat artifacts - do not edit.
+// Regenerate with: cd contracts && npm run generate:client
+
+export * from './abis';
+export * from './addresses';
+export * from './hooks';
@@ -1,78 +1,193 @@
 "use client"
 
-import { useState, useEffect } from 'react';
-import { useAccount } from 'wagmi';
-import { getOrCreateUser, type User } from '../../lib/auth';
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { createSiweMessage } from 'viem/siwe';
+import { type User } from '../../lib/auth';
+import { getWalletTypeFromConnector } from '../../lib/wallet';
+import type { WalletSession } from '../../lib/session';
 
 interface UseAuthReturn {
   user: User | null;
+  session: WalletSession | null;
+  isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
   refreshUser: () => Promise<void>;
+  signIn: () => Promise<boolean>;
+  signOut: () => Promise<void>;
 }
 
+// Shared across hook instances so several components mounting useAuth
+// only ever trigger one signature prompt per address
+const signInRequests = new Map<string, Promise<WalletSession | null>>();
+const declinedAddresses = new Set<string>();
+
+const fetchSession = async (): Promise<WalletSession | null> => {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  if (!response.ok) return null;
+  const { session } = await response.json();
+  return session ?? null;
+};
+
+const isSessionFor = (session: WalletSession | null, address?: string): session is WalletSession =>
+  !!session && !!address && session.address.toLowerCase() === address.toLowerCase();
+
 export const useAuth = (): UseAuthReturn => {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<WalletSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  
-  const { address, isConnected, connector } = useAccount();
 
-  const fetchUser = async (walletAddress: string) => {
+  const { address, isConnected, connector, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const fetchUser = useCallback(async () => {
     try {
-      console.log('🔄 fetchUser called with address:', walletAddress);
-      setLoading(true);
-      setError(null);
-      
-      const userData = await getOrCreateUser(walletAddress, 'agw');
-      
-      if (userData) {
-        setUser(userData);
-        console.log('✅ User authenticated successfully:', userData.wallet_address);
-      } else {
-        console.error('❌ getOrCreateUser returned null');
-        setError('Failed to create or fetch user');
+      const response = await fetch('/api/user/stats', { cache: 'no-store' });
+      if (!response.ok) {
+        setUser(null);
+        setError(response.status === 401 ? null : 'Failed to load user');
+        return;
       }
+      const { user: userData } = await response.json();
+      setUser(userData as User);
+      console.log('✅ User authenticated successfully:', userData.wallet_address);
     } catch (err) {
       console.error('❌ Error in fetchUser:', err);
       setError('Authentication error');
+    }
+  }, []);
+
+  // 🔏 SIWE: nonce → sign → verify (works for AGW smart accounts and MetaMask EOAs)
+  const requestSignIn = useCallback(async (walletAddress: `0x${string}`): Promise<WalletSession | null> => {
+    const key = walletAddress.toLowerCase();
+    const pending = signInRequests.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' });
+      const { nonce } = await nonceResponse.json();
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address: walletAddress,
+        statement: 'Sign in to Taste Machine to vote and claim rewards.',
+        uri: window.location.origin,
+        version: '1',
+        chainId: chainId ?? 11124,
+        nonce,
+        issuedAt: new Date(),
+        expirationTime: new Date(Date.now() + 10 * 60 * 1000)
+      });
+
+      const signature = await signMessageAsync({ message });
+
+      const verifyResponse = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message,
+          signature,
+          walletType: getWalletTypeFromConnector(connector)
+        })
+      });
+
+      if (!verifyResponse.ok) {
+        const { error: verifyError } = await verifyResponse.json().catch(() => ({ error: 'Sign-in failed' }));
+        throw new Error(verifyError);
+      }
+
+      const { session: newSession } = await verifyResponse.json();
+      return newSession as WalletSession;
+    })().finally(() => signInRequests.delete(key));
+
+    signInRequests.set(key, request);
+    return request;
+  }, [chainId, connector, signMessageAsync]);
+
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!address) return false;
+    setLoading(true);
+    setError(null);
+    try {
+      const newSession = await requestSignIn(address);
+      declinedAddresses.delete(address.toLowerCase());
+      setSession(newSession);
+      await fetchUser();
+      return true;
+    } catch (err) {
+      console.error('❌ Wallet sign-in failed:', err);
+      declinedAddresses.add(address.toLowerCase());
+      setError('Wallet sign-in was not completed');
+      return false;
     } finally {
       setLoading(false);
     }
-  };
+  }, [address, requestSignIn, fetchUser]);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    setSession(null);
+    setUser(null);
+  }, []);
 
   const refreshUser = async () => {
-    if (address) {
-      await fetchUser(address);
+    if (isSessionFor(session, address)) {
+      await fetchUser();
     }
   };
 
   useEffect(() => {
-    console.log('🔍 useAuth useEffect triggered:');
-    console.log('  - isConnected:', isConnected);
-    console.log('  - address:', address);
-    console.log('  - connector:', connector?.name);
-    
+    let cancelled = false;
+
     // If we have an address AND a connector, treat as connected
     // This handles timing issues where isConnected might be false initially
-    if (address && connector) {
-      console.log('✅ Wallet connected (address + connector), fetching user...');
-      fetchUser(address);
-    } else if (isConnected && address) {
-      console.log('✅ Wallet connected (isConnected + address), fetching user...');
-      fetchUser(address);
-    } else {
-      console.log('❌ Wallet not connected, clearing user state');
+    if (!(address && (connector || isConnected))) {
+      setSession(null);
       setUser(null);
       setLoading(false);
       setError(null);
+      return;
     }
-  }, [isConnected, address, connector]);
+
+    const restoreOrSignIn = async () => {
+      setLoading(true);
+      try {
+        const existing = await fetchSession();
+        if (cancelled) return;
+
+        if (isSessionFor(existing, address)) {
+          setSession(existing);
+          await fetchUser();
+          return;
+        }
+
+        // Session belongs to another wallet (or none) - ask once per address
+        setSession(null);
+        setUser(null);
+        if (!declinedAddresses.has(address.toLowerCase())) {
+          await signIn();
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    restoreOrSignIn();
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, address, connector, fetchUser, signIn]);
 
   return {
     user,
+    session,
+    isAuthenticated: isSessionFor(session, address),
     loading,
     error,
-    refreshUser
+    refreshUser,
+    signIn,
+    signOut
   };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,58 @@
+"use client"
+
+import { useState, useEffect } from 'react';
+import { toLeaderboardSearchParams } from '@lib/leaderboard';
+import type { LeaderboardCollection, LeaderboardPage, LeaderboardQuery } from '@/types/leaderboard';
+
+interface UseLeaderboardReturn {
+  data: LeaderboardPage | null;
+  collections: LeaderboardCollection[];
+  loading: boolean;
+  error: string | null;
+}
+
+// 🏆 Public leaderboard page for the given query (refetches whenever the query changes)
+export const useLeaderboard = (query: LeaderboardQuery): UseLeaderboardReturn => {
+  const [data, setData] = useState<LeaderboardPage | null>(null);
+  const [collections, setCollections] = useState<LeaderboardCollection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryString = toLeaderboardSearchParams(query).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLeaderboard = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/leaderboard?${queryString}`);
+        if (!response.ok) {
+          throw new Error(`Leaderboard request failed with status ${response.status}`);
+        }
+        const result: LeaderboardPage = await response.json();
+        if (!cancelled) setData(result);
+      } catch (err) {
+        console.error('❌ Error loading leaderboard:', err);
+        if (!cancelled) setError('Failed to load leaderboard');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchLeaderboard();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryString]);
+
+  useEffect(() => {
+    fetch('/api/leaderboard/collections')
+      .then(response => (response.ok ? response.json() : { collections: [] }))
+      .then(result => setCollections(result.collections ?? []))
+      .catch(err => console.error('❌ Error loading leaderboard collections:', err));
+  }, []);
+
+  return { data, collections, loading, error };
+};
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AdminAccess } from '@/types/admin';
+import type { ModerationAction, ModerationQueueItem } from '@/types/moderation';
+
+interface UseModerationQueueReturn {
+  items: ModerationQueueItem[];
+  access: AdminAccess;
+  loading: boolean;
+  error: string | null;
+  pendingNftId: string | null;
+  refresh: () => Promise<void>;
+  moderate: (nftId: string, action: ModerationAction, note?: string) => Promise<boolean>;
+}
+
+// 🚩 Operator moderation queue (/api/admin/moderation); refetches after every action
+export const useModerationQueue = (page: number, pageSize: number, sessionAddress?: string | null): UseModerationQueueReturn => {
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [access, setAccess] = useState<AdminAccess>('loading');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingNftId, setPendingNftId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/moderation?page=${page}&pageSize=${pageSize}`, { cache: 'no-store' });
+      if (response.status === 401 || response.status === 403) {
+        setAccess(response.status === 401 ? 'signed_out' : 'forbidden');
+        setItems([]);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Moderation queue request failed with status ${response.status}`);
+      }
+      const result: { items: ModerationQueueItem[] } = await response.json();
+      setAccess('ok');
+      setItems(result.items);
+    } catch (err) {
+      console.error('❌ Error loading moderation queue:', err);
+      setError('Failed to load moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, pageSize]);
+
+  // Signing in (or switching wallets) changes what the route allows
+  useEffect(() => {
+    refresh();
+  }, [refresh, sessionAddress]);
+
+  const moderate = useCallback(async (nftId: string, action: ModerationAction, note?: string): Promise<boolean> => {
+    setPendingNftId(nftId);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/moderation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nftId, action, note })
+      });
+      if (!response.ok) {
+        const { error: actionError } = await response.json().catch(() => ({ error: null }));
+        throw new Error(actionError || `Moderation action failed with status ${response.status}`);
+      }
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(`❌ Error applying ${action} to NFT ${nftId}:`, err);
+      setError(err instanceof Error ? err.message : 'Moderation action failed');
+      return false;
+    } finally {
+      setPendingNftId(null);
+    }
+  }, [refresh]);
+
+  return { items, access, loading, error, pendingNftId, refresh, moderate };
+};
@@ -2,7 +2,20 @@
 // Manages prize breaks and background queue refilling
 
 import { useState, useEffect } from 'react';
-import { refillDuringPrizeBreak, RefillResult } from '@lib/queue-refill';
+import type { RefillResult } from '@lib/queue-refill';
+
+// The refill runs (and is logged) on the server, sized from the wallet's stored vote total;
+// see src/app/api/queue/refill/route.ts
+const refillDuringPrizeBreak = async (breakStartTime: number): Promise<RefillResult> => {
+  const response = await fetch('/api/queue/refill', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ breakStartTime })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Queue refill failed (${response.status})`);
+  return data.result;
+};
 
 export interface PrizeBreakState {
   isActive: boolean;
@@ -57,10 +70,7 @@ export function usePrizeBreak() {
 
     try {
       // Refill queue based on break duration and user engagement
-      const refillResult = await refillDuringPrizeBreak(
-        prizeBreakState.voteCount,
-        prizeBreakState.startTime
-      );
+      const refillResult = await refillDuringPrizeBreak(prizeBreakState.startTime);
 
       console.log(`✅ Queue refill complete: +${refillResult.added.total} matchups`);
 
@@ -99,7 +109,7 @@ export function usePrizeBreak() {
           refillInProgress: true
         }));
 
-        refillDuringPrizeBreak(prizeBreakState.voteCount, prizeBreakState.startTime!)
+        refillDuringPrizeBreak(prizeBreakState.startTime!)
           .then(result => {
             console.log(`✅ Background refill complete: +${result.added.total} matchups`);
             setPrizeBreakState(prev => ({
@@ -0,0 +1,114 @@
+"use client"
+
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import {
+  contractNetworks,
+  gugoVoteManagerUpdatedAddress,
+  useReadGugoVoteManagerUpdated,
+  useWriteGugoVoteManagerUpdated
+} from '@/contracts';
+import {
+  decodePrizeBreakClaimed,
+  isClaimBusy,
+  mergePrizeClaims,
+  prizeClaimReducer,
+  toPrizeBreakInfo,
+  type PrizeBreakInfo,
+  type PrizeClaim,
+  type PrizeClaimState
+} from '@/lib/prize-break';
+
+interface UsePrizeBreakClaimReturn {
+  state: PrizeClaimState;
+  available: boolean; // the wallet is connected to a chain the vote manager is deployed on
+  info: PrizeBreakInfo | null;
+  history: PrizeClaim[];
+  explorerUrl: string | null;
+  claim: () => Promise<boolean>;
+  refresh: () => void; // re-read what is claimable and the history; clears a finished claim
+}
+
+const HISTORY_LIMIT = 10;
+
+// viem errors carry a one-line shortMessage ("User rejected the request.") worth showing as-is
+const errorMessage = (error: unknown) =>
+  (error as { shortMessage?: string })?.shortMessage || (error instanceof Error ? error.message : 'Claim failed');
+
+// 🎁 Claim on-chain prize break rewards: getPrizeBreakInfo → claimPrizeBreak → reveal PrizeBreakClaimed
+export const usePrizeBreakClaim = (): UsePrizeBreakClaimReturn => {
+  const [state, dispatch] = useReducer(prizeClaimReducer, { status: 'idle' });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const [history, setHistory] = useState<PrizeClaim[]>([]);
+
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteGugoVoteManagerUpdated();
+
+  const contract = chainId ? (gugoVoteManagerUpdatedAddress as Record<number, Address | undefined>)[chainId] : undefined;
+  const available = !!address && !!contract;
+  const explorerUrl = chainId
+    ? (contractNetworks as Record<number, { explorerUrl: string } | undefined>)[chainId]?.explorerUrl ?? null
+    : null;
+
+  const { data, refetch } = useReadGugoVoteManagerUpdated({
+    functionName: 'getPrizeBreakInfo',
+    args: address ? [address] : undefined,
+    query: { enabled: available }
+  });
+  const info = available && data ? toPrizeBreakInfo(data) : null;
+
+  // Indexed claims, plus any claim this session revealed that the indexer hasn't confirmed yet
+  const loadHistory = useCallback(async () => {
+    if (!address) return;
+    try {
+      const response = await fetch(`/api/user/prize-claims?limit=${HISTORY_LIMIT}`);
+      if (!response.ok) return; // not signed in yet - the history just stays local
+      const result = await response.json();
+      setHistory(prev => mergePrizeClaims(result.claims ?? [], prev).slice(0, HISTORY_LIMIT));
+    } catch (error) {
+      console.error('❌ Error loading prize claims:', error);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setHistory([]);
+    loadHistory();
+  }, [loadHistory]);
+
+  const claim = useCallback(async (): Promise<boolean> => {
+    if (!publicClient || !address || !contract || isClaimBusy(stateRef.current)) return false;
+
+    dispatch({ type: 'CLAIM_STARTED' });
+    try {
+      const txHash = await writeContractAsync({ functionName: 'claimPrizeBreak' });
+      dispatch({ type: 'CLAIM_SUBMITTED', hash: txHash });
+      console.log('🎁 Prize break claim submitted:', txHash);
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') throw new Error('Prize break claim reverted');
+
+      const rewards = decodePrizeBreakClaimed(receipt.logs, contract, address);
+      if (rewards.length === 0) throw new Error('No PrizeBreakClaimed event in the transaction');
+
+      dispatch({ type: 'REVEALED', rewards });
+      setHistory(prev => mergePrizeClaims(prev, rewards).slice(0, HISTORY_LIMIT));
+      refetch();
+      return true;
+    } catch (error) {
+      console.error('❌ Error claiming prize break:', error);
+      dispatch({ type: 'FAILED', error: errorMessage(error) });
+      return false;
+    }
+  }, [address, contract, publicClient, refetch, writeContractAsync]);
+
+  const refresh = useCallback(() => {
+    if (!isClaimBusy(stateRef.current)) dispatch({ type: 'RESET' });
+    if (available) refetch();
+    loadHistory();
+  }, [available, loadHistory, refetch]);
+
+  return { state, available, info, history, explorerUrl, claim, refresh };
+};
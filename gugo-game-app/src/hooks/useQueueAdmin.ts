@@ -0,0 +1,112 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react';
+import type { RefillResult } from '@lib/queue-refill';
+import type { AdminAccess, QueueAdminAction, QueueDashboard } from '@/types/admin';
+
+const LIVE_REFRESH_MS = 5000;
+
+interface UseQueueAdminReturn {
+  dashboard: QueueDashboard | null;
+  access: AdminAccess;
+  loading: boolean;
+  error: string | null;
+  pendingAction: QueueAdminAction | null;
+  lastActionResult: string | null;
+  refresh: () => Promise<void>;
+  runAction: (action: QueueAdminAction, collection?: string) => Promise<boolean>;
+}
+
+// POST /api/admin/queue response, by action
+interface QueueActionResult {
+  success?: boolean;
+  result?: RefillResult;
+  cleaned?: number;
+  purged?: number;
+  error?: string;
+}
+
+const describeResult = (action: QueueAdminAction, result: QueueActionResult): string => {
+  if (action === 'refill') {
+    return result.success && result.result
+      ? `Refill added ${result.result.added.total} entries in ${result.result.refillTime}ms`
+      : 'Refill ran but failed - see the run history';
+  }
+  if (action === 'cleanup') return `Cleanup removed ${result.cleaned} entries`;
+  return `Purged ${result.purged} entries`;
+};
+
+// 🧰 Matchup queue dashboard (/api/admin/queue), polled while the tab is visible so refill runs
+// from visitors' prize breaks show up live
+export const useQueueAdmin = (sessionAddress?: string | null): UseQueueAdminReturn => {
+  const [dashboard, setDashboard] = useState<QueueDashboard | null>(null);
+  const [access, setAccess] = useState<AdminAccess>('loading');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<QueueAdminAction | null>(null);
+  const [lastActionResult, setLastActionResult] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/queue', { cache: 'no-store' });
+      if (response.status === 401 || response.status === 403) {
+        setAccess(response.status === 401 ? 'signed_out' : 'forbidden');
+        setDashboard(null);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Queue dashboard request failed with status ${response.status}`);
+      }
+      setAccess('ok');
+      setDashboard(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error('❌ Error loading queue dashboard:', err);
+      setError('Failed to load queue dashboard');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Signing in (or switching wallets) changes what the route allows
+  useEffect(() => {
+    refresh();
+  }, [refresh, sessionAddress]);
+
+  useEffect(() => {
+    if (access !== 'ok') return;
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') refresh();
+    }, LIVE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [access, refresh]);
+
+  const runAction = useCallback(async (action: QueueAdminAction, collection?: string): Promise<boolean> => {
+    setPendingAction(action);
+    setError(null);
+    setLastActionResult(null);
+    try {
+      const response = await fetch('/api/admin/queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, collection })
+      });
+      const result: QueueActionResult = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || `Queue ${action} failed with status ${response.status}`);
+      }
+      setLastActionResult(describeResult(action, result));
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(`❌ Error running queue ${action}:`, err);
+      setError(err instanceof Error ? err.message : `Queue ${action} failed`);
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  }, [refresh]);
+
+  return { dashboard, access, loading, error, pendingAction, lastActionResult, refresh, runAction };
+};
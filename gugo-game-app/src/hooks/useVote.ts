@@ -1,12 +1,13 @@
 import { useState } from 'react';
 import { supabase } from '@lib/supabase';
-import type { VoteSubmission, EloUpdate, SliderUpdate, VoteType, VoteResult } from '@/types/voting';
+import { seenMatchups } from '@lib/seen-matchups';
+import type { VoteSubmission, VoteResult } from '@/types/voting';
 
 export function useVote() {
   const [isVoting, setVoting] = useState(false);
 
-  // 🗳️ New sophisticated voting function
-  const submitVote = async (voteData: VoteSubmission, userWallet?: string, userVoteCount: number = 0): Promise<VoteResult> => {
+  // 🗳️ Submit a vote - all Elo / slider / stats writes happen server-side in /api/vote
+  const submitVote = async (voteData: VoteSubmission, userWallet?: string): Promise<VoteResult> => {
     setVoting(true);
     try {
       // Require wallet connection for voting
@@ -14,86 +15,32 @@ export function useVote() {
         throw new Error('Wallet connection required to vote. Please connect your wallet first.');
       }
 
-      // Check super vote requirements
-      if (voteData.super_vote) {
-        const hasEnoughVotes = await checkSuperVoteEligibility(userWallet);
-        if (!hasEnoughVotes) {
-          // Return insufficient votes result instead of throwing error
-          return { 
-            hash: 'insufficient-votes', 
-            voteId: null,
-            isPrizeBreak: false,
-            voteCount: userVoteCount,
-            insufficientVotes: true,
-            requiredVotes: 5
-          };
-        }
-      }
-
       console.log(`🗳️ Submitting ${voteData.super_vote ? '🔥 SUPER' : 'regular'} ${voteData.vote_type} vote:`, voteData);
 
-      // Get or create user record
-      const userId = await getOrCreateUser(userWallet);
+      const response = await fetch('/api/vote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vote: voteData })
+      });
 
-      // Insert the vote record
-      const { data: voteRecord, error: voteError } = await supabase
-        .from('votes')
-        .insert({
-          user_id: userId,
-          vote_type_v2: voteData.vote_type,
-          nft_a_id: voteData.nft_a_id,
-          nft_b_id: voteData.nft_b_id,
-          winner_id: voteData.winner_id,
-          slider_value: voteData.slider_value,
-          engagement_data: {
-            timestamp: new Date().toISOString(),
-            user_agent: navigator.userAgent,
-            vote_count: userVoteCount,
-            wallet_address: userWallet,
-            super_vote: voteData.super_vote || false,
-            vote_cost: voteData.super_vote ? 5 : 1,
-            ...voteData.engagement_data
-          }
-        })
-        .select()
-        .single();
+      const result = await response.json();
 
-      if (voteError) {
-        throw new Error(`Failed to record vote: ${voteError.message}`);
+      if (!response.ok) {
+        throw new Error(result?.error || `Vote failed with status ${response.status}`);
       }
 
-      // Process the vote based on type
-      if (voteData.vote_type === 'slider') {
-        await processSliderVote(voteData);
+      if (result.insufficientVotes) {
+        console.log(`🔥 Not enough votes for super vote (${result.requiredVotes} required)`);
       } else {
-        await processMatchupVote(voteData);
-      }
-
-      // Deduct vote cost if super vote
-      if (voteData.super_vote) {
-        await deductSuperVoteCost(userWallet);
-      }
-
-      // Update user statistics
-      await updateUserStats(userWallet);
-
-      // Clean up used matchup from queue if it came from queue
-      if (voteData.engagement_data?.queueId) {
-        await cleanupUsedMatchup(voteData.engagement_data.queueId);
+        console.log('✅ Vote processed successfully');
+        if (voteData.vote_type === 'slider' && voteData.nft_a_id) {
+          seenMatchups.markSliderSeen(voteData.nft_a_id);
+        } else if (voteData.nft_a_id && voteData.nft_b_id) {
+          seenMatchups.markPairSeen(voteData.nft_a_id, voteData.nft_b_id);
+        }
       }
 
-      console.log('✅ Vote processed successfully');
-      
-      // Check if this triggers a prize break
-      const isPrizeBreak = userVoteCount > 0 && (userVoteCount + 1) % 10 === 0;
-      
-      return { 
-        hash: 'vote-processed', 
-        voteId: voteRecord.id,
-        isPrizeBreak,
-        voteCount: userVoteCount + 1,
-        insufficientVotes: false
-      };
+      return result as VoteResult;
 
     } catch (err) {
       console.error('❌ Voting failed:', err);
@@ -103,199 +50,10 @@ export function useVote() {
     }
   };
 
-  // 📊 Process slider vote (update NFT slider average)
-  const processSliderVote = async (voteData: VoteSubmission) => {
-    if (!voteData.nft_a_id || voteData.slider_value === undefined) {
-      throw new Error('Invalid slider vote data');
-    }
-
-    // Get current NFT data
-    const { data: nft, error: nftError } = await supabase
-      .from('nfts')
-      .select('id, slider_average, slider_count')
-      .eq('id', voteData.nft_a_id)
-      .single();
-
-    if (nftError || !nft) {
-      throw new Error('Failed to fetch NFT for slider update');
-    }
-
-    // Calculate new average using the Supabase function
-    const { data: updateResult, error: updateError } = await supabase
-      .rpc('update_slider_average', {
-        current_avg: nft.slider_average,
-        current_count: nft.slider_count,
-        new_value: voteData.slider_value
-      });
-
-    if (updateError || !updateResult || updateResult.length === 0) {
-      throw new Error('Failed to calculate new slider average');
-    }
-
-    const { new_average, new_count } = updateResult[0];
-
-    // Update the NFT record
-    const { error: updateNFTError } = await supabase
-      .from('nfts')
-      .update({
-        slider_average: new_average,
-        slider_count: new_count,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', voteData.nft_a_id);
-
-    if (updateNFTError) {
-      throw new Error('Failed to update NFT slider data');
-    }
-
-    console.log(`📊 Updated slider: ${nft.slider_average} → ${new_average} (count: ${new_count})`);
-  };
-
-  // 🥊 Process matchup vote (update Elo ratings)
-  const processMatchupVote = async (voteData: VoteSubmission) => {
-    if (!voteData.nft_a_id || !voteData.nft_b_id || !voteData.winner_id) {
-      throw new Error('Invalid matchup vote data');
-    }
-
-    const isSuperVote = voteData.super_vote || false;
-
-    // Get current Elo ratings
-    const [nftAResult, nftBResult] = await Promise.all([
-      supabase
-        .from('nfts')
-        .select('id, current_elo, wins, losses, total_votes')
-        .eq('id', voteData.nft_a_id)
-        .single(),
-      supabase
-        .from('nfts')
-        .select('id, current_elo, wins, losses, total_votes')
-        .eq('id', voteData.nft_b_id)
-        .single()
-    ]);
-
-    if (nftAResult.error || nftBResult.error || !nftAResult.data || !nftBResult.data) {
-      throw new Error('Failed to fetch NFTs for Elo update');
-    }
-
-    const nftA = nftAResult.data;
-    const nftB = nftBResult.data;
-    const winner = voteData.winner_id === nftA.id ? 'a' : 'b';
-
-    // Calculate new Elo ratings using Supabase function
-    const { data: eloResult, error: eloError } = await supabase
-      .rpc('calculate_elo_update', {
-        rating_a: nftA.current_elo,
-        rating_b: nftB.current_elo,
-        winner: winner
-      });
-
-    if (eloError || !eloResult || eloResult.length === 0) {
-      throw new Error('Failed to calculate new Elo ratings');
-    }
-
-    let { new_rating_a, new_rating_b } = eloResult[0];
-
-    // Apply super vote multiplier (2x Elo change)
-    if (isSuperVote) {
-      const eloChangeA = new_rating_a - nftA.current_elo;
-      const eloChangeB = new_rating_b - nftB.current_elo;
-      new_rating_a = nftA.current_elo + (eloChangeA * 2);
-      new_rating_b = nftB.current_elo + (eloChangeB * 2);
-      console.log(`🔥 Super vote applied: 2x Elo effect!`);
-    }
-
-    // Update both NFTs
-    const voteWeight = isSuperVote ? 5 : 1; // Super votes count as 5 votes for statistics
-    const updatePromises = [
-      supabase
-        .from('nfts')
-        .update({
-          current_elo: new_rating_a,
-          wins: winner === 'a' ? nftA.wins + voteWeight : nftA.wins,
-          losses: winner === 'a' ? nftA.losses : nftA.losses + voteWeight,
-          total_votes: nftA.total_votes + voteWeight,
-          elo_last_updated: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', nftA.id),
-      supabase
-        .from('nfts')
-        .update({
-          current_elo: new_rating_b,
-          wins: winner === 'b' ? nftB.wins + voteWeight : nftB.wins,
-          losses: winner === 'b' ? nftB.losses : nftB.losses + voteWeight,
-          total_votes: nftB.total_votes + voteWeight,
-          elo_last_updated: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', nftB.id)
-    ];
-
-    const updateResults = await Promise.all(updatePromises);
-
-    if (updateResults.some(result => result.error)) {
-      throw new Error('Failed to update NFT Elo ratings');
-    }
-
-    console.log(`${isSuperVote ? '🔥' : '🥊'} Updated Elo${isSuperVote ? ' (SUPER 2x)' : ''}: A(${nftA.current_elo} → ${new_rating_a}) vs B(${nftB.current_elo} → ${new_rating_b}), Winner: ${winner.toUpperCase()}`);
-  };
-
-  // 👤 Update user voting statistics
-  const updateUserStats = async (userWallet: string) => {
-    try {
-      // Get user ID first
-      const userId = await getOrCreateUser(userWallet);
-      
-      // First get current values to increment them
-      const { data: currentUser } = await supabase
-        .from('users')
-        .select('total_votes, vote_streak')
-        .eq('id', userId)
-        .single();
-
-      const { error } = await supabase
-        .from('users')
-        .update({
-          last_vote_at: new Date().toISOString(),
-          total_votes: (currentUser?.total_votes || 0) + 1,
-          vote_streak: (currentUser?.vote_streak || 0) + 1, // TODO: Add logic to reset if gap > 24h
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
-
-      if (error) {
-        console.warn('⚠️ Failed to update user stats:', error);
-        // Don't throw - this shouldn't block voting
-      }
-    } catch (error) {
-      console.warn('⚠️ Failed to update user stats:', error);
-      // Don't throw - this shouldn't block voting
-    }
-  };
-
-  // 🗑️ Clean up used matchup from queue
-  const cleanupUsedMatchup = async (queueId: string) => {
-    try {
-      const { error } = await supabase
-        .from('matchup_queue')
-        .delete()
-        .eq('id', queueId);
-        
-      if (error) {
-        console.warn('⚠️ Failed to cleanup queue matchup:', error);
-        // Don't throw - this shouldn't block voting
-      } else {
-        console.log('🗑️ Cleaned up used matchup from queue');
-      }
-    } catch (error) {
-      console.warn('⚠️ Queue cleanup error:', error);
-    }
-  };
-
   // 🔄 Legacy vote function for backwards compatibility
   const vote = async (winnerId: string, superVote: boolean = false) => {
     console.log('⚠️ Using legacy vote function - consider migrating to submitVote');
-    
+
     // Convert to new vote format
     const voteData: VoteSubmission = {
       vote_type: superVote ? 'same_coll' : 'same_coll', // Map old super vote logic
@@ -309,54 +67,14 @@ export function useVote() {
     return await submitVote(voteData);
   };
 
-  // 👤 Get or create user record
-  const getOrCreateUser = async (walletAddress: string): Promise<string> => {
-    try {
-      // First, try to find existing user
-      const { data: existingUser, error: findError } = await supabase
-        .from('users')
-        .select('id')
-        .eq('wallet_address', walletAddress)
-        .single();
-
-      if (existingUser) {
-        return existingUser.id;
-      }
-
-      // If not found, create new user
-      const { data: newUser, error: createError } = await supabase
-        .from('users')
-        .insert({
-          wallet_address: walletAddress,
-          wallet_type: 'metamask', // Default, could be detected
-          xp: 0,
-          total_votes: 0
-        })
-        .select('id')
-        .single();
-
-      if (createError) {
-        console.error('❌ Failed to create user:', createError);
-        throw new Error('Failed to create user record');
-      }
-
-      console.log('✅ Created new user record');
-      return newUser.id;
-    } catch (error) {
-      console.error('❌ Error in getOrCreateUser:', error);
-      throw error;
-    }
-  };
-
   // 🔥 Check if user has enough votes for super vote (costs 5 votes)
+  // UI hint only - /api/vote enforces the balance
   const checkSuperVoteEligibility = async (userWallet: string): Promise<boolean> => {
     try {
-      const userId = await getOrCreateUser(userWallet);
-      
       const { data: user, error } = await supabase
         .from('users')
         .select('available_votes')
-        .eq('id', userId)
+        .eq('wallet_address', userWallet)
         .single();
 
       if (error || !user) {
@@ -374,47 +92,12 @@ export function useVote() {
     }
   };
 
-  // 💳 Deduct votes for super vote usage
-  const deductSuperVoteCost = async (userWallet: string): Promise<void> => {
-    try {
-      const userId = await getOrCreateUser(userWallet);
-      
-      const { data: user, error: fetchError } = await supabase
-        .from('users')
-        .select('available_votes')
-        .eq('id', userId)
-        .single();
-
-      if (fetchError || !user) {
-        throw new Error('Could not fetch user vote balance');
-      }
-
-      const newBalance = (user.available_votes || 0) - 5;
-      
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ 
-          available_votes: Math.max(0, newBalance) // Ensure it doesn't go negative
-        })
-        .eq('id', userId);
-
-      if (updateError) {
-        throw new Error('Failed to deduct super vote cost');
-      }
-
-      console.log(`💳 Super vote cost deducted: ${user.available_votes} → ${newBalance} votes`);
-    } catch (error) {
-      console.error('❌ Error deducting super vote cost:', error);
-      throw error;
-    }
-  };
-
   // Note: Removed anonymous user creation - wallet connection required for voting
 
-  return { 
+  return {
     submitVote,
     vote, // Legacy function
     isVoting,
     checkSuperVoteEligibility // Export for UI use
   };
-}
\ No newline at end of file
+}
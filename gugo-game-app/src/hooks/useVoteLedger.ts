@@ -0,0 +1,82 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react';
+import type { VoteLedgerEntry, VoteLedgerPage } from '@/types/ledger';
+
+interface UseVoteLedgerReturn {
+  entries: VoteLedgerEntry[];
+  balance: number | null;
+  total: number;
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const PAGE_SIZE = 20;
+
+// Dispatched on window after a credit that happens outside this hook (e.g. an on-chain purchase)
+export const VOTE_BALANCE_CHANGED_EVENT = 'gugo:vote-balance-changed';
+
+// 📒 Signed-in user's vote balance + ledger history (newest first)
+export const useVoteLedger = (enabled: boolean): UseVoteLedgerReturn => {
+  const [entries, setEntries] = useState<VoteLedgerEntry[]>([]);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (pageToLoad: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/ledger?page=${pageToLoad}&pageSize=${PAGE_SIZE}`, { cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`Ledger request failed with status ${response.status}`);
+      }
+
+      const result: VoteLedgerPage = await response.json();
+      setEntries(prev => pageToLoad === 0 ? result.entries : [...prev, ...result.entries]);
+      setBalance(result.balance);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(result.page);
+    } catch (err) {
+      console.error('❌ Error loading vote history:', err);
+      setError('Failed to load vote history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refresh = useCallback(() => fetchPage(0), [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (hasMore && !loading) {
+      await fetchPage(page + 1);
+    }
+  }, [fetchPage, hasMore, loading, page]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchPage(0);
+    } else {
+      setEntries([]);
+      setBalance(null);
+      setTotal(0);
+      setHasMore(false);
+    }
+  }, [enabled, fetchPage]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleBalanceChanged = () => { fetchPage(0); };
+    window.addEventListener(VOTE_BALANCE_CHANGED_EVENT, handleBalanceChanged);
+    return () => window.removeEventListener(VOTE_BALANCE_CHANGED_EVENT, handleBalanceChanged);
+  }, [enabled, fetchPage]);
+
+  return { entries, balance, total, hasMore, loading, error, loadMore, refresh };
+};
@@ -0,0 +1,205 @@
+"use client"
+
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi';
+import { erc20Abi, type Address, type Hash } from 'viem';
+import { gugoVoteManagerAbi } from '@/contracts';
+import {
+  needsApproval,
+  purchaseReducer,
+  VOTE_MANAGER_ADDRESS,
+  type PurchaseCurrency,
+  type PurchaseQuote,
+  type PurchaseState
+} from '@/lib/vote-purchase';
+import { VOTE_BALANCE_CHANGED_EVENT } from './useVoteLedger';
+
+interface UseVotePurchaseReturn {
+  state: PurchaseState;
+  available: boolean; // a vote manager is configured and the wallet is connected
+  quote: (voteCount: number, currency: PurchaseCurrency) => Promise<void>;
+  purchase: () => Promise<boolean>;
+  reset: () => void;
+}
+
+interface PendingPurchase {
+  txHash: Hash;
+  chainId: number;
+  address: string;
+}
+
+const PENDING_KEY = 'gugo-pending-vote-purchase';
+const CREDIT_ATTEMPTS = 4;
+const CREDIT_RETRY_MS = 3000;
+
+const readPending = (): PendingPurchase | null => {
+  try {
+    const raw = localStorage.getItem(PENDING_KEY);
+    return raw ? JSON.parse(raw) as PendingPurchase : null;
+  } catch {
+    return null;
+  }
+};
+
+const writePending = (pending: PendingPurchase | null) => {
+  try {
+    if (pending) localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+    else localStorage.removeItem(PENDING_KEY);
+  } catch {
+    // Private mode - the purchase just can't be resumed after a reload
+  }
+};
+
+// viem errors carry a one-line shortMessage ("User rejected the request.") worth showing as-is
+const errorMessage = (error: unknown) =>
+  (error as { shortMessage?: string })?.shortMessage || (error instanceof Error ? error.message : 'Purchase failed');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 💳 Buy votes from GugoVoteManager: quote → (GUGO approve) → purchase → wait for receipt → credit ledger
+export const useVotePurchase = (): UseVotePurchaseReturn => {
+  const [state, dispatch] = useReducer(purchaseReducer, { status: 'idle' });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+
+  const available = !!VOTE_MANAGER_ADDRESS && !!address;
+
+  // Receipt first, then the server re-reads it and credits the VotesPurchased event
+  const confirmAndCredit = useCallback(async (txHash: Hash, purchaseChainId: number) => {
+    if (!publicClient) throw new Error('No RPC client for this chain');
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      writePending(null);
+      throw new Error('Purchase transaction reverted');
+    }
+    dispatch({ type: 'MINED' });
+
+    for (let attempt = 1; attempt <= CREDIT_ATTEMPTS; attempt++) {
+      const response = await fetch('/api/user/purchase', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash, chainId: purchaseChainId })
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        writePending(null);
+        dispatch({ type: 'CREDITED', votesAdded: result.votesAdded ?? 0, balance: result.balance ?? null });
+        window.dispatchEvent(new Event(VOTE_BALANCE_CHANGED_EVENT));
+        return;
+      }
+      // 409: our RPC saw the receipt before the server's did - give it a moment
+      if (response.status !== 409 || attempt === CREDIT_ATTEMPTS) {
+        throw new Error(result.error || `Crediting failed with status ${response.status}`);
+      }
+      await sleep(CREDIT_RETRY_MS);
+    }
+  }, [publicClient]);
+
+  // Resume a purchase that was still confirming when the dialog or page closed
+  useEffect(() => {
+    const pending = readPending();
+    if (!pending || !address || !chainId || stateRef.current.status !== 'idle') return;
+    if (pending.address.toLowerCase() !== address.toLowerCase() || pending.chainId !== chainId) return;
+
+    console.log('💳 Resuming pending vote purchase:', pending.txHash);
+    dispatch({ type: 'RESUMED', hash: pending.txHash });
+    confirmAndCredit(pending.txHash, pending.chainId).catch(error => {
+      console.error('❌ Error resuming vote purchase:', error);
+      dispatch({ type: 'FAILED', error: errorMessage(error) });
+    });
+  }, [address, chainId, confirmAndCredit]);
+
+  const quote = useCallback(async (voteCount: number, currency: PurchaseCurrency) => {
+    if (!publicClient || !address || !VOTE_MANAGER_ADDRESS) return;
+
+    dispatch({ type: 'QUOTE_REQUESTED' });
+    try {
+      const contract = { address: VOTE_MANAGER_ADDRESS, abi: gugoVoteManagerAbi } as const;
+      const count = BigInt(voteCount);
+      let next: PurchaseQuote;
+
+      if (currency === 'ETH') {
+        const [cost, balance] = await Promise.all([
+          publicClient.readContract({ ...contract, functionName: 'getVoteCostETH', args: [count] }),
+          publicClient.getBalance({ address })
+        ]);
+        next = { currency, voteCount, cost, balance, allowance: null, token: null };
+      } else {
+        const [cost, token] = await Promise.all([
+          publicClient.readContract({ ...contract, functionName: 'getVoteCostGUGO', args: [count] }),
+          publicClient.readContract({ ...contract, functionName: 'gugoToken' })
+        ]);
+        const [balance, allowance] = await Promise.all([
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [address] }),
+          publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'allowance', args: [address, VOTE_MANAGER_ADDRESS] })
+        ]);
+        next = { currency, voteCount, cost, balance, allowance, token };
+      }
+
+      dispatch({ type: 'QUOTED', quote: next });
+    } catch (error) {
+      console.error('❌ Error quoting vote purchase:', error);
+      dispatch({ type: 'FAILED', error: errorMessage(error) });
+    }
+  }, [address, publicClient]);
+
+  const purchase = useCallback(async (): Promise<boolean> => {
+    const current = stateRef.current;
+    if (current.status !== 'quoted' || !publicClient || !address || !chainId || !VOTE_MANAGER_ADDRESS) return false;
+    const { quote: selected } = current;
+
+    try {
+      if (needsApproval(selected)) {
+        dispatch({ type: 'APPROVAL_STARTED' });
+        const approvalHash = await writeContractAsync({
+          address: selected.token as Address,
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [VOTE_MANAGER_ADDRESS, selected.cost]
+        });
+        dispatch({ type: 'APPROVAL_SUBMITTED', hash: approvalHash });
+
+        const approval = await publicClient.waitForTransactionReceipt({ hash: approvalHash });
+        if (approval.status !== 'success') throw new Error('GUGO approval reverted');
+      }
+
+      dispatch({ type: 'PURCHASE_STARTED' });
+      const count = BigInt(selected.voteCount);
+      const txHash = selected.currency === 'ETH'
+        ? await writeContractAsync({
+            address: VOTE_MANAGER_ADDRESS,
+            abi: gugoVoteManagerAbi,
+            functionName: 'purchaseVotesWithETH',
+            args: [count],
+            value: selected.cost
+          })
+        : await writeContractAsync({
+            address: VOTE_MANAGER_ADDRESS,
+            abi: gugoVoteManagerAbi,
+            functionName: 'purchaseVotesWithGUGO',
+            args: [count]
+          });
+
+      writePending({ txHash, chainId, address });
+      dispatch({ type: 'PURCHASE_SUBMITTED', hash: txHash });
+      console.log('💳 Vote purchase submitted:', txHash);
+
+      await confirmAndCredit(txHash, chainId);
+      return true;
+    } catch (error) {
+      console.error('❌ Error purchasing votes:', error);
+      dispatch({ type: 'FAILED', error: errorMessage(error) });
+      return false;
+    }
+  }, [address, chainId, confirmAndCredit, publicClient, writeContractAsync]);
+
+  const reset = useCallback(() => dispatch({ type: 'RESET' }), []);
+
+  return { state, available, quote, purchase, reset };
+};
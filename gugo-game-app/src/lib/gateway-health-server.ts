@@ -0,0 +1,22 @@
+// Writes gateway health reports (server only - service role)
+// record_gateway_reports() is not callable by anon/authenticated: browsers report through
+// POST /api/gateways/health, which rate limits them, and the /api/img proxy reports directly.
+// The circuit thresholds live in the SQL function (migrations/19-gateway-health.sql).
+
+import { supabaseAdmin } from '@lib/supabase-server';
+import { mergeGatewayReports, type GatewayReport } from '@/lib/gateway-health';
+
+export const recordGatewayReports = async (reports: GatewayReport[]): Promise<void> => {
+  const merged = mergeGatewayReports(reports);
+  if (merged.length === 0) return;
+
+  const { error } = await supabaseAdmin.rpc('record_gateway_reports', {
+    p_reports: merged.map(report => ({
+      gateway: report.gateway,
+      successes: report.successes,
+      failures: report.failures,
+      latency_ms: report.latencyMs ?? null
+    }))
+  });
+  if (error) throw error;
+};
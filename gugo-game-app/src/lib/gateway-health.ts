@@ -0,0 +1,178 @@
+// Shared IPFS gateway health (edge-safe - used by the browser gateway manager and the /api/img proxy)
+// Browsers and the proxy buffer per-gateway success/failure/latency and report them in batches;
+// ipfs_gateway_health (migrations/19-gateway-health.sql) aggregates them and trips a per-gateway
+// circuit breaker. Everyone ranks gateways from that aggregate (GET /api/gateways/health).
+
+export const IPFS_GATEWAYS = [
+  'https://ipfs.io/ipfs/',
+  'https://cloudflare-ipfs.com/ipfs/',
+  'https://gateway.pinata.cloud/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://ipfs.filebase.io/ipfs/',
+  'https://w3s.link/ipfs/',
+  'https://gateway.ipfs.io/ipfs/',
+  'https://hardbin.com/ipfs/',
+  'https://cf-ipfs.com/ipfs/'
+];
+
+const HEALTHY_SUCCESS_RATE = 0.7;
+const SIMILAR_SUCCESS_RATE = 0.1; // within this, the faster gateway wins
+const STALE_AFTER_MS = 30 * 60 * 1000; // no reports for this long → treat as unknown (healthy)
+const MAX_REPORT_COUNT = 100; // per gateway per batch, so one client can't swamp the aggregate
+const RANKING_TTL_MS = 30 * 1000;
+
+export interface GatewayReport {
+  gateway: string;
+  successes: number;
+  failures: number;
+  latencyMs?: number | null; // mean over the batch's successes
+}
+
+export interface GatewayHealthRow {
+  gateway: string;
+  success_rate: number;
+  avg_latency_ms: number | null;
+  consecutive_failures: number;
+  circuit_open_until: string | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+}
+
+export interface RankedGateway {
+  url: string;
+  healthy: boolean;
+  successRate: number;
+  avgLatencyMs: number | null;
+  circuitOpenUntil: string | null;
+}
+
+// 'https://host/ipfs/<cid>/...' or 'https://host/ipfs/' → the gateway prefix if it's one we know
+export const gatewayPrefix = (url: string): string | null => {
+  const match = url.match(/^(https:\/\/[^/]+\/ipfs\/)/);
+  return match && IPFS_GATEWAYS.includes(match[1]) ? match[1] : null;
+};
+
+// Best first: closed circuits by success rate (latency breaks near-ties), then open circuits by
+// how soon they close. Gateways without recent reports keep their position in IPFS_GATEWAYS.
+export const rankGateways = (
+  rows: GatewayHealthRow[],
+  now = Date.now(),
+  candidates: string[] = IPFS_GATEWAYS
+): RankedGateway[] => {
+  const byGateway = new Map(rows.map(row => [row.gateway, row]));
+
+  const ranked = candidates.map((url, index) => {
+    const row = byGateway.get(url);
+    const lastReport = Math.max(Date.parse(row?.last_success_at ?? '') || 0, Date.parse(row?.last_failure_at ?? '') || 0);
+    const fresh = !!row && now - lastReport < STALE_AFTER_MS;
+    const openUntil = row?.circuit_open_until ? Date.parse(row.circuit_open_until) : 0;
+    const circuitOpen = openUntil > now;
+    const successRate = fresh ? row.success_rate : 1;
+
+    return {
+      index,
+      openUntil: circuitOpen ? openUntil : 0,
+      gateway: {
+        url,
+        healthy: !circuitOpen && successRate >= HEALTHY_SUCCESS_RATE,
+        successRate,
+        avgLatencyMs: fresh ? row.avg_latency_ms : null,
+        circuitOpenUntil: circuitOpen ? row!.circuit_open_until : null
+      }
+    };
+  });
+
+  ranked.sort((a, b) => {
+    if (!!a.openUntil !== !!b.openUntil) return a.openUntil ? 1 : -1;
+    if (a.openUntil) return a.openUntil - b.openUntil;
+
+    const rateDelta = b.gateway.successRate - a.gateway.successRate;
+    if (Math.abs(rateDelta) >= SIMILAR_SUCCESS_RATE) return rateDelta;
+
+    const aLatency = a.gateway.avgLatencyMs ?? Infinity;
+    const bLatency = b.gateway.avgLatencyMs ?? Infinity;
+    if (aLatency !== bLatency) return aLatency - bLatency;
+    return a.index - b.index;
+  });
+
+  return ranked.map(entry => entry.gateway);
+};
+
+// Drops unknown gateways, merges duplicates and caps counts before anything reaches the database
+export const mergeGatewayReports = (reports: GatewayReport[]): GatewayReport[] => {
+  const merged = new Map<string, { successes: number; failures: number; latencyTotal: number; latencySamples: number }>();
+
+  for (const report of reports) {
+    const gateway = gatewayPrefix(report.gateway);
+    if (!gateway) continue;
+
+    const successes = Math.max(0, Math.floor(Number(report.successes) || 0));
+    const failures = Math.max(0, Math.floor(Number(report.failures) || 0));
+    const latency = Number(report.latencyMs);
+    const entry = merged.get(gateway) ?? { successes: 0, failures: 0, latencyTotal: 0, latencySamples: 0 };
+
+    entry.successes += successes;
+    entry.failures += failures;
+    if (successes > 0 && Number.isFinite(latency) && latency > 0) {
+      entry.latencyTotal += Math.min(latency, 60000) * successes;
+      entry.latencySamples += successes;
+    }
+    merged.set(gateway, entry);
+  }
+
+  return [...merged.entries()]
+    .filter(([, entry]) => entry.successes + entry.failures > 0)
+    .map(([gateway, entry]) => ({
+      gateway,
+      successes: Math.min(entry.successes, MAX_REPORT_COUNT),
+      failures: Math.min(entry.failures, MAX_REPORT_COUNT),
+      latencyMs: entry.latencySamples > 0 ? Math.round(entry.latencyTotal / entry.latencySamples) : null
+    }));
+};
+
+// Collects outcomes in memory and hands them to `flush` every intervalMs (or when flush() is called)
+export const createGatewayReporter = (flush: (reports: GatewayReport[]) => Promise<void> | void, intervalMs = 15000) => {
+  let pending: GatewayReport[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flushNow = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const reports = mergeGatewayReports(pending);
+    pending = [];
+    if (reports.length === 0) return;
+
+    Promise.resolve(flush(reports)).catch(error =>
+      console.log('⚠️ Failed to report gateway health:', error instanceof Error ? error.message : error)
+    );
+  };
+
+  return {
+    record(gateway: string, ok: boolean, latencyMs?: number) {
+      pending.push({ gateway, successes: ok ? 1 : 0, failures: ok ? 0 : 1, latencyMs: ok ? latencyMs ?? null : null });
+      timer ??= setTimeout(flushNow, intervalMs);
+    },
+    flush: flushNow
+  };
+};
+
+let cachedRanking: { rows: GatewayHealthRow[]; loadedAt: number } | null = null;
+
+// Ranked from ipfs_gateway_health, cached for RANKING_TTL_MS per server instance; falls back to the
+// static order when the table can't be read
+export const getGatewayRanking = async (candidates: string[] = IPFS_GATEWAYS): Promise<RankedGateway[]> => {
+  if (!cachedRanking || Date.now() - cachedRanking.loadedAt >= RANKING_TTL_MS) {
+    try {
+      const { supabase } = await import('@lib/supabase');
+      const { data, error } = await supabase
+        .from('ipfs_gateway_health')
+        .select('gateway, success_rate, avg_latency_ms, consecutive_failures, circuit_open_until, last_success_at, last_failure_at');
+      if (error) throw error;
+      cachedRanking = { rows: (data ?? []) as GatewayHealthRow[], loadedAt: Date.now() };
+    } catch (error) {
+      console.log('⚠️ Failed to load gateway health:', error instanceof Error ? error.message : error);
+      cachedRanking = { rows: cachedRanking?.rows ?? [], loadedAt: Date.now() };
+    }
+  }
+  return rankGateways(cachedRanking.rows, Date.now(), candidates);
+};
@@ -0,0 +1,97 @@
+// Hedged requests across IPFS gateways (edge-safe - used by the browser gateway manager and /api/img)
+// The first candidate starts immediately; if nothing has succeeded after hedgeDelayMs another one
+// starts alongside it (a failure starts the next one straight away). The first success wins and
+// every attempt still running is aborted, so a slow gateway costs one hedge delay instead of a timeout.
+
+export interface HedgeOptions {
+  hedgeDelayMs?: number;
+  attemptTimeoutMs?: number;
+  maxAttempts?: number;
+}
+
+export interface HedgeWinner<T> {
+  value: T;
+  url: string;
+  latencyMs: number; // of the winning attempt, not the whole race
+}
+
+const DEFAULT_HEDGE_DELAY_MS = 800;
+const DEFAULT_ATTEMPT_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Abort reasons, so attempts can tell "another gateway won" from "this gateway was too slow"
+const HEDGE_CANCELLED = new Error('Hedged request cancelled: another candidate succeeded');
+const HEDGE_TIMEOUT = new Error('Hedged request timed out');
+
+// True when the attempt was aborted only because a different candidate won - not a gateway failure
+export const isHedgeCancelled = (signal: AbortSignal) => signal.aborted && signal.reason === HEDGE_CANCELLED;
+
+// `attempt` must reject (or throw) on failure and should stop work when its signal aborts
+export const hedgedRace = <T>(
+  urls: string[],
+  attempt: (url: string, signal: AbortSignal) => Promise<T>,
+  { hedgeDelayMs = DEFAULT_HEDGE_DELAY_MS, attemptTimeoutMs = DEFAULT_ATTEMPT_TIMEOUT_MS, maxAttempts = DEFAULT_MAX_ATTEMPTS }: HedgeOptions = {}
+): Promise<HedgeWinner<T>> => {
+  const candidates = [...new Set(urls)].slice(0, maxAttempts);
+  if (candidates.length === 0) return Promise.reject(new Error('No candidates to fetch'));
+
+  return new Promise((resolve, reject) => {
+    const running = new Set<AbortController>();
+    const errors: unknown[] = [];
+    let next = 0;
+    let settled = false;
+    let hedgeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      settled = true;
+      if (hedgeTimer) clearTimeout(hedgeTimer);
+      for (const controller of running) controller.abort(HEDGE_CANCELLED);
+      running.clear();
+    };
+
+    const scheduleHedge = () => {
+      if (hedgeTimer) clearTimeout(hedgeTimer);
+      hedgeTimer = next < candidates.length ? setTimeout(launch, hedgeDelayMs) : null;
+    };
+
+    function launch() {
+      if (settled || next >= candidates.length) return;
+
+      const url = candidates[next++];
+      const controller = new AbortController();
+      const started = Date.now();
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      // Rejects on its own, so an attempt that ignores its signal can't stall the race
+      const timedOut = new Promise<never>((_, rejectTimeout) => {
+        timeout = setTimeout(() => {
+          controller.abort(HEDGE_TIMEOUT);
+          rejectTimeout(HEDGE_TIMEOUT);
+        }, attemptTimeoutMs);
+      });
+      running.add(controller);
+      scheduleHedge();
+
+      Promise.race([Promise.resolve().then(() => attempt(url, controller.signal)), timedOut])
+        .then(value => {
+          if (settled) return;
+          running.delete(controller);
+          finish();
+          resolve({ value, url, latencyMs: Date.now() - started });
+        }, error => {
+          running.delete(controller);
+          if (settled) return;
+          errors.push(error);
+
+          if (next < candidates.length) {
+            launch();
+          } else if (running.size === 0) {
+            finish();
+            reject(new Error(`All ${candidates.length} candidates failed: ${errors.map(e => e instanceof Error ? e.message : String(e)).join('; ')}`));
+          }
+        })
+        .finally(() => clearTimeout(timeout));
+    }
+
+    launch();
+  });
+};
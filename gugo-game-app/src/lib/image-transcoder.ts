@@ -0,0 +1,84 @@
+// On-the-fly image transcoding for /api/img (server only, Node runtime - uses sharp)
+// Used when no pre-generated variant exists: the upstream original is resized to the requested
+// width/DPR bucket and re-encoded in the best format the client accepts. Save-Data clients get
+// 1x pixels and lower quality.
+
+import sharp from 'sharp';
+
+export type TranscodeFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+export interface TranscodeRequest {
+  width: number; // CSS pixels (bucketed)
+  dpr: number; // bucketed
+  accept: string | null;
+  saveData: boolean;
+}
+
+export interface TranscodeResult {
+  body: ArrayBuffer;
+  contentType: string;
+  format: TranscodeFormat;
+  width: number;
+}
+
+const MAX_OUTPUT_WIDTH = 2048;
+const QUALITY: Record<TranscodeFormat, { normal: number; saveData: number }> = {
+  avif: { normal: 50, saveData: 38 },
+  webp: { normal: 78, saveData: 60 },
+  jpeg: { normal: 80, saveData: 62 },
+  png: { normal: 80, saveData: 80 } // palette quality; png is only kept for clients that accept nothing better
+};
+
+// Explicit q=0 (or q=0.0) means "not acceptable"; anything else listed counts as supported
+const accepts = (accept: string, type: string) =>
+  accept.split(',').some(part => {
+    const [mediaType, ...params] = part.trim().toLowerCase().split(';');
+    return mediaType === type && !params.some(param => /^q=0(\.0{0,3})?$/.test(param.trim()));
+  });
+
+export const negotiateFormat = (accept: string | null, sourceFormat: string | undefined, hasAlpha: boolean): TranscodeFormat => {
+  if (accept && accepts(accept, 'image/avif')) return 'avif';
+  if (accept && accepts(accept, 'image/webp')) return 'webp';
+  return hasAlpha || sourceFormat === 'png' ? 'png' : 'jpeg';
+};
+
+export const isSaveData = (header: string | null) => header?.trim().toLowerCase() === 'on';
+
+// Returns null when the source should be passed through untouched (SVG, animation, undecodable bytes)
+export const transcodeImage = async (source: ArrayBuffer, request: TranscodeRequest): Promise<TranscodeResult | null> => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(source).metadata();
+  } catch {
+    return null;
+  }
+
+  // Vector art is already small and sharp; animations would lose every frame but the first
+  if (metadata.format === 'svg' || (metadata.pages ?? 1) > 1) return null;
+
+  const dpr = request.saveData ? 1 : request.dpr;
+  const targetWidth = Math.min(Math.ceil(request.width * dpr), MAX_OUTPUT_WIDTH);
+  const format = negotiateFormat(request.accept, metadata.format, !!metadata.hasAlpha);
+  const quality = QUALITY[format][request.saveData ? 'saveData' : 'normal'];
+
+  const pipeline = sharp(source)
+    .rotate()
+    .resize({ width: targetWidth, withoutEnlargement: true });
+
+  const output = await (
+    format === 'avif' ? pipeline.avif({ quality, effort: 2 }) :
+    format === 'webp' ? pipeline.webp({ quality }) :
+    format === 'png' ? pipeline.png({ palette: true, quality }) :
+    pipeline.jpeg({ quality, mozjpeg: true })
+  ).toBuffer({ resolveWithObject: true });
+
+  // Already-optimised small sources can come out bigger; keep whichever is smaller
+  if (output.data.length >= source.byteLength && (metadata.width ?? 0) <= targetWidth) return null;
+
+  return {
+    body: output.data.buffer.slice(output.data.byteOffset, output.data.byteOffset + output.data.byteLength) as ArrayBuffer,
+    contentType: `image/${format}`,
+    format,
+    width: output.info.width
+  };
+};
@@ -0,0 +1,34 @@
+// Browser-side media failure reporting (fire-and-forget to POST /api/media/report)
+// Called once retries are exhausted, so a report means "this visitor could not see the NFT".
+// Deduped per page load; the server also ignores repeats from the same visitor within an hour.
+
+import type { MediaFailureReport } from '@/types/moderation';
+
+const reported = new Set<string>();
+
+const gatewayOf = (url: string | null | undefined): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url, window.location.origin).hostname;
+  } catch {
+    return null;
+  }
+};
+
+export const reportMediaFailure = (report: MediaFailureReport): void => {
+  if (typeof window === 'undefined' || !report.nftId) return;
+
+  const key = `${report.nftId}:${report.reason}`;
+  if (reported.has(key)) return;
+  reported.add(key);
+
+  const body = JSON.stringify({
+    ...report,
+    gateway: report.gateway ?? gatewayOf(report.mediaUrl),
+    mediaUrl: report.mediaUrl?.startsWith('data:') ? null : report.mediaUrl ?? null
+  });
+
+  // sendBeacon survives navigation; it posts text/plain, which the route parses itself
+  if (navigator.sendBeacon?.('/api/media/report', body)) return;
+  fetch('/api/media/report', { method: 'POST', body, keepalive: true }).catch(() => {});
+};
@@ -0,0 +1,56 @@
+// Media ingest queue (server only - enqueue_media_ingest() is service-role only)
+// Enqueueing only adds a pending nft_media_map row through enqueue_media_ingest() (migrations/16-media-ingest.sql);
+// the worker in media-ingest-worker.ts fills it in from the token's nfts.image, so callers name a token, never a URL.
+
+import { supabaseAdmin } from '@lib/supabase-server';
+
+export interface MediaIngestRequest {
+  chain: string;
+  contract: string;
+  tokenId: string;
+}
+
+export type MediaIngestStatus = 'pending' | 'processing' | 'ok' | 'failed';
+
+const DEFAULT_CHAIN = 'eip155:2741'; // Abstract
+
+// Same keys as normalizeChainKeyForDb in /api/img: 'eip155:<id>', EVM contracts lowercased
+export const normalizeIngestRequest = (request: MediaIngestRequest): MediaIngestRequest => {
+  const chain = (request.chain || DEFAULT_CHAIN).toLowerCase();
+  const chainKey = /^\d+$/.test(chain) ? `eip155:${chain}` : chain;
+  return {
+    chain: chainKey,
+    contract: chainKey.startsWith('eip155:') ? request.contract.toLowerCase() : request.contract,
+    tokenId: String(request.tokenId)
+  };
+};
+
+// Status of the token's map row, or null when no such NFT exists (nothing is queued)
+export const enqueueMediaIngest = async (request: MediaIngestRequest): Promise<MediaIngestStatus | null> => {
+  const { chain, contract, tokenId } = normalizeIngestRequest(request);
+  const { data, error } = await supabaseAdmin.rpc('enqueue_media_ingest', {
+    p_chain: chain,
+    p_contract: contract,
+    p_token_id: tokenId
+  });
+
+  if (error) throw error;
+  return (data as MediaIngestStatus | null) ?? null;
+};
+
+// Fire-and-forget variant for request paths that must not wait on (or fail because of) the queue
+const recentlyEnqueued = new Set<string>();
+
+export const enqueueTokenForIngest = (request: MediaIngestRequest): void => {
+  const { chain, contract, tokenId } = normalizeIngestRequest(request);
+  const key = `${chain}:${contract}:${tokenId}`;
+  if (recentlyEnqueued.has(key)) return;
+
+  recentlyEnqueued.add(key);
+  if (recentlyEnqueued.size > 1000) recentlyEnqueued.clear();
+
+  enqueueMediaIngest(request).catch(error => {
+    recentlyEnqueued.delete(key);
+    console.log(`⚠️ Media ingest enqueue failed for ${key}:`, error?.message ?? error);
+  });
+};
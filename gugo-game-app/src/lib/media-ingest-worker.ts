@@ -0,0 +1,372 @@
+// Media ingest worker (server only, Node runtime - uses sharp)
+// Claims queued nft_media_map rows, fetches the source media, hashes it into a content-addressed
+// asset_hash, writes master + w256/w512/w1024/w2048 webp variants to the MediaStore and marks the row ok.
+// Videos are hashed the same way; their variants come from a poster frame extracted with ffmpeg.
+// Each asset also gets a ThumbHash placeholder (copied onto nfts by a trigger) and a perceptual hash
+// used to flag near-duplicate artwork from other collections.
+// Failures are retried with exponential backoff until MAX_INGEST_ATTEMPTS.
+
+import { createHash } from 'crypto';
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import type { NftMediaType } from '@/types/collections';
+import { mediaTypeFromUrl } from '@lib/collections';
+import { supabaseAdmin } from '@lib/supabase-server';
+import { MEDIA_VARIANT_WIDTHS, mediaMasterKey, mediaVariantKey, type MediaStore } from './media-store';
+import { getMediaStore } from './media-store-local';
+import { DHASH_HEIGHT, DHASH_WIDTH, DUPLICATE_MAX_DISTANCE, differenceHash } from './perceptual-hash';
+import { THUMBHASH_MAX_SIDE, encodeThumbhash } from './thumbhash';
+import { SourceTooLargeError, UnsafeSourceUrlError, fetchPublicUrl, readBodyWithLimit } from './source-url-guard';
+
+export const MAX_INGEST_ATTEMPTS = 6; // keep in sync with claim_media_ingest_batch(p_max_attempts)
+
+const MASTER_MAX_WIDTH = 4096;
+const WEBP_QUALITY = 82;
+const MAX_SOURCE_BYTES = 50 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 20000;
+const FFMPEG_TIMEOUT_MS = 60000;
+const POSTER_SEEK_SECONDS = [1, 0]; // skip fade-ins; fall back to the first frame for clips under a second
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+const IPFS_GATEWAYS = [
+  process.env.IPFS_GATEWAY || 'https://ipfs.io/ipfs/',
+  'https://cloudflare-ipfs.com/ipfs/',
+  'https://dweb.link/ipfs/'
+];
+
+interface MediaMapRow {
+  chain: string;
+  contract: string;
+  token_id: string;
+  source_uri: string | null;
+  attempts: number;
+}
+
+export interface IngestResult {
+  chain: string;
+  contract: string;
+  tokenId: string;
+  status: 'ok' | 'failed';
+  assetHash?: string;
+  error?: string;
+  retryAfter?: string | null;
+}
+
+export interface IngestBatchOptions {
+  limit?: number;
+  contract?: string;
+  ignoreRetryAfter?: boolean;
+  store?: MediaStore;
+}
+
+// Errors that will fail the same way on every retry (no source, not decodable media)
+class PermanentIngestError extends Error {}
+
+// 1m, 4m, 16m, ... capped at a day
+export const ingestBackoffMs = (attempts: number) =>
+  Math.min(BACKOFF_BASE_MS * 4 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+
+// ipfs:// and ar:// are fetched through fixed https gateways; data: URIs never leave the process
+const SOURCE_SCHEMES = /^(https|ipfs|ar|data):/i;
+
+const sourceCandidates = (uri: string): string[] => {
+  if (uri.startsWith('ipfs://')) {
+    const path = uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+    return IPFS_GATEWAYS.map(gateway => `${gateway}${path}`);
+  }
+  if (uri.startsWith('ar://')) return [`https://arweave.net/${uri.slice('ar://'.length)}`];
+  return [uri];
+};
+
+// The source is always the token's own nfts.image - never a URL supplied with the enqueue request
+const lookupSourceUri = async (row: MediaMapRow): Promise<string | null> => {
+  const { data } = await supabaseAdmin
+    .from('nfts')
+    .select('image')
+    .ilike('contract_address', row.contract)
+    .eq('token_id', row.token_id)
+    .limit(1);
+  return data?.[0]?.image ?? null;
+};
+
+const fetchSource = async (uri: string): Promise<{ body: Buffer; contentType: string | null }> => {
+  if (!SOURCE_SCHEMES.test(uri)) throw new PermanentIngestError('Unsupported source URL scheme');
+  if (uri.startsWith('data:')) {
+    const [meta, payload = ''] = uri.slice('data:'.length).split(',', 2);
+    const body = meta.endsWith(';base64') ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+    return { body, contentType: meta.split(';')[0] || null };
+  }
+
+  let lastError: unknown = null;
+  for (const url of sourceCandidates(uri)) {
+    try {
+      const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+      if (!response.ok) throw new Error(`Source request failed: ${response.status}`);
+
+      const body = await readBodyWithLimit(response, MAX_SOURCE_BYTES);
+      return { body, contentType: response.headers.get('content-type') };
+    } catch (error) {
+      if (error instanceof PermanentIngestError) throw error;
+      if (error instanceof SourceTooLargeError) throw new PermanentIngestError('Source media is too large');
+      if (error instanceof UnsafeSourceUrlError) throw new PermanentIngestError(error.message);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error('No source candidates');
+};
+
+const runFfmpeg = (args: string[]): Promise<Buffer> => new Promise((resolve, reject) => {
+  const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  const stdout: Buffer[] = [];
+  let stderr = '';
+  const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+  ffmpeg.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+  ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr = (stderr + chunk.toString()).slice(-2000); });
+  // A missing binary is a deployment problem, not a bad source - leave the row retryable
+  ffmpeg.on('error', error => { clearTimeout(timer); reject(new Error(`ffmpeg unavailable: ${error.message}`)); });
+  ffmpeg.on('close', code => {
+    clearTimeout(timer);
+    if (code === 0) resolve(Buffer.concat(stdout));
+    else reject(new Error(`ffmpeg exited with ${code ?? 'signal'}: ${stderr.trim().split('\n').pop() ?? ''}`));
+  });
+});
+
+// PNG of one frame near the start of the clip; ffmpeg needs a seekable file for mp4/mov
+const extractPosterFrame = async (video: Buffer, sourceMime: string | null): Promise<Buffer> => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'media-ingest-'));
+  const input = path.join(dir, 'source');
+  try {
+    await writeFile(input, video);
+    for (const seconds of POSTER_SEEK_SECONDS) {
+      const frame = await runFfmpeg([
+        '-hide_banner', '-loglevel', 'error',
+        '-ss', String(seconds), '-i', input,
+        '-frames:v', '1', '-f', 'image2pipe', '-vcodec', 'png', 'pipe:1'
+      ]).catch(error => {
+        if (error.message.startsWith('ffmpeg unavailable')) throw error;
+        return Buffer.alloc(0);
+      });
+      if (frame.length > 0) return frame;
+    }
+    throw new PermanentIngestError(`No decodable video frame${sourceMime ? ` (${sourceMime})` : ''}`);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+};
+
+const computeThumbhash = async (image: sharp.Sharp): Promise<string> => {
+  const { data, info } = await image.clone()
+    .resize(THUMBHASH_MAX_SIDE, THUMBHASH_MAX_SIDE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encodeThumbhash(info.width, info.height, data);
+};
+
+const computePerceptualHash = async (image: sharp.Sharp): Promise<string> => {
+  const grey = await image.clone()
+    .greyscale()
+    .removeAlpha()
+    .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  return differenceHash(grey).toString(); // BIGINT goes over PostgREST as a string
+};
+
+const writeAsset = async (
+  assetHash: string,
+  source: Buffer,
+  sourceMime: string | null,
+  mediaKind: NftMediaType,
+  store: MediaStore
+) => {
+  const { data: existing } = await supabaseAdmin
+    .from('media_assets')
+    .select('asset_hash')
+    .eq('asset_hash', assetHash)
+    .maybeSingle();
+
+  // Content-addressed: the same bytes from another token (or a retry) are already stored
+  const masterKey = mediaMasterKey(assetHash);
+  if (existing && await store.head(masterKey)) return;
+
+  // Video assets are stored as their poster frame; the clip itself keeps playing from source_uri
+  const still = mediaKind === 'video' ? await extractPosterFrame(source, sourceMime) : source;
+
+  let image: sharp.Sharp;
+  let metadata: sharp.Metadata;
+  try {
+    image = sharp(still).rotate();
+    metadata = await image.metadata();
+  } catch {
+    throw new PermanentIngestError(`Unsupported media type${sourceMime ? ` (${sourceMime})` : ''}`);
+  }
+
+  const master = await image.clone()
+    .resize({ width: MASTER_MAX_WIDTH, withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer();
+  await store.put(masterKey, master, 'image/webp');
+
+  const variants: Record<string, string> = {};
+  for (const width of MEDIA_VARIANT_WIDTHS) {
+    const key = mediaVariantKey(assetHash, width);
+    const variant = await image.clone()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer();
+    await store.put(key, variant, 'image/webp');
+    variants[`w${width}`] = key;
+  }
+
+  const thumbhash = await computeThumbhash(image);
+  const phash = await computePerceptualHash(image);
+
+  const { error } = await supabaseAdmin
+    .from('media_assets')
+    .upsert({
+      asset_hash: assetHash,
+      storage_key: masterKey,
+      mime: 'image/webp',
+      source_mime: sourceMime,
+      media_kind: mediaKind,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      bytes: source.length,
+      variants,
+      thumbhash,
+      phash
+    }, { onConflict: 'asset_hash' });
+  if (error) throw error;
+};
+
+const ingestRow = async (row: MediaMapRow, store: MediaStore): Promise<{ assetHash: string; sourceUri: string }> => {
+  const sourceUri = await lookupSourceUri(row);
+  if (!sourceUri) throw new PermanentIngestError('No source media for token');
+
+  const { body, contentType } = await fetchSource(sourceUri);
+  // Gateways often serve videos as application/octet-stream, so the URL extension counts too
+  const mediaKind: NftMediaType = contentType?.startsWith('video/') ? 'video' : mediaTypeFromUrl(sourceUri);
+
+  const assetHash = createHash('sha256').update(body).digest('hex');
+  await writeAsset(assetHash, body, contentType, mediaKind, store);
+  return { assetHash, sourceUri };
+};
+
+const mapRowFilter = (row: MediaMapRow) => ({ chain: row.chain, contract: row.contract, token_id: row.token_id });
+
+export const processMediaIngestBatch = async ({
+  limit = 25,
+  contract,
+  ignoreRetryAfter = false,
+  store = getMediaStore()
+}: IngestBatchOptions = {}): Promise<IngestResult[]> => {
+  const { data: rows, error } = await supabaseAdmin.rpc('claim_media_ingest_batch', {
+    p_limit: limit,
+    p_contract: contract ?? null,
+    p_ignore_retry_after: ignoreRetryAfter,
+    p_max_attempts: MAX_INGEST_ATTEMPTS
+  });
+  if (error) throw error;
+
+  const results: IngestResult[] = [];
+
+  // One at a time - sharp already uses every core for a single image
+  for (const row of (rows ?? []) as MediaMapRow[]) {
+    const base = { chain: row.chain, contract: row.contract, tokenId: row.token_id };
+
+    try {
+      const { assetHash, sourceUri } = await ingestRow(row, store);
+      const { error: updateError } = await supabaseAdmin
+        .from('nft_media_map')
+        .update({ status: 'ok', asset_hash: assetHash, source_uri: sourceUri, last_error: null, retry_after: null, locked_at: null })
+        .match(mapRowFilter(row));
+      if (updateError) throw updateError;
+
+      // Best-effort: a missed duplicate check shouldn't fail an otherwise good ingest
+      const { error: duplicateError } = await supabaseAdmin.rpc('flag_duplicate_media', {
+        p_asset_hash: assetHash,
+        p_max_distance: DUPLICATE_MAX_DISTANCE
+      });
+      if (duplicateError) console.log(`⚠️ Duplicate check failed for ${assetHash}:`, duplicateError.message);
+
+      results.push({ ...base, status: 'ok', assetHash });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const permanent = err instanceof PermanentIngestError || row.attempts >= MAX_INGEST_ATTEMPTS;
+      const retryAfter = permanent ? null : new Date(Date.now() + ingestBackoffMs(row.attempts)).toISOString();
+
+      await supabaseAdmin
+        .from('nft_media_map')
+        .update({
+          status: 'failed',
+          last_error: message.slice(0, 500),
+          retry_after: retryAfter,
+          locked_at: null,
+          // Permanent failures skip the remaining attempts instead of waiting them out
+          ...(permanent ? { attempts: MAX_INGEST_ATTEMPTS } : {})
+        })
+        .match(mapRowFilter(row));
+
+      console.log(`❌ Media ingest failed for ${row.contract}:${row.token_id} (attempt ${row.attempts}):`, message);
+      results.push({ ...base, status: 'failed', error: message, retryAfter });
+    }
+  }
+
+  return results;
+};
+
+// Assets ingested before ThumbHash (Stage 20) or perceptual hash (Stage 21) support: hash their
+// smallest stored variant instead of refetching, then run the duplicate check for new phashes
+export const backfillAssetHashes = async ({
+  limit = 100,
+  store = getMediaStore()
+}: Pick<IngestBatchOptions, 'limit' | 'store'> = {}): Promise<{ updated: number; failed: number; scanned: number }> => {
+  const { data: assets, error } = await supabaseAdmin
+    .from('media_assets')
+    .select('asset_hash, storage_key, variants, thumbhash, phash')
+    .or('thumbhash.is.null,phash.is.null')
+    .limit(limit);
+  if (error) throw error;
+
+  let updated = 0;
+  let failed = 0;
+  for (const asset of assets ?? []) {
+    const variants = (asset.variants ?? {}) as Record<string, string>;
+    const key = MEDIA_VARIANT_WIDTHS.map(width => variants[`w${width}`]).find(Boolean) ?? asset.storage_key;
+
+    try {
+      const object = await store.get(key);
+      if (!object) throw new Error(`Missing ${key} in ${store.name} store`);
+
+      const image = sharp(object.body);
+      const update = {
+        thumbhash: asset.thumbhash ?? await computeThumbhash(image),
+        phash: asset.phash ?? await computePerceptualHash(image)
+      };
+      const { error: updateError } = await supabaseAdmin
+        .from('media_assets')
+        .update(update)
+        .eq('asset_hash', asset.asset_hash);
+      if (updateError) throw updateError;
+
+      if (asset.phash === null) {
+        const { error: duplicateError } = await supabaseAdmin.rpc('flag_duplicate_media', {
+          p_asset_hash: asset.asset_hash,
+          p_max_distance: DUPLICATE_MAX_DISTANCE
+        });
+        if (duplicateError) throw duplicateError;
+      }
+      updated++;
+    } catch (err) {
+      failed++;
+      console.log(`❌ Hash backfill failed for ${asset.asset_hash}:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return { updated, failed, scanned: assets?.length ?? 0 };
+};
@@ -0,0 +1,153 @@
+// Media moderation (server only - service-role RPCs from migrations/21-media-moderation.sql)
+// Visitors' load failures are recorded per NFT; once MEDIA_FAILURE_THRESHOLD different signed-in
+// wallets have failed on an NFT within the window it is auto-excluded from matchups until an operator
+// acts on it. Anonymous reports are kept for operators but don't count, as IPs are cheap to rotate.
+
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '@lib/supabase-server';
+import { appendLedgerEntry, getVoteBalance } from '@lib/vote-ledger';
+import type { MediaFailureReport, ModerationAction, ModerationQueueItem, ModerationStatus } from '@/types/moderation';
+
+const DEFAULT_FAILURE_THRESHOLD = 3; // distinct wallets
+const FAILURE_WINDOW_DAYS = 7;
+export const MAX_MODERATION_PAGE_SIZE = 100;
+
+const failureThreshold = () =>
+  Math.max(1, parseInt(process.env.MEDIA_FAILURE_THRESHOLD || '', 10) || DEFAULT_FAILURE_THRESHOLD);
+
+// Reporting wallet, hashed so reports never store the address
+export const reporterKey = (identity: string) =>
+  createHash('sha256').update(identity.toLowerCase()).digest('hex').slice(0, 32);
+
+// Returns the NFT's moderation status afterwards (null when the NFT doesn't exist).
+// `reporter` is null for anonymous visitors: their report is stored but not counted.
+export const recordMediaFailure = async (report: MediaFailureReport, reporter: string | null): Promise<ModerationStatus | null> => {
+  const { data, error } = await supabaseAdmin.rpc('report_nft_media_failure', {
+    p_nft_id: report.nftId,
+    p_reason: report.reason,
+    p_gateway: report.gateway ?? null,
+    p_media_url: report.mediaUrl ?? null,
+    p_reporter_key: reporter,
+    p_threshold: failureThreshold(),
+    p_window_days: FAILURE_WINDOW_DAYS
+  });
+  if (error) throw error;
+  return (data as ModerationStatus | null) ?? null;
+};
+
+export const getModerationQueue = async (limit: number, offset: number): Promise<ModerationQueueItem[]> => {
+  const { data, error } = await supabaseAdmin.rpc('get_moderation_queue', {
+    p_limit: Math.min(limit, MAX_MODERATION_PAGE_SIZE),
+    p_offset: offset
+  });
+  if (error) throw error;
+
+  return ((data ?? []) as ModerationQueueItem[]).map(item => ({
+    ...item,
+    open_reports: Number(item.open_reports) // BIGINT
+  }));
+};
+
+export const moderateNft = async (
+  nftId: string,
+  action: ModerationAction,
+  admin: string,
+  note?: string | null
+): Promise<ModerationStatus> => {
+  const { data, error } = await supabaseAdmin.rpc('moderate_nft', {
+    p_nft_id: nftId,
+    p_action: action,
+    p_admin: admin.toLowerCase(),
+    p_note: note ?? null
+  });
+  if (error) throw error;
+  return data as ModerationStatus;
+};
+
+// ============ COMPENSATION ============
+// Free votes for a visitor the media system failed: only for a failure this wallet actually
+// reported and the server can confirm (the NFT was auto-excluded or its media ingest failed), once
+// per report, and at most one grant per day. A report on its own is client-posted, so it never pays.
+
+export const MEDIA_FAILURE_GRANT = 10;
+const COMPENSATION_REPORT_WINDOW_MS = 60 * 60 * 1000;
+const COMPENSATION_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export interface CompensationResult {
+  votesAdded: number;
+  balance: number;
+}
+
+export class CompensationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// True when the server's own records show the NFT's media is broken, not just a visitor's report
+const isMediaFailureConfirmed = async (nftId: string): Promise<boolean> => {
+  const { data: nft, error: nftError } = await supabaseAdmin
+    .from('nfts')
+    .select('contract_address, token_id, moderation_status')
+    .eq('id', nftId)
+    .maybeSingle();
+  if (nftError) throw nftError;
+  if (!nft) return false;
+  if (nft.moderation_status === 'auto_excluded') return true;
+  if (!nft.contract_address || !nft.token_id) return false;
+
+  const { data: failedIngest, error: ingestError } = await supabaseAdmin
+    .from('nft_media_map')
+    .select('status')
+    .eq('contract', nft.contract_address.toLowerCase())
+    .eq('token_id', nft.token_id)
+    .eq('status', 'failed')
+    .limit(1)
+    .maybeSingle();
+  if (ingestError) throw ingestError;
+  return !!failedIngest;
+};
+
+export const grantMediaFailureCompensation = async (userId: string, walletAddress: string): Promise<CompensationResult> => {
+  const now = Date.now();
+
+  const { data: report, error: reportError } = await supabaseAdmin
+    .from('nft_media_reports')
+    .select('id, nft_id, reason')
+    .eq('reporter_key', reporterKey(`wallet:${walletAddress}`))
+    .in('reason', ['load_failed', 'timeout', 'not_image'])
+    .gt('created_at', new Date(now - COMPENSATION_REPORT_WINDOW_MS).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (reportError) throw reportError;
+  if (!report) {
+    throw new CompensationError('No media failure recorded for this wallet', 409);
+  }
+  if (!(await isMediaFailureConfirmed(report.nft_id))) {
+    throw new CompensationError('Media failure not confirmed', 409);
+  }
+
+  const reference = `media-failure:${report.id}`;
+  const { data: recent, error: recentError } = await supabaseAdmin
+    .from('vote_ledger')
+    .select('reference')
+    .eq('user_id', userId)
+    .eq('entry_type', 'media_failure_grant')
+    .gt('created_at', new Date(now - COMPENSATION_COOLDOWN_MS).toISOString())
+    .limit(1)
+    .maybeSingle();
+  if (recentError) throw recentError;
+  if (recent) {
+    if (recent.reference === reference) {
+      return { votesAdded: 0, balance: await getVoteBalance(userId) }; // retried request
+    }
+    throw new CompensationError('Compensation already granted in the last 24 hours', 429);
+  }
+
+  const result = await appendLedgerEntry(userId, 'media_failure_grant', MEDIA_FAILURE_GRANT, {
+    reference,
+    metadata: { report_id: report.id, nft_id: report.nft_id, reason: report.reason }
+  });
+  return { votesAdded: result.alreadyApplied ? 0 : MEDIA_FAILURE_GRANT, balance: result.balance };
+};
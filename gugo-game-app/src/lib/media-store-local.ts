@@ -0,0 +1,89 @@
+// Local-disk MediaStore and the Node-side store factory (server only - uses fs)
+// Files live under MEDIA_STORAGE_DIR (default .media/ in the app directory) and are served back
+// through signed /api/media/file URLs, so dev and tests get real bytes without a CDN.
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  createS3MediaStore,
+  getMediaStoreName,
+  isValidMediaKey,
+  signLocalMediaUrl,
+  type MediaObjectInfo,
+  type MediaStore
+} from './media-store';
+
+// Variants are always webp today; the map keeps /api/media/file honest if that changes
+const CONTENT_TYPES: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.mp4': 'video/mp4'
+};
+
+export const contentTypeForKey = (key: string) => CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+
+export const createLocalMediaStore = (root = process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), '.media')): MediaStore => {
+  const resolveKey = (key: string) => {
+    if (!isValidMediaKey(key)) throw new Error(`Invalid media key: ${key}`);
+    return path.join(root, ...key.split('/'));
+  };
+
+  const info = async (key: string): Promise<MediaObjectInfo | null> => {
+    const stats = await stat(resolveKey(key)).catch(() => null);
+    if (!stats?.isFile()) return null;
+    return {
+      key,
+      size: stats.size,
+      contentType: contentTypeForKey(key),
+      etag: `"${stats.size.toString(16)}-${stats.mtimeMs.toString(16)}"`,
+      lastModified: stats.mtime.toUTCString()
+    };
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const target = resolveKey(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, body);
+    },
+
+    async get(key) {
+      const objectInfo = await info(key);
+      if (!objectInfo) return null;
+      return { ...objectInfo, body: new Uint8Array(await readFile(resolveKey(key))) };
+    },
+
+    head: info,
+
+    getSignedUrl(key, expiresInSeconds) {
+      return signLocalMediaUrl(key, expiresInSeconds);
+    },
+
+    async list(prefix, limit = 1000) {
+      const entries = await readdir(root, { recursive: true, withFileTypes: true }).catch(() => []);
+      const keys = entries
+        .filter(entry => entry.isFile())
+        .map(entry => path.relative(root, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+        .filter(key => key.startsWith(prefix))
+        .sort()
+        .slice(0, limit);
+
+      const objects = await Promise.all(keys.map(info));
+      return objects.filter((object): object is MediaObjectInfo => object !== null);
+    }
+  };
+};
+
+let store: MediaStore | null = null;
+
+// MEDIA_STORAGE=local (default) | s3 - see media-store.ts for the S3 settings
+export const getMediaStore = (): MediaStore => {
+  store ??= getMediaStoreName() === 's3' ? createS3MediaStore() : createLocalMediaStore();
+  return store;
+};
@@ -0,0 +1,306 @@
+// Media storage for ingested NFT images (edge-safe - imported by the /api/img proxy)
+// Variants live under media/<asset_hash>/ in a MediaStore: 'local' (disk, see media-store-local.ts) or
+// 's3' (any S3-compatible bucket - AWS, R2, MinIO). getMediaUrl() turns a key into something a browser
+// can load: NEXT_PUBLIC_CDN_BASE when a CDN fronts the bucket, otherwise a signed URL from the store.
+
+export type MediaStoreName = 'local' | 's3';
+
+export interface MediaObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string | null;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface MediaObject extends MediaObjectInfo {
+  body: Uint8Array;
+}
+
+export interface MediaStore {
+  name: MediaStoreName;
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<MediaObject | null>;
+  head(key: string): Promise<MediaObjectInfo | null>;
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  list(prefix: string, limit?: number): Promise<MediaObjectInfo[]>;
+}
+
+export const MEDIA_VARIANT_WIDTHS = [256, 512, 1024, 2048] as const;
+export type MediaVariantWidth = typeof MEDIA_VARIANT_WIDTHS[number];
+
+// 7 days is the longest an S3 presigned URL may live
+const SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DAY_SECONDS = 24 * 60 * 60;
+const LOCAL_FILE_ROUTE = '/api/media/file';
+
+export const mediaAssetKey = (assetHash: string, file: string) => `media/${assetHash}/${file}`;
+export const mediaMasterKey = (assetHash: string) => mediaAssetKey(assetHash, 'master.webp');
+export const mediaVariantKey = (assetHash: string, width: MediaVariantWidth) => mediaAssetKey(assetHash, `w${width}.webp`);
+
+// Smallest pre-generated variant covering the requested CSS width at this DPR
+export const pickVariantWidth = (width: number, dpr: number): MediaVariantWidth => {
+  const needed = Math.ceil(width * dpr);
+  return MEDIA_VARIANT_WIDTHS.find(size => needed <= size) ?? 2048;
+};
+
+// Keys are relative paths made of safe segments - no traversal, no empty segments
+export const isValidMediaKey = (key: string) =>
+  key.length > 0 && key.length <= 512 && key.split('/').every(segment => /^[A-Za-z0-9._-]+$/.test(segment) && segment !== '.' && segment !== '..');
+
+export const getMediaStoreName = (): MediaStoreName => {
+  const name = process.env.MEDIA_STORAGE || 'local';
+  if (name !== 'local' && name !== 's3') throw new Error(`Unknown MEDIA_STORAGE backend "${name}" (expected local or s3)`);
+  return name;
+};
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: Uint8Array | string) =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data));
+
+const hmac = async (key: Uint8Array | ArrayBuffer, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+// Signed URLs are stable for a whole day so CDN and browser caches keep sharing one URL
+const signedUrlExpiry = (expiresInSeconds: number) =>
+  (Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS) + expiresInSeconds;
+
+// ================================
+// Local file URLs (served by /api/media/file/[...key])
+// ================================
+
+const getMediaUrlSecret = (): string => {
+  const secret = process.env.MEDIA_URL_SECRET || process.env.AUTH_SESSION_SECRET;
+  if (!secret) throw new Error('MEDIA_URL_SECRET (or AUTH_SESSION_SECRET) is not configured');
+  return secret;
+};
+
+const signLocalKey = async (key: string, expires: number) =>
+  toHex(await hmac(encoder.encode(getMediaUrlSecret()), `${key}\n${expires}`));
+
+export const signLocalMediaUrl = async (key: string, expiresInSeconds = SIGNED_URL_TTL_SECONDS): Promise<string> => {
+  const expires = signedUrlExpiry(expiresInSeconds);
+  return `${LOCAL_FILE_ROUTE}/${key}?expires=${expires}&sig=${await signLocalKey(key, expires)}`;
+};
+
+export const verifyLocalMediaSignature = async (key: string, expires: string | null, sig: string | null): Promise<boolean> => {
+  const expiresAt = Number(expires);
+  if (!sig || !Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000) return false;
+
+  // Constant-time compare so signature checks don't leak timing
+  const expected = await signLocalKey(key, expiresAt);
+  if (expected.length !== sig.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ sig.charCodeAt(i);
+  return diff === 0;
+};
+
+// ================================
+// S3-compatible store (SigV4 over fetch, no SDK)
+// ================================
+
+export interface S3MediaStoreConfig {
+  endpoint: string; // e.g. https://<account>.r2.cloudflarestorage.com or https://s3.us-east-1.amazonaws.com
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export const s3ConfigFromEnv = (): S3MediaStoreConfig => {
+  const config = {
+    endpoint: process.env.MEDIA_S3_ENDPOINT || '',
+    bucket: process.env.MEDIA_S3_BUCKET || '',
+    region: process.env.MEDIA_S3_REGION || 'auto',
+    accessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY || ''
+  };
+  const missing = Object.entries(config).filter(([, value]) => !value).map(([name]) => name);
+  if (missing.length > 0) throw new Error(`S3 media store is missing config: ${missing.join(', ')}`);
+  return config;
+};
+
+// RFC 3986 encoding as SigV4 expects (encodeURIComponent leaves !'()* alone)
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const decodeXml = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+const xmlValue = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXml(match[1]) : null;
+};
+
+const canonicalQuery = (query: Record<string, string>) =>
+  Object.keys(query).sort().map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&');
+
+export interface S3SignableRequest {
+  method: string;
+  path: string; // already RFC 3986 encoded
+  query: Record<string, string>;
+  headers: Record<string, string>; // every header here is signed
+  payloadHash: string; // hex sha256 of the body, or UNSIGNED-PAYLOAD for presigned URLs
+  amzDate: string; // YYYYMMDDTHHMMSSZ
+}
+
+// SigV4 for service s3; checked against AWS's published examples in test/media-store.test.ts
+export const signS3Request = async (
+  { region, secretAccessKey }: Pick<S3MediaStoreConfig, 'region' | 'secretAccessKey'>,
+  { method, path, query, headers, payloadHash, amzDate }: S3SignableRequest
+) => {
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+  const canonicalRequest = [
+    method,
+    path,
+    canonicalQuery(query),
+    names.map(name => `${name}:${lowerHeaders[name]}\n`).join(''),
+    names.join(';'),
+    payloadHash
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const kDate = await hmac(encoder.encode(`AWS4${secretAccessKey}`), date);
+  const kRegion = await hmac(kDate, region);
+  const kService = await hmac(kRegion, 's3');
+  const signingKey = await hmac(kService, 'aws4_request');
+  return {
+    scope,
+    signedHeaders: names.join(';'),
+    signature: toHex(await hmac(signingKey, stringToSign))
+  };
+};
+
+export const createS3MediaStore = (config: S3MediaStoreConfig = s3ConfigFromEnv()): MediaStore => {
+  const endpoint = new URL(config.endpoint);
+  const objectPath = (key: string) =>
+    `/${encodeRfc3986(config.bucket)}${key ? '/' + key.split('/').map(encodeRfc3986).join('/') : ''}`;
+
+  const sign = (method: string, path: string, query: Record<string, string>, headers: Record<string, string>, payloadHash: string, amzDate: string) =>
+    signS3Request(config, { method, path, query, headers, payloadHash, amzDate });
+
+  const request = async (method: string, key: string, { query = {}, body, contentType }: { query?: Record<string, string>; body?: Uint8Array; contentType?: string } = {}) => {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const path = objectPath(key);
+    const payloadHash = await sha256Hex(body ?? new Uint8Array());
+    const headers: Record<string, string> = {
+      host: endpoint.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType ? { 'content-type': contentType } : {})
+    };
+    const { scope, signedHeaders, signature } = await sign(method, path, query, headers, payloadHash, amzDate);
+    const sendHeaders = { ...headers };
+    delete sendHeaders.host; // fetch sets Host itself
+
+    const search = canonicalQuery(query);
+    return fetch(`${endpoint.origin}${path}${search ? `?${search}` : ''}`, {
+      method,
+      body,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      }
+    });
+  };
+
+  const infoFromResponse = (key: string, response: Response): MediaObjectInfo => ({
+    key,
+    size: Number(response.headers.get('content-length') || 0),
+    contentType: response.headers.get('content-type'),
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified')
+  });
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      const response = await request('PUT', key, { body, contentType });
+      if (!response.ok) throw new Error(`S3 put ${key} failed: ${response.status}`);
+    },
+
+    async get(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 get ${key} failed: ${response.status}`);
+      const body = new Uint8Array(await response.arrayBuffer());
+      return { ...infoFromResponse(key, response), size: body.length, body };
+    },
+
+    async head(key) {
+      const response = await request('HEAD', key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 head ${key} failed: ${response.status}`);
+      return infoFromResponse(key, response);
+    },
+
+    async getSignedUrl(key, expiresInSeconds = SIGNED_URL_TTL_SECONDS) {
+      // Dated at the start of the day (see signedUrlExpiry) so the URL is stable for the whole day
+      const dayStart = new Date(Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS * 1000);
+      const amzDate = dayStart.toISOString().replace(/[-:]|\.\d{3}/g, '');
+      const path = objectPath(key);
+      const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.accessKeyId}/${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(Math.min(expiresInSeconds, SIGNED_URL_TTL_SECONDS)),
+        'X-Amz-SignedHeaders': 'host'
+      };
+      const { signature } = await sign('GET', path, query, { host: endpoint.host }, 'UNSIGNED-PAYLOAD', amzDate);
+      return `${endpoint.origin}${path}?${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+    },
+
+    async list(prefix, limit = 1000) {
+      const objects: MediaObjectInfo[] = [];
+      let continuationToken: string | null = null;
+
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix, 'max-keys': String(Math.min(limit - objects.length, 1000)) };
+        if (continuationToken) query['continuation-token'] = continuationToken;
+
+        const response = await request('GET', '', { query });
+        if (!response.ok) throw new Error(`S3 list ${prefix} failed: ${response.status}`);
+        const xml = await response.text();
+
+        for (const [, entry] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+          objects.push({
+            key: xmlValue(entry, 'Key') ?? '',
+            size: Number(xmlValue(entry, 'Size') ?? 0),
+            etag: xmlValue(entry, 'ETag'),
+            lastModified: xmlValue(entry, 'LastModified')
+          });
+        }
+        continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : null;
+      } while (continuationToken && objects.length < limit);
+
+      return objects;
+    }
+  };
+};
+
+// ================================
+// URL resolution for /api/img
+// ================================
+
+let s3Store: MediaStore | null = null;
+
+// Browser-loadable URL for a stored key. Local URLs are same-origin paths (resolve against the request URL).
+export const getMediaUrl = async (key: string): Promise<string> => {
+  const publicBase = process.env.NEXT_PUBLIC_CDN_BASE;
+  if (publicBase) return `${publicBase.replace(/\/$/, '')}/${key}`;
+
+  if (getMediaStoreName() === 's3') {
+    s3Store ??= createS3MediaStore();
+    return s3Store.getSignedUrl(key);
+  }
+  return signLocalMediaUrl(key);
+};
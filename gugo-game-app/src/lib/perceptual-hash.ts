@@ -0,0 +1,36 @@
+// Perceptual hashing for duplicate artwork detection (pure - the ingest worker feeds it pixels from sharp)
+// Difference hash (dHash): shrink to 9x8 greyscale and record whether each pixel is brighter than its
+// right-hand neighbour. Re-encodes, resizes and small edits flip only a few of the 64 bits, so near
+// duplicates are assets whose hashes are a small Hamming distance apart (flag_duplicate_media() in SQL).
+
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+export const DUPLICATE_MAX_DISTANCE = 6; // bits; passed to flag_duplicate_media(p_max_distance)
+
+// grey: DHASH_WIDTH x DHASH_HEIGHT single-channel pixels, row by row.
+// Returned as a signed 64-bit value so it round-trips through a Postgres BIGINT.
+export const differenceHash = (grey: ArrayLike<number>): bigint => {
+  if (grey.length !== DHASH_WIDTH * DHASH_HEIGHT) {
+    throw new Error(`dHash needs ${DHASH_WIDTH}x${DHASH_HEIGHT} greyscale pixels (got ${grey.length})`);
+  }
+
+  let hash = BigInt(0);
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = grey[y * DHASH_WIDTH + x];
+      const right = grey[y * DHASH_WIDTH + x + 1];
+      hash = (hash << BigInt(1)) | (left > right ? BigInt(1) : BigInt(0));
+    }
+  }
+  return BigInt.asIntN(64, hash);
+};
+
+export const hammingDistance = (a: bigint, b: bigint): number => {
+  let diff = BigInt.asUintN(64, a ^ b);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+};
@@ -0,0 +1,164 @@
+// On-chain prize break rewards (browser + server safe)
+// Every PRIZE_BREAK_THRESHOLD on-chain votes earn a claimPrizeBreak() on GugoVoteManager_updated.sol:
+// the contract rolls the reward (XP, bonus votes or a GUGO tier sized by the prize treasury), pays
+// it out and emits PrizeBreakClaimed. getPrizeBreakInfo() says what is claimable beforehand; the
+// chain indexer keeps every claim in chain_prize_claims for GET /api/user/prize-claims.
+
+import { decodeEventLog, formatUnits, type Address, type Hash, type Log } from 'viem';
+import { gugoVoteManagerUpdatedAbi } from '@/contracts/abis';
+import { PRIZE_REWARD_TYPES } from '@lib/chain-indexer';
+
+export const PRIZE_BREAK_THRESHOLD = 10; // GugoVoteManager_updated.PRIZE_BREAK_THRESHOLD
+export const GUGO_DECIMALS = 18;
+
+export type PrizeRewardType = typeof PRIZE_REWARD_TYPES[number];
+
+const REWARD_LABELS: Record<PrizeRewardType, string> = {
+  BASE_XP: 'XP Reward',
+  BIG_XP: 'Big XP',
+  XP_VOTES_10: 'XP & Votes',
+  XP_VOTES_5: 'Votes & XP',
+  VOTE_BONUS: 'Vote Bonus',
+  GUGO_TIER_1: 'GUGO Tier 1',
+  GUGO_TIER_2: 'GUGO Tier 2',
+  GUGO_TIER_3: 'GUGO Tier 3',
+  GUGO_TIER_4: 'GUGO Tier 4',
+  GUGO_TIER_5: 'GUGO Tier 5',
+  GUGO_TIER_6: 'GUGO Tier 6',
+  GUGO_TIER_7: 'GUGO Tier 7',
+  GUGO_TIER_8: 'GUGO Tier 8',
+  GUGO_TIER_9: 'GUGO Tier 9'
+};
+
+// RewardType enum index → name, null for values this build doesn't know
+export const rewardTypeName = (rewardType: number): PrizeRewardType | null => PRIZE_REWARD_TYPES[rewardType] ?? null;
+
+export const rewardTypeLabel = (rewardType: number) => {
+  const name = rewardTypeName(rewardType);
+  return name ? REWARD_LABELS[name] : `Reward #${rewardType}`;
+};
+
+export const isGugoReward = (rewardType: number) => rewardTypeName(rewardType)?.startsWith('GUGO_') ?? false;
+
+// ============ CLAIMABLE REWARDS ============
+
+export interface PrizeBreakInfo {
+  votesEligible: number; // on-chain votes since the last claim
+  prizeBreaksAvailable: number; // one claim pays out all of them
+  pendingXP: number; // paid with the next reward
+  votesUntilNext: number;
+  unlockedGugoTiers: number; // 0-9, follows the prize treasury balance
+}
+
+// getPrizeBreakInfo() result tuple, in return order
+export const toPrizeBreakInfo = ([votesEligible, prizeBreaksAvailable, pendingXP, votesUntilNext, unlockedGugoTiers]:
+  readonly [bigint, bigint, bigint, bigint, bigint]): PrizeBreakInfo => ({
+  votesEligible: Number(votesEligible),
+  prizeBreaksAvailable: Number(prizeBreaksAvailable),
+  pendingXP: Number(pendingXP),
+  votesUntilNext: Number(votesUntilNext),
+  unlockedGugoTiers: Number(unlockedGugoTiers)
+});
+
+// ============ CLAIM STATE MACHINE ============
+// idle → claiming → confirming → revealed
+// Any step can fail; RESET returns to idle from anywhere.
+
+export interface PrizeClaim {
+  txHash: Hash;
+  logIndex: number;
+  blockNumber: number;
+  claimedAt: string | null; // block time, null until indexed
+  rewardType: number; // RewardType enum index
+  xpAwarded: string; // uint256 as decimal strings
+  votesAwarded: string;
+  gugoAwarded: string; // token base units
+  newTotalXP: string;
+}
+
+export type PrizeClaimState =
+  | { status: 'idle' }
+  | { status: 'claiming' }
+  | { status: 'confirming'; txHash: Hash }
+  | { status: 'revealed'; txHash: Hash; rewards: PrizeClaim[] }
+  | { status: 'failed'; error: string; txHash?: Hash };
+
+export type PrizeClaimEvent =
+  | { type: 'CLAIM_STARTED' }
+  | { type: 'CLAIM_SUBMITTED'; hash: Hash }
+  | { type: 'REVEALED'; rewards: PrizeClaim[] }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RESET' };
+
+// Events that don't fit the current state are ignored, so a late callback can't rewind the flow
+export const prizeClaimReducer = (state: PrizeClaimState, event: PrizeClaimEvent): PrizeClaimState => {
+  switch (event.type) {
+    case 'RESET':
+      return { status: 'idle' };
+    case 'FAILED':
+      return state.status === 'claiming' || state.status === 'confirming'
+        ? { status: 'failed', error: event.error, txHash: 'txHash' in state ? state.txHash : undefined }
+        : state;
+    case 'CLAIM_STARTED':
+      return state.status === 'idle' || state.status === 'failed' ? { status: 'claiming' } : state;
+    case 'CLAIM_SUBMITTED':
+      return state.status === 'claiming' ? { status: 'confirming', txHash: event.hash } : state;
+    case 'REVEALED':
+      return state.status === 'confirming' ? { status: 'revealed', txHash: state.txHash, rewards: event.rewards } : state;
+  }
+};
+
+export const isClaimBusy = (state: PrizeClaimState) => state.status === 'claiming' || state.status === 'confirming';
+
+// The prize break screen stays up while there is a reward to claim, a claim in flight or one to reveal
+export const holdsPrizeBreak = (state: PrizeClaimState, info: PrizeBreakInfo | null) =>
+  state.status !== 'idle' || (info?.prizeBreaksAvailable ?? 0) > 0;
+
+// ============ RECEIPT DECODING ============
+
+// PrizeBreakClaimed events emitted by `contract` for `user` - one per prize break paid out
+export const decodePrizeBreakClaimed = (
+  logs: Pick<Log, 'address' | 'data' | 'topics' | 'logIndex' | 'blockNumber' | 'transactionHash'>[],
+  contract: Address,
+  user: Address
+): PrizeClaim[] =>
+  logs.flatMap(log => {
+    if (log.address.toLowerCase() !== contract.toLowerCase()) return [];
+    try {
+      const { args } = decodeEventLog({ abi: gugoVoteManagerUpdatedAbi, eventName: 'PrizeBreakClaimed', data: log.data, topics: log.topics });
+      if (args.user.toLowerCase() !== user.toLowerCase()) return [];
+      return [{
+        txHash: (log.transactionHash ?? '0x') as Hash,
+        logIndex: log.logIndex ?? 0,
+        blockNumber: Number(log.blockNumber ?? 0),
+        claimedAt: null,
+        rewardType: args.rewardType,
+        xpAwarded: args.xpAwarded.toString(),
+        votesAwarded: args.votesAwarded.toString(),
+        gugoAwarded: args.gugoAwarded.toString(),
+        newTotalXP: args.newTotalXP.toString()
+      }];
+    } catch {
+      return [];
+    }
+  });
+
+// Fresh claims from a receipt go in front of the indexed history until the indexer catches up
+export const mergePrizeClaims = (history: PrizeClaim[], fresh: PrizeClaim[]): PrizeClaim[] => {
+  const key = (claim: PrizeClaim) => `${claim.txHash.toLowerCase()}:${claim.logIndex}`;
+  const indexed = new Set(history.map(key));
+  return [...fresh.filter(claim => !indexed.has(key(claim))), ...history]
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+};
+
+// "+25 XP · +10 votes · 12.5 GUGO" - only the parts the reward actually paid
+export const formatPrizeReward = (claim: Pick<PrizeClaim, 'xpAwarded' | 'votesAwarded' | 'gugoAwarded'>) => {
+  const parts: string[] = [];
+  if (BigInt(claim.xpAwarded) > BigInt(0)) parts.push(`+${claim.xpAwarded} XP`);
+  if (BigInt(claim.votesAwarded) > BigInt(0)) parts.push(`+${claim.votesAwarded} votes`);
+  if (BigInt(claim.gugoAwarded) > BigInt(0)) {
+    const gugo = Number(formatUnits(BigInt(claim.gugoAwarded), GUGO_DECIMALS));
+    parts.push(`${gugo.toLocaleString(undefined, { maximumFractionDigits: 2 })} GUGO`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'No reward';
+};
@@ -0,0 +1,50 @@
+// Fixed-window rate limiting for public API routes (server only, in memory per instance)
+// Enough to stop one client flooding an endpoint that writes to the database; limits reset when an
+// instance restarts and aren't shared between instances, so keep database-side caps as well.
+
+export interface RateLimitOptions {
+  limit: number; // requests allowed per window
+  windowMs: number;
+  maxKeys?: number; // bound on tracked clients; expired windows are swept first
+}
+
+export const createRateLimiter = ({ limit, windowMs, maxKeys = 10000 }: RateLimitOptions) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+    // Still full: forget the oldest clients rather than grow without bound
+    for (const key of windows.keys()) {
+      if (windows.size < maxKeys) break;
+      windows.delete(key);
+    }
+  };
+
+  return {
+    // Counts a request for `key`; false once the key has used up its window
+    take(key: string, now = Date.now()): boolean {
+      const window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        if (!window && windows.size >= maxKeys) sweep(now);
+        windows.set(key, { count: 1, resetAt: now + windowMs });
+        return true;
+      }
+      window.count++;
+      return window.count <= limit;
+    }
+  };
+};
+
+// Client address as set by the hosting proxy. x-real-ip is written by the platform; the first
+// x-forwarded-for entry is only a fallback for proxies that don't set it.
+export const clientIp = (headers: Headers): string =>
+  headers.get('x-real-ip')?.trim()
+  || headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  || 'unknown';
+
+export const tooManyRequestsHeaders = (windowMs: number) => ({
+  'Retry-After': String(Math.ceil(windowMs / 1000)),
+  'Cache-Control': 'no-store'
+});
@@ -0,0 +1,107 @@
+// IPFS URL reconstruction for the /api/img proxy (edge-safe)
+// When a token's metadata or gateway URL is unusable, its image can usually be rebuilt from the
+// collection's IPFS folder. Each collection describes that folder with an IpfsUrlRule, stored in
+// collections.ipfs_url_rule (migrations/17-ipfs-url-rules.sql) so new collections need no deploy.
+// Rules are inferred from existing nfts.image URLs by infer_collection_ipfs_url_rule() when a
+// collection is migrated or imported; set the column by hand for collections it can't work out.
+
+import type { IpfsUrlRule } from '@/types/collections';
+
+export interface FallbackIpfsUrlRequest {
+  contractAddress: string;
+  tokenId: string | number;
+}
+
+const RULES_TTL_MS = 5 * 60 * 1000;
+const PLACEHOLDER_PATTERN = /\{id(?::(\d{1,2}))?\}/g;
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/;
+
+const registry = new Map<string, IpfsUrlRule>();
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+// Path under the CID for a token, or null when the token id doesn't fit the rule
+export const renderIpfsPath = (rule: IpfsUrlRule, tokenId: string | number): string | null => {
+  const id = String(tokenId);
+  if (!/^\d+$/.test(id)) return null;
+
+  const fileNumber = Number(id) + rule.token_id_offset;
+  if (!Number.isSafeInteger(fileNumber) || fileNumber < 0) return null;
+
+  const path = rule.path_template.replace(PLACEHOLDER_PATTERN, (_, width?: string) =>
+    width ? String(fileNumber).padStart(Number(width), '0') : String(fileNumber)
+  );
+  return `${path}${rule.extension}`;
+};
+
+export const buildIpfsUrl = (rule: IpfsUrlRule, tokenId: string | number): string | null => {
+  const path = renderIpfsPath(rule, tokenId);
+  return path === null ? null : `ipfs://${rule.cid}/${path}`;
+};
+
+// Rules from the database or a JSON file, validated so a bad row can't produce garbage URLs
+export const parseIpfsUrlRule = (input: unknown): IpfsUrlRule => {
+  if (!input || typeof input !== 'object') throw new Error('IPFS URL rule must be a JSON object');
+  const { cid, path_template, extension = '', token_id_offset = 0 } = input as Record<string, unknown>;
+
+  if (typeof cid !== 'string' || !CID_PATTERN.test(cid)) throw new Error('cid must be an IPFS CID (Qm... or b...)');
+  if (typeof path_template !== 'string' || !path_template.match(PLACEHOLDER_PATTERN)) {
+    throw new Error('path_template must contain {id} or {id:N}');
+  }
+  if (path_template.startsWith('/') || path_template.split('/').includes('..')) {
+    throw new Error('path_template must be relative to the CID');
+  }
+  if (typeof extension !== 'string' || (extension !== '' && !/^\.[A-Za-z0-9]+$/.test(extension))) {
+    throw new Error('extension must look like ".png" (or be empty)');
+  }
+  if (typeof token_id_offset !== 'number' || !Number.isInteger(token_id_offset)) {
+    throw new Error('token_id_offset must be an integer');
+  }
+
+  return { cid, path_template, extension, token_id_offset };
+};
+
+export const registerIpfsUrlRule = (contractAddress: string, rule: IpfsUrlRule) => {
+  registry.set(contractAddress.toLowerCase(), rule);
+};
+
+export const getIpfsUrlRule = (contractAddress: string): IpfsUrlRule | null =>
+  registry.get(contractAddress.toLowerCase()) ?? null;
+
+// Refreshes the registry from public.collections at most every RULES_TTL_MS (per edge isolate)
+export const loadIpfsUrlRules = async (force = false): Promise<void> => {
+  if (!force && Date.now() - loadedAt < RULES_TTL_MS) return;
+  loading ??= (async () => {
+    try {
+      // Imported lazily so the pure helpers above work without Supabase env (tests, scripts)
+      const { supabase } = await import('@lib/supabase');
+      const { data, error } = await supabase
+        .from('collections')
+        .select('contract_address, ipfs_url_rule')
+        .not('ipfs_url_rule', 'is', null);
+      if (error) throw error;
+
+      registry.clear();
+      for (const row of data ?? []) {
+        try {
+          registerIpfsUrlRule(row.contract_address, parseIpfsUrlRule(row.ipfs_url_rule));
+        } catch (ruleError) {
+          console.log(`⚠️ Skipping IPFS URL rule for ${row.contract_address}:`, ruleError instanceof Error ? ruleError.message : ruleError);
+        }
+      }
+      loadedAt = Date.now();
+    } catch (loadError) {
+      // Keep serving the previous rules; retry on the next request
+      console.log('⚠️ Failed to load IPFS URL rules:', loadError instanceof Error ? loadError.message : loadError);
+    } finally {
+      loading = null;
+    }
+  })();
+  return loading;
+};
+
+// ipfs://<cid>/<path> for the token, or null when its collection has no rule (call loadIpfsUrlRules first)
+export function generateFallbackIPFSUrl({ contractAddress, tokenId }: FallbackIpfsUrlRequest): string | null {
+  const rule = getIpfsUrlRule(contractAddress);
+  return rule ? buildIpfsUrl(rule, tokenId) : null;
+}
@@ -0,0 +1,110 @@
+// Outbound fetches of token media (server only - Node dns)
+// Media URLs come from third-party metadata, so before the ingest worker or /api/img fetches one
+// the host must resolve to a public address: no localhost, cloud metadata endpoint or private
+// network. Redirects are followed by hand so every hop is checked the same way.
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+const MAX_REDIRECTS = 3;
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+export class UnsafeSourceUrlError extends Error {}
+export class SourceTooLargeError extends Error {}
+
+const ipv4ToInt = (ip: string) => ip.split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+
+// [network, prefix length]
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 3] // multicast and reserved
+];
+
+const isPrivateIpv4 = (ip: string) => {
+  const value = ipv4ToInt(ip);
+  return PRIVATE_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToInt(network) / size);
+  });
+};
+
+// Loopback, private, link-local, multicast and other non-public addresses (IPv4 or IPv6)
+export const isPrivateAddress = (ip: string): boolean => {
+  if (isIP(ip) === 4) return isPrivateIpv4(ip);
+
+  const address = ip.toLowerCase();
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIpv4(mapped[1]);
+  if (address === '::' || address === '::1') return true;
+  return /^f[cd]/.test(address) // unique local fc00::/7
+    || /^fe[89ab]/.test(address) // link-local fe80::/10
+    || address.startsWith('ff'); // multicast
+};
+
+// Throws unless `url` is https on a host that resolves only to public addresses
+export const assertPublicUrl = async (url: string): Promise<URL> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeSourceUrlError('Invalid source URL');
+  }
+  if (parsed.protocol !== 'https:') throw new UnsafeSourceUrlError(`Source URL must use https (got ${parsed.protocol})`);
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || BLOCKED_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    throw new UnsafeSourceUrlError(`Source host ${host} is not public`);
+  }
+
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeSourceUrlError(`Source host ${host} is not public`);
+  }
+  return parsed;
+};
+
+// fetch() that checks the URL and every redirect target with assertPublicUrl()
+export const fetchPublicUrl = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    current = new URL(location, current).toString();
+  }
+  throw new UnsafeSourceUrlError('Too many redirects');
+};
+
+// Response body as a Buffer, cancelled as soon as it passes maxBytes - Content-Length can be absent
+// (chunked) or wrong, so the limit is enforced on the bytes actually read
+export const readBodyWithLimit = async (response: Response, maxBytes: number): Promise<Buffer> => {
+  if (Number(response.headers.get('content-length') || 0) > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new SourceTooLargeError(`Response is larger than ${maxBytes} bytes`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new SourceTooLargeError(`Response is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, total);
+};
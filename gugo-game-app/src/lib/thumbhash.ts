@@ -0,0 +1,43 @@
+// ThumbHash placeholders (browser + server safe; the ingest worker feeds it pixels from sharp)
+// A ThumbHash is a ~25 byte summary of an image that decodes to a blurred preview with the right
+// colours and layout. Stored base64 on media_assets / nfts (migrations/20-thumbhash-placeholders.sql).
+
+import { rgbaToThumbHash, thumbHashToDataURL } from 'thumbhash';
+
+export const THUMBHASH_MAX_SIDE = 100; // encoder limit: resize to fit inside this first
+
+const dataUrlCache = new Map<string, string>();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+// rgba: width*height*4 bytes, not premultiplied
+export const encodeThumbhash = (width: number, height: number, rgba: ArrayLike<number>): string => {
+  if (width > THUMBHASH_MAX_SIDE || height > THUMBHASH_MAX_SIDE) {
+    throw new Error(`ThumbHash input must fit in ${THUMBHASH_MAX_SIDE}x${THUMBHASH_MAX_SIDE} (got ${width}x${height})`);
+  }
+  return toBase64(rgbaToThumbHash(width, height, rgba));
+};
+
+// PNG data URL for a stored hash, or undefined when there's none (or it's corrupt)
+export const thumbhashToDataUrl = (hash: string | null | undefined): string | undefined => {
+  if (!hash) return undefined;
+
+  const cached = dataUrlCache.get(hash);
+  if (cached) return cached;
+
+  try {
+    const dataUrl = thumbHashToDataURL(fromBase64(hash));
+    if (dataUrlCache.size > 500) dataUrlCache.clear();
+    dataUrlCache.set(hash, dataUrl);
+    return dataUrl;
+  } catch {
+    return undefined;
+  }
+};
+
+// Background for a media container: the preview shows until the <img>/<video> paints over it
+export const thumbhashBackground = (hash: string | null | undefined): { backgroundImage?: string; backgroundSize?: string } => {
+  const dataUrl = thumbhashToDataUrl(hash);
+  return dataUrl ? { backgroundImage: `url(${dataUrl})`, backgroundSize: 'cover' } : {};
+};
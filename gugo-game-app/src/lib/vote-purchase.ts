@@ -0,0 +1,122 @@
+// On-chain vote purchases (browser + server safe)
+// Votes are bought from GugoVoteManager (contracts/contracts/GugoVoteManager.sol) with ETH or GUGO.
+// GUGO needs an ERC-20 approve first. Once the purchase is mined, POST /api/user/purchase
+// credits the off-chain vote ledger from the receipt's VotesPurchased event.
+// The ABI comes from the generated contract client (src/contracts).
+
+import { decodeEventLog, type Address, type Hash, type Log } from 'viem';
+import { gugoVoteManagerAbi } from '@/contracts/abis';
+
+export type PurchaseCurrency = 'ETH' | 'GUGO';
+
+export const MINIMUM_PURCHASE_VOTES = 10; // GugoVoteManager.MINIMUM_VOTES
+export const MAXIMUM_PURCHASE_VOTES = 1000; // UI cap, not enforced on-chain
+
+export const VOTE_MANAGER_ADDRESS = (process.env.NEXT_PUBLIC_VOTE_MANAGER_CONTRACT || null) as Address | null;
+
+export interface PurchaseQuote {
+  currency: PurchaseCurrency;
+  voteCount: number;
+  cost: bigint; // wei for ETH, token base units for GUGO
+  balance: bigint; // buyer's ETH / GUGO balance
+  allowance: bigint | null; // GUGO only
+  token: Address | null; // GUGO only
+}
+
+export const needsApproval = (quote: PurchaseQuote) =>
+  quote.currency === 'GUGO' && (quote.allowance ?? BigInt(0)) < quote.cost;
+
+// ============ TRANSACTION STATE MACHINE ============
+// idle → quoting → quoted → [approving →] purchasing → confirming → crediting → confirmed
+// Any step can fail; RESET returns to idle from anywhere. A purchase left pending by a closed tab
+// is RESUMED straight into confirming, without its quote.
+
+export type PurchaseState =
+  | { status: 'idle' }
+  | { status: 'quoting' }
+  | { status: 'quoted'; quote: PurchaseQuote }
+  | { status: 'approving'; quote: PurchaseQuote; approvalHash?: Hash }
+  | { status: 'purchasing'; quote: PurchaseQuote }
+  | { status: 'confirming'; quote?: PurchaseQuote; txHash: Hash }
+  | { status: 'crediting'; quote?: PurchaseQuote; txHash: Hash }
+  | { status: 'confirmed'; txHash: Hash; votesAdded: number; balance: number | null }
+  | { status: 'failed'; error: string; quote?: PurchaseQuote; txHash?: Hash };
+
+export type PurchaseEvent =
+  | { type: 'QUOTE_REQUESTED' }
+  | { type: 'QUOTED'; quote: PurchaseQuote }
+  | { type: 'APPROVAL_STARTED' }
+  | { type: 'APPROVAL_SUBMITTED'; hash: Hash }
+  | { type: 'PURCHASE_STARTED' }
+  | { type: 'PURCHASE_SUBMITTED'; hash: Hash }
+  | { type: 'RESUMED'; hash: Hash }
+  | { type: 'MINED' }
+  | { type: 'CREDITED'; votesAdded: number; balance: number | null }
+  | { type: 'FAILED'; error: string }
+  | { type: 'RESET' };
+
+const quoteOf = (state: PurchaseState) => ('quote' in state ? state.quote : undefined);
+const txHashOf = (state: PurchaseState) => ('txHash' in state ? state.txHash : undefined);
+
+// Events that don't fit the current state are ignored, so a late callback can't rewind the flow
+export const purchaseReducer = (state: PurchaseState, event: PurchaseEvent): PurchaseState => {
+  switch (event.type) {
+    case 'RESET':
+      return { status: 'idle' };
+    case 'FAILED':
+      return state.status === 'idle' || state.status === 'confirmed'
+        ? state
+        : { status: 'failed', error: event.error, quote: quoteOf(state), txHash: txHashOf(state) };
+    case 'QUOTE_REQUESTED':
+      return ['idle', 'quoted', 'failed'].includes(state.status) ? { status: 'quoting' } : state;
+    case 'QUOTED':
+      return state.status === 'quoting' ? { status: 'quoted', quote: event.quote } : state;
+    case 'APPROVAL_STARTED':
+      return state.status === 'quoted' ? { status: 'approving', quote: state.quote } : state;
+    case 'APPROVAL_SUBMITTED':
+      return state.status === 'approving' ? { ...state, approvalHash: event.hash } : state;
+    case 'PURCHASE_STARTED':
+      return state.status === 'quoted' || state.status === 'approving'
+        ? { status: 'purchasing', quote: state.quote }
+        : state;
+    case 'PURCHASE_SUBMITTED':
+      return state.status === 'purchasing' ? { status: 'confirming', quote: state.quote, txHash: event.hash } : state;
+    case 'RESUMED':
+      return state.status === 'idle' ? { status: 'confirming', txHash: event.hash } : state;
+    case 'MINED':
+      return state.status === 'confirming' ? { status: 'crediting', quote: state.quote, txHash: state.txHash } : state;
+    case 'CREDITED':
+      return state.status === 'crediting'
+        ? { status: 'confirmed', txHash: state.txHash, votesAdded: event.votesAdded, balance: event.balance }
+        : state;
+  }
+};
+
+export const isPurchaseBusy = (state: PurchaseState) =>
+  ['quoting', 'approving', 'purchasing', 'confirming', 'crediting'].includes(state.status);
+
+// ============ RECEIPT DECODING ============
+
+export interface VotesPurchasedLog {
+  user: Address;
+  amount: bigint;
+  cost: bigint;
+  currency: string;
+  logIndex: number;
+}
+
+// VotesPurchased events emitted by `contract` in a receipt's logs (other contracts' logs are ignored)
+export const decodeVotesPurchased = (logs: Pick<Log, 'address' | 'data' | 'topics' | 'logIndex'>[], contract: Address): VotesPurchasedLog[] =>
+  logs.flatMap(log => {
+    if (log.address.toLowerCase() !== contract.toLowerCase()) return [];
+    try {
+      const decoded = decodeEventLog({ abi: gugoVoteManagerAbi, eventName: 'VotesPurchased', data: log.data, topics: log.topics });
+      return [{ ...decoded.args, logIndex: log.logIndex ?? 0 }];
+    } catch {
+      return [];
+    }
+  });
+
+// Ledger reference: one credit per event, however often the confirmation is retried
+export const purchaseReference = (chainId: number, txHash: string, logIndex: number) =>
+  `purchase:${chainId}:${txHash.toLowerCase()}:${logIndex}`;
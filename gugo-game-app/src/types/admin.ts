@@ -0,0 +1,32 @@
+// 🧰 Admin Types
+// Shared by the /admin pages and their /api/admin routes (access: ADMIN_WALLETS, lib/admin.ts)
+
+import type { QueueHealth } from '@lib/queue-manager';
+import type { RefillRun } from '@lib/queue-refill';
+
+// 'signed_out' / 'forbidden' come from the routes' 401 / 403 so pages can say what to do
+export type AdminAccess = 'loading' | 'ok' | 'signed_out' | 'forbidden';
+
+// getQueueAnalytics() over JSON: dates arrive as ISO strings
+export interface QueueAnalyticsSummary {
+  byType: Record<string, number>;
+  averagePriority: Record<string, number>;
+  reservationRate: number; // 0-1, entries currently reserved by a visitor
+  oldestItem: string | null;
+  newestItem: string | null;
+}
+
+export interface QueueCollectionCount {
+  collection_name: string;
+  entries: number;
+}
+
+export interface QueueDashboard {
+  health: QueueHealth; // includes getQueueStatus() counts of unreserved entries
+  analytics: QueueAnalyticsSummary | null;
+  collections: QueueCollectionCount[];
+  runs: RefillRun[];
+  generatedAt: string;
+}
+
+export type QueueAdminAction = 'refill' | 'cleanup' | 'purge';
@@ -0,0 +1,51 @@
+// 🗂️ Collection Registry Types
+// Rows of public.collections (migrations/15-collections-registry.sql) and the rules that decide
+// which NFTs are ineligible for matchups and slider votes
+
+import type { NftTrait } from './nft-detail';
+
+export type NftMediaType = 'image' | 'video';
+
+// An NFT is unrevealed when any of its traits matches trait_type and one of values (case-insensitive)
+export interface UnrevealedTraitRule {
+  trait_type: string;
+  values: string[];
+}
+
+export interface CollectionRules {
+  unrevealed_traits?: UnrevealedTraitRule[];
+  blocked_media_types?: NftMediaType[];
+  exclude_burned?: boolean;
+}
+
+export interface CollectionRecord {
+  id: string;
+  contract_address: string; // lowercase
+  name: string;
+  chain: string;
+  metadata_source: string | null;
+  active: boolean;
+  ineligible_rules: CollectionRules;
+  ipfs_url_rule: IpfsUrlRule | null;
+  last_imported_at: string | null;
+}
+
+// How a token's image path is laid out under the collection's IPFS folder, used by /api/img to
+// rebuild a media URL when metadata is unavailable: ipfs://<cid>/<path_template><extension>.
+// path_template placeholders: {id} (token id + offset) and {id:N} (zero-padded to N digits).
+export interface IpfsUrlRule {
+  cid: string;
+  path_template: string;
+  extension: string; // including the dot, or '' for extensionless files
+  token_id_offset: number; // file number = token id + offset (e.g. -1 for 0-indexed folders)
+}
+
+// What an import writes for one token; eligibility itself is computed by the database
+export interface ImportedToken {
+  tokenId: string;
+  name: string | null;
+  description: string | null;
+  image: string | null;
+  traits: NftTrait[];
+  burned: boolean;
+}
@@ -0,0 +1,46 @@
+// 🏆 Leaderboard Types
+// Public rankings served by /api/leaderboard (get_leaderboard() in migrations/13-leaderboard.sql)
+
+export type LeaderboardSort = 'elo' | 'win_rate' | 'slider' | 'movers';
+
+// Time windows in days; 'all' = all-time stats
+export type LeaderboardWindow = 'all' | '1d' | '7d' | '30d';
+
+export interface LeaderboardQuery {
+  collection: string | null;
+  sort: LeaderboardSort;
+  minVotes: number; // all-time matchups (wins + losses), whatever the window
+  window: LeaderboardWindow;
+  page: number;
+  pageSize: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  nft_id: string;
+  name: string;
+  image: string;
+  token_id: string;
+  contract_address: string;
+  collection_name: string;
+  current_elo: number;
+  wins: number; // within the window when one is set
+  losses: number;
+  total_votes: number;
+  win_rate: number | null;
+  slider_average: number | null;
+  slider_count: number;
+  elo_change: number | null; // rating movement over the window (null for all-time)
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  query: LeaderboardQuery;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface LeaderboardCollection {
+  collection_name: string;
+  nft_count: number;
+}
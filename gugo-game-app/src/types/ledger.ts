@@ -0,0 +1,32 @@
+// 📒 Vote Ledger Types
+// Every change to a user's vote balance is an append-only ledger entry
+
+export type LedgerEntryType =
+  | 'opening_balance' // carry-over of pre-ledger balances (migration only)
+  | 'daily_free_claim'
+  | 'purchase'
+  | 'regular_spend'
+  | 'super_spend'
+  | 'prize_break_grant'
+  | 'media_failure_grant' // compensation for a recorded media failure
+  | 'refund';
+
+export interface VoteLedgerEntry {
+  id: string;
+  entry_type: LedgerEntryType;
+  amount: number; // credits positive, spends negative
+  balance_after: number;
+  vote_id: string | null;
+  reference: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface VoteLedgerPage {
+  entries: VoteLedgerEntry[];
+  balance: number;
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
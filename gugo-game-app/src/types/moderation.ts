@@ -0,0 +1,39 @@
+// 🚩 Media Moderation Types
+// Failure reports and the operator review queue (migrations/21-media-moderation.sql)
+
+// load_failed / timeout / not_image come from visitors' browsers (signed-in wallets count toward auto-exclusion);
+// duplicate is raised by the ingest worker
+export type MediaFailureReason = 'load_failed' | 'timeout' | 'not_image' | 'duplicate';
+
+export const CLIENT_FAILURE_REASONS: MediaFailureReason[] = ['load_failed', 'timeout', 'not_image'];
+
+export type ModerationStatus = 'none' | 'auto_excluded' | 'unrevealed' | 'banned';
+
+// reingest / clear make the NFT eligible again; unrevealed / ban keep it out of matchups
+export type ModerationAction = 'reingest' | 'clear' | 'unrevealed' | 'ban';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['reingest', 'clear', 'unrevealed', 'ban'];
+
+export interface MediaFailureReport {
+  nftId: string;
+  reason: MediaFailureReason;
+  gateway?: string | null; // hostname that failed, e.g. 'ipfs.io'
+  mediaUrl?: string | null;
+}
+
+export interface ModerationQueueItem {
+  nft_id: string;
+  name: string;
+  image: string;
+  collection_name: string | null;
+  contract_address: string | null;
+  token_id: string | null;
+  moderation_status: ModerationStatus;
+  moderation_note: string | null;
+  eligible: boolean;
+  open_reports: number;
+  reasons: Partial<Record<MediaFailureReason, number>>;
+  gateways: string[];
+  duplicate_of: string | null; // nft id of the closest asset in another collection
+  last_reported_at: string | null;
+}
@@ -0,0 +1,56 @@
+// 🖼️ NFT Detail Types
+// The /nft/[id] page: rating history, notable results and head-to-head record, all rebuilt from `votes`
+
+export interface NftTrait {
+  trait_type: string;
+  value: string | number;
+}
+
+export interface NftSummary {
+  id: string;
+  name: string;
+  image: string;
+  token_id: string;
+  contract_address: string;
+  collection_name: string;
+  current_elo: number;
+}
+
+export interface NftDetail extends NftSummary {
+  traits: NftTrait[];
+  wins: number;
+  losses: number;
+  total_votes: number;
+  slider_average: number | null;
+  slider_count: number;
+}
+
+// One point per matchup vote; elo is null for votes cast before ratings were stamped (Stage 14)
+export interface EloHistoryPoint {
+  votedAt: string;
+  elo: number | null;
+  won: boolean;
+}
+
+export interface NotableResult {
+  opponent: NftSummary;
+  opponentElo: number | null; // opponent's rating right after the vote
+  votedAt: string;
+  superVote: boolean;
+}
+
+export interface HeadToHeadRecord {
+  opponent: NftSummary;
+  wins: number;
+  losses: number;
+  lastVotedAt: string;
+}
+
+export interface NftDetailPage {
+  nft: NftDetail;
+  history: EloHistoryPoint[];
+  bestWins: NotableResult[];
+  worstLosses: NotableResult[];
+  headToHead: HeadToHeadRecord[];
+  votesConsidered: number; // matchup votes read (capped at MAX_DETAIL_VOTES, most recent kept)
+}
@@ -1,13 +1,18 @@
 // 🗳️ New Voting System Types
 // Enhanced types for the sophisticated voting system
 
+import type { NftMediaType } from './collections';
+
 export type VoteType = 'same_coll' | 'cross_coll' | 'slider';
 
 export interface NFT {
   id: string;
   name: string;
   image: string;
+  media_type?: NftMediaType; // 'video' NFTs render a poster frame and play a muted loop (VideoNftMedia)
+  thumbhash?: string | null; // base64 ThumbHash shown while the image loads (src/lib/thumbhash.ts)
   collection_address: string;
+  contract_address?: string; // set instead of collection_address on raw rows from lib/preloader.ts
   token_address: string;
   token_id: string;
   collection_name: string;
@@ -71,6 +76,7 @@ export interface VoteResult {
   voteCount: number;
   insufficientVotes?: boolean;
   requiredVotes?: number;
+  availableVotes?: number; // Ledger balance after this vote
 }
 
 export interface SliderUpdate {
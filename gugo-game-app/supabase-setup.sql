@@ -41,15 +41,6 @@ CREATE TRIGGER update_users_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
--- Create set_config function for RLS
-CREATE OR REPLACE FUNCTION set_config(setting_name TEXT, setting_value TEXT, is_local BOOLEAN DEFAULT FALSE)
-RETURNS TEXT AS $$
-BEGIN
-    PERFORM set_config(setting_name, setting_value, is_local);
-    RETURN setting_value;
-END;
-$$ LANGUAGE plpgsql SECURITY DEFINER;
-
 -- Row Level Security Policies
 DROP POLICY IF EXISTS "Users can view their own profile" ON public.users;
 CREATE POLICY "Users can view their own profile" ON public.users
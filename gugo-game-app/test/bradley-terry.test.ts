@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BT_BASE_SCORE, fitBradleyTerry, votesToComparisons, type BradleyTerryPrior } from '../lib/bradley-terry';
+
+interface Fixture {
+  nfts: ({ id: string } & BradleyTerryPrior)[];
+  votes: { nft_a_id: string; nft_b_id: string; winner_id: string }[];
+  expected_order: string[];
+}
+
+// Same fixture as `npm run ratings:bt -- --fixture scripts/fixtures/bradley-terry-votes.json`
+const fixture: Fixture = JSON.parse(readFileSync(join(__dirname, '../scripts/fixtures/bradley-terry-votes.json'), 'utf8'));
+const priors = new Map(fixture.nfts.map(({ id, ...prior }) => [id, prior]));
+
+describe('fitBradleyTerry', () => {
+  it('recovers the fixture\'s known strength order', () => {
+    const fit = fitBradleyTerry(votesToComparisons(fixture.votes), priors);
+    assert.ok(fit.converged);
+    assert.deepEqual(fit.scores.map(score => score.nft_id), fixture.expected_order);
+    assert.ok(fit.scores.every(score => score.comparisons === 40));
+  });
+
+  it('leaves NFTs without matchups unranked however good their slider average', () => {
+    const fit = fitBradleyTerry(votesToComparisons(fixture.votes), priors);
+    assert.deepEqual(fit.unranked, ['nft-f']);
+    assert.ok(!fit.scores.some(score => score.nft_id === 'nft-f'));
+
+    const strict = fitBradleyTerry(votesToComparisons(fixture.votes.slice(0, 4)), priors, { minComparisons: 2 });
+    assert.deepEqual(strict.scores.map(score => score.nft_id), ['nft-a', 'nft-c']);
+  });
+
+  it('centres unbiased NFTs on the base score with a symmetric interval', () => {
+    const fit = fitBradleyTerry([
+      { winner_id: 'x', loser_id: 'y' },
+      { winner_id: 'y', loser_id: 'x' }
+    ]);
+    for (const score of fit.scores) {
+      assert.ok(Math.abs(score.bt_score - BT_BASE_SCORE) < 1e-6);
+      assert.ok(Math.abs((score.bt_ci_upper - score.bt_score) - (score.bt_score - score.bt_ci_lower)) < 1e-9);
+    }
+  });
+});
+
+describe('votesToComparisons', () => {
+  it('maps each vote to winner/loser and drops votes won by neither side', () => {
+    assert.deepEqual(votesToComparisons([
+      { nft_a_id: 'a', nft_b_id: 'b', winner_id: 'b' },
+      { nft_a_id: 'a', nft_b_id: 'b', winner_id: 'c' }
+    ]), [{ winner_id: 'b', loser_id: 'a' }]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { keccak256, stringToBytes, type Address, type Hash } from 'viem';
+import { createMemoryIndexerStore, syncChainEvents, type IndexerClient } from '../lib/chain-indexer';
+
+const MANAGER = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Address;
+const BUYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address;
+
+const txHash = (block: number) => `0x${block.toString(16).padStart(64, '0')}` as Hash;
+
+interface FakeLog {
+  address: Address;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+const purchaseLog = (block: number, logIndex = 0): FakeLog => ({
+  address: MANAGER,
+  blockNumber: BigInt(block),
+  blockHash: txHash(block + 1000),
+  transactionHash: txHash(block),
+  logIndex,
+  eventName: 'VotesPurchased',
+  args: { user: BUYER, amount: BigInt(10), cost: BigInt('125000000000000'), currency: 'ETH' }
+});
+
+const depositLog = (block: number): FakeLog => ({
+  ...purchaseLog(block),
+  eventName: 'TreasuryDeposit',
+  args: { treasuryType: keccak256(stringToBytes('prizeBreak')), amount: BigInt(500), newBalance: BigInt(1500) }
+});
+
+// Just enough of a viem PublicClient: logs are pre-decoded the way getLogs({ events }) returns them
+const fakeChain = (logs: FakeLog[], head: { block: number }) => {
+  const calls = { getLogs: [] as [number, number][], readContract: 0 };
+  const client = {
+    getChainId: async () => 31337,
+    getBlockNumber: async () => BigInt(head.block),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      calls.getLogs.push([Number(fromBlock), Number(toBlock)]);
+      return logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ number: blockNumber, timestamp: BigInt(1700000000) + blockNumber }),
+    readContract: async () => {
+      calls.readContract++;
+      return [BigInt(1500), BigInt(200), BigInt(0), BigInt(2), BigInt(1200), MANAGER, MANAGER];
+    }
+  } as unknown as IndexerClient;
+  return { client, calls };
+};
+
+const options = { cursor: 'test', contracts: [MANAGER], startBlock: 1, confirmations: 3, batchSize: 5 };
+
+describe('syncChainEvents', () => {
+  it('stops at the confirmation depth and picks up later blocks on the next pass', async () => {
+    const head = { block: 10 };
+    const { client } = fakeChain([purchaseLog(4), purchaseLog(9)], head);
+    const store = createMemoryIndexerStore();
+
+    const first = await syncChainEvents(client, store, options);
+    assert.equal(first.safeHead, 7);
+    assert.equal(first.toBlock, 7);
+    assert.equal(store.events.size, 1);
+    assert.equal(await store.getCursor('test', 31337), 7);
+
+    head.block = 12;
+    const second = await syncChainEvents(client, store, options);
+    assert.equal(second.fromBlock, 8);
+    assert.equal(second.toBlock, 9);
+    assert.equal(store.events.size, 2);
+  });
+
+  it('splits the range into batches and honours maxBatches', async () => {
+    const { client, calls } = fakeChain([], { block: 20 });
+    const store = createMemoryIndexerStore();
+
+    const result = await syncChainEvents(client, store, { ...options, maxBatches: 2 });
+    assert.deepEqual(calls.getLogs, [[1, 5], [6, 10]]);
+    assert.equal(result.toBlock, 10);
+    assert.equal(await store.getCursor('test', 31337), 10);
+  });
+
+  it('does nothing new when a range is replayed', async () => {
+    const { client } = fakeChain([purchaseLog(2), purchaseLog(2, 1)], { block: 10 });
+    const store = createMemoryIndexerStore();
+
+    await syncChainEvents(client, store, options);
+    store.cursors.clear(); // e.g. a rewound cursor
+    const replay = await syncChainEvents(client, store, options);
+
+    assert.equal(replay.events, 2);
+    assert.equal(store.events.size, 2);
+  });
+
+  it('normalizes args and snapshots the treasury after treasury events', async () => {
+    const { client, calls } = fakeChain([purchaseLog(2), depositLog(3)], { block: 10 });
+    const store = createMemoryIndexerStore();
+
+    await syncChainEvents(client, store, options);
+
+    const purchase = store.events.get(`31337:${txHash(2)}:0`)!;
+    assert.equal(purchase.contract, MANAGER.toLowerCase());
+    assert.equal(purchase.args.user, BUYER.toLowerCase());
+    assert.equal(purchase.args.cost, '125000000000000');
+    assert.equal(purchase.blockTime, new Date((1700000000 + 2) * 1000).toISOString());
+
+    const deposit = store.events.get(`31337:${txHash(3)}:0`)!;
+    assert.equal(deposit.args.treasuryType, 'prizeBreak');
+
+    // One snapshot for the batch holding the deposit, none for purchase-only batches
+    assert.equal(calls.readContract, 1);
+    const [snapshot] = store.snapshots.values();
+    assert.equal(snapshot.blockNumber, 5);
+    assert.equal(snapshot.prizeBreakBalance, '1500');
+    assert.equal(snapshot.unlockedTiers, 2);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createGatewayReporter,
+  gatewayPrefix,
+  mergeGatewayReports,
+  rankGateways,
+  type GatewayHealthRow,
+  type GatewayReport
+} from '../src/lib/gateway-health';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000).toISOString();
+const CANDIDATES = ['https://a.example/ipfs/', 'https://b.example/ipfs/', 'https://c.example/ipfs/'];
+
+const row = (gateway: string, overrides: Partial<GatewayHealthRow> = {}): GatewayHealthRow => ({
+  gateway,
+  success_rate: 1,
+  avg_latency_ms: null,
+  consecutive_failures: 0,
+  circuit_open_until: null,
+  last_success_at: minutesAgo(1),
+  last_failure_at: null,
+  ...overrides
+});
+
+describe('rankGateways', () => {
+  it('keeps the candidate order without reports', () => {
+    assert.deepEqual(rankGateways([], NOW, CANDIDATES).map(g => g.url), CANDIDATES);
+  });
+
+  it('ranks by success rate, then latency for near-ties', () => {
+    const ranked = rankGateways([
+      row(CANDIDATES[0], { success_rate: 0.5 }),
+      row(CANDIDATES[1], { success_rate: 0.95, avg_latency_ms: 900 }),
+      row(CANDIDATES[2], { success_rate: 0.9, avg_latency_ms: 200 })
+    ], NOW, CANDIDATES);
+
+    assert.deepEqual(ranked.map(g => g.url), [CANDIDATES[2], CANDIDATES[1], CANDIDATES[0]]);
+    assert.equal(ranked[2].healthy, false);
+  });
+
+  it('puts open circuits last until the cooldown expires', () => {
+    const open = row(CANDIDATES[0], { circuit_open_until: new Date(NOW + 60000).toISOString(), success_rate: 0.2, last_failure_at: minutesAgo(0) });
+
+    const ranked = rankGateways([open], NOW, CANDIDATES);
+    assert.equal(ranked[2].url, CANDIDATES[0]);
+    assert.equal(ranked[2].healthy, false);
+    assert.ok(ranked[2].circuitOpenUntil);
+
+    const later = rankGateways([open], NOW + 120000, CANDIDATES);
+    assert.equal(later.find(g => g.url === CANDIDATES[0])?.circuitOpenUntil, null);
+  });
+
+  it('forgets stale reports', () => {
+    const ranked = rankGateways([row(CANDIDATES[0], { success_rate: 0.1, last_success_at: minutesAgo(45) })], NOW, CANDIDATES);
+    assert.equal(ranked[0].url, CANDIDATES[0]);
+    assert.equal(ranked[0].healthy, true);
+  });
+});
+
+describe('mergeGatewayReports', () => {
+  it('merges per gateway, drops unknown gateways and caps counts', () => {
+    const merged = mergeGatewayReports([
+      { gateway: 'https://ipfs.io/ipfs/QmHash/1.png', successes: 1, failures: 0, latencyMs: 100 },
+      { gateway: 'https://ipfs.io/ipfs/', successes: 1, failures: 2, latencyMs: 300 },
+      { gateway: 'https://evil.example/ipfs/', successes: 50, failures: 0 },
+      { gateway: 'https://dweb.link/ipfs/', successes: 0, failures: 500 }
+    ]);
+
+    assert.deepEqual(merged, [
+      { gateway: 'https://ipfs.io/ipfs/', successes: 2, failures: 2, latencyMs: 200 },
+      { gateway: 'https://dweb.link/ipfs/', successes: 0, failures: 100, latencyMs: null }
+    ]);
+  });
+
+  it('recognises only known gateway prefixes', () => {
+    assert.equal(gatewayPrefix('https://w3s.link/ipfs/bafy/1.png'), 'https://w3s.link/ipfs/');
+    assert.equal(gatewayPrefix('http://w3s.link/ipfs/bafy'), null);
+  });
+});
+
+describe('createGatewayReporter', () => {
+  it('batches outcomes until flushed', () => {
+    const batches: GatewayReport[][] = [];
+    const reporter = createGatewayReporter(reports => { batches.push(reports); }, 60000);
+
+    reporter.record('https://ipfs.io/ipfs/', true, 120);
+    reporter.record('https://ipfs.io/ipfs/', false);
+    assert.equal(batches.length, 0);
+
+    reporter.flush();
+    assert.deepEqual(batches, [[{ gateway: 'https://ipfs.io/ipfs/', successes: 1, failures: 1, latencyMs: 120 }]]);
+
+    reporter.flush();
+    assert.equal(batches.length, 1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hedgedRace, isHedgeCancelled } from '../src/lib/hedged-fetch';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolves with `url` after `ms`, or rejects as soon as the signal aborts
+const respondAfter = (ms: number, url: string, signal: AbortSignal) =>
+  new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => resolve(url), ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+  });
+
+describe('hedgedRace', () => {
+  it('uses the first candidate when it answers before the hedge delay', async () => {
+    const started: string[] = [];
+    const winner = await hedgedRace(['a', 'b'], (url, signal) => {
+      started.push(url);
+      return respondAfter(5, url, signal);
+    }, { hedgeDelayMs: 50 });
+
+    assert.equal(winner.value, 'a');
+    assert.deepEqual(started, ['a']);
+  });
+
+  it('hedges a slow candidate and cancels the loser', async () => {
+    const cancelled: string[] = [];
+    const winner = await hedgedRace(['slow', 'fast'], async (url, signal) => {
+      try {
+        return await respondAfter(url === 'slow' ? 500 : 5, url, signal);
+      } catch (error) {
+        if (isHedgeCancelled(signal)) cancelled.push(url);
+        throw error;
+      }
+    }, { hedgeDelayMs: 20 });
+
+    assert.equal(winner.value, 'fast');
+    await sleep(0);
+    assert.deepEqual(cancelled, ['slow']);
+  });
+
+  it('moves on immediately when a candidate fails', async () => {
+    const started = Date.now();
+    const winner = await hedgedRace(['broken', 'ok'], async (url, signal) => {
+      if (url === 'broken') throw new Error('boom');
+      return respondAfter(5, url, signal);
+    }, { hedgeDelayMs: 1000 });
+
+    assert.equal(winner.url, 'ok');
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it('times out attempts that ignore their signal', async () => {
+    await assert.rejects(
+      hedgedRace(['hangs'], () => new Promise<never>(() => {}), { attemptTimeoutMs: 20 }),
+      /All 1 candidates failed: Hedged request timed out/
+    );
+  });
+
+  it('rejects when every candidate fails', async () => {
+    await assert.rejects(
+      hedgedRace(['a', 'b', 'c'], async url => { throw new Error(`${url} down`); }, { hedgeDelayMs: 5 }),
+      /a down; b down; c down/
+    );
+  });
+});
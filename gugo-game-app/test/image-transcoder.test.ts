@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { isSaveData, negotiateFormat, transcodeImage } from '../src/lib/image-transcoder';
+
+const CHROME_ACCEPT = 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8';
+const SAFARI_16_ACCEPT = 'image/webp,image/png,image/svg+xml,image/*;q=0.8,video/*;q=0.8,*/*;q=0.5';
+
+describe('negotiateFormat', () => {
+  it('prefers avif, then webp, when the client lists them', () => {
+    assert.equal(negotiateFormat(CHROME_ACCEPT, 'jpeg', false), 'avif');
+    assert.equal(negotiateFormat(SAFARI_16_ACCEPT, 'jpeg', false), 'webp');
+    assert.equal(negotiateFormat('IMAGE/WEBP; q=0.9', 'png', true), 'webp');
+  });
+
+  it('skips formats refused with q=0', () => {
+    assert.equal(negotiateFormat('image/avif;q=0,image/webp', 'jpeg', false), 'webp');
+    assert.equal(negotiateFormat('image/avif; q=0.0, image/webp;q=0', 'jpeg', false), 'jpeg');
+  });
+
+  it('does not treat wildcards as avif/webp support', () => {
+    assert.equal(negotiateFormat('image/*,*/*;q=0.8', 'jpeg', false), 'jpeg');
+  });
+
+  it('falls back to png for transparent or png sources, jpeg otherwise', () => {
+    assert.equal(negotiateFormat(null, 'jpeg', false), 'jpeg');
+    assert.equal(negotiateFormat(null, 'png', false), 'png');
+    assert.equal(negotiateFormat('', 'webp', true), 'png');
+    assert.equal(negotiateFormat(null, undefined, false), 'jpeg');
+  });
+});
+
+describe('isSaveData', () => {
+  it('is on only for Save-Data: on', () => {
+    assert.equal(isSaveData('on'), true);
+    assert.equal(isSaveData(' On '), true);
+    assert.equal(isSaveData('off'), false);
+    assert.equal(isSaveData(''), false);
+    assert.equal(isSaveData(null), false);
+  });
+});
+
+describe('transcodeImage', () => {
+  // Noisy enough that re-encoding a smaller copy always wins over the source bytes
+  const source = async () => {
+    const width = 1600;
+    const height = 1000;
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919) % 251;
+    const png = await sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+    return png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) as ArrayBuffer;
+  };
+
+  it('resizes to width x DPR in the negotiated format', async () => {
+    const result = await transcodeImage(await source(), { width: 512, dpr: 2, accept: 'image/webp', saveData: false });
+    assert.ok(result);
+    assert.equal(result.format, 'webp');
+    assert.equal(result.contentType, 'image/webp');
+    assert.equal(result.width, 1024);
+  });
+
+  it('drops to 1x pixels for Save-Data clients', async () => {
+    const result = await transcodeImage(await source(), { width: 512, dpr: 2, accept: 'image/webp', saveData: true });
+    assert.ok(result);
+    assert.equal(result.width, 512);
+  });
+
+  it('passes through bytes sharp cannot decode', async () => {
+    const junk = new TextEncoder().encode('not an image').buffer as ArrayBuffer;
+    assert.equal(await transcodeImage(junk, { width: 512, dpr: 1, accept: null, saveData: false }), null);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DHASH_HEIGHT, DHASH_WIDTH, differenceHash, hammingDistance } from '../src/lib/perceptual-hash';
+
+// Horizontal gradient: every pixel is darker than its right-hand neighbour (all bits 0) or brighter (all bits 1)
+const gradient = (descending: boolean) =>
+  Array.from({ length: DHASH_WIDTH * DHASH_HEIGHT }, (_, i) => {
+    const x = i % DHASH_WIDTH;
+    return descending ? 255 - x * 20 : x * 20;
+  });
+
+describe('differenceHash', () => {
+  it('sets one bit per brighter-than-right-neighbour pixel', () => {
+    assert.equal(differenceHash(gradient(false)), BigInt(0));
+    // All 64 bits set is -1 as a signed BIGINT
+    assert.equal(differenceHash(gradient(true)), BigInt(-1));
+  });
+
+  it('fits in a signed 64-bit column', () => {
+    const pixels = gradient(false);
+    pixels[0] = 255; // first bit (the sign bit) set
+    const hash = differenceHash(pixels);
+    assert.ok(hash < BigInt(0));
+    assert.equal(BigInt.asIntN(64, BigInt(hash.toString())), hash);
+  });
+
+  it('rejects the wrong number of pixels', () => {
+    assert.throws(() => differenceHash([1, 2, 3]), /9x8/);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits, including the sign bit', () => {
+    assert.equal(hammingDistance(BigInt(0), BigInt(0)), 0);
+    assert.equal(hammingDistance(BigInt(0), BigInt(-1)), 64);
+    assert.equal(hammingDistance(BigInt(0b1011), BigInt(0b0001)), 2);
+  });
+
+  it('keeps near-identical images close', () => {
+    const pixels = gradient(false);
+    const tweaked = [...pixels];
+    tweaked[10] = 0; // one pixel changes two comparisons at most
+    assert.ok(hammingDistance(differenceHash(pixels), differenceHash(tweaked)) <= 2);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeAbiParameters, encodeEventTopics, parseUnits, type Address, type Hash } from 'viem';
+import {
+  decodePrizeBreakClaimed,
+  formatPrizeReward,
+  holdsPrizeBreak,
+  mergePrizeClaims,
+  prizeClaimReducer,
+  rewardTypeLabel,
+  toPrizeBreakInfo,
+  type PrizeClaim,
+  type PrizeClaimEvent,
+  type PrizeClaimState
+} from '../src/lib/prize-break';
+import { gugoVoteManagerUpdatedAbi } from '../src/contracts/abis';
+
+const MANAGER = '0xf714af6b79143b3a412ebe421bfbac4f7d4e4b13' as Address;
+const PLAYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address;
+const OTHER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' as Address;
+const TX = `0x${'cd'.repeat(32)}` as Hash;
+
+const run = (events: PrizeClaimEvent[], from: PrizeClaimState = { status: 'idle' }) => events.reduce(prizeClaimReducer, from);
+
+const claimedLog = (address: Address, user: Address, rewardType: number, amounts: [number, number, bigint, number], logIndex: number) => ({
+  address,
+  logIndex,
+  blockNumber: BigInt(120),
+  transactionHash: TX,
+  topics: encodeEventTopics({ abi: gugoVoteManagerUpdatedAbi, eventName: 'PrizeBreakClaimed', args: { user, rewardType } }) as [Hash, ...Hash[]],
+  data: encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }],
+    [BigInt(amounts[0]), BigInt(amounts[1]), amounts[2], BigInt(amounts[3])]
+  )
+});
+
+const claim = (blockNumber: number, logIndex: number, overrides: Partial<PrizeClaim> = {}): PrizeClaim => ({
+  txHash: `0x${blockNumber.toString(16).padStart(64, '0')}` as Hash,
+  logIndex,
+  blockNumber,
+  claimedAt: null,
+  rewardType: 0,
+  xpAwarded: '10',
+  votesAwarded: '0',
+  gugoAwarded: '0',
+  newTotalXP: '10',
+  ...overrides
+});
+
+describe('prizeClaimReducer', () => {
+  it('walks a claim through to the revealed reward', () => {
+    const rewards = [claim(120, 0)];
+    const state = run([
+      { type: 'CLAIM_STARTED' },
+      { type: 'CLAIM_SUBMITTED', hash: TX },
+      { type: 'REVEALED', rewards }
+    ]);
+    assert.deepEqual(state, { status: 'revealed', txHash: TX, rewards });
+  });
+
+  it('ignores events that do not fit the current step', () => {
+    const claiming = run([{ type: 'CLAIM_STARTED' }]);
+    assert.equal(prizeClaimReducer(claiming, { type: 'REVEALED', rewards: [] }), claiming);
+    assert.equal(prizeClaimReducer(claiming, { type: 'CLAIM_STARTED' }), claiming);
+
+    const revealed = run([{ type: 'CLAIM_SUBMITTED', hash: TX }, { type: 'REVEALED', rewards: [] }], claiming);
+    assert.equal(prizeClaimReducer(revealed, { type: 'FAILED', error: 'late' }), revealed);
+  });
+
+  it('keeps the transaction hash when a submitted claim fails, and allows a retry', () => {
+    const failed = run([{ type: 'CLAIM_STARTED' }, { type: 'CLAIM_SUBMITTED', hash: TX }, { type: 'FAILED', error: 'reverted' }]);
+    assert.deepEqual(failed, { status: 'failed', error: 'reverted', txHash: TX });
+    assert.deepEqual(prizeClaimReducer(failed, { type: 'CLAIM_STARTED' }), { status: 'claiming' });
+  });
+});
+
+describe('holdsPrizeBreak', () => {
+  const info = (prizeBreaksAvailable: number) =>
+    toPrizeBreakInfo([BigInt(prizeBreaksAvailable * 10), BigInt(prizeBreaksAvailable), BigInt(4), BigInt(10), BigInt(2)]);
+
+  it('holds the screen while a reward is claimable or a claim is under way', () => {
+    assert.equal(holdsPrizeBreak({ status: 'idle' }, null), false);
+    assert.equal(holdsPrizeBreak({ status: 'idle' }, info(0)), false);
+    assert.equal(holdsPrizeBreak({ status: 'idle' }, info(2)), true);
+    assert.equal(holdsPrizeBreak({ status: 'confirming', txHash: TX }, info(0)), true);
+  });
+});
+
+describe('decodePrizeBreakClaimed', () => {
+  it('decodes one reward per prize break for the claimant only', () => {
+    const gugo = parseUnits('12.5', 18);
+    const logs = [
+      claimedLog(MANAGER, PLAYER, 5, [4, 0, gugo, 40], 0),
+      claimedLog(MANAGER, PLAYER, 2, [29, 10, BigInt(0), 69], 1),
+      claimedLog(MANAGER, OTHER, 0, [25, 0, BigInt(0), 25], 2),
+      claimedLog(OTHER, PLAYER, 0, [25, 0, BigInt(0), 25], 3), // another contract
+      { ...claimedLog(MANAGER, PLAYER, 0, [1, 0, BigInt(0), 1], 4), data: '0x' as Hash } // undecodable
+    ];
+
+    const rewards = decodePrizeBreakClaimed(logs, MANAGER, PLAYER.toLowerCase() as Address);
+    assert.deepEqual(rewards.map(reward => [reward.logIndex, reward.rewardType, reward.gugoAwarded, reward.newTotalXP]), [
+      [0, 5, gugo.toString(), '40'],
+      [1, 2, '0', '69']
+    ]);
+    assert.equal(rewards[0].blockNumber, 120);
+    assert.equal(rewards[0].txHash, TX);
+  });
+});
+
+describe('mergePrizeClaims', () => {
+  it('puts fresh claims first until the indexer has them, without duplicates', () => {
+    const indexed = [claim(100, 0, { claimedAt: '2025-08-01T00:00:00.000Z' })];
+    const fresh = [claim(120, 1), claim(120, 0)];
+    assert.deepEqual(mergePrizeClaims(indexed, fresh).map(c => [c.blockNumber, c.logIndex]), [[120, 1], [120, 0], [100, 0]]);
+
+    // Once indexed, the indexed row (with its block time) wins
+    const caughtUp = [{ ...fresh[0], claimedAt: '2025-08-02T00:00:00.000Z' }, ...indexed];
+    const merged = mergePrizeClaims(caughtUp, fresh);
+    assert.equal(merged.length, 3);
+    assert.equal(merged[0].claimedAt, '2025-08-02T00:00:00.000Z');
+  });
+});
+
+describe('reward display', () => {
+  it('labels reward types and shows only what was paid', () => {
+    assert.equal(rewardTypeLabel(1), 'Big XP');
+    assert.equal(rewardTypeLabel(13), 'GUGO Tier 9');
+    assert.equal(rewardTypeLabel(42), 'Reward #42');
+
+    assert.equal(formatPrizeReward({ xpAwarded: '15', votesAwarded: '20', gugoAwarded: '0' }), '+15 XP · +20 votes');
+    assert.match(formatPrizeReward({ xpAwarded: '0', votesAwarded: '0', gugoAwarded: parseUnits('12.5', 18).toString() }), /^12\.5 GUGO$/);
+    assert.equal(formatPrizeReward({ xpAwarded: '0', votesAwarded: '0', gugoAwarded: '0' }), 'No reward');
+  });
+});
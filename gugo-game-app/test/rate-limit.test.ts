@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clientIp, createRateLimiter } from '../src/lib/rate-limit';
+
+describe('createRateLimiter', () => {
+  it('allows `limit` requests per key per window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    assert.equal(limiter.take('a', 0), true);
+    assert.equal(limiter.take('a', 10), true);
+    assert.equal(limiter.take('a', 20), false);
+    assert.equal(limiter.take('b', 20), true);
+    assert.equal(limiter.take('a', 1000), true);
+  });
+
+  it('forgets the oldest clients when the key bound is reached', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000, maxKeys: 2 });
+    limiter.take('a', 0);
+    limiter.take('b', 0);
+    limiter.take('c', 0);
+    assert.equal(limiter.take('b', 1), false);
+    assert.equal(limiter.take('a', 1), true);
+  });
+});
+
+describe('clientIp', () => {
+  it('prefers the platform-set x-real-ip over x-forwarded-for', () => {
+    assert.equal(clientIp(new Headers({ 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' })), '203.0.113.7');
+    assert.equal(clientIp(new Headers({ 'x-forwarded-for': '198.51.100.1, 10.0.0.1' })), '198.51.100.1');
+    assert.equal(clientIp(new Headers()), 'unknown');
+  });
+});
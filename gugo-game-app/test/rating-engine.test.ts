@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  INITIAL_DEVIATION,
+  INITIAL_RATING,
+  INITIAL_VOLATILITY,
+  SUPER_VOTE_RATING_MULTIPLIER,
+  createEloEngine,
+  createGlicko2Engine,
+  rateGlicko2Period,
+  type RatingState
+} from '../lib/rating-engine';
+
+const state = (rating: number, deviation = INITIAL_DEVIATION, volatility = INITIAL_VOLATILITY): RatingState => ({
+  rating,
+  deviation,
+  volatility
+});
+
+const assertClose = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+
+describe('Elo engine', () => {
+  const elo = createEloEngine();
+
+  it('gives even odds to equal ratings and ~76% to a 200 point favourite', () => {
+    assert.equal(elo.expectedScore(state(1500), state(1500)), 0.5);
+    assertClose(elo.expectedScore(state(1700), state(1500)), 0.7597, 0.0001);
+    assertClose(elo.expectedScore(state(1500), state(1700)) + elo.expectedScore(state(1700), state(1500)), 1, 1e-12);
+  });
+
+  it('moves both sides by K × (score − expected), zero-sum', () => {
+    const { a, b } = elo.update(state(1500), state(1500), 'a');
+    assert.equal(a.rating, 1516);
+    assert.equal(b.rating, 1484);
+
+    // Upset: the 200 point underdog wins 32 × 0.7597
+    const upset = elo.update(state(1500), state(1700), 'a');
+    assertClose(upset.a.rating - 1500, 24.31, 0.01);
+    assert.equal(upset.a.rating + upset.b.rating, 3200);
+  });
+
+  it('scales with the K-factor and super vote weight, leaving RD and volatility alone', () => {
+    const k16 = createEloEngine({ kFactor: 16 }).update(state(1500), state(1500), 'b');
+    assert.equal(k16.a.rating, 1492);
+    assert.equal(k16.b.rating, 1508);
+
+    const superVote = elo.update(state(1500, 120, 0.05), state(1500), 'a', SUPER_VOTE_RATING_MULTIPLIER);
+    assert.equal(superVote.a.rating, 1532);
+    assert.equal(superVote.a.deviation, 120);
+    assert.equal(superVote.a.volatility, 0.05);
+  });
+});
+
+describe('Glicko-2 engine', () => {
+  it('reproduces the worked example from Glickman\'s paper', () => {
+    // http://www.glicko.net/glicko/glicko2.pdf - tau 0.5, one rating period of three games
+    const rated = rateGlicko2Period(state(1500, 200, 0.06), [
+      { opponent: state(1400, 30), score: 1 },
+      { opponent: state(1550, 100), score: 0 },
+      { opponent: state(1700, 300), score: 0 }
+    ], { tau: 0.5 });
+
+    assertClose(rated.rating, 1464.06, 0.01);
+    assertClose(rated.deviation, 151.52, 0.01);
+    assertClose(rated.volatility, 0.05999, 0.00001);
+  });
+
+  it('rates each matchup as its own period against the pre-game states', () => {
+    const glicko = createGlicko2Engine();
+    const a = state(1500, 200);
+    const b = state(1400, 30);
+
+    const { a: winner, b: loser } = glicko.update(a, b, 'a');
+    assert.deepEqual(winner, rateGlicko2Period(a, [{ opponent: b, score: 1 }]));
+    assert.deepEqual(loser, rateGlicko2Period(b, [{ opponent: a, score: 0 }]));
+
+    // The uncertain side moves much further than the settled one
+    assert.ok(winner.rating - a.rating > 10 * (b.rating - loser.rating));
+    assert.ok(winner.deviation < a.deviation);
+  });
+
+  it('starts new NFTs at the initial state and keeps RD above the floor', () => {
+    const glicko = createGlicko2Engine({ minDeviation: 100 });
+    assert.deepEqual(glicko.initialState(), state(INITIAL_RATING));
+
+    let settled = state(1500, 120);
+    for (let i = 0; i < 20; i++) settled = glicko.update(settled, state(1500, 120), i % 2 === 0 ? 'a' : 'b').a;
+    assert.equal(settled.deviation, 100);
+  });
+
+  it('doubles the rating step for super votes', () => {
+    const glicko = createGlicko2Engine();
+    const normal = glicko.update(state(1500), state(1500), 'a').a;
+    const superVote = glicko.update(state(1500), state(1500), 'a', SUPER_VOTE_RATING_MULTIPLIER).a;
+    assertClose(superVote.rating - 1500, 2 * (normal.rating - 1500), 1e-9);
+    assert.equal(superVote.deviation, normal.deviation);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildIpfsUrl,
+  generateFallbackIPFSUrl,
+  parseIpfsUrlRule,
+  registerIpfsUrlRule,
+  renderIpfsPath
+} from '../src/lib/reservoir-image-optimizer';
+import type { IpfsUrlRule } from '../src/types/collections';
+
+const CID_V0 = 'QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG';
+const CID_V1 = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+
+const rule = (overrides: Partial<IpfsUrlRule> = {}): IpfsUrlRule => ({
+  cid: CID_V0,
+  path_template: '{id}',
+  extension: '.png',
+  token_id_offset: 0,
+  ...overrides
+});
+
+describe('renderIpfsPath', () => {
+  it('renders flat {id} files', () => {
+    assert.equal(renderIpfsPath(rule(), '42'), '42.png');
+  });
+
+  it('renders files in a sub-directory', () => {
+    assert.equal(renderIpfsPath(rule({ path_template: 'images/{id}' }), 7), 'images/7.png');
+  });
+
+  it('renders zero-padded {id:N} files', () => {
+    assert.equal(renderIpfsPath(rule({ path_template: '{id:4}' }), '7'), '0007.png');
+    assert.equal(renderIpfsPath(rule({ path_template: '{id:4}' }), '12345'), '12345.png');
+  });
+
+  it('renders extensionless files', () => {
+    assert.equal(renderIpfsPath(rule({ extension: '' }), '42'), '42');
+  });
+
+  it('renders a per-token folder', () => {
+    assert.equal(renderIpfsPath(rule({ path_template: '{id}/image', extension: '.gif' }), '3'), '3/image.gif');
+  });
+
+  it('applies the token id offset for 0-indexed folders', () => {
+    assert.equal(renderIpfsPath(rule({ token_id_offset: -1 }), '1'), '0.png');
+    assert.equal(renderIpfsPath(rule({ token_id_offset: -1 }), '0'), null);
+  });
+
+  it('rejects non-numeric token ids', () => {
+    assert.equal(renderIpfsPath(rule(), 'abc'), null);
+    assert.equal(renderIpfsPath(rule(), '-1'), null);
+  });
+});
+
+describe('buildIpfsUrl', () => {
+  it('prefixes the CID as an ipfs:// URL', () => {
+    assert.equal(buildIpfsUrl(rule({ cid: CID_V1, path_template: 'art/{id:3}', extension: '.webp' }), '5'), `ipfs://${CID_V1}/art/005.webp`);
+  });
+});
+
+describe('parseIpfsUrlRule', () => {
+  it('fills in defaults for extension and offset', () => {
+    assert.deepEqual(parseIpfsUrlRule({ cid: CID_V0, path_template: '{id}' }), rule({ extension: '' }));
+  });
+
+  it('rejects rules that would build broken URLs', () => {
+    assert.throws(() => parseIpfsUrlRule({ cid: 'not-a-cid', path_template: '{id}' }), /cid/);
+    assert.throws(() => parseIpfsUrlRule({ cid: CID_V0, path_template: 'images/1' }), /path_template/);
+    assert.throws(() => parseIpfsUrlRule({ cid: CID_V0, path_template: '../{id}' }), /relative/);
+    assert.throws(() => parseIpfsUrlRule({ cid: CID_V0, path_template: '{id}', extension: 'png' }), /extension/);
+    assert.throws(() => parseIpfsUrlRule({ cid: CID_V0, path_template: '{id}', token_id_offset: 0.5 }), /token_id_offset/);
+  });
+});
+
+describe('generateFallbackIPFSUrl', () => {
+  const contract = '0x516dc288e26b34557f68ea1c1ff13576eff8a168';
+
+  beforeEach(() => registerIpfsUrlRule(contract, rule({ path_template: 'images/{id}' })));
+
+  it('looks rules up by contract regardless of case', () => {
+    assert.equal(
+      generateFallbackIPFSUrl({ contractAddress: contract.toUpperCase().replace('0X', '0x'), tokenId: '9' }),
+      `ipfs://${CID_V0}/images/9.png`
+    );
+  });
+
+  it('returns null for collections without a rule', () => {
+    assert.equal(generateFallbackIPFSUrl({ contractAddress: '0x0000000000000000000000000000000000000001', tokenId: '9' }), null);
+  });
+});
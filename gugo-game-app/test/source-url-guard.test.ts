@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SourceTooLargeError, UnsafeSourceUrlError, assertPublicUrl, isPrivateAddress, readBodyWithLimit } from '../src/lib/source-url-guard';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and CGNAT IPv4', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      assert.equal(isPrivateAddress(ip), true, ip);
+    }
+    for (const ip of ['8.8.8.8', '172.32.0.1', '100.128.0.1', '104.18.0.1']) {
+      assert.equal(isPrivateAddress(ip), false, ip);
+    }
+  });
+
+  it('flags loopback, unique-local, link-local and IPv4-mapped private IPv6', () => {
+    for (const ip of ['::1', '::', 'fd00::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::FFFF:169.254.169.254']) {
+      assert.equal(isPrivateAddress(ip), true, ip);
+    }
+    for (const ip of ['2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPrivateAddress(ip), false, ip);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('accepts https URLs on public addresses', async () => {
+    const url = await assertPublicUrl('https://104.18.0.1/ipfs/QmHash/1.png');
+    assert.equal(url.pathname, '/ipfs/QmHash/1.png');
+  });
+
+  it('rejects other schemes, local names and private addresses', async () => {
+    for (const url of [
+      'http://104.18.0.1/a.png',
+      'file:///etc/passwd',
+      'ipfs://QmHash/1.png', // gateways rewrite these to https before fetching
+      'https://localhost/a.png',
+      'https://metadata.google.internal/computeMetadata/v1/',
+      'https://169.254.169.254/latest/meta-data/',
+      'https://[::1]/a.png',
+      'https://10.0.0.5:8443/a.png',
+      'not a url'
+    ]) {
+      await assert.rejects(assertPublicUrl(url), UnsafeSourceUrlError, url);
+    }
+  });
+});
+
+describe('readBodyWithLimit', () => {
+  const chunkedResponse = (chunks: number[]) => new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const size of chunks) controller.enqueue(new Uint8Array(size));
+      controller.close();
+    }
+  }));
+
+  it('returns bodies within the limit', async () => {
+    const body = await readBodyWithLimit(chunkedResponse([4, 4]), 8);
+    assert.equal(body.length, 8);
+  });
+
+  it('stops reading once the body passes the limit, even without Content-Length', async () => {
+    await assert.rejects(readBodyWithLimit(chunkedResponse([4, 4, 4]), 8), SourceTooLargeError);
+  });
+
+  it('rejects a declared Content-Length over the limit before reading', async () => {
+    const response = new Response('0123456789', { headers: { 'content-length': '10' } });
+    await assert.rejects(readBodyWithLimit(response, 8), SourceTooLargeError);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeThumbhash, thumbhashBackground, thumbhashToDataUrl } from '../src/lib/thumbhash';
+
+// 8x4 image: left half red, right half blue
+const splitImage = () => {
+  const rgba = new Uint8Array(8 * 4 * 4);
+  for (let i = 0; i < 8 * 4; i++) {
+    const left = i % 8 < 4;
+    rgba.set([left ? 255 : 0, 0, left ? 0 : 255, 255], i * 4);
+  }
+  return rgba;
+};
+
+describe('encodeThumbhash', () => {
+  it('produces a compact base64 hash', () => {
+    const hash = encodeThumbhash(8, 4, splitImage());
+    assert.match(hash, /^[A-Za-z0-9+/]+=*$/);
+    assert.ok(hash.length <= 64);
+  });
+
+  it('rejects inputs larger than the encoder limit', () => {
+    assert.throws(() => encodeThumbhash(200, 10, new Uint8Array(200 * 10 * 4)), /must fit in 100x100/);
+  });
+});
+
+describe('thumbhashToDataUrl', () => {
+  it('decodes to a PNG data URL', () => {
+    const dataUrl = thumbhashToDataUrl(encodeThumbhash(8, 4, splitImage()));
+    assert.ok(dataUrl?.startsWith('data:image/png;base64,'));
+  });
+
+  it('returns undefined for missing or corrupt hashes', () => {
+    assert.equal(thumbhashToDataUrl(null), undefined);
+    assert.equal(thumbhashToDataUrl('!!not base64!!'), undefined);
+    assert.deepEqual(thumbhashBackground(undefined), {});
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { concat, keccak256, type Address, type Hash } from 'viem';
+import {
+  buildVoteBatch,
+  checkVoteProof,
+  hashVoteLeaf,
+  verifyMerkleProof,
+  type CommittedVote,
+  type VoteInclusionProof
+} from '../lib/vote-merkle';
+
+const VOTER = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8' as Address;
+const PERIOD_START = Date.parse('2025-08-01T00:00:00.000Z');
+
+const vote = (n: number, overrides: Partial<CommittedVote> = {}): CommittedVote => ({
+  id: `00000000-0000-4000-8000-${n.toString().padStart(12, '0')}`,
+  voter: VOTER,
+  voteType: 'same_coll',
+  nftAId: `nft-a-${n}`,
+  nftBId: `nft-b-${n}`,
+  winnerId: `nft-a-${n}`,
+  sliderValue: null,
+  superVote: n % 3 === 0,
+  createdAt: new Date(PERIOD_START + n * 1000).toISOString(),
+  ...overrides
+});
+
+const votes = (count: number) => Array.from({ length: count }, (_, n) => vote(n));
+
+const asProof = (batchVotes: CommittedVote[], index: number): VoteInclusionProof => {
+  const built = buildVoteBatch(batchVotes);
+  return {
+    ...built.leaves[index],
+    batch: {
+      id: 1,
+      merkleRoot: built.merkleRoot,
+      periodStart: new Date(PERIOD_START).toISOString(),
+      periodEnd: new Date(PERIOD_START + 24 * 60 * 60 * 1000).toISOString(),
+      voteCount: built.leaves.length,
+      status: 'pending',
+      chainId: null,
+      contract: null,
+      onchainBatchId: null,
+      txHash: null
+    }
+  };
+};
+
+describe('buildVoteBatch', () => {
+  it('gives every vote a proof that reaches the root, for any tree shape', () => {
+    for (let count = 1; count <= 9; count++) {
+      const { merkleRoot, leaves } = buildVoteBatch(votes(count));
+      assert.equal(leaves.length, count);
+      for (const leaf of leaves) {
+        assert.ok(verifyMerkleProof(leaf.leaf, leaf.proof, merkleRoot), `${count} votes, leaf ${leaf.leafIndex}`);
+      }
+    }
+  });
+
+  it('hashes pairs sorted, like OpenZeppelin MerkleProof', () => {
+    const [a, b] = votes(2).map(hashVoteLeaf);
+    const expected = keccak256(a < b ? concat([a, b]) : concat([b, a]));
+    assert.equal(buildVoteBatch(votes(2)).merkleRoot, expected);
+    assert.equal(buildVoteBatch(votes(1)).merkleRoot, hashVoteLeaf(vote(0)));
+  });
+
+  it('builds the same root whatever order the votes arrive in', () => {
+    const ordered = votes(7);
+    assert.equal(buildVoteBatch([...ordered].reverse()).merkleRoot, buildVoteBatch(ordered).merkleRoot);
+
+    // Same timestamp: the vote id breaks the tie
+    const tied = [vote(2, { createdAt: vote(1).createdAt }), vote(1)];
+    assert.deepEqual(buildVoteBatch(tied).leaves.map(leaf => leaf.vote.id), [vote(1).id, vote(2).id]);
+  });
+
+  it('rejects an empty period', () => {
+    assert.throws(() => buildVoteBatch([]), /without votes/);
+  });
+});
+
+describe('checkVoteProof', () => {
+  it('passes a stored proof offline', async () => {
+    const checks = await checkVoteProof(asProof(votes(5), 3));
+    assert.deepEqual(checks.map(check => check.ok), [true, true, true]);
+  });
+
+  it('catches a vote that was changed after batching', async () => {
+    const record = asProof(votes(5), 2);
+    const tampered = { ...record, vote: { ...record.vote, winnerId: record.vote.nftBId } };
+    const [leaf, proof] = await checkVoteProof(tampered);
+    assert.equal(leaf.ok, false);
+    assert.equal(proof.ok, true); // the stored leaf itself is still in the tree
+  });
+
+  it('catches a proof for another leaf or another root', async () => {
+    const record = asProof(votes(6), 1);
+    const wrongSibling = { ...record, proof: [...record.proof].reverse() as Hash[] };
+    assert.equal((await checkVoteProof(wrongSibling))[1].ok, false);
+
+    const otherRoot = { ...record, batch: { ...record.batch, merkleRoot: buildVoteBatch(votes(4)).merkleRoot } };
+    assert.equal((await checkVoteProof(otherRoot))[1].ok, false);
+  });
+
+  it('flags a vote outside the batch period and an unanchored batch', async () => {
+    const late = vote(0, { createdAt: new Date(PERIOD_START + 25 * 60 * 60 * 1000).toISOString() });
+    const [, , period] = await checkVoteProof(asProof([late], 0));
+    assert.equal(period.ok, false);
+
+    const client = { readContract: async () => { throw new Error('should not be called'); } };
+    const checks = await checkVoteProof(asProof(votes(2), 0), client as never);
+    const anchored = checks[checks.length - 1];
+    assert.equal(anchored.ok, false);
+    assert.match(anchored.detail ?? '', /not anchored/);
+  });
+});
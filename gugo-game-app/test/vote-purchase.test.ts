@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeAbiParameters, encodeEventTopics, getAddress, type Address, type Hash } from 'viem';
+import {
+  decodeVotesPurchased,
+  needsApproval,
+  purchaseReducer,
+  purchaseReference,
+  type PurchaseEvent,
+  type PurchaseQuote,
+  type PurchaseState
+} from '../src/lib/vote-purchase';
+import { gugoVoteManagerAbi } from '../src/contracts/abis';
+
+const MANAGER = '0x5fbdb2315678afecb367f032d93f642f64180aa3' as Address;
+const BUYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' as Address;
+const TX = `0x${'ab'.repeat(32)}` as Hash;
+
+const gugoQuote = (allowance: bigint): PurchaseQuote => ({
+  currency: 'GUGO',
+  voteCount: 10,
+  cost: BigInt(2000),
+  balance: BigInt(5000),
+  allowance,
+  token: '0x3eAd960365697E1809683617af9390ABC9C24E56'
+});
+
+const run = (events: PurchaseEvent[], from: PurchaseState = { status: 'idle' }) => events.reduce(purchaseReducer, from);
+
+const votesPurchasedLog = (address: Address, user: Address, amount: number, logIndex: number) => ({
+  address,
+  logIndex,
+  topics: encodeEventTopics({ abi: gugoVoteManagerAbi, eventName: 'VotesPurchased', args: { user } }) as [Hash, ...Hash[]],
+  data: encodeAbiParameters(
+    [{ type: 'uint256' }, { type: 'uint256' }, { type: 'string' }],
+    [BigInt(amount), BigInt(1234), 'GUGO']
+  )
+});
+
+describe('purchaseReducer', () => {
+  it('walks a GUGO purchase through approval to confirmed', () => {
+    const state = run([
+      { type: 'QUOTE_REQUESTED' },
+      { type: 'QUOTED', quote: gugoQuote(BigInt(0)) },
+      { type: 'APPROVAL_STARTED' },
+      { type: 'APPROVAL_SUBMITTED', hash: TX },
+      { type: 'PURCHASE_STARTED' },
+      { type: 'PURCHASE_SUBMITTED', hash: TX },
+      { type: 'MINED' },
+      { type: 'CREDITED', votesAdded: 10, balance: 25 }
+    ]);
+    assert.deepEqual(state, { status: 'confirmed', txHash: TX, votesAdded: 10, balance: 25 });
+  });
+
+  it('ignores events that do not fit the current step', () => {
+    const quoted = run([{ type: 'QUOTE_REQUESTED' }, { type: 'QUOTED', quote: gugoQuote(BigInt(0)) }]);
+    assert.equal(purchaseReducer(quoted, { type: 'MINED' }), quoted);
+    assert.equal(purchaseReducer(quoted, { type: 'CREDITED', votesAdded: 10, balance: 10 }), quoted);
+
+    const confirming = run([{ type: 'PURCHASE_STARTED' }, { type: 'PURCHASE_SUBMITTED', hash: TX }], quoted);
+    assert.equal(purchaseReducer(confirming, { type: 'QUOTE_REQUESTED' }), confirming);
+  });
+
+  it('keeps the tx hash when a submitted purchase fails', () => {
+    const state = run([
+      { type: 'QUOTE_REQUESTED' },
+      { type: 'QUOTED', quote: gugoQuote(BigInt(5000)) },
+      { type: 'PURCHASE_STARTED' },
+      { type: 'PURCHASE_SUBMITTED', hash: TX },
+      { type: 'FAILED', error: 'Purchase transaction reverted' }
+    ]);
+    assert.equal(state.status, 'failed');
+    assert.equal(state.status === 'failed' && state.txHash, TX);
+  });
+
+  it('resumes a pending purchase from idle only', () => {
+    assert.deepEqual(run([{ type: 'RESUMED', hash: TX }]), { status: 'confirming', txHash: TX });
+    const quoting = run([{ type: 'QUOTE_REQUESTED' }]);
+    assert.equal(purchaseReducer(quoting, { type: 'RESUMED', hash: TX }), quoting);
+  });
+});
+
+describe('needsApproval', () => {
+  it('requires approval only for GUGO below the quoted cost', () => {
+    assert.equal(needsApproval(gugoQuote(BigInt(0))), true);
+    assert.equal(needsApproval(gugoQuote(BigInt(2000))), false);
+    assert.equal(needsApproval({ ...gugoQuote(BigInt(0)), currency: 'ETH', allowance: null, token: null }), false);
+  });
+});
+
+describe('decodeVotesPurchased', () => {
+  it('decodes events from the vote manager and skips other contracts', () => {
+    const logs = [
+      votesPurchasedLog(MANAGER, BUYER, 10, 3),
+      votesPurchasedLog('0x0000000000000000000000000000000000000001', BUYER, 99, 4)
+    ];
+    // Receipts carry lowercase addresses; configured addresses are usually checksummed
+    const events = decodeVotesPurchased(logs, getAddress(MANAGER));
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].user, BUYER);
+    assert.equal(events[0].amount, BigInt(10));
+    assert.equal(events[0].cost, BigInt(1234));
+    assert.equal(events[0].currency, 'GUGO');
+    assert.equal(events[0].logIndex, 3);
+  });
+
+  it('skips unrelated logs from the vote manager', () => {
+    const transfer = { ...votesPurchasedLog(MANAGER, BUYER, 10, 0), topics: [`0x${'00'.repeat(32)}`] as [Hash] };
+    assert.deepEqual(decodeVotesPurchased([transfer], MANAGER), []);
+  });
+});
+
+describe('purchaseReference', () => {
+  it('is stable across tx hash casing', () => {
+    assert.equal(purchaseReference(31337, TX.toUpperCase(), 2), purchaseReference(31337, TX, 2));
+  });
+});